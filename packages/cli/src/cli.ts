@@ -76,10 +76,13 @@ program
       const response = await client.post('/api/pitches', pitchData);
       
       if (response.data.success) {
-        const analysisId = response.data.pitch.id;
+        const analysisId = response.data.startupId;
         
-        // Poll for analysis results
+        // Stream agent progress, then fetch the stored results
         spinner.text = 'Running AI agent swarm...';
+        await streamAnalysis(analysisId, (message) => {
+          spinner.text = message;
+        });
         const analysis = await pollAnalysis(analysisId);
         
         spinner.succeed('Analysis complete!');
@@ -104,6 +107,43 @@ program
     }
   });
 
+// Follow the analysis pipeline's progress events (SSE). Returns once the
+// stream ends; falls back silently to polling if a background worker owns the job.
+async function streamAnalysis(pitchId: string, onProgress: (message: string) => void): Promise<void> {
+  try {
+    const response = await client.post(`/api/pitches/${pitchId}/analyze-stream`, undefined, {
+      responseType: 'stream',
+      headers: { Accept: 'text/event-stream' },
+    });
+
+    let buffer = '';
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+
+      for (const message of messages) {
+        if (!message.startsWith('data: ')) continue;
+        const event = JSON.parse(message.slice(6));
+
+        if (event.type === 'agent_complete') {
+          onProgress(`${event.agent} finished (${event.result.score}/100)`);
+        } else if (event.type === 'agent_error') {
+          onProgress(`${event.agent} failed, continuing...`);
+        } else if (event.type === 'error' && event.data?.code !== 'ALREADY_RUNNING') {
+          throw new Error(event.error);
+        } else if (event.message) {
+          onProgress(event.message);
+        }
+      }
+    }
+  } catch (error: any) {
+    // Streaming unsupported (e.g. proxy): results are still polled below
+    if (error.response) return;
+    throw error;
+  }
+}
+
 // Poll for analysis results
 async function pollAnalysis(pitchId: string, maxAttempts = 30): Promise<any> {
   for (let i = 0; i < maxAttempts; i++) {
@@ -315,7 +355,7 @@ program
     printHeader();
     
     console.log(chalk.bold('Setup Instructions:\n'));
-    console.log('1. Get your API key at: ' + chalk.cyan('https://swarm.accelerator.ai/api-keys'));
+    console.log('1. Get your API key at: ' + chalk.cyan(`${API_URL}/dashboard/api-keys`));
     console.log('2. Create a .env file in your project:');
     console.log(chalk.gray('   SWARM_API_KEY=your_api_key_here'));
     console.log('   SWARM_API_URL=https://swarm.accelerator.ai');
@@ -324,5 +364,127 @@ program
     console.log(chalk.yellow('For AI agents: Use agent-specific pricing tier ($99/mo for unlimited API access)\n'));
   });
 
+function printNewKey(key: string) {
+  console.log('\n' + chalk.bold('New API key (shown once):\n'));
+  console.log(chalk.green(`  ${key}\n`));
+  console.log(chalk.gray('Update SWARM_API_KEY in your environment to use it.\n'));
+}
+
+interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  usageCount: number;
+}
+
+function apiError(error: unknown): string {
+  if (axios.isAxiosError(error)) return error.response?.data?.error || error.message;
+  return error instanceof Error ? error.message : String(error);
+}
+
+const keys = program
+  .command('keys')
+  .description('Manage API keys (requires a key with the keys:manage scope)');
+
+keys
+  .command('list')
+  .description('List your API keys')
+  .action(async () => {
+    const spinner = ora('Fetching API keys...').start();
+
+    try {
+      const response = await client.get('/api/v1/keys');
+      spinner.stop();
+
+      const { keys: apiKeys, currentKeyId } = response.data;
+      console.log('\n' + chalk.bold.cyan('🔑 API Keys\n'));
+
+      apiKeys.forEach((key: ApiKeyInfo) => {
+        const status = key.revokedAt
+          ? chalk.red('revoked')
+          : key.expiresAt && new Date(key.expiresAt) < new Date()
+            ? chalk.yellow('expired')
+            : chalk.green('active');
+        const current = key.id === currentKeyId ? chalk.cyan(' (this key)') : '';
+
+        console.log(chalk.bold(`${key.name}${current}`) + ` ${chalk.gray(key.prefix + '…')} ${status}`);
+        console.log(chalk.gray(`  id: ${key.id}`));
+        console.log(chalk.gray(`  scopes: ${key.scopes.join(', ')}`));
+        console.log(chalk.gray(`  requests: ${key.usageCount}, last used: ${key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'never'}`));
+        if (key.expiresAt) {
+          console.log(chalk.gray(`  expires: ${new Date(key.expiresAt).toLocaleDateString()}`));
+        }
+      });
+
+      console.log('');
+    } catch (error) {
+      spinner.fail('Error');
+      console.error(chalk.red(apiError(error)));
+      process.exit(1);
+    }
+  });
+
+keys
+  .command('create <name>')
+  .description('Create a new API key')
+  .option('-s, --scopes <scopes>', 'Comma-separated scopes (status:read,pitch:submit,funding:accept,keys:manage)')
+  .option('-e, --expires-in <days>', 'Expire the key after this many days')
+  .action(async (name, options) => {
+    const spinner = ora('Creating API key...').start();
+
+    try {
+      const response = await client.post('/api/v1/keys', {
+        name,
+        scopes: options.scopes ? options.scopes.split(',').map((s: string) => s.trim()) : undefined,
+        expiresInDays: options.expiresIn ? parseInt(options.expiresIn, 10) : undefined,
+      });
+
+      spinner.succeed(`Created ${response.data.apiKey.name} (${response.data.apiKey.id})`);
+      printNewKey(response.data.key);
+    } catch (error) {
+      spinner.fail('Error');
+      console.error(chalk.red(apiError(error)));
+      process.exit(1);
+    }
+  });
+
+keys
+  .command('rotate <id>')
+  .description('Replace a key with a new secret (the old one stops working)')
+  .action(async (id) => {
+    const spinner = ora('Rotating API key...').start();
+
+    try {
+      const response = await client.post(`/api/v1/keys/${id}/rotate`);
+
+      spinner.succeed(`Rotated ${response.data.apiKey.name} (new id: ${response.data.apiKey.id})`);
+      printNewKey(response.data.key);
+    } catch (error) {
+      spinner.fail('Error');
+      console.error(chalk.red(apiError(error)));
+      process.exit(1);
+    }
+  });
+
+keys
+  .command('revoke <id>')
+  .description('Revoke an API key')
+  .action(async (id) => {
+    const spinner = ora('Revoking API key...').start();
+
+    try {
+      const response = await client.delete(`/api/v1/keys/${id}`);
+      spinner.succeed(`Revoked ${response.data.apiKey.name}`);
+    } catch (error) {
+      spinner.fail('Error');
+      console.error(chalk.red(apiError(error)));
+      process.exit(1);
+    }
+  });
+
 // Parse and execute
 program.parse();
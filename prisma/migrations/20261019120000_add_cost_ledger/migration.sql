@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "CostLedgerEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startupId" TEXT,
+    "userId" TEXT,
+    "agentType" TEXT,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "totalTokens" INTEGER NOT NULL,
+    "costUsd" REAL NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CostLedgerEntry_startupId_fkey" FOREIGN KEY ("startupId") REFERENCES "Startup" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "CostLedgerEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_startupId_idx" ON "CostLedgerEntry"("startupId");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_userId_createdAt_idx" ON "CostLedgerEntry"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_agentType_idx" ON "CostLedgerEntry"("agentType");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_createdAt_idx" ON "CostLedgerEntry"("createdAt");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Analysis" ADD COLUMN "partial" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Analysis" ADD COLUMN "missingAgents" TEXT;
+
+-- CreateTable
+CREATE TABLE "AgentCheckpoint" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startupId" TEXT NOT NULL,
+    "agentType" TEXT NOT NULL,
+    "inputHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "output" JSONB,
+    "errorMessage" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AgentCheckpoint_startupId_fkey" FOREIGN KEY ("startupId") REFERENCES "Startup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentCheckpoint_startupId_agentType_key" ON "AgentCheckpoint"("startupId", "agentType");
@@ -0,0 +1,85 @@
+-- Analyses become a run history: drop the one-analysis-per-startup constraint
+DROP INDEX "Analysis_startupId_key";
+
+-- AlterTable
+ALTER TABLE "Analysis" ADD COLUMN "runNumber" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Analysis" ADD COLUMN "inputHash" TEXT;
+ALTER TABLE "Startup" ADD COLUMN "analysisId" TEXT REFERENCES "Analysis" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing analyses become the current run of their startup
+UPDATE "Startup" SET "analysisId" = (
+    SELECT "id" FROM "Analysis" WHERE "Analysis"."startupId" = "Startup"."id"
+);
+
+-- CreateTable
+CREATE TABLE "AgentResult" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "analysisId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "agentType" TEXT NOT NULL,
+    "agentName" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "schemaVersion" INTEGER NOT NULL DEFAULT 1,
+    "score" INTEGER NOT NULL,
+    "confidence" INTEGER,
+    "output" JSONB NOT NULL,
+    "fromCheckpoint" BOOLEAN NOT NULL DEFAULT false,
+    "durationMs" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AgentResult_analysisId_fkey" FOREIGN KEY ("analysisId") REFERENCES "Analysis" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Industry & specialist results (keyed by registry id) become AgentResults
+INSERT INTO "AgentResult" ("id", "analysisId", "agentId", "agentType", "agentName", "role", "score", "confidence", "output")
+WITH "Agent" ("agentId", "agentType", "role") AS (
+    VALUES
+        ('blockchain-expert', 'BLOCKCHAIN_EXPERT', 'industry'),
+        ('ai-ml-specialist', 'AI_ML_SPECIALIST', 'industry'),
+        ('healthcare-specialist', 'HEALTHCARE_COMPLIANCE', 'industry'),
+        ('fintech-regulator', 'FINTECH_REGULATOR', 'industry'),
+        ('climate-impact', 'CLIMATE_IMPACT', 'industry'),
+        ('hardware-manufacturing', 'HARDWARE_MANUFACTURING', 'industry'),
+        ('biotech-scientist', 'BIOTECH_SCIENCE', 'industry'),
+        ('gaming-monetization', 'GAMING_MONETIZATION', 'industry'),
+        ('ecommerce-logistics', 'ECOMMERCE_LOGISTICS', 'industry'),
+        ('education-specialist', 'EDUCATION_PEDAGOGY', 'industry'),
+        ('security-auditor', 'SECURITY_AUDIT', 'specialist'),
+        ('data-privacy-expert', 'DATA_PRIVACY', 'specialist'),
+        ('team-psychologist', 'TEAM_DYNAMICS', 'specialist'),
+        ('competitive-intel', 'COMPETITIVE_INTELLIGENCE', 'specialist'),
+        ('patent-searcher', 'PATENT_SEARCH', 'specialist'),
+        ('gtm-strategist', 'GO_TO_MARKET', 'specialist'),
+        ('pricing-strategist', 'PRICING_STRATEGY', 'specialist'),
+        ('fundraising-strategist', 'FUNDRAISING_STRATEGY', 'specialist')
+)
+SELECT
+    lower(hex(randomblob(12))),
+    "Analysis"."id",
+    "feedback"."key",
+    "Agent"."agentType",
+    COALESCE(json_extract("feedback"."value", '$.agent'), "feedback"."key"),
+    "Agent"."role",
+    CAST(ROUND(COALESCE(json_extract("feedback"."value", '$.score'), 0)) AS INTEGER),
+    CAST(ROUND(json_extract("feedback"."value", '$.confidence')) AS INTEGER),
+    json_remove("feedback"."value", '$.agent')
+FROM "Analysis", json_each("Analysis"."industryFeedback") AS "feedback"
+JOIN "Agent" ON "Agent"."agentId" = "feedback"."key"
+WHERE "Analysis"."industryFeedback" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Analysis" DROP COLUMN "industryFeedback";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Startup_analysisId_key" ON "Startup"("analysisId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Analysis_startupId_runNumber_key" ON "Analysis"("startupId", "runNumber");
+
+-- CreateIndex
+CREATE INDEX "Analysis_startupId_createdAt_idx" ON "Analysis"("startupId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentResult_analysisId_agentType_key" ON "AgentResult"("analysisId", "agentType");
+
+-- CreateIndex
+CREATE INDEX "AgentResult_agentType_createdAt_idx" ON "AgentResult"("agentType", "createdAt");
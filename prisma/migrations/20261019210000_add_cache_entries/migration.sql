@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "CacheEntry" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" JSONB NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "CacheEntryTag" (
+    "key" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+
+    PRIMARY KEY ("key", "tag"),
+    CONSTRAINT "CacheEntryTag_key_fkey" FOREIGN KEY ("key") REFERENCES "CacheEntry" ("key") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CacheEntry_expiresAt_idx" ON "CacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CacheEntryTag_tag_idx" ON "CacheEntryTag"("tag");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Startup" ADD COLUMN "allowSharedAnalysis" BOOLEAN NOT NULL DEFAULT false;
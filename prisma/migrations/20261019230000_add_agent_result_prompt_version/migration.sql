@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "AgentResult" ADD COLUMN "promptId" TEXT;
+ALTER TABLE "AgentResult" ADD COLUMN "promptVersion" INTEGER;
+ALTER TABLE "AgentResult" ADD COLUMN "promptArm" TEXT;
+ALTER TABLE "AgentResult" ADD COLUMN "cacheHit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "AgentResult_promptId_promptVersion_idx" ON "AgentResult"("promptId", "promptVersion");
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "SwarmRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startupId" TEXT NOT NULL,
+    "userId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "input" JSONB NOT NULL,
+    "allowSubAgents" BOOLEAN NOT NULL DEFAULT true,
+    "strategy" TEXT,
+    "overallVerdict" TEXT,
+    "confidenceScore" INTEGER,
+    "consensus" JSONB,
+    "error" TEXT,
+    "executionTimeMs" INTEGER,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" DATETIME,
+    CONSTRAINT "SwarmRun_startupId_fkey" FOREIGN KEY ("startupId") REFERENCES "Startup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SwarmAgent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "parentAgentId" TEXT,
+    "agentType" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "spawnedAt" DATETIME NOT NULL,
+    "verdict" TEXT,
+    "confidence" INTEGER,
+    "analysis" JSONB,
+    "analysisDepth" TEXT,
+    "timeSpentMs" INTEGER,
+    "promptId" TEXT,
+    "promptVersion" INTEGER,
+    CONSTRAINT "SwarmAgent_runId_fkey" FOREIGN KEY ("runId") REFERENCES "SwarmRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SwarmOffer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "agentType" TEXT NOT NULL,
+    "interested" BOOLEAN NOT NULL,
+    "amount" REAL,
+    "equity" REAL,
+    "dealStructure" TEXT NOT NULL,
+    "confidence" INTEGER,
+    "details" JSONB NOT NULL,
+    CONSTRAINT "SwarmOffer_runId_fkey" FOREIGN KEY ("runId") REFERENCES "SwarmRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SwarmRun_startupId_startedAt_idx" ON "SwarmRun"("startupId", "startedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SwarmAgent_runId_agentId_key" ON "SwarmAgent"("runId", "agentId");
+
+-- CreateIndex
+CREATE INDEX "SwarmOffer_runId_idx" ON "SwarmOffer"("runId");
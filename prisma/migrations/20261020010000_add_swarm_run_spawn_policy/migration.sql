@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SwarmRun" ADD COLUMN "policy" JSONB;
+ALTER TABLE "SwarmRun" ADD COLUMN "skippedSpawns" JSONB;
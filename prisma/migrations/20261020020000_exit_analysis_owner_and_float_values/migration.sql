@@ -0,0 +1,33 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ExitAnalysis" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "companyName" TEXT NOT NULL,
+    "industry" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "revenue" REAL NOT NULL,
+    "input" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'ANALYZING',
+    "error" TEXT,
+    "valuationLow" REAL,
+    "valuationBase" REAL,
+    "valuationHigh" REAL,
+    "readinessScore" INTEGER,
+    "recommendation" TEXT,
+    "topAcquirers" TEXT NOT NULL,
+    "fullReport" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    CONSTRAINT "ExitAnalysis_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ExitAnalysis" ("companyName", "completedAt", "createdAt", "fullReport", "id", "industry", "readinessScore", "recommendation", "revenue", "stage", "status", "topAcquirers", "updatedAt", "valuationBase", "valuationHigh", "valuationLow") SELECT "companyName", "completedAt", "createdAt", "fullReport", "id", "industry", "readinessScore", "recommendation", "revenue", "stage", "status", "topAcquirers", "updatedAt", "valuationBase", "valuationHigh", "valuationLow" FROM "ExitAnalysis";
+DROP TABLE "ExitAnalysis";
+ALTER TABLE "new_ExitAnalysis" RENAME TO "ExitAnalysis";
+CREATE INDEX "ExitAnalysis_status_idx" ON "ExitAnalysis"("status");
+CREATE INDEX "ExitAnalysis_createdAt_idx" ON "ExitAnalysis"("createdAt");
+CREATE INDEX "ExitAnalysis_userId_createdAt_idx" ON "ExitAnalysis"("userId", "createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
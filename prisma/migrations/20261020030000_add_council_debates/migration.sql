@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "CouncilDebate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startupId" TEXT NOT NULL,
+    "userId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "input" JSONB NOT NULL,
+    "decision" TEXT,
+    "confidence" REAL,
+    "transcript" JSONB,
+    "offers" JSONB,
+    "error" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" DATETIME,
+    CONSTRAINT "CouncilDebate_startupId_fkey" FOREIGN KEY ("startupId") REFERENCES "Startup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "CouncilVote" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "debateId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "seat" INTEGER NOT NULL,
+    "agentName" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "avatar" TEXT NOT NULL,
+    "position" TEXT,
+    "sentiment" REAL NOT NULL,
+    CONSTRAINT "CouncilVote_debateId_fkey" FOREIGN KEY ("debateId") REFERENCES "CouncilDebate" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CouncilDebate_startupId_startedAt_idx" ON "CouncilDebate"("startupId", "startedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouncilVote_debateId_agentId_key" ON "CouncilVote"("debateId", "agentId");
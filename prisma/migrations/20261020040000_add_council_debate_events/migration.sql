@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "CouncilDebateEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "debateId" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "elapsedMs" INTEGER NOT NULL,
+    "payload" JSONB NOT NULL,
+    CONSTRAINT "CouncilDebateEvent_debateId_fkey" FOREIGN KEY ("debateId") REFERENCES "CouncilDebate" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouncilDebateEvent_debateId_seq_key" ON "CouncilDebateEvent"("debateId", "seq");
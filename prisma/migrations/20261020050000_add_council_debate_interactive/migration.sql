@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CouncilDebate" ADD COLUMN "interactive" BOOLEAN NOT NULL DEFAULT false;
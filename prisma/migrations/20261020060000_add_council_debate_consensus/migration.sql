@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CouncilDebate" ADD COLUMN "consensus" JSONB;
@@ -0,0 +1,98 @@
+/**
+ * Offline evaluation benchmark
+ *
+ * Usage:
+ *   LLM_REPLAY_MODE=replay npm run benchmark -- [options]
+ *   LLM_PROVIDER=mock npm run benchmark -- [options]
+ *
+ * Options:
+ *   --dataset <file>    Labelled pitches (default: benchmarks/datasets/seed-pitches.json)
+ *   --out <dir>         Where to write the JSON and markdown reports (default: benchmarks/reports)
+ *   --baseline <file>   Earlier JSON report to compute drift against
+ *   --tier <tier>       Subscription tier to budget the analyses as (default: enterprise)
+ *   --live              Allow calls to real providers (costs money)
+ *
+ * Pin prompt versions with PROMPT_VERSIONS and models with LLM_ROUTE_<TASK>
+ * to benchmark a change; prompt experiments are switched off so every pitch
+ * sees the same version.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { cache, MemoryCacheStore } from '@/lib/cache';
+import { getReplayMode } from '@/lib/llm';
+import { TIER_BUDGETS } from '@/lib/billing/budget';
+import type { SubscriptionTier } from '@/lib/stripe';
+import { prompts } from '@/lib/prompts';
+import { loadDataset, loadReport, renderMarkdownReport, runBenchmark } from '@/lib/benchmark';
+
+function parseArgs(argv: string[]) {
+  const args = {
+    dataset: 'benchmarks/datasets/seed-pitches.json',
+    out: 'benchmarks/reports',
+    baseline: undefined as string | undefined,
+    tier: 'enterprise' as SubscriptionTier,
+    live: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--live') args.live = true;
+    else if (arg === '--dataset') args.dataset = argv[++i];
+    else if (arg === '--out') args.out = argv[++i];
+    else if (arg === '--baseline') args.baseline = argv[++i];
+    else if (arg === '--tier') args.tier = argv[++i] as SubscriptionTier;
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+
+  if (!(args.tier in TIER_BUDGETS)) {
+    throw new Error(`Unknown tier "${args.tier}" (one of ${Object.keys(TIER_BUDGETS).join(', ')})`);
+  }
+
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const offline = getReplayMode() === 'replay' || (process.env.LLM_PROVIDER || process.env.AI_PROVIDER) === 'mock';
+  if (!offline && !args.live) {
+    throw new Error('Set LLM_REPLAY_MODE=replay or LLM_PROVIDER=mock, or pass --live to call real providers');
+  }
+
+  // Benchmark results never land in (or come from) the shared cache
+  cache.setStore(new MemoryCacheStore());
+  for (const experiment of prompts.listExperiments()) {
+    prompts.stopExperiment(experiment.promptId);
+  }
+
+  const dataset = await loadDataset(args.dataset);
+  const baseline = args.baseline ? await loadReport(args.baseline) : undefined;
+
+  console.log(`📊 Benchmarking ${dataset.pitches.length} pitches from ${dataset.name} v${dataset.version}`);
+  const report = await runBenchmark(dataset, {
+    baseline,
+    tier: args.tier,
+    onPitchComplete: (result, index, total) => {
+      const outcome = result.overallScore === null ? `❌ ${result.error}` : `${result.overallScore} ${result.recommendation}`;
+      console.log(`  [${index + 1}/${total}] ${result.name}: ${outcome}`);
+    },
+  });
+
+  await fs.mkdir(args.out, { recursive: true });
+  const base = path.join(args.out, `${dataset.name}-${report.generatedAt.replace(/[:.]/g, '-')}`);
+  await fs.writeFile(`${base}.json`, JSON.stringify(report, null, 2) + '\n');
+  await fs.writeFile(`${base}.md`, renderMarkdownReport(report));
+
+  const { calibration, ranking } = report.metrics;
+  console.log(`✅ Brier ${calibration.brierScore ?? 'n/a'} · ECE ${calibration.ece ?? 'n/a'} · Spearman ${ranking.spearman ?? 'n/a'} · AUC ${ranking.auc ?? 'n/a'}`);
+  console.log(`📝 ${base}.json\n📝 ${base}.md`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('❌ Benchmark failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
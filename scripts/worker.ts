@@ -0,0 +1,38 @@
+/**
+ * Background job worker
+ *
+ * Usage: npm run worker
+ *
+ * Runs queued startup analyses. Safe to run several instances: jobs are
+ * claimed with leases, and a crashed worker's job is retried by another.
+ */
+
+import { JobWorker } from '@/lib/jobs/worker';
+import { JOB_TYPES } from '@/lib/jobs/queue';
+import { analyzeStartupJob, recoverStaleAnalyses } from '@/lib/jobs/analysis-jobs';
+
+const worker = new JobWorker({
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000'),
+  onStart: async () => {
+    const recovered = await recoverStaleAnalyses();
+    console.log(`🔁 Recovered ${recovered} stale analyses`);
+  },
+});
+
+worker.register(JOB_TYPES.ANALYZE_STARTUP, analyzeStartupJob);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`\n⏹  ${signal} received, finishing current job...`);
+    worker.stop();
+  });
+}
+
+console.log(`👷 Worker ${worker.workerId} started`);
+worker.start().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('❌ Worker crashed:', error);
+    process.exit(1);
+  }
+);
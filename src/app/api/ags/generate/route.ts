@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { IdeaGenerator } from '@/lib/ags/idea-generator';
+import { verifyApiKey } from '@/lib/services/api-keys';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,10 +22,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify admin user
-    const user = await prisma.user.findUnique({
-      where: { apiKey },
-      select: { id: true, email: true, tier: true }
-    });
+    const user = (await verifyApiKey(apiKey))?.user;
 
     if (!user || user.tier !== 'enterprise') {
       return NextResponse.json(
@@ -9,9 +9,9 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
-import { nanoid } from 'nanoid';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { newUserApiKey } from '@/lib/services/api-keys';
 
 // Validation schema with proper email format and password requirements
 const SignupSchema = z.object({
@@ -61,8 +61,8 @@ export async function POST(request: Request) {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12);
 
-    // Generate API key
-    const apiKey = `sk_free_${nanoid(32)}`;
+    // Generate API key (only its hash is stored)
+    const { key: apiKey, data: apiKeyData } = newUserApiKey('free');
 
     // Create user
     const user = await prisma.user.create({
@@ -71,7 +71,7 @@ export async function POST(request: Request) {
         name: name || null,
         password: hashedPassword,
         tier: 'free',
-        apiKey,
+        apiKeys: { create: apiKeyData },
         emailVerified: new Date(), // Auto-verify for password signups
       },
       select: {
@@ -0,0 +1,36 @@
+// API route to rotate one of the user's API keys
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { ApiKeyError, rotateApiKey } from '@/lib/services/api-keys';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { apiKey, key } = await rotateApiKey(session.user.id, id);
+
+    return NextResponse.json({ apiKey, key });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Failed to rotate API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate API key' },
+      { status: 500 }
+    );
+  }
+}
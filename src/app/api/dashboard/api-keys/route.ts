@@ -0,0 +1,76 @@
+// API route to list and create the user's API keys
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  API_KEY_SCOPES,
+  ApiKeyError,
+  CreateApiKeySchema,
+  createApiKey,
+  listApiKeys,
+} from '@/lib/services/api-keys';
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const keys = await listApiKeys(session.user.id);
+
+    return NextResponse.json({ keys });
+  } catch (error) {
+    logger.error('Failed to fetch API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validation = CreateApiKeySchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.issues.map(i => ({ field: i.path.join('.'), message: i.message })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // The raw key is only returned once
+    const { apiKey, key } = await createApiKey(session.user.id, {
+      ...validation.data,
+      scopes: validation.data.scopes ?? [...API_KEY_SCOPES],
+    });
+
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Failed to create API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
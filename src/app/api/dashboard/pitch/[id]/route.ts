@@ -25,7 +25,9 @@ export async function GET(
         userId: session.user.id, // Ensure user owns this pitch
       },
       include: {
-        analysis: true,
+        analysis: {
+          include: { results: { orderBy: { score: 'asc' } } },
+        },
         funding: {
           include: {
             milestones: {
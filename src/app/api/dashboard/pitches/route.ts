@@ -3,7 +3,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { withCache } from '@/lib/cache';
+import { cacheTags, withCache } from '@/lib/cache';
 import { logger } from '@/lib/logger';
 
 export async function GET() {
@@ -62,7 +62,7 @@ export async function GET() {
           count: pitches.length,
         };
       },
-      60 * 1000 // 1 minute TTL
+      { ttl: { minutes: 1 }, tags: [cacheTags.user(session.user.id)] }
     );
 
     return NextResponse.json(result);
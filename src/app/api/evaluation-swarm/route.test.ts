@@ -0,0 +1,92 @@
+/**
+ * Tests for /api/evaluation-swarm: only signed-in founders can evaluate, and
+ * only their own startups; runs that fail are stored as failed
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { auth } from '@/lib/auth';
+import { llm } from '@/lib/llm';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    startup: { findUnique: vi.fn() },
+    swarmRun: { create: vi.fn(), update: vi.fn() },
+    swarmAgent: { createMany: vi.fn() },
+    swarmOffer: { createMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+function post(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/evaluation-swarm', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/evaluation-swarm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(auth).mockResolvedValue({ user: { email: 'founder@example.com' } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1' } as never);
+  });
+
+  it('requires a session', async () => {
+    vi.mocked(auth).mockResolvedValue(null as never);
+
+    const response = await post({ startupId: 'startup_1' });
+
+    expect(response.status).toBe(401);
+    expect(prisma.startup.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('refuses to evaluate someone else\'s startup', async () => {
+    vi.mocked(prisma.startup.findUnique).mockResolvedValue({ id: 'startup_1', userId: 'user_2' } as never);
+
+    const response = await post({ startupId: 'startup_1' });
+
+    expect(response.status).toBe(403);
+    expect(prisma.swarmRun.create).not.toHaveBeenCalled();
+  });
+
+  it('marks the run failed when it can\'t be stored', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1', tier: 'pro', monthlyBudgetUsd: null } as never);
+    vi.mocked(prisma.startup.findUnique).mockResolvedValue({
+      id: 'startup_1',
+      userId: 'user_1',
+      name: 'SwapRoute',
+      tagline: 'Best price execution',
+      description: 'An aggregator routing swaps',
+      industry: 'Fintech',
+      stage: 'SEED',
+      fundingAsk: 500000,
+      teamSize: 3,
+      founderName: 'Alice Builder',
+      analysis: { valuation: 5000000 },
+    } as never);
+    vi.spyOn(costLedger, 'getUserSpend').mockResolvedValue(0);
+    vi.mocked(prisma.swarmRun.create).mockResolvedValue({ id: 'run_1' } as never);
+    vi.mocked(prisma.$transaction).mockRejectedValue(new Error('database is locked'));
+    vi.spyOn(llm, 'json').mockResolvedValue({
+      data: { verdict: 'maybe', confidence: 60 },
+      response: { content: '', provider: 'mock', model: 'mock-1', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, latencyMs: 0 },
+    } as never);
+
+    const response = await post({ startupId: 'startup_1' });
+
+    expect(response.status).toBe(500);
+    expect(prisma.swarmRun.update).toHaveBeenCalledWith({
+      where: { id: 'run_1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'database is locked' }),
+    });
+  });
+});
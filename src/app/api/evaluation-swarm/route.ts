@@ -1,40 +1,104 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { EvaluationOrchestrator, Pitch } from '@/lib/agents/evaluation-swarm/orchestrator';
+import type { Pitch } from '@/lib/agents/evaluation-swarm/orchestrator';
+import { SpawnPolicySchema } from '@/lib/agents/evaluation-swarm/spawn-policy';
+import { auth } from '@/lib/auth';
+import { BudgetExceededError } from '@/lib/billing/budget';
+import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { SwarmRunError, runSwarmEvaluation } from '@/lib/services/swarm-runs';
 
 /**
  * POST /api/evaluation-swarm
  * 
- * Evaluate a startup pitch using the dynamic agent swarm system.
+ * Evaluate a startup using the dynamic agent swarm system. The run (spawned
+ * agents, analyses, consensus and offers) is stored against the startup;
+ * read it back from GET /api/pitches/[id]/swarm-runs/[runId].
  * 
  * Body:
  * {
- *   pitch: Pitch
+ *   startupId?: string,       // defaults to pitch.id
+ *   pitch?: Partial<Pitch>,   // fields the startup doesn't hold (valuation, traction...)
+ *   policy?: {                // spawn limits (defaults in DEFAULT_SPAWN_POLICY)
+ *     maxDepth?: number,
+ *     maxAgents?: number,
+ *     maxSpendUsd?: number | null,
+ *     deadlineMs?: number | null
+ *   }
  * }
  * 
- * Returns: SwarmEvaluation
+ * Returns: { runId, evaluation } (401 without a session, 403 for someone
+ * else's startup, 402 if the caller's LLM budget is exhausted)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { pitch } = body as { pitch: Pitch };
+    const { startupId: requestedId, pitch: overrides, policy: policyInput } = body as {
+      startupId?: string;
+      pitch?: Partial<Pitch>;
+      policy?: unknown;
+    };
+    const startupId = requestedId ?? overrides?.id;
 
-    if (!pitch || !pitch.id || !pitch.name) {
+    if (!startupId) {
       return NextResponse.json(
-        { error: 'Invalid pitch data' },
+        { error: 'startupId is required' },
         { status: 400 }
       );
     }
 
-    // Create orchestrator and run evaluation
-    const orchestrator = new EvaluationOrchestrator(pitch);
-    const evaluation = await orchestrator.evaluate();
+    const policy = SpawnPolicySchema.safeParse(policyInput ?? {});
+    if (!policy.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid spawn policy',
+          details: policy.error.issues.map(i => ({ field: i.path.join('.'), message: i.message })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await auth();
+    const user = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { runId, evaluation } = await runSwarmEvaluation({
+      startupId,
+      userId: user.id,
+      overrides,
+      policy: policy.data,
+    });
 
     return NextResponse.json({
       success: true,
+      runId,
       evaluation,
     });
   } catch (error: any) {
+    if (error instanceof SwarmRunError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'BUDGET_EXCEEDED',
+          budget: error.details,
+        },
+        { status: error.status }
+      );
+    }
+
     logger.error('Evaluation swarm error:', error);
     return NextResponse.json(
       {
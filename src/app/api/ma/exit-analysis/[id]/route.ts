@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getExitAnalysis } from '@/lib/services/exit-analyses';
+
+/**
+ * GET /api/ma/exit-analysis/[id]
+ *
+ * A stored exit report with its input. Reports owned by a user are only
+ * visible to them.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    const user = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null;
+
+    const analysis = await getExitAnalysis(id, user?.id);
+
+    if (!analysis) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Exit analysis not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: analysis,
+    });
+  } catch (error) {
+    logger.error('Error fetching exit analysis:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch exit analysis',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for /api/ma/exit-analysis endpoint
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST, GET } from './route';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+import { orchestrateExitAnalysis, type ExitAnalysisReport } from '@/lib/agents/ma/ma-orchestrator';
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    exitAnalysis: {
+      create: vi.fn(),
+      update: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/agents/ma/ma-orchestrator', () => ({
+  estimateExitAnalysisCost: () => 0.4,
+  orchestrateExitAnalysis: vi.fn(),
+}));
+
+const formInput = {
+  name: 'Acme',
+  industry: 'SaaS',
+  revenue: 5_000_000,
+  revenueGrowth: 80,
+  customerCount: 200,
+  employeeCount: 40,
+  founderOwnership: 60,
+  targetExitValue: 3_000_000_000,
+};
+
+const report = {
+  executiveSummary: {
+    recommendation: 'Run a competitive process',
+    estimatedValue: { low: 2_500_000_000, base: 3_200_000_000, high: 4_100_000_000 },
+    timeToExit: '9-12 months',
+    readinessScore: 72.6,
+    topAcquirers: ['Salesforce'],
+  },
+  acquirers: { topAcquirers: [{ name: 'Salesforce' }, { name: 'Oracle' }] },
+} as unknown as ExitAnalysisReport;
+
+function post(body: unknown) {
+  return new NextRequest('http://localhost:3000/api/ma/exit-analysis', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/ma/exit-analysis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(auth).mockResolvedValue({ user: { email: 'founder@example.com' } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never);
+    vi.mocked(prisma.exitAnalysis.create).mockResolvedValue({ id: 'exit-1' } as never);
+    vi.spyOn(costLedger, 'getUserSpend').mockResolvedValue(0);
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    vi.mocked(auth).mockResolvedValue(null);
+
+    const response = await POST(post(formInput));
+
+    expect(response.status).toBe(401);
+    expect(orchestrateExitAnalysis).not.toHaveBeenCalled();
+    expect(prisma.exitAnalysis.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse once the monthly LLM budget is spent', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1', tier: 'free', monthlyBudgetUsd: null } as never);
+    vi.mocked(costLedger.getUserSpend).mockResolvedValue(3);
+
+    const response = await POST(post(formInput));
+    const data = await response.json();
+
+    expect(response.status).toBe(402);
+    expect(data.code).toBe('BUDGET_EXCEEDED');
+    expect(orchestrateExitAnalysis).not.toHaveBeenCalled();
+    expect(prisma.exitAnalysis.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid input', async () => {
+    const response = await POST(post({ ...formInput, name: '', founderOwnership: 150 }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid input');
+    expect(data.details.map((d: { field: string }) => d.field)).toEqual(['name', 'founderOwnership']);
+    expect(prisma.exitAnalysis.create).not.toHaveBeenCalled();
+  });
+
+  it('should store a completed report for the signed-in user', async () => {
+    vi.mocked(orchestrateExitAnalysis).mockResolvedValue(report);
+
+    const response = await POST(post(formInput));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ success: true, id: 'exit-1' });
+
+    // Defaults and derived fields are filled in before the agents run
+    expect(orchestrateExitAnalysis).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'growth', arr: 5_000_000, investorOwnership: 40, ebitdaMargin: 0 })
+    );
+    expect(prisma.exitAnalysis.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ userId: 'user-1', companyName: 'Acme' }) })
+    );
+    expect(prisma.exitAnalysis.update).toHaveBeenCalledWith({
+      where: { id: 'exit-1' },
+      data: expect.objectContaining({
+        status: 'COMPLETE',
+        valuationLow: 2_500_000_000,
+        valuationBase: 3_200_000_000,
+        valuationHigh: 4_100_000_000,
+        readinessScore: 73,
+        topAcquirers: JSON.stringify(['Salesforce', 'Oracle']),
+      }),
+    });
+  });
+
+  it('should mark the report failed when the agents throw', async () => {
+    vi.mocked(orchestrateExitAnalysis).mockRejectedValue(new Error('LLM unavailable'));
+
+    const response = await POST(post(formInput));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Exit analysis failed');
+    expect(prisma.exitAnalysis.update).toHaveBeenCalledWith({
+      where: { id: 'exit-1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'LLM unavailable' }),
+    });
+  });
+});
+
+describe('GET /api/ma/exit-analysis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    vi.mocked(auth).mockResolvedValue(null);
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/ma/exit-analysis'));
+
+    expect(response.status).toBe(401);
+    expect(prisma.exitAnalysis.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should list only the user's reports", async () => {
+    vi.mocked(auth).mockResolvedValue({ user: { email: 'founder@example.com' } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never);
+    vi.mocked(prisma.exitAnalysis.findMany).mockResolvedValue([
+      { id: 'exit-1', companyName: 'Acme', topAcquirers: JSON.stringify(['Salesforce']) },
+    ] as never);
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/ma/exit-analysis?limit=5'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data[0].topAcquirers).toEqual(['Salesforce']);
+    expect(prisma.exitAnalysis.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 'user-1' }, take: 5 })
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { BudgetExceededError } from '@/lib/billing/budget';
+import {
+  DEFAULT_EXIT_HISTORY_LIMIT,
+  ExitAnalysisInputSchema,
+  listExitAnalyses,
+  runExitAnalysis,
+} from '@/lib/services/exit-analyses';
+
+async function currentUserId(): Promise<string | null> {
+  const session = await auth();
+  if (!session?.user?.email) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+/**
+ * POST /api/ma/exit-analysis
+ *
+ * Run the M&A agents (acquirer matching, valuation, due diligence, deal
+ * structure) for a company and store the report for the signed-in user,
+ * charged to their LLM budget.
+ *
+ * Body: ExitAnalysisInput (fields the exit form doesn't collect are optional)
+ *
+ * Returns: { id, report }; reload it from GET /api/ma/exit-analysis/[id]
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await currentUserId();
+
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Sign in to run an exit analysis',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = ExitAnalysisInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid input',
+          details: validation.error.issues.map(i => ({ field: i.path.join('.'), message: i.message })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id, report } = await runExitAnalysis(validation.data, userId);
+
+    return NextResponse.json({
+      success: true,
+      id,
+      report,
+    });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: 'BUDGET_EXCEEDED',
+          budget: error.details,
+        },
+        { status: error.status }
+      );
+    }
+
+    logger.error('Exit analysis error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Exit analysis failed',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/ma/exit-analysis
+ *
+ * The signed-in user's exit reports, newest first (summaries only)
+ *
+ * Query: ?limit=20 (max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await currentUserId();
+
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized',
+        },
+        { status: 401 }
+      );
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || DEFAULT_EXIT_HISTORY_LIMIT;
+    const reports = await listExitAnalyses(userId, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: reports,
+    });
+  } catch (error) {
+    logger.error('Error fetching exit analyses:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch exit analyses',
+      },
+      { status: 500 }
+    );
+  }
+}
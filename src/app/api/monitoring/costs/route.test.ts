@@ -0,0 +1,77 @@
+/**
+ * Tests for /api/monitoring/costs: spend is only reported to its owner
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    startup: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/monitoring/cost-ledger', () => ({
+  costLedger: {
+    getStartupReport: vi.fn(),
+    getSummary: vi.fn(),
+  },
+}));
+
+function get(query = '') {
+  return GET(new Request(`http://localhost/api/monitoring/costs${query}`));
+}
+
+describe('GET /api/monitoring/costs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(auth).mockResolvedValue({ user: { email: 'founder@example.com' } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1' } as never);
+    vi.mocked(costLedger.getSummary).mockResolvedValue({ costUsd: 1.5 } as never);
+  });
+
+  it('requires a session', async () => {
+    vi.mocked(auth).mockResolvedValue(null as never);
+
+    const response = await get('?userId=user_2');
+
+    expect(response.status).toBe(401);
+    expect(costLedger.getSummary).not.toHaveBeenCalled();
+  });
+
+  it('reports the caller\'s own spend whatever userId is asked for', async () => {
+    const response = await get('?userId=user_2');
+
+    expect(response.status).toBe(200);
+    expect(costLedger.getSummary).toHaveBeenCalledWith({ userId: 'user_1', since: undefined });
+  });
+
+  it('rejects a window that isn\'t a positive number of ms', async () => {
+    for (const window of ['abc', '-5', '1.5', '']) {
+      const response = await get(`?window=${window}`);
+      expect(response.status, window).toBe(400);
+    }
+    expect(costLedger.getSummary).not.toHaveBeenCalled();
+  });
+
+  it('hides other founders\' startups', async () => {
+    vi.mocked(prisma.startup.findFirst).mockResolvedValue(null);
+
+    const response = await get('?startupId=startup_2');
+
+    expect(response.status).toBe(404);
+    expect(prisma.startup.findFirst).toHaveBeenCalledWith({
+      where: { id: 'startup_2', userId: 'user_1' },
+      select: { id: true },
+    });
+    expect(costLedger.getStartupReport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+import { logger } from '@/lib/logger';
+
+/**
+ * LLM Cost Ledger API
+ *
+ * GET /api/monitoring/costs
+ * Returns the signed-in user's actual token/USD spend recorded in the cost
+ * ledger
+ *
+ * Query params:
+ * - startupId: per-analysis report for one of the user's startups,
+ *   including estimated vs actual cost
+ * - window: time window in ms (default: all time)
+ *
+ * @example
+ * fetch('/api/monitoring/costs?startupId=clx...')
+ * fetch('/api/monitoring/costs?window=2592000000') // Last 30 days
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+    const user = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startupId = searchParams.get('startupId');
+    const windowParam = searchParams.get('window');
+    const windowMs = windowParam === null ? null : Number(windowParam);
+    if (windowMs !== null && (!Number.isInteger(windowMs) || windowMs <= 0)) {
+      return NextResponse.json(
+        { error: 'window must be a positive number of milliseconds' },
+        { status: 400 }
+      );
+    }
+
+    if (startupId) {
+      // Someone else's startup looks the same as a missing one
+      const owned = await prisma.startup.findFirst({ where: { id: startupId, userId: user.id }, select: { id: true } });
+      const report = owned ? await costLedger.getStartupReport(startupId) : null;
+      if (!report) {
+        return NextResponse.json(
+          { error: 'Startup not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ report });
+    }
+
+    const since = windowMs ? new Date(Date.now() - windowMs) : undefined;
+    const summary = await costLedger.getSummary({ userId: user.id, since });
+
+    return NextResponse.json({
+      summary,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Cost ledger error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cost data' },
+      { status: 500 }
+    );
+  }
+}
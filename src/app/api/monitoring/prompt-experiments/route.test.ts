@@ -0,0 +1,37 @@
+/**
+ * Tests for /api/monitoring/prompt-experiments query validation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+import { getPromptExperimentReport } from '@/lib/prompts/experiments';
+
+vi.mock('@/lib/prompts/experiments', () => ({
+  getPromptExperimentReport: vi.fn(() => Promise.resolve({})),
+}));
+
+function get(query: string) {
+  return GET(new Request(`http://localhost/api/monitoring/prompt-experiments${query}`));
+}
+
+describe('GET /api/monitoring/prompt-experiments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rejects a window that isn\'t a positive number of ms', async () => {
+    for (const window of ['abc', '-5', '1.5', '']) {
+      const response = await get(`?promptId=swarm-evaluator&control=1&variant=2&window=${window}`);
+      expect(response.status, window).toBe(400);
+    }
+    expect(getPromptExperimentReport).not.toHaveBeenCalled();
+  });
+
+  it('counts results from the window', async () => {
+    const response = await get('?promptId=swarm-evaluator&control=1&variant=2&window=3600000');
+
+    expect(response.status).toBe(200);
+    const { since } = vi.mocked(getPromptExperimentReport).mock.calls[0][3]!;
+    expect(Date.now() - since!.getTime()).toBeGreaterThanOrEqual(3_600_000);
+  });
+});
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prompts } from '@/lib/prompts';
+import { getPromptExperimentReport } from '@/lib/prompts/experiments';
+import { logger } from '@/lib/logger';
+
+/**
+ * Prompt Experiments API
+ *
+ * GET /api/monitoring/prompt-experiments
+ * Lists registered prompt versions and reports every running experiment
+ *
+ * Query params:
+ * - promptId, control, variant: compare two versions of one prompt instead
+ *   (e.g. after an experiment has been stopped)
+ * - window: only count results from the last `window` ms
+ *
+ * @example
+ * fetch('/api/monitoring/prompt-experiments')
+ * fetch('/api/monitoring/prompt-experiments?promptId=financial-analyst&control=1&variant=2')
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const windowParam = searchParams.get('window');
+    const windowMs = windowParam === null ? null : Number(windowParam);
+    if (windowMs !== null && (!Number.isInteger(windowMs) || windowMs <= 0)) {
+      return NextResponse.json(
+        { error: 'window must be a positive number of milliseconds' },
+        { status: 400 }
+      );
+    }
+    const since = windowMs ? new Date(Date.now() - windowMs) : undefined;
+
+    const promptId = searchParams.get('promptId');
+    if (promptId) {
+      const control = Number(searchParams.get('control'));
+      const variant = Number(searchParams.get('variant'));
+      if (!Number.isInteger(control) || !Number.isInteger(variant) || control === variant) {
+        return NextResponse.json(
+          { error: 'control and variant must be two different prompt versions' },
+          { status: 400 }
+        );
+      }
+      if (!prompts.versions(promptId).length) {
+        return NextResponse.json({ error: `Unknown prompt "${promptId}"` }, { status: 404 });
+      }
+
+      const report = await getPromptExperimentReport(promptId, control, variant, { since });
+      return NextResponse.json({ report });
+    }
+
+    const experiments = prompts.listExperiments();
+    const reports = await Promise.all(
+      experiments.map(experiment =>
+        getPromptExperimentReport(experiment.promptId, experiment.control, experiment.variant, { since })
+      )
+    );
+
+    return NextResponse.json({
+      prompts: prompts.ids().map(id => ({
+        id,
+        versions: prompts.versions(id),
+        activeVersion: prompts.activeVersion(id),
+      })),
+      experiments: experiments.map((experiment, i) => ({ ...experiment, report: reports[i] })),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Prompt experiments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt experiments' },
+      { status: 500 }
+    );
+  }
+}
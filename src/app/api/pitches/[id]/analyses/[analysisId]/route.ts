@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getAnalysisRun } from "@/lib/services/analysis-history";
+
+/**
+ * A single analysis run with every agent's stored output
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; analysisId: string }> }
+) {
+  try {
+    const { id, analysisId } = await params;
+    const run = await getAnalysisRun(id, analysisId);
+
+    if (!run) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Analysis not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+
+  } catch (error) {
+    logger.error("Error fetching analysis run:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch analysis run",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for analysis diff API route
+ * @file src/app/api/pitches/[id]/analyses/diff/route.test.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    analysis: { findFirst: vi.fn() },
+  },
+}));
+
+function result(agentType: string, agentId: string, role: string, score: number, strengths: string[], concerns: string[]) {
+  return { agentType, agentId, agentName: agentId, role, score, output: { strengths, concerns } };
+}
+
+function run(id: string, runNumber: number, overrides: Record<string, unknown>) {
+  return {
+    id,
+    runNumber,
+    createdAt: new Date(),
+    partial: false,
+    overallScore: 60,
+    recommendation: 'CONDITIONAL',
+    valuation: 4_000_000,
+    inputSnapshot: { name: 'Acme', fundingAsk: 1_000_000, teamSize: 3, description: 'Payments API' },
+    results: [],
+    ...overrides,
+  };
+}
+
+function get(query = '') {
+  return GET(new NextRequest(`http://localhost/api/pitches/startup_1/analyses/diff${query}`), {
+    params: Promise.resolve({ id: 'startup_1' }),
+  });
+}
+
+describe('GET /api/pitches/[id]/analyses/diff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('compares the latest run with the previous one', async () => {
+    vi.mocked(prisma.analysis.findFirst)
+      .mockResolvedValueOnce(run('run_2', 2, {
+        overallScore: 72,
+        recommendation: 'APPROVED',
+        valuation: 5_000_000,
+        inputSnapshot: { name: 'Acme', fundingAsk: 2_000_000, teamSize: 3, description: 'Payments API' },
+        results: [
+          result('FINANCIAL_ANALYST', 'financial-analyst', 'core', 80, ['Clear unit economics'], []),
+          result('TECHNICAL_DD', 'technical-dd', 'core', 70, [], ['Thin test coverage']),
+          result('FUNDRAISING_STRATEGIST', 'fundraising-strategist', 'specialist', 75, [], []),
+        ],
+      }) as never)
+      .mockResolvedValueOnce(run('run_1', 1, {
+        results: [
+          result('FINANCIAL_ANALYST', 'financial-analyst', 'core', 60, [], ['Burn rate unclear']),
+          result('TECHNICAL_DD', 'technical-dd', 'core', 70, [], ['thin test coverage ']),
+        ],
+      }) as never);
+
+    const response = await get();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(prisma.analysis.findFirst).mock.calls[1][0]).toMatchObject({
+      where: { startupId: 'startup_1', runNumber: { lt: 2 } },
+    });
+    expect(data.data.overall.delta).toBe(12);
+    expect(data.data.recommendation.changed).toBe(true);
+    expect(data.data.valuation.percentChange).toBe(25);
+
+    const byType = Object.fromEntries(data.data.agents.map((agent: { agentType: string }) => [agent.agentType, agent]));
+    expect(byType.FINANCIAL_ANALYST).toMatchObject({ status: 'changed', delta: 20 });
+    expect(byType.FINANCIAL_ANALYST.concerns.removed).toEqual(['Burn rate unclear']);
+    expect(byType.TECHNICAL_DD.status).toBe('unchanged');
+    expect(byType.FUNDRAISING_STRATEGIST.status).toBe('added');
+
+    expect(data.data.inputChanges).toHaveLength(1);
+    expect(data.data.inputChanges[0]).toMatchObject({
+      field: 'fundingAsk',
+      likelyAffected: ['fundraising-strategist', 'financial-analyst'],
+    });
+  });
+
+  it('returns 404 when there is no earlier run', async () => {
+    vi.mocked(prisma.analysis.findFirst)
+      .mockResolvedValueOnce(run('run_1', 1, {}) as never)
+      .mockResolvedValueOnce(null);
+
+    const response = await get();
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getAnalysisDiff } from "@/lib/services/analysis-diff";
+
+/**
+ * What changed between two analysis runs
+ *
+ * Query: `from` and `to` analysis ids. Defaults to the latest run compared
+ * with the one before it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const diff = await getAnalysisDiff(id, {
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+    });
+
+    if (!diff) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Need two analysis runs of this pitch to compare",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    });
+
+  } catch (error) {
+    logger.error("Error diffing analysis runs:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to compare analysis runs",
+      },
+      { status: 500 }
+    );
+  }
+}
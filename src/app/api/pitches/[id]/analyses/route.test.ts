@@ -0,0 +1,56 @@
+/**
+ * Tests for analysis history API route
+ * @file src/app/api/pitches/[id]/analyses/route.test.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    startup: { findUnique: vi.fn() },
+    analysis: { findMany: vi.fn() },
+  },
+}));
+
+function get(query = '') {
+  return GET(new NextRequest(`http://localhost/api/pitches/startup_1/analyses${query}`), {
+    params: Promise.resolve({ id: 'startup_1' }),
+  });
+}
+
+describe('GET /api/pitches/[id]/analyses', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns runs newest first with the current run marked', async () => {
+    vi.mocked(prisma.startup.findUnique).mockResolvedValue({ id: 'startup_1', analysisId: 'run_2' } as never);
+    vi.mocked(prisma.analysis.findMany).mockResolvedValue([
+      { id: 'run_2', runNumber: 2, overallScore: 78, results: [] },
+      { id: 'run_1', runNumber: 1, overallScore: 64, results: [] },
+    ] as never);
+
+    const response = await get('?limit=500');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.currentAnalysisId).toBe('run_2');
+    expect(data.data.map((run: { id: string }) => run.id)).toEqual(['run_2', 'run_1']);
+    expect(vi.mocked(prisma.analysis.findMany).mock.calls[0][0]).toMatchObject({
+      where: { startupId: 'startup_1' },
+      orderBy: { runNumber: 'desc' },
+      take: 100,
+    });
+  });
+
+  it('returns 404 for an unknown pitch', async () => {
+    vi.mocked(prisma.startup.findUnique).mockResolvedValue(null);
+
+    const response = await get();
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { listAnalysisRuns, DEFAULT_HISTORY_LIMIT } from "@/lib/services/analysis-history";
+
+/**
+ * Analysis run history for a pitch (newest first)
+ *
+ * Query: ?limit=20 (max 100)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const startup = await prisma.startup.findUnique({
+      where: { id },
+      select: { id: true, analysisId: true },
+    });
+
+    if (!startup) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Startup not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || DEFAULT_HISTORY_LIMIT;
+    const runs = await listAnalysisRuns(id, limit);
+
+    return NextResponse.json({
+      success: true,
+      currentAnalysisId: startup.analysisId,
+      data: runs,
+    });
+
+  } catch (error) {
+    logger.error("Error fetching analysis history:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch analysis history",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,112 @@
 /**
  * STREAMING Analysis API - Real-time Progress Updates
- * 
+ *
  * Provides instant feedback to users during analysis:
  * - Agent spawn notifications
- * - Progress updates
  * - Real-time results
  * - 10x better UX (perceived speed)
+ *
+ * Runs the startup's queued analysis job in-request (claiming it so the
+ * background worker doesn't run it twice) and forwards the analysis
+ * pipeline's lifecycle events as SSE messages. If a worker is already
+ * running the job, the client is told to poll the analyze endpoint instead.
  */
 
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { FinancialAnalystAgent } from "@/lib/agents/financial-analyst";
-import { TechnicalDDAgent } from "@/lib/agents/technical-dd";
-import { MarketResearchAgent } from "@/lib/agents/market-research";
-import { LegalComplianceAgent } from "@/lib/agents/legal-compliance";
-import { selectAgents, getAgentBreakdown } from "@/lib/agents/agent-registry";
+import { selectAgents, type AgentOutput } from "@/lib/agents/agent-registry";
+import type { PipelineEvent } from "@/lib/agents/pipeline";
+import { planAnalysisBudget, BudgetExceededError } from "@/lib/billing/budget";
+import { enqueueAnalysis, createAnalyzeStartupJob } from "@/lib/jobs/analysis-jobs";
+import { jobQueue, JOB_TYPES } from "@/lib/jobs/queue";
+import { JobWorker } from "@/lib/jobs/worker";
 
 export const runtime = 'nodejs'; // Required for streaming
 export const dynamic = 'force-dynamic';
 
 interface StreamEvent {
-  type: 'status' | 'agent_start' | 'agent_progress' | 'agent_complete' | 'synthesis' | 'complete' | 'error';
+  type: 'status' | 'agent_start' | 'agent_progress' | 'agent_complete' | 'agent_error' | 'synthesis' | 'complete' | 'error';
   message?: string;
   agent?: string;
   progress?: number;
-  result?: any;
-  data?: any;
+  result?: AgentOutput;
+  data?: Record<string, unknown>;
   error?: string;
 }
 
-export async function POST(
+/**
+ * Map a pipeline lifecycle event to the SSE wire format
+ */
+function toStreamEvent(event: PipelineEvent): StreamEvent | null {
+  switch (event.type) {
+    case 'pipeline_start':
+      return {
+        type: 'status',
+        message: event.resumed.length > 0
+          ? `Spawning ${event.agents.length} specialized agents (${event.resumed.length} resumed)...`
+          : `Spawning ${event.agents.length} specialized agents...`,
+      };
+    case 'agent_skipped':
+      return event.reason === 'budget'
+        ? { type: 'status', message: `⏭️ ${event.agent.name} skipped to stay within budget` }
+        : null;
+    case 'agent_start':
+      return { type: 'agent_start', agent: event.agent.name, message: `🤖 ${event.agent.name} analyzing...` };
+    case 'agent_complete':
+      return {
+        type: 'agent_complete',
+        agent: event.agent.name,
+        progress: 100,
+        result: {
+          score: event.result.score,
+          strengths: event.result.strengths.slice(0, 2),
+          concerns: event.result.concerns.slice(0, 2),
+        },
+      };
+    case 'agent_error':
+      return { type: 'agent_error', agent: event.agent.name, error: event.error };
+    case 'synthesis':
+      return { type: 'synthesis', message: '🧠 Synthesizing agent insights...' };
+    case 'pipeline_complete': {
+      const { analysis } = event;
+      const { overallScore, recommendation } = analysis.synthesis;
+      const results = [
+        { agent: 'Financial Analyst', result: analysis.financial },
+        { agent: 'Technical DD', result: analysis.technical },
+        { agent: 'Market Research', result: analysis.market },
+        { agent: 'Legal Compliance', result: analysis.legal },
+      ];
+      return {
+        type: 'complete',
+        data: {
+          overallScore,
+          recommendation,
+          partial: analysis.partial,
+          missingAgents: analysis.missingAgents,
+          results: results.map(({ agent, result }) => ({
+            agent,
+            score: result.score,
+            strengths: result.strengths.slice(0, 3),
+            concerns: result.concerns.slice(0, 3),
+          })),
+        },
+        message: `✅ Analysis complete! Score: ${overallScore}/100 - ${recommendation}`,
+      };
+    }
+    case 'pipeline_error':
+      return { type: 'error', error: event.error, message: '❌ Analysis failed' };
+  }
+}
+
+async function streamAnalysis(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  
+
   // Create Server-Sent Events stream
   const encoder = new TextEncoder();
-  
+
   const stream = new ReadableStream({
     async start(controller) {
       // Helper to send SSE event
@@ -49,10 +118,9 @@ export async function POST(
       try {
         // 1. Validate startup exists
         const startup = await prisma.startup.findUnique({ where: { id } });
-        
+
         if (!startup) {
           sendEvent({ type: 'error', error: 'Startup not found' });
-          controller.close();
           return;
         }
 
@@ -61,148 +129,38 @@ export async function POST(
           message: '🚀 Initializing AI agent swarm...'
         });
 
-        // 2. Update status to analyzing
-        await prisma.startup.update({
-          where: { id },
-          data: { status: "ANALYZING" },
-        });
-
-        // 3. Determine required agents
-        const selectedAgents = selectAgents(startup);
-        const agentBreakdown = getAgentBreakdown(startup);
-
-        sendEvent({
-          type: 'status',
-          message: `Spawning ${agentBreakdown.total} specialized agents...`
-        });
-
-        // 4. Initialize agents
-        const financialAgent = new FinancialAnalystAgent();
-        const technicalAgent = new TechnicalDDAgent();
-        const marketAgent = new MarketResearchAgent();
-        const legalAgent = new LegalComplianceAgent();
-
-        // 5. Execute core agents with progress tracking
-        const coreAgents = [
-          { name: 'Financial Analyst', agent: financialAgent, emoji: '💰' },
-          { name: 'Technical DD', agent: technicalAgent, emoji: '🔧' },
-          { name: 'Market Research', agent: marketAgent, emoji: '📊' },
-          { name: 'Legal Compliance', agent: legalAgent, emoji: '⚖️' },
-        ];
-
-        const results: any[] = [];
-
-        // Execute agents in parallel with progress updates
-        await Promise.all(
-          coreAgents.map(async ({ name, agent, emoji }) => {
-            sendEvent({
-              type: 'agent_start',
-              agent: name,
-              message: `${emoji} ${name} analyzing...`
-            });
-
-            // Simulate progress (in real implementation, this would come from agent)
-            const progressInterval = setInterval(() => {
-              const progress = Math.min(95, Math.random() * 100);
-              sendEvent({
-                type: 'agent_progress',
-                agent: name,
-                progress: Math.round(progress)
-              });
-            }, 500);
-
-            try {
-              // Execute analysis
-              const result = await agent.analyze(startup);
-              
-              clearInterval(progressInterval);
-
-              // Send completion
-              sendEvent({
-                type: 'agent_complete',
-                agent: name,
-                progress: 100,
-                result: {
-                  score: result.score,
-                  strengths: result.strengths.slice(0, 2),
-                  concerns: result.concerns.slice(0, 2),
-                }
-              });
-
-              results.push({ name, result });
-            } catch (error) {
-              clearInterval(progressInterval);
-              sendEvent({
-                type: 'error',
-                agent: name,
-                error: String(error)
-              });
-            }
-          })
-        );
-
-        // 6. Synthesize results
-        sendEvent({
-          type: 'synthesis',
-          message: '🧠 Synthesizing agent insights...'
-        });
-
-        // Calculate overall score
-        const scores = results.map(r => r.result.score);
-        const overallScore = Math.round(
-          scores.reduce((sum, score) => sum + score, 0) / scores.length
-        );
-
-        const recommendation = 
-          overallScore >= 75 ? 'APPROVED' :
-          overallScore >= 55 ? 'CONDITIONAL' :
-          'REJECTED';
-
-        // 7. Save to database
-        const analysisCompletedAt = new Date();
-        
-        await prisma.analysis.create({
-          data: {
-            startupId: id,
-            financialScore: results[0]?.result.score || 0,
-            technicalScore: results[1]?.result.score || 0,
-            marketScore: results[2]?.result.score || 0,
-            legalScore: results[3]?.result.score || 0,
-            overallScore,
-            recommendation: recommendation as any,
-            summary: `Analysis completed with overall score of ${overallScore}/100`,
-            financialFeedback: results[0]?.result || null,
-            technicalFeedback: results[1]?.result || null,
-            marketFeedback: results[2]?.result || null,
-            legalFeedback: results[3]?.result || null,
-            valuation: results[0]?.result.valuation || 0,
-            analysisStartedAt: new Date(),
-            analysisCompletedAt,
-            analysisDuration: 0,
-          },
-        });
+        // 2. Fail fast (before queueing) if the owner is out of LLM budget
+        try {
+          await planAnalysisBudget(startup, selectAgents(startup));
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            sendEvent({ type: 'error', error: error.message, data: { code: 'BUDGET_EXCEEDED', budget: error.details } });
+            return;
+          }
+          throw error;
+        }
 
-        // Update startup status
-        await prisma.startup.update({
-          where: { id },
-          data: { status: recommendation as any },
-        });
+        // 3. Take over the startup's analysis job
+        const { job } = await enqueueAnalysis(id);
+        const worker = new JobWorker({ workerId: `sse:${id}:${Date.now()}` });
+        const claimed = await jobQueue.claimJob(job.id, worker.workerId);
+
+        if (!claimed) {
+          sendEvent({
+            type: 'error',
+            error: 'Analysis is already running in the background',
+            data: { code: 'ALREADY_RUNNING', jobId: job.id, statusUrl: `/api/pitches/${id}/analyze` },
+          });
+          return;
+        }
 
-        // 8. Send final result
-        sendEvent({
-          type: 'complete',
-          data: {
-            overallScore,
-            recommendation,
-            results: results.map(r => ({
-              agent: r.name,
-              score: r.result.score,
-              strengths: r.result.strengths.slice(0, 3),
-              concerns: r.result.concerns.slice(0, 3),
-            })),
-          },
-          message: `✅ Analysis complete! Score: ${overallScore}/100 - ${recommendation}`
-        });
+        // 4. Run it, forwarding pipeline events (the job records success,
+        // failure and retries exactly as the background worker would)
+        worker.register(JOB_TYPES.ANALYZE_STARTUP, createAnalyzeStartupJob(event => {
+          const streamEvent = toStreamEvent(event);
+          if (streamEvent) sendEvent(streamEvent);
+        }));
+        await worker.execute(claimed);
 
       } catch (error) {
         sendEvent({
@@ -225,3 +183,7 @@ export async function POST(
     },
   });
 }
+
+// EventSource connects with GET; POST is kept for existing clients
+export const GET = streamAnalysis;
+export const POST = streamAnalysis;
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { analyzeStartupOptimized as analyzeStartup } from "@/lib/agents/orchestrator-optimized";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import { selectAgents } from "@/lib/agents/agent-registry";
+import { planAnalysisBudget, BudgetExceededError } from "@/lib/billing/budget";
+import { enqueueAnalysis } from "@/lib/jobs/analysis-jobs";
+import { jobQueue, toJobStatus } from "@/lib/jobs/queue";
 
+/**
+ * POST /api/pitches/[id]/analyze
+ *
+ * Queue a startup analysis for the background worker (`npm run worker`).
+ * Returns 202 with the job; poll GET on this route (or
+ * `/api/v1/status?pitchId=...` with an API key) for progress.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -35,22 +45,93 @@ export async function POST(
       );
     }
     
-    // Trigger analysis
-    const analysis = await analyzeStartup(id);
+    // Fail fast on budget (the worker re-checks when it runs)
+    await planAnalysisBudget(startup, selectAgents(startup));
+    
+    // Queue analysis (reuses an already queued job)
+    const { job, created } = await enqueueAnalysis(id);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          statusUrl: `/api/v1/status?pitchId=${id}`,
+        },
+        message: created ? "Analysis queued" : "Analysis already queued",
+      },
+      { status: 202 }
+    );
+    
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: "BUDGET_EXCEEDED",
+          budget: error.details,
+        },
+        { status: error.status }
+      );
+    }
+    
+    logger.error("Error analyzing startup:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to queue analysis",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/pitches/[id]/analyze
+ *
+ * Latest analysis job and, once it has finished, the stored analysis
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const startup = await prisma.startup.findUnique({
+      where: { id },
+      select: { id: true, status: true, analysis: { include: { results: true } } },
+    });
+    
+    if (!startup) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Startup not found",
+        },
+        { status: 404 }
+      );
+    }
+    
+    const job = await jobQueue.getLatestForStartup(id);
+    const inProgress = job?.status === "PENDING" || job?.status === "RUNNING";
     
     return NextResponse.json({
       success: true,
-      data: analysis,
-      message: "Analysis completed successfully",
+      status: startup.status,
+      job: job && toJobStatus(job),
+      // Don't hand out a previous run's analysis while a new one is queued
+      analysis: inProgress ? null : startup.analysis,
     });
     
   } catch (error) {
-    logger.error("Error analyzing startup:", error);
+    logger.error("Error fetching analysis status:", error);
     return NextResponse.json(
       {
         success: false,
-        error: "Analysis failed",
-        details: error instanceof Error ? error.message : "Unknown error",
+        error: "Failed to fetch analysis status",
       },
       { status: 500 }
     );
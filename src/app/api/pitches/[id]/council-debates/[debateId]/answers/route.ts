@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  CouncilDebateError,
+  FounderAnswerSchema,
+  answerFounderQuestion,
+} from "@/lib/services/council-debates";
+
+/**
+ * The founder's answer to a question in an interactive council debate. The
+ * debate resumes with the answer in its transcript.
+ *
+ * Body: { questionId, answer } (questionId from the `founder_question` event)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; debateId: string }> }
+) {
+  try {
+    const { id, debateId } = await params;
+
+    const session = await auth();
+    const user = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null;
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = FounderAnswerSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid input",
+          details: validation.error.issues.map(i => ({ field: i.path.join("."), message: i.message })),
+        },
+        { status: 400 }
+      );
+    }
+
+    await answerFounderQuestion({
+      startupId: id,
+      debateId,
+      userId: user.id,
+      ...validation.data,
+    });
+
+    return NextResponse.json({
+      success: true,
+    });
+
+  } catch (error) {
+    if (error instanceof CouncilDebateError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: error.status }
+      );
+    }
+
+    logger.error("Error answering council question:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to submit answer",
+      },
+      { status: 500 }
+    );
+  }
+}
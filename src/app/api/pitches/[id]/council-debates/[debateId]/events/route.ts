@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getCouncilDebateLog } from "@/lib/services/council-debates";
+import { DEBATE_MESSAGE_TYPES, isDebateMessageType, searchDebateLog } from "@/lib/council/debate-log";
+
+/**
+ * A council debate's event log in broadcast order ("latest" for the newest),
+ * for replay. With a filter, only the matching speeches are returned.
+ *
+ * Query: ?speaker=skeptic (agent id or part of a name) &type=question
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; debateId: string }> }
+) {
+  try {
+    const { id, debateId } = await params;
+    const speaker = request.nextUrl.searchParams.get("speaker") || undefined;
+    const type = request.nextUrl.searchParams.get("type") || undefined;
+
+    if (type && !isDebateMessageType(type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `type must be one of: ${DEBATE_MESSAGE_TYPES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const log = await getCouncilDebateLog(id, debateId);
+
+    if (!log) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Council debate not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const messageType = type && isDebateMessageType(type) ? type : undefined;
+    const entries = speaker || messageType
+      ? searchDebateLog(log.entries, { speaker, messageType })
+      : log.entries;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        debateId: log.debate.id,
+        entries,
+      },
+    });
+
+  } catch (error) {
+    logger.error("Error fetching council debate events:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch council debate events",
+      },
+      { status: 500 }
+    );
+  }
+}
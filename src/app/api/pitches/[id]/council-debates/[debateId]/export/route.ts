@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getCouncilDebateLog } from "@/lib/services/council-debates";
+import { debateLogToMarkdown } from "@/lib/council/debate-log";
+
+/**
+ * A council debate as a markdown download: decision, votes and transcript
+ * ("latest" for the newest)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; debateId: string }> }
+) {
+  try {
+    const { id, debateId } = await params;
+    const log = await getCouncilDebateLog(id, debateId);
+
+    if (!log) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Council debate not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const filename = `council-debate-${log.debate.startedAt.slice(0, 10)}-${log.debate.id}.md`;
+
+    return new Response(debateLogToMarkdown(log.debate, log.entries), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    logger.error("Error exporting council debate:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to export council debate",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getCouncilDebate } from "@/lib/services/council-debates";
+
+/**
+ * A single council debate with its transcript and votes ("latest" for the newest)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; debateId: string }> }
+) {
+  try {
+    const { id, debateId } = await params;
+    const debate = await getCouncilDebate(id, debateId);
+
+    if (!debate) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Council debate not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: debate,
+    });
+
+  } catch (error) {
+    logger.error("Error fetching council debate:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch council debate",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { listCouncilDebates, DEFAULT_COUNCIL_DEBATE_LIMIT } from "@/lib/services/council-debates";
+
+/**
+ * Council debates for a pitch (newest first)
+ *
+ * Query: ?limit=10 (max 50)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const startup = await prisma.startup.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!startup) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Startup not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || DEFAULT_COUNCIL_DEBATE_LIMIT;
+    const debates = await listCouncilDebates(id, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: debates,
+    });
+
+  } catch (error) {
+    logger.error("Error fetching council debates:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch council debates",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Tests for /api/pitches/[id]/council-stream: only the signed-in founder can
+ * convene the council, interactive or not
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { runCouncilDebate } from '@/lib/services/council-debates';
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    startup: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/services/council-debates', () => ({
+  CouncilDebateError: class extends Error {},
+  runCouncilDebate: vi.fn(),
+}));
+
+function get(query = '') {
+  return GET(new NextRequest(`http://localhost/api/pitches/startup_1/council-stream${query}`), {
+    params: Promise.resolve({ id: 'startup_1' }),
+  });
+}
+
+describe('GET /api/pitches/[id]/council-stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(auth).mockResolvedValue({ user: { email: 'founder@example.com' } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1' } as never);
+  });
+
+  it('requires a session', async () => {
+    vi.mocked(auth).mockResolvedValue(null as never);
+
+    const response = await get();
+
+    expect(response.status).toBe(401);
+    expect(runCouncilDebate).not.toHaveBeenCalled();
+  });
+
+  it('refuses to debate someone else\'s startup', async () => {
+    vi.mocked(prisma.startup.findUnique).mockResolvedValue({ userId: 'user_2' } as never);
+
+    const response = await get();
+
+    expect(response.status).toBe(403);
+    expect(runCouncilDebate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * STREAMING Live AI Council API
+ *
+ * Runs a council debate over a stored startup and forwards each broadcast
+ * (debate started, phase changes, agents speaking, sentiment and position
+ * updates, the decision) as an SSE message, ending with `complete` and the
+ * stored debate id. The transcript and votes are persisted when it ends.
+ * Only the signed-in owner of the startup can convene the council, and the
+ * debate is charged to their LLM budget.
+ *
+ * Query: ?interactive=true pauses the debate on each question for the
+ * signed-in founder's answer (POST .../council-debates/[debateId]/answers),
+ * up to &answerTimeoutMs= per question.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { BudgetExceededError } from "@/lib/billing/budget";
+import type { CouncilStreamEvent } from "@/lib/council/debate-state";
+import { CouncilDebateError, runCouncilDebate } from "@/lib/services/council-debates";
+
+export const runtime = 'nodejs'; // Required for streaming
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const interactive = ['true', '1'].includes(searchParams.get('interactive') ?? '');
+  const answerTimeoutMs = Number(searchParams.get('answerTimeoutMs')) || undefined;
+
+  const session = await auth();
+  const user = session?.user?.email
+    ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+    : null;
+
+  // Refuse up front rather than on an already open stream
+  if (!user) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+  const startup = await prisma.startup.findUnique({ where: { id }, select: { userId: true } });
+  if (startup && startup.userId !== user.id) {
+    return NextResponse.json({ success: false, error: "Only the startup's founder can convene the council" }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  // Stops the debate once the viewer disconnects
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendEvent = (event: CouncilStreamEvent) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        const { debateId } = await runCouncilDebate({
+          startupId: id,
+          userId: user.id,
+          interactive,
+          answerTimeoutMs,
+          onStart: debateId => sendEvent({ type: 'started', debateId, interactive }),
+          onEvent: sendEvent,
+          signal: abort.signal,
+        });
+        sendEvent({ type: 'complete', debateId });
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          sendEvent({ type: 'error', error: error.message, data: { code: 'BUDGET_EXCEEDED', budget: error.details } });
+        } else if (error instanceof CouncilDebateError) {
+          sendEvent({ type: 'error', error: error.message });
+        } else {
+          logger.error("Council debate stream error:", error);
+          sendEvent({ type: 'error', error: String(error) });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable Nginx buffering
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import { cacheTags, invalidateTags } from "@/lib/cache";
 
 export async function GET(
   request: NextRequest,
@@ -69,6 +70,7 @@ export async function PATCH(
       "website",
       "deckUrl",
       "pitchVideo",
+      "allowSharedAnalysis",
     ];
     
     const updates: any = {};
@@ -86,6 +88,13 @@ export async function PATCH(
       },
     });
     
+    // Cached agent results and listings describe the old pitch
+    await invalidateTags(
+      cacheTags.startup(id),
+      cacheTags.pitchList,
+      ...(startup.userId ? [cacheTags.user(startup.userId)] : [])
+    );
+    
     return NextResponse.json({
       success: true,
       data: startup,
@@ -0,0 +1,121 @@
+/**
+ * Tests for swarm run detail API route
+ * @file src/app/api/pitches/[id]/swarm-runs/[runId]/route.test.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    swarmRun: { findFirst: vi.fn() },
+  },
+}));
+
+function get(runId: string) {
+  return GET(new NextRequest(`http://localhost/api/pitches/startup_1/swarm-runs/${runId}`), {
+    params: Promise.resolve({ id: 'startup_1', runId }),
+  });
+}
+
+function agent(agentId: string, parentAgentId: string | null, second: number, verdict: string | null) {
+  return {
+    id: `row_${agentId}`,
+    runId: 'run_1',
+    agentId,
+    parentAgentId,
+    agentType: agentId.replace(/_\d+$/, ''),
+    domain: 'DeFi & Crypto',
+    spawnedAt: new Date(Date.UTC(2026, 9, 19, 12, 0, second)),
+    verdict,
+    confidence: verdict ? 80 : null,
+    analysis: verdict ? { strengths: ['Audited'], weaknesses: [], criticalQuestions: [], recommendations: [], reasoning: 'Solid' } : null,
+    analysisDepth: verdict ? 'deep' : null,
+    timeSpentMs: verdict ? 1200 : null,
+    promptId: verdict ? 'swarm-evaluator' : null,
+    promptVersion: verdict ? 1 : null,
+  };
+}
+
+describe('GET /api/pitches/[id]/swarm-runs/[runId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the run with sub-agents nested under their parents', async () => {
+    vi.mocked(prisma.swarmRun.findFirst).mockResolvedValue({
+      id: 'run_1',
+      startupId: 'startup_1',
+      status: 'COMPLETED',
+      allowSubAgents: true,
+      strategy: 'Spawned DeFi Protocol Expert with 1 specialized sub-agent',
+      overallVerdict: 'accept',
+      confidenceScore: 82,
+      consensus: { topStrengths: ['Audited'], topWeaknesses: [], criticalIssues: [] },
+      error: null,
+      executionTimeMs: 4200,
+      startedAt: new Date('2026-10-19T12:00:00Z'),
+      completedAt: new Date('2026-10-19T12:00:05Z'),
+      agents: [
+        agent('SECURITY_AUDITOR_3', 'DEFI_PROTOCOL_EXPERT_1', 2, 'yes'),
+        agent('MARKET_ANALYST_2', null, 1, 'maybe'),
+        agent('DEFI_PROTOCOL_EXPERT_1', null, 0, 'strong_yes'),
+        agent('TOKENOMICS_SPECIALIST_4', 'DEFI_PROTOCOL_EXPERT_1', 3, null),
+      ],
+      offers: [
+        {
+          id: 'offer_1',
+          runId: 'run_1',
+          agentId: 'DEFI_PROTOCOL_EXPERT_1',
+          agentType: 'DEFI_PROTOCOL_EXPERT',
+          interested: true,
+          amount: 500000,
+          equity: 12,
+          dealStructure: 'safe',
+          confidence: 85,
+          details: { conditions: ['Fix flash loan vector'], reasoning: 'Strong team' },
+        },
+      ],
+    } as never);
+
+    const response = await get('run_1');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(prisma.swarmRun.findFirst).mock.calls[0][0]).toMatchObject({
+      where: { id: 'run_1', startupId: 'startup_1' },
+    });
+    expect(data.data.totalAgents).toBe(4);
+    expect(data.data.agents.map((node: { agentId: string }) => node.agentId)).toEqual([
+      'DEFI_PROTOCOL_EXPERT_1',
+      'MARKET_ANALYST_2',
+    ]);
+
+    const [expert] = data.data.agents;
+    expect(expert.subAgents.map((node: { agentId: string }) => node.agentId)).toEqual([
+      'SECURITY_AUDITOR_3',
+      'TOKENOMICS_SPECIALIST_4',
+    ]);
+    expect(expert.strengths).toEqual(['Audited']);
+    expect(expert.prompt).toEqual({ id: 'swarm-evaluator', version: 1 });
+    // Spawned but never reported back
+    expect(expert.subAgents[1]).toMatchObject({ verdict: null, strengths: [], prompt: null });
+    expect(data.data.offers[0]).toMatchObject({ amount: 500000, conditions: ['Fix flash loan vector'] });
+    // Stored before votes were weighted: no vetoes or dissent report
+    expect(data.data.consensus).toMatchObject({ vetoes: [], dissent: null });
+  });
+
+  it('looks up the newest run for "latest"', async () => {
+    vi.mocked(prisma.swarmRun.findFirst).mockResolvedValue(null);
+
+    const response = await get('latest');
+
+    expect(response.status).toBe(404);
+    expect(vi.mocked(prisma.swarmRun.findFirst).mock.calls[0][0]).toMatchObject({
+      where: { startupId: 'startup_1' },
+      orderBy: { startedAt: 'desc' },
+    });
+  });
+});
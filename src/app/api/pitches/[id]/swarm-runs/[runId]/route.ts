@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSwarmRun } from "@/lib/services/swarm-runs";
+
+/**
+ * A single swarm run with its agent tree and offers ("latest" for the newest)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  try {
+    const { id, runId } = await params;
+    const run = await getSwarmRun(id, runId);
+
+    if (!run) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Swarm run not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+
+  } catch (error) {
+    logger.error("Error fetching swarm run:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch swarm run",
+      },
+      { status: 500 }
+    );
+  }
+}
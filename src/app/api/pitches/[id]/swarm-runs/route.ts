@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { listSwarmRuns, DEFAULT_SWARM_RUN_LIMIT } from "@/lib/services/swarm-runs";
+
+/**
+ * Evaluation swarm runs for a pitch (newest first)
+ *
+ * Query: ?limit=10 (max 50)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const startup = await prisma.startup.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!startup) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Startup not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || DEFAULT_SWARM_RUN_LIMIT;
+    const runs = await listSwarmRuns(id, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: runs,
+    });
+
+  } catch (error) {
+    logger.error("Error fetching swarm runs:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch swarm runs",
+      },
+      { status: 500 }
+    );
+  }
+}
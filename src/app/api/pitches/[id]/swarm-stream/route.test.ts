@@ -0,0 +1,71 @@
+/**
+ * Tests for /api/pitches/[id]/swarm-stream: a viewer who disconnects stops
+ * the swarm
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { runSwarmEvaluation } from '@/lib/services/swarm-runs';
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/services/swarm-runs', () => ({
+  SwarmRunError: class extends Error {},
+  runSwarmEvaluation: vi.fn(),
+}));
+
+function get() {
+  return GET(new NextRequest('http://localhost/api/pitches/startup_1/swarm-stream'), {
+    params: Promise.resolve({ id: 'startup_1' }),
+  });
+}
+
+describe('GET /api/pitches/[id]/swarm-stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(auth).mockResolvedValue({ user: { email: 'founder@example.com' } } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user_1' } as never);
+  });
+
+  it('requires a session', async () => {
+    vi.mocked(auth).mockResolvedValue(null as never);
+
+    const response = await get();
+
+    expect(response.status).toBe(401);
+    expect(runSwarmEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('stops the swarm and sends nothing more once the viewer leaves', async () => {
+    let settle!: () => void;
+    const settled = new Promise<void>(resolve => (settle = resolve));
+    vi.mocked(runSwarmEvaluation).mockImplementation(async ({ signal, onEvent }) => {
+      onEvent?.({ type: 'swarm_start', pitchId: 'startup_1', allowSubAgents: true });
+      await new Promise(resolve => signal!.addEventListener('abort', resolve));
+      // Events after the disconnect are dropped rather than enqueued
+      onEvent?.({ type: 'swarm_start', pitchId: 'startup_1', allowSubAgents: true });
+      setTimeout(settle);
+      throw new Error('Evaluation cancelled');
+    });
+
+    const response = await get();
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await settled;
+
+    const { signal } = vi.mocked(runSwarmEvaluation).mock.calls[0][0];
+    expect(signal!.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * STREAMING Evaluation Swarm API - Live Spawn Tree
+ *
+ * Runs the evaluation swarm for a stored startup and forwards each
+ * orchestrator event (agents spawned, completed or failed, consensus) as an
+ * SSE message, ending with `complete` and the stored run id. The run is
+ * persisted exactly as with POST /api/evaluation-swarm, and likewise only
+ * for the signed-in owner of the startup.
+ *
+ * Query: ?maxDepth=1&maxAgents=20&maxSpendUsd=5&deadlineMs=120000 (spawn policy, all optional)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { BudgetExceededError } from "@/lib/billing/budget";
+import { SpawnPolicySchema } from "@/lib/agents/evaluation-swarm/spawn-policy";
+import type { SwarmStreamEvent } from "@/lib/agents/evaluation-swarm/spawn-tree";
+import { SwarmRunError, runSwarmEvaluation } from "@/lib/services/swarm-runs";
+
+export const runtime = 'nodejs'; // Required for streaming
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const policy = SpawnPolicySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  const session = await auth();
+  const user = session?.user?.email
+    ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+    : null;
+  if (!user) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const encoder = new TextEncoder();
+  // Stops the swarm once the viewer disconnects
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendEvent = (event: SwarmStreamEvent) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      if (!policy.success) {
+        sendEvent({ type: 'error', error: 'Invalid spawn policy', data: { details: policy.error.issues } });
+        if (!abort.signal.aborted) controller.close();
+        return;
+      }
+
+      try {
+        const { runId } = await runSwarmEvaluation({
+          startupId: id,
+          userId: user.id,
+          policy: policy.data,
+          onEvent: sendEvent,
+          signal: abort.signal,
+        });
+        sendEvent({ type: 'complete', runId });
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          sendEvent({ type: 'error', error: error.message, data: { code: 'BUDGET_EXCEEDED', budget: error.details } });
+        } else if (error instanceof SwarmRunError) {
+          sendEvent({ type: 'error', error: error.message });
+        } else {
+          logger.error("Evaluation swarm stream error:", error);
+          sendEvent({ type: 'error', error: String(error) });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable Nginx buffering
+    },
+  });
+}
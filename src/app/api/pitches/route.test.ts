@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { POST, GET } from './route';
 import { prisma } from '@/lib/prisma';
+import { recordSubmission } from '@/lib/security/anti-sybil';
 
 // Mock dependencies
 vi.mock('@/lib/prisma', () => ({
@@ -18,8 +19,8 @@ vi.mock('@/lib/prisma', () => ({
   },
 }));
 
-vi.mock('@/lib/agents/orchestrator-optimized', () => ({
-  analyzeStartupOptimized: vi.fn(() => Promise.resolve()),
+vi.mock('@/lib/jobs/analysis-jobs', () => ({
+  enqueueAnalysis: vi.fn(() => Promise.resolve({ job: { id: 'job_1' }, created: true })),
 }));
 
 vi.mock('@/lib/security/anti-sybil', () => ({
@@ -27,6 +28,7 @@ vi.mock('@/lib/security/anti-sybil', () => ({
     Promise.resolve({ passed: true, severity: 'low', issues: [] })
   ),
   logSecurityEvent: vi.fn(),
+  recordSubmission: vi.fn(),
 }));
 
 vi.mock('@/lib/rate-limit', () => ({
@@ -35,6 +37,8 @@ vi.mock('@/lib/rate-limit', () => ({
 
 vi.mock('@/lib/cache', () => ({
   withCache: vi.fn((key, fn) => fn()), // Skip cache for tests
+  invalidateTags: vi.fn(),
+  cacheTags: { pitchList: 'pitch-list' },
 }));
 
 describe('POST /api/pitches', () => {
@@ -78,7 +82,10 @@ describe('POST /api/pitches', () => {
     expect(response.status).toBe(201);
     expect(data.success).toBe(true);
     expect(data.startupId).toBe('startup-123');
+    expect(data.jobId).toBe('job_1');
     expect(data.message).toContain('Analysis in progress');
+    // The founder's quota is only used up by a stored startup
+    expect(recordSubmission).toHaveBeenCalledWith(validPitchData.founderEmail);
   });
 
   it('should reject pitch with missing required fields', async () => {
@@ -99,6 +106,7 @@ describe('POST /api/pitches', () => {
     expect(data.success).toBe(false);
     expect(data.error).toBe('Validation failed');
     expect(data.details).toBeDefined();
+    expect(recordSubmission).not.toHaveBeenCalled();
   });
 
   it('should reject pitch with invalid stage', async () => {
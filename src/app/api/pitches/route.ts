@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { analyzeStartupOptimized as analyzeStartup } from "@/lib/agents/orchestrator-optimized";
-import { performSecurityCheck, logSecurityEvent } from "@/lib/security/anti-sybil";
+import { enqueueAnalysis } from "@/lib/jobs/analysis-jobs";
+import { performSecurityCheck, logSecurityEvent, recordSubmission } from "@/lib/security/anti-sybil";
 import { rateLimit } from "@/lib/rate-limit";
-import { withCache } from "@/lib/cache";
+import { cacheTags, invalidateTags, withCache } from "@/lib/cache";
 import { withPerformanceMonitoring } from "@/lib/monitoring/performance";
 import { logger } from "@/lib/logger";
 
@@ -22,11 +22,12 @@ const CreatePitchSchema = z.object({
   website: z.string().url().optional().nullable(),
   deckUrl: z.string().url().optional().nullable(),
   pitchVideo: z.string().url().optional().nullable(),
+  allowSharedAnalysis: z.boolean().optional(),
 });
 
 async function handlePOST(request: NextRequest) {
   // Rate limiting - prevent spam/abuse
-  const rateLimitResponse = rateLimit(request, 5); // 5 pitches per minute max
+  const rateLimitResponse = await rateLimit(request, 'pitch-submit'); // 5 pitches per minute max
   if (rateLimitResponse) return rateLimitResponse;
   
   try {
@@ -74,21 +75,18 @@ async function handlePOST(request: NextRequest) {
         status: "PENDING",
       },
     });
+    await recordSubmission(validatedData.founderEmail);
     
-    // Trigger analysis asynchronously (don't wait for it)
-    analyzeStartup(startup.id)
-      .then(() => {
-        logger.log(`Analysis completed for startup: ${startup.id}`);
-      })
-      .catch((error) => {
-        logger.error(`Analysis failed for startup: ${startup.id}`, error);
-        // TODO: In production, send to error tracking service (e.g., Sentry)
-      });
+    await invalidateTags(cacheTags.pitchList);
+    
+    // Queue analysis for the background worker (survives request timeouts)
+    const { job } = await enqueueAnalysis(startup.id);
     
     return NextResponse.json(
       {
         success: true,
         startupId: startup.id,
+        jobId: job.id,
         message: "Pitch submitted successfully. Analysis in progress...",
       },
       { status: 201 }
@@ -160,7 +158,7 @@ async function handleGET(request: NextRequest) {
           },
         };
       },
-      2 * 60 * 1000 // 2 minutes TTL
+      { ttl: { minutes: 2 }, tags: [cacheTags.pitchList] }
     );
     
     return NextResponse.json(result);
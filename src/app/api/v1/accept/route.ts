@@ -1,9 +1,10 @@
 // API v1: Accept funding offer (for AI agents)
-// Authentication: API key in Authorization header
+// Authentication: API key (Authorization: Bearer) or session, via withApiAuth
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
 import { z } from 'zod';
 import { getOfferById, acceptOffer } from '@/lib/services/investment-offers';
 
@@ -15,34 +16,8 @@ const AcceptFundingSchema = z.object({
   offerId: z.string().min(1, 'Offer ID is required'),
 });
 
-async function authenticateApiKey(request: Request) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const apiKey = authHeader.substring(7);
-  
-  const user = await prisma.user.findUnique({
-    where: { apiKey },
-    select: { id: true },
-  });
-
-  return user;
-}
-
-export async function POST(request: Request) {
+export const POST = withApiAuth({ scope: 'funding:accept', rateLimit: 'funding-accept' }, async (request, { user }) => {
   try {
-    const user = await authenticateApiKey(request);
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid or missing API key' },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     
     // Validate input
@@ -197,4 +172,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
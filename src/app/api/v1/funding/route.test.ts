@@ -12,6 +12,10 @@ vi.mock('@/lib/prisma', () => ({
     user: {
       findUnique: vi.fn(),
     },
+    apiKey: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
     funding: {
       findUnique: vi.fn(),
     },
@@ -21,6 +25,16 @@ vi.mock('@/lib/prisma', () => ({
   },
 }));
 
+// Stored key for 'Bearer valid_key'
+const validKey = {
+  id: 'key-1',
+  prefix: 'valid_key',
+  scopes: ['status:read'],
+  revokedAt: null,
+  expiresAt: null,
+  user: { id: 'user-1', email: 'founder@example.com', tier: 'growth' },
+};
+
 describe('GET /api/v1/funding', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -62,8 +76,38 @@ describe('GET /api/v1/funding', () => {
     expect(data.error).toContain('Invalid or missing API key');
   });
 
+  it('should reject expired API keys', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+      ...validKey,
+      expiresAt: new Date(Date.now() - 1000),
+    } as never);
+
+    const request = new Request('http://localhost:3000/api/v1/funding?fundingId=123', {
+      headers: { authorization: 'Bearer valid_key' },
+    });
+
+    const response = await GET(request);
+
+    expect(response.status).toBe(401);
+    expect(prisma.apiKey.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject API keys without the status:read scope', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({ ...validKey, scopes: ['funding:accept'] } as never);
+
+    const request = new Request('http://localhost:3000/api/v1/funding?fundingId=123', {
+      headers: { authorization: 'Bearer valid_key' },
+    });
+
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toContain('status:read');
+  });
+
   it('should require fundingId or pitchId parameter', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
 
     const request = new Request('http://localhost:3000/api/v1/funding', {
       headers: { authorization: 'Bearer valid_key' },
@@ -77,7 +121,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should reject invalid fundingId UUID format', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
 
     const request = new Request('http://localhost:3000/api/v1/funding?fundingId=not-a-uuid', {
       headers: { authorization: 'Bearer valid_key' },
@@ -91,7 +135,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should reject invalid pitchId UUID format', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
 
     const request = new Request('http://localhost:3000/api/v1/funding?pitchId=123-456', {
       headers: { authorization: 'Bearer valid_key' },
@@ -105,7 +149,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should return 404 for funding owned by different user', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
     vi.mocked(prisma.funding.findUnique).mockResolvedValue({
       id: 'funding-1',
       startup: {
@@ -131,7 +175,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should return funding details by fundingId', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
     vi.mocked(prisma.funding.findUnique).mockResolvedValue({
       id: 'funding-1',
       dealAmount: 100000,
@@ -191,7 +235,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should return funding details by pitchId', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
     vi.mocked(prisma.startup.findUnique).mockResolvedValue({
       id: 'startup-1',
       name: 'Test Startup',
@@ -224,7 +268,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should return 404 when pitch has no funding', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
     vi.mocked(prisma.startup.findUnique).mockResolvedValue({
       id: 'startup-1',
       name: 'Test Startup',
@@ -247,7 +291,7 @@ describe('GET /api/v1/funding', () => {
   });
 
   it('should calculate progress correctly with all milestones completed', async () => {
-    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' });
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(validKey as never);
     vi.mocked(prisma.funding.findUnique).mockResolvedValue({
       id: 'funding-1',
       dealAmount: 100000,
@@ -2,7 +2,7 @@
  * API v1: Get funding details (for AI agents)
  * 
  * @route GET /api/v1/funding?fundingId={id} OR ?pitchId={id}
- * @auth Bearer token (API key) in Authorization header
+ * @auth API key with status:read scope, or session (withApiAuth)
  * @returns Funding details with milestones and progress
  */
 
@@ -10,38 +10,13 @@ import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
 
 // UUID validation schema
 const UUIDSchema = z.string().uuid('Invalid ID format');
 
-async function authenticateApiKey(request: Request) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const apiKey = authHeader.substring(7);
-  
-  const user = await prisma.user.findUnique({
-    where: { apiKey },
-    select: { id: true },
-  });
-
-  return user;
-}
-
-export async function GET(request: Request) {
+export const GET = withApiAuth({ scope: 'status:read' }, async (request, { user }) => {
   try {
-    const user = await authenticateApiKey(request);
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid or missing API key' },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const fundingId = searchParams.get('fundingId');
     const pitchId = searchParams.get('pitchId');
@@ -184,4 +159,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
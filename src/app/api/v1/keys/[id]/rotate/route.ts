@@ -0,0 +1,30 @@
+// API v1: Rotate an API key (for the CLI)
+// Authentication: API key with the keys:manage scope, or session
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
+import { ApiKeyError, rotateApiKey } from '@/lib/services/api-keys';
+
+export const POST = withApiAuth<{ id: string }>({ scope: 'keys:manage' }, async (request, { user, apiKey }, { params }) => {
+  try {
+    const { id } = await params;
+    // A key can't rotate (and so read the secret of) a key with more access
+    const rotated = await rotateApiKey(user.id, id, apiKey?.scopes);
+
+    return NextResponse.json({
+      success: true,
+      apiKey: rotated.apiKey,
+      key: rotated.key,
+    });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('API v1 keys rotate error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,28 @@
+// API v1: Revoke an API key (for the CLI)
+// Authentication: API key with the keys:manage scope, or session
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
+import { ApiKeyError, revokeApiKey } from '@/lib/services/api-keys';
+
+export const DELETE = withApiAuth<{ id: string }>({ scope: 'keys:manage' }, async (request, { user }, { params }) => {
+  try {
+    const { id } = await params;
+    const revoked = await revokeApiKey(user.id, id);
+
+    return NextResponse.json({
+      success: true,
+      apiKey: revoked,
+    });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('API v1 keys revoke error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
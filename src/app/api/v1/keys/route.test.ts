@@ -0,0 +1,96 @@
+/**
+ * Tests for /api/v1/keys and key rotation: a key can't mint or rotate a key
+ * with more access than it has
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './route';
+import { POST as ROTATE } from './[id]/rotate/route';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    apiKey: { findUnique: vi.fn(), findFirst: vi.fn(), update: vi.fn(), create: vi.fn(), count: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/auth', () => ({
+  getSession: vi.fn().mockResolvedValue(null),
+}));
+
+// Stored key for 'Bearer manage_key': can manage keys, nothing else
+const manageKey = {
+  id: 'key-manage',
+  prefix: 'sk_growth_manageke',
+  scopes: ['keys:manage'],
+  revokedAt: null,
+  expiresAt: null,
+  user: { id: 'user-1', email: 'founder@example.com', tier: 'growth' },
+};
+
+function post(url: string, body?: unknown) {
+  return new Request(url, {
+    method: 'POST',
+    headers: { authorization: 'Bearer manage_key', 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/v1/keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(manageKey as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ tier: 'growth' } as never);
+    vi.mocked(prisma.apiKey.count).mockResolvedValue(1);
+  });
+
+  it('rejects an empty scope list instead of granting every scope', async () => {
+    const response = await POST(post('http://localhost:3000/api/v1/keys', { name: 'CI', scopes: [] }));
+
+    expect(response.status).toBe(400);
+    expect(prisma.apiKey.create).not.toHaveBeenCalled();
+  });
+
+  it('defaults to the calling key\'s scopes', async () => {
+    vi.mocked(prisma.apiKey.create).mockImplementation((async ({ data }: { data: { prefix: string; scopes: string[] } }) => ({
+      id: 'key-new',
+      prefix: data.prefix,
+      scopes: data.scopes,
+    })) as never);
+
+    const response = await POST(post('http://localhost:3000/api/v1/keys', { name: 'CI' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.apiKey.scopes).toEqual(['keys:manage']);
+    // The prefix keeps 8 random characters after the tier
+    expect(data.apiKey.prefix).toBe(data.key.slice(0, 'sk_growth_'.length + 8));
+  });
+});
+
+describe('POST /api/v1/keys/[id]/rotate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(manageKey as never);
+  });
+
+  it('refuses to rotate a key with scopes the caller lacks', async () => {
+    vi.mocked(prisma.apiKey.findFirst).mockResolvedValue({
+      id: 'key-default',
+      userId: 'user-1',
+      scopes: ['status:read', 'keys:manage'],
+      revokedAt: null,
+    } as never);
+
+    const response = await ROTATE(post('http://localhost:3000/api/v1/keys/key-default/rotate'), {
+      params: Promise.resolve({ id: 'key-default' }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toContain('status:read');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+// API v1: List and create API keys (for the CLI)
+// Authentication: API key with the keys:manage scope, or session
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
+import {
+  API_KEY_SCOPES,
+  ApiKeyError,
+  CreateApiKeySchema,
+  createApiKey,
+  listApiKeys,
+} from '@/lib/services/api-keys';
+
+export const GET = withApiAuth({ scope: 'keys:manage' }, async (request, { user, apiKey }) => {
+  try {
+    const keys = await listApiKeys(user.id);
+
+    return NextResponse.json({
+      success: true,
+      currentKeyId: apiKey?.id ?? null,
+      keys,
+    });
+  } catch (error) {
+    logger.error('API v1 keys list error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withApiAuth({ scope: 'keys:manage' }, async (request, { user, apiKey }) => {
+  try {
+    const validation = CreateApiKeySchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.issues.map(i => ({ field: i.path.join('.'), message: i.message })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // A key can't mint a key with more access than it has
+    const granted = apiKey?.scopes ?? [...API_KEY_SCOPES];
+    const scopes = validation.data.scopes ?? granted;
+    const escalated = scopes.filter(scope => !granted.includes(scope));
+    if (escalated.length > 0) {
+      return NextResponse.json(
+        { error: `Cannot grant scopes this key does not have: ${escalated.join(', ')}` },
+        { status: 403 }
+      );
+    }
+
+    const created = await createApiKey(user.id, { ...validation.data, scopes });
+
+    return NextResponse.json(
+      {
+        success: true,
+        apiKey: created.apiKey,
+        key: created.key,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('API v1 keys create error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
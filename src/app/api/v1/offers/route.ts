@@ -1,40 +1,15 @@
 // API v1: List investment offers (for AI agents)
-// Authentication: API key in Authorization header
+// Authentication: API key (Authorization: Bearer) or session, via withApiAuth
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
 import { z } from 'zod';
 import { getOffersForPitch } from '@/lib/services/investment-offers';
 
-async function authenticateApiKey(request: Request) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const apiKey = authHeader.substring(7);
-  
-  const user = await prisma.user.findUnique({
-    where: { apiKey },
-    select: { id: true },
-  });
-
-  return user;
-}
-
-export async function GET(request: Request) {
+export const GET = withApiAuth({ scope: 'status:read' }, async (request, { user }) => {
   try {
-    const user = await authenticateApiKey(request);
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid or missing API key' },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const pitchId = searchParams.get('pitchId');
 
@@ -112,4 +87,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
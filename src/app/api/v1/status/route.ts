@@ -1,40 +1,15 @@
 // API v1: Get application status (for AI agents)
-// Authentication: API key in Authorization header
+// Authentication: API key (Authorization: Bearer) or session, via withApiAuth
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { withApiAuth } from '@/middleware/api-auth';
+import { jobQueue, toJobStatus } from '@/lib/jobs/queue';
 import { z } from 'zod';
 
-async function authenticateApiKey(request: Request) {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const apiKey = authHeader.substring(7);
-  
-  const user = await prisma.user.findUnique({
-    where: { apiKey },
-    select: { id: true, email: true, tier: true },
-  });
-
-  return user;
-}
-
-export async function GET(request: Request) {
+export const GET = withApiAuth({ scope: 'status:read' }, async (request, { user }) => {
   try {
-    // Authenticate with API key
-    const user = await authenticateApiKey(request);
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid or missing API key' },
-        { status: 401 }
-      );
-    }
-
     // Get pitch ID from query params
     const { searchParams } = new URL(request.url);
     const pitchId = searchParams.get('pitchId');
@@ -63,6 +38,10 @@ export async function GET(request: Request) {
               totalReleased: true,
             },
           },
+          jobs: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
         },
         orderBy: { createdAt: 'desc' },
       });
@@ -73,7 +52,10 @@ export async function GET(request: Request) {
           email: user.email,
           tier: user.tier,
         },
-        pitches,
+        pitches: pitches.map(({ jobs, ...pitch }) => ({
+          ...pitch,
+          job: jobs[0] ? toJobStatus(jobs[0]) : null,
+        })),
         count: pitches.length,
       });
     }
@@ -113,8 +95,12 @@ export async function GET(request: Request) {
       );
     }
 
+    // Background analysis progress (queued, running, retrying, dead)
+    const job = await jobQueue.getLatestForStartup(pitch.id);
+
     return NextResponse.json({
       pitch,
+      job: job && toJobStatus(job),
     });
   } catch (error) {
     logger.error('API v1 status error:', error);
@@ -123,4 +109,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -49,6 +49,12 @@ export default function DashboardClient({ user, pitches }: DashboardClientProps)
               </div>
             </Link>
             <div className="flex items-center gap-4">
+              <Link
+                href="/dashboard/api-keys"
+                className="text-sm text-gray-400 hover:text-white transition"
+              >
+                API Keys
+              </Link>
               <span className="text-sm text-gray-400">
                 {user.name || user.email}
               </span>
@@ -0,0 +1,332 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/services/api-key-scopes';
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  usageCount: number;
+  createdAt: string;
+}
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'status:read': 'Read status',
+  'pitch:submit': 'Submit pitches',
+  'funding:accept': 'Accept funding',
+  'keys:manage': 'Manage keys',
+};
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: undefined },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+];
+
+export default function ApiKeysPage() {
+  const router = useRouter();
+  const { data: session, status } = useSession();
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [expiresInDays, setExpiresInDays] = useState<number | undefined>(undefined);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchKeys();
+    }
+  }, [session]);
+
+  const fetchKeys = async () => {
+    try {
+      const res = await fetch('/api/dashboard/api-keys');
+      if (res.ok) {
+        const data = await res.json();
+        setKeys(data.keys);
+      }
+    } catch (error) {
+      console.error('Failed to fetch API keys:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const res = await fetch('/api/dashboard/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes, expiresInDays }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setNewKey(data.key);
+        setName('');
+        fetchKeys();
+      } else {
+        alert(data.error || 'Failed to create API key');
+      }
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      alert('Failed to create API key');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = async (key: ApiKeySummary) => {
+    if (!confirm(`Rotate "${key.name}"? The current key stops working immediately.`)) return;
+
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/dashboard/api-keys/${key.id}/rotate`, { method: 'POST' });
+      const data = await res.json();
+
+      if (res.ok) {
+        setNewKey(data.key);
+        fetchKeys();
+      } else {
+        alert(data.error || 'Failed to rotate API key');
+      }
+    } catch (error) {
+      console.error('Failed to rotate API key:', error);
+      alert('Failed to rotate API key');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeySummary) => {
+    if (!confirm(`Revoke "${key.name}"? This cannot be undone.`)) return;
+
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/dashboard/api-keys/${key.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        fetchKeys();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to revoke API key');
+      }
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+      alert('Failed to revoke API key');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const getKeyStatus = (key: ApiKeySummary) => {
+    if (key.revokedAt) return { text: 'Revoked', color: 'bg-red-600/20 text-red-400' };
+    if (key.expiresAt && new Date(key.expiresAt) < new Date()) {
+      return { text: 'Expired', color: 'bg-yellow-600/20 text-yellow-400' };
+    }
+    return { text: 'Active', color: 'bg-green-600/20 text-green-400' };
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 text-white flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 text-white">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-8">
+          <Link
+            href="/dashboard"
+            className="inline-flex items-center text-blue-400 hover:text-blue-300 mb-4"
+          >
+            ← Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold mb-2">API Keys</h1>
+          <p className="text-gray-400">
+            Keys for the CLI and AI agents. A key is shown once when it is created or rotated.
+          </p>
+        </div>
+
+        {newKey && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8 p-6 bg-green-900/20 rounded-xl border border-green-600/30"
+          >
+            <h2 className="font-semibold text-green-400 mb-2">Copy your new key now</h2>
+            <p className="text-sm text-gray-400 mb-3">You won&apos;t be able to see it again.</p>
+            <div className="flex items-center gap-3">
+              <code className="flex-1 p-3 bg-gray-900/70 rounded-lg text-sm break-all">{newKey}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(newKey)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm border border-gray-700"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => setNewKey(null)}
+                className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+              >
+                Done
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Create Key */}
+        <motion.form
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          onSubmit={handleCreate}
+          className="mb-8 bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700"
+        >
+          <h2 className="text-2xl font-bold mb-4">Create Key</h2>
+          <div className="grid md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. CI pipeline"
+                maxLength={60}
+                required
+                className="w-full px-3 py-2 bg-gray-900/50 rounded-lg border border-gray-700 focus:border-purple-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Expires</label>
+              <select
+                value={expiresInDays ?? ''}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : undefined)}
+                className="w-full px-3 py-2 bg-gray-900/50 rounded-lg border border-gray-700 focus:border-purple-500 outline-none"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.days ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="mb-4">
+            <div className="text-sm text-gray-400 mb-2">Scopes</div>
+            <div className="flex flex-wrap gap-4">
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  {SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !name.trim() || scopes.length === 0}
+            className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 rounded-lg font-semibold transition-all disabled:opacity-50"
+          >
+            Create Key
+          </button>
+        </motion.form>
+
+        {/* Key List */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700"
+        >
+          <h2 className="text-2xl font-bold mb-4">Your Keys</h2>
+          {keys.length === 0 ? (
+            <p className="text-gray-400">No API keys yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {keys.map((key) => {
+                const keyStatus = getKeyStatus(key);
+                const active = keyStatus.text === 'Active';
+                return (
+                  <div key={key.id} className="p-4 bg-gray-900/50 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold">{key.name}</span>
+                        <code className="text-sm text-gray-400">{key.prefix}…</code>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${keyStatus.color}`}>
+                          {keyStatus.text}
+                        </span>
+                      </div>
+                      {!key.revokedAt && (
+                        <div className="flex gap-2">
+                          {active && (
+                            <button
+                              onClick={() => handleRotate(key)}
+                              disabled={busy}
+                              className="px-3 py-1 text-sm bg-gray-800 hover:bg-gray-700 rounded-lg border border-gray-700 disabled:opacity-50"
+                            >
+                              Rotate
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleRevoke(key)}
+                            disabled={busy}
+                            className="px-3 py-1 text-sm text-red-400 hover:bg-red-900/20 rounded-lg border border-red-600/30 disabled:opacity-50"
+                          >
+                            Revoke
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-400">
+                      <span>{key.scopes.map((scope) => SCOPE_LABELS[scope] ?? scope).join(', ')}</span>
+                      <span>Created {new Date(key.createdAt).toLocaleDateString()}</span>
+                      <span>
+                        {key.lastUsedAt
+                          ? `Last used ${new Date(key.lastUsedAt).toLocaleDateString()}`
+                          : 'Never used'}
+                      </span>
+                      <span>{key.usageCount.toLocaleString()} requests</span>
+                      {key.expiresAt && (
+                        <span>Expires {new Date(key.expiresAt).toLocaleDateString()}</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
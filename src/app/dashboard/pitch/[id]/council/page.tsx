@@ -0,0 +1,185 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import LiveCouncil from '@/components/LiveCouncil';
+import CouncilReplay from '@/components/CouncilReplay';
+import type { CouncilDebateDetail } from '@/types/dashboard';
+
+interface CouncilDebateSummary {
+  id: string;
+  status: CouncilDebateDetail['status'];
+  decision: CouncilDebateDetail['decision'];
+  startedAt: string;
+}
+
+export default function CouncilPage() {
+  const { id } = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession();
+  const [companyName, setCompanyName] = useState<string | null>(null);
+  const [debate, setDebate] = useState<CouncilDebateDetail | null>(null);
+  const [pastDebates, setPastDebates] = useState<CouncilDebateSummary[]>([]);
+  const [debating, setDebating] = useState(false);
+  const [interactive, setInteractive] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (session?.user && id) {
+      fetchPitch();
+      fetchDebate();
+      fetchPastDebates();
+    }
+  }, [session, id]);
+
+  const fetchPitch = async () => {
+    try {
+      const res = await fetch(`/api/dashboard/pitch/${id}`);
+      if (res.ok) {
+        const data = await res.json();
+        setCompanyName(data.pitch.name);
+      } else if (res.status === 404) {
+        router.push('/dashboard');
+      }
+    } catch (error) {
+      console.error('Failed to fetch pitch:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 404 just means the council hasn't debated this pitch yet
+  const fetchDebate = async (debateId = 'latest') => {
+    try {
+      const res = await fetch(`/api/pitches/${id}/council-debates/${debateId}`);
+      if (res.ok) {
+        const data = await res.json();
+        setDebate(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch council debate:', error);
+    }
+  };
+
+  const fetchPastDebates = async () => {
+    try {
+      const res = await fetch(`/api/pitches/${id}/council-debates`);
+      if (res.ok) {
+        const data = await res.json();
+        setPastDebates(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch council debates:', error);
+    }
+  };
+
+  // The council streams the debate; reload the stored one once it ends
+  const handleDebateComplete = async () => {
+    await Promise.all([fetchDebate(), fetchPastDebates()]);
+    setDebating(false);
+  };
+
+  if (loading || status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 text-white flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 text-white">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <div className="mb-8">
+          <Link
+            href={`/dashboard/pitch/${id}`}
+            className="inline-flex items-center text-blue-400 hover:text-blue-300 mb-4"
+          >
+            ← Back to Pitch
+          </Link>
+          <h1 className="text-4xl font-bold mb-2">Live AI Council</h1>
+          <p className="text-gray-400">
+            Five investors with different lenses react to {companyName ?? 'this pitch'}, question it, argue it out and
+            vote.
+          </p>
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-2xl font-bold mb-1">Council Debate</h2>
+              {debate && !debating && (
+                <p className="text-sm text-gray-400">
+                  {new Date(debate.startedAt).toLocaleString()}
+                  {` · ${debate.transcript.length} messages`}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              {pastDebates.length > 1 && !debating && (
+                <select
+                  value={debate?.id ?? ''}
+                  onChange={(e) => fetchDebate(e.target.value)}
+                  className="px-3 py-2 text-sm bg-gray-900/50 rounded-lg border border-gray-700"
+                  aria-label="Past debates"
+                >
+                  {pastDebates.map((past) => (
+                    <option key={past.id} value={past.id}>
+                      {new Date(past.startedAt).toLocaleString()}
+                      {past.decision ? ` · ${past.decision}` : ` · ${past.status}`}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {!debating && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={interactive}
+                    onChange={(e) => setInteractive(e.target.checked)}
+                  />
+                  Answer the council&apos;s questions myself
+                </label>
+              )}
+              <button
+                onClick={() => setDebating(true)}
+                disabled={debating || debate?.status === 'RUNNING'}
+                className="px-4 py-2 text-sm bg-gray-800 hover:bg-gray-700 rounded-lg border border-gray-700 disabled:opacity-50"
+              >
+                {debating ? 'Debating…' : debate ? 'Debate Again' : 'Start Debate'}
+              </button>
+            </div>
+          </div>
+
+          {debating ? (
+            <LiveCouncil
+              startupId={String(id)}
+              live
+              interactive={interactive}
+              onComplete={handleDebateComplete}
+            />
+          ) : !debate ? (
+            <p className="text-gray-400">Convene the council to debate this pitch live.</p>
+          ) : debate.status === 'RUNNING' ? (
+            <p className="text-gray-400">The council is debating this pitch…</p>
+          ) : (
+            <CouncilReplay key={debate.id} startupId={String(id)} debate={debate} />
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
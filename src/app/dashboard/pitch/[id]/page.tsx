@@ -5,7 +5,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import Link from 'next/link';
-import { AgentFeedback } from '@/types/dashboard';
+import SwarmSpawnTree from '@/components/SwarmSpawnTree';
+import { AgentFeedback, AgentResultSummary, SwarmRunDetail } from '@/types/dashboard';
+import type { AnalysisDiff } from '@/lib/services/analysis-diff';
 
 interface PitchDetail {
   id: string;
@@ -35,6 +37,7 @@ interface PitchDetail {
     technicalFeedback: AgentFeedback;
     marketFeedback: AgentFeedback;
     legalFeedback: AgentFeedback;
+    results?: AgentResultSummary[];
     analysisStartedAt: string;
     analysisCompletedAt?: string;
   };
@@ -61,6 +64,9 @@ export default function PitchDetailPage() {
   const { data: session, status } = useSession();
   const [pitch, setPitch] = useState<PitchDetail | null>(null);
   const [offers, setOffers] = useState<InvestmentOffer[]>([]);
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null);
+  const [swarmRun, setSwarmRun] = useState<SwarmRunDetail | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
   const [loading, setLoading] = useState(true);
   const [accepting, setAccepting] = useState(false);
 
@@ -83,6 +89,8 @@ export default function PitchDetailPage() {
         const data = await res.json();
         setPitch(data.pitch);
         setOffers(data.offers || []);
+        if (data.pitch.analysis) fetchDiff();
+        fetchSwarmRun();
       } else if (res.status === 404) {
         router.push('/dashboard');
       }
@@ -93,6 +101,38 @@ export default function PitchDetailPage() {
     }
   };
 
+  // 404 just means there is no earlier run to compare with
+  const fetchDiff = async () => {
+    try {
+      const res = await fetch(`/api/pitches/${id}/analyses/diff`);
+      if (res.ok) {
+        const data = await res.json();
+        setDiff(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch analysis diff:', error);
+    }
+  };
+
+  // 404 just means the swarm hasn't evaluated this pitch yet
+  const fetchSwarmRun = async () => {
+    try {
+      const res = await fetch(`/api/pitches/${id}/swarm-runs/latest`);
+      if (res.ok) {
+        const data = await res.json();
+        setSwarmRun(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch swarm run:', error);
+    }
+  };
+
+  // The spawn tree streams the run; reload the stored run once it ends
+  const handleSwarmComplete = async () => {
+    await fetchSwarmRun();
+    setEvaluating(false);
+  };
+
   const handleAcceptOffer = async (offerId: string) => {
     if (!confirm('Are you sure you want to accept this funding offer?')) return;
 
@@ -128,12 +168,36 @@ export default function PitchDetailPage() {
     );
   }
 
+  const specialistResults = (pitch.analysis?.results || []).filter((result) => result.role !== 'core');
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-400';
     if (score >= 60) return 'text-yellow-400';
     return 'text-red-400';
   };
 
+  const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+  const getDeltaColor = (delta: number) => {
+    if (delta > 0) return 'text-green-400';
+    if (delta < 0) return 'text-red-400';
+    return 'text-gray-400';
+  };
+
+  const formatInput = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    const text = String(value);
+    return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+  };
+
+  const getVerdictColor = (verdict: string | null) => {
+    if (verdict === 'strong_yes' || verdict === 'yes' || verdict === 'accept') return 'bg-green-600/20 text-green-400';
+    if (verdict === 'no' || verdict === 'strong_no' || verdict === 'reject') return 'bg-red-600/20 text-red-400';
+    return 'bg-yellow-600/20 text-yellow-400';
+  };
+
+  const formatVerdict = (verdict: string | null) => (verdict ? verdict.replace(/_/g, ' ') : 'no analysis');
+
   const getRecommendationBadge = (recommendation: string) => {
     const config: Record<string, { color: string; text: string }> = {
       APPROVED: { color: 'bg-green-600/20 text-green-400 border-green-600/30', text: 'Approved' },
@@ -174,14 +238,22 @@ export default function PitchDetailPage() {
                 {pitch.analysis && getRecommendationBadge(pitch.analysis.recommendation)}
               </div>
             </div>
-            {pitch.funding && (
+            <div className="flex items-center gap-3">
               <Link
-                href={`/dashboard/funding/${pitch.funding.id}`}
-                className="px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 rounded-lg font-semibold transition-all"
+                href={`/dashboard/pitch/${pitch.id}/council`}
+                className="px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold border border-gray-700 transition-all"
               >
-                View Funding →
+                Live Council →
               </Link>
-            )}
+              {pitch.funding && (
+                <Link
+                  href={`/dashboard/funding/${pitch.funding.id}`}
+                  className="px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 rounded-lg font-semibold transition-all"
+                >
+                  View Funding →
+                </Link>
+              )}
+            </div>
           </div>
         </div>
 
@@ -313,6 +385,32 @@ export default function PitchDetailPage() {
                   </div>
                 </div>
 
+                {/* Industry & Specialist Reviews */}
+                {specialistResults.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold mb-3">Specialist Reviews</h3>
+                    <div className="space-y-3">
+                      {specialistResults.map((review) => (
+                        <div key={review.agentId} className="p-4 bg-gray-900/50 rounded-lg">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-gray-300">{review.agentName}</span>
+                            <span className={`text-lg font-bold ${getScoreColor(review.score)}`}>
+                              {review.score}/100
+                            </span>
+                          </div>
+                          {review.output.concerns && review.output.concerns.length > 0 && (
+                            <ul className="text-sm text-gray-400 list-disc list-inside">
+                              {review.output.concerns.slice(0, 2).map((concern, i) => (
+                                <li key={i}>{concern}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Valuation */}
                 <div className="p-4 bg-green-900/20 rounded-lg border border-green-600/30">
                   <div className="text-sm text-gray-400 mb-1">AI-Estimated Valuation</div>
@@ -321,7 +419,240 @@ export default function PitchDetailPage() {
                   </div>
                 </div>
               </motion.div>
-            ) : (
+            ) : null}
+
+            {/* What Changed Since Last Analysis */}
+            {pitch.analysis && diff && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.15 }}
+                className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700"
+              >
+                <h2 className="text-2xl font-bold mb-1">What Changed</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                  Run #{diff.to.runNumber} compared with run #{diff.from.runNumber}
+                </p>
+
+                <div className="grid md:grid-cols-3 gap-4 mb-6">
+                  <div className="p-4 bg-gray-900/50 rounded-lg">
+                    <div className="text-sm text-gray-400 mb-1">Overall Score</div>
+                    <div className="text-lg font-semibold">
+                      {diff.overall.before} → {diff.overall.after}{' '}
+                      <span className={getDeltaColor(diff.overall.delta)}>({formatDelta(diff.overall.delta)})</span>
+                    </div>
+                  </div>
+                  <div className="p-4 bg-gray-900/50 rounded-lg">
+                    <div className="text-sm text-gray-400 mb-1">Recommendation</div>
+                    <div className="text-lg font-semibold">
+                      {diff.recommendation.changed
+                        ? `${diff.recommendation.before} → ${diff.recommendation.after}`
+                        : 'Unchanged'}
+                    </div>
+                  </div>
+                  <div className="p-4 bg-gray-900/50 rounded-lg">
+                    <div className="text-sm text-gray-400 mb-1">Valuation</div>
+                    <div className={`text-lg font-semibold ${getDeltaColor(diff.valuation.delta)}`}>
+                      {diff.valuation.percentChange !== null
+                        ? `${formatDelta(diff.valuation.percentChange)}%`
+                        : `$${(diff.valuation.after / 100).toLocaleString()}`}
+                    </div>
+                  </div>
+                </div>
+
+                {diff.inputChanges && diff.inputChanges.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold mb-3">Pitch Edits</h3>
+                    <div className="space-y-2">
+                      {diff.inputChanges.map((change) => (
+                        <div key={change.field} className="p-3 bg-gray-900/50 rounded-lg text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="text-gray-300 font-semibold">{change.field}</span>
+                            <span className="text-gray-400">
+                              {formatInput(change.before)} → {formatInput(change.after)}
+                            </span>
+                          </div>
+                          {change.likelyAffected.length > 0 && (
+                            <div className="text-gray-500 mt-1">
+                              Likely moved: {change.likelyAffected.join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {diff.agents.some((agent) => agent.status !== 'unchanged') && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold mb-3">Agent Scores</h3>
+                    <div className="space-y-2">
+                      {diff.agents
+                        .filter((agent) => agent.status !== 'unchanged')
+                        .map((agent) => (
+                          <div key={agent.agentType} className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg text-sm">
+                            <span className="text-gray-300">{agent.agentName}</span>
+                            {agent.delta !== null ? (
+                              <span>
+                                {agent.before} → {agent.after}{' '}
+                                <span className={getDeltaColor(agent.delta)}>({formatDelta(agent.delta)})</span>
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">
+                                {agent.status === 'added' ? `New: ${agent.after}/100` : 'Did not run'}
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  {[
+                    { title: 'New Strengths', items: diff.strengths.added, color: 'text-green-400' },
+                    { title: 'Strengths No Longer Cited', items: diff.strengths.removed, color: 'text-red-400' },
+                    { title: 'Concerns Resolved', items: diff.concerns.removed, color: 'text-green-400' },
+                    { title: 'New Concerns', items: diff.concerns.added, color: 'text-red-400' },
+                  ].map(({ title, items, color }) => (
+                    <div key={title}>
+                      <h3 className="text-sm text-gray-400 mb-2">{title}</h3>
+                      {items.length > 0 ? (
+                        <ul className={`text-sm ${color} list-disc list-inside`}>
+                          {items.slice(0, 5).map((item, i) => <li key={i}>{item}</li>)}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-gray-500">None</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Evaluation Swarm */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 }}
+              className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-2xl font-bold mb-1">Swarm Evaluation</h2>
+                  {swarmRun && (
+                    <p className="text-sm text-gray-400">
+                      {new Date(swarmRun.startedAt).toLocaleString()}
+                      {swarmRun.executionTimeMs !== null && ` · ${(swarmRun.executionTimeMs / 1000).toFixed(1)}s`}
+                      {` · ${swarmRun.totalAgents} agents`}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => setEvaluating(true)}
+                  disabled={evaluating || !pitch.analysis || swarmRun?.status === 'RUNNING'}
+                  className="px-4 py-2 text-sm bg-gray-800 hover:bg-gray-700 rounded-lg border border-gray-700 disabled:opacity-50"
+                >
+                  {evaluating ? 'Evaluating…' : swarmRun ? 'Run Again' : 'Run Swarm'}
+                </button>
+              </div>
+
+              {evaluating ? (
+                <SwarmSpawnTree startupId={pitch.id} live onComplete={handleSwarmComplete} />
+              ) : !swarmRun ? (
+                <p className="text-gray-400">
+                  {pitch.analysis
+                    ? 'Spawn a swarm of domain experts to evaluate this pitch.'
+                    : 'Available once the analysis completes.'}
+                </p>
+              ) : swarmRun.status === 'FAILED' ? (
+                <p className="text-red-400">Swarm evaluation failed: {swarmRun.error}</p>
+              ) : swarmRun.status === 'RUNNING' ? (
+                <p className="text-gray-400">The swarm is evaluating this pitch…</p>
+              ) : (
+                <>
+                  <div className="flex items-center gap-4 mb-6">
+                    <span className={`px-4 py-2 rounded-full text-sm font-semibold capitalize ${getVerdictColor(swarmRun.overallVerdict)}`}>
+                      {formatVerdict(swarmRun.overallVerdict)}
+                    </span>
+                    {swarmRun.confidenceScore !== null && (
+                      <span className="text-gray-400">{swarmRun.confidenceScore}% confidence</span>
+                    )}
+                  </div>
+
+                  <h3 className="text-lg font-semibold mb-3">Agents</h3>
+                  <div className="mb-6">
+                    <SwarmSpawnTree startupId={pitch.id} run={swarmRun} />
+                  </div>
+
+                  {swarmRun.consensus && (
+                    <div className="grid md:grid-cols-3 gap-4 mb-6">
+                      {[
+                        { title: 'Top Strengths', items: swarmRun.consensus.topStrengths, color: 'text-green-400' },
+                        { title: 'Top Weaknesses', items: swarmRun.consensus.topWeaknesses, color: 'text-yellow-400' },
+                        { title: 'Critical Issues', items: swarmRun.consensus.criticalIssues, color: 'text-red-400' },
+                      ].map(({ title, items, color }) => (
+                        <div key={title}>
+                          <h3 className="text-sm text-gray-400 mb-2">{title}</h3>
+                          {items.length > 0 ? (
+                            <ul className={`text-sm ${color} list-disc list-inside`}>
+                              {items.slice(0, 5).map((item, i) => <li key={i}>{item}</li>)}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-gray-500">None</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {swarmRun.consensus?.vetoes.map((veto) => (
+                    <p key={`${veto.ruleId}-${veto.voterId}`} className="mb-2 text-sm text-red-400">
+                      Vetoed ({veto.label}) by {veto.voterName}: {veto.concern}
+                    </p>
+                  ))}
+
+                  {swarmRun.consensus?.dissent && swarmRun.consensus.dissent.dissenters.length > 0 && (
+                    <div className="mb-6">
+                      <h3 className="text-sm text-gray-400 mb-2">Dissent</h3>
+                      <p className="text-sm text-gray-300 mb-2">{swarmRun.consensus.dissent.summary}</p>
+                      <ul className="text-sm text-gray-400 list-disc list-inside">
+                        {swarmRun.consensus.dissent.dissenters.map((dissenter) => (
+                          <li key={dissenter.voterId}>
+                            {dissenter.domain}: {dissenter.concerns[0] ?? dissenter.reasoning ?? 'No reason given'}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {swarmRun.offers.some((offer) => offer.interested) && (
+                    <>
+                      <h3 className="text-lg font-semibold mb-3">Agent Offers</h3>
+                      <div className="space-y-2">
+                        {swarmRun.offers
+                          .filter((offer) => offer.interested)
+                          .map((offer) => (
+                            <div key={offer.agentId} className="p-3 bg-gray-900/50 rounded-lg text-sm">
+                              <div className="flex items-center justify-between">
+                                <span className="font-semibold">{offer.agentType.replace(/_/g, ' ')}</span>
+                                <span>
+                                  {offer.amount !== null && `$${offer.amount.toLocaleString()}`}
+                                  {offer.equity !== null && ` for ${offer.equity}%`}
+                                  <span className="text-gray-400 ml-2 uppercase">{offer.dealStructure}</span>
+                                </span>
+                              </div>
+                              {offer.reasoning && <p className="text-gray-400 mt-1">{offer.reasoning}</p>}
+                            </div>
+                          ))}
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+            </motion.div>
+
+            {!pitch.analysis && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
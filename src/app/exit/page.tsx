@@ -1,12 +1,23 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 
+interface PastReport {
+  id: string;
+  companyName: string;
+  status: 'ANALYZING' | 'COMPLETE' | 'FAILED';
+  valuationLow: number | null;
+  valuationHigh: number | null;
+  readinessScore: number | null;
+  createdAt: string;
+}
+
 export default function ExitAccelerator() {
   const [step, setStep] = useState(1);
   const [analyzing, setAnalyzing] = useState(false);
   const [results, setResults] = useState<any>(null);
+  const [pastReports, setPastReports] = useState<PastReport[]>([]);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -29,6 +40,43 @@ export default function ExitAccelerator() {
     moat: '',
   });
 
+  useEffect(() => {
+    // ?report=<id> reloads a stored report
+    const reportId = new URLSearchParams(window.location.search).get('report');
+    if (reportId) loadReport(reportId);
+    fetchPastReports();
+  }, []);
+
+  // 401 just means there is no signed-in user to list reports for
+  const fetchPastReports = async () => {
+    try {
+      const response = await fetch('/api/ma/exit-analysis?limit=5');
+      if (response.ok) {
+        const data = await response.json();
+        setPastReports(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch past reports:', error);
+    }
+  };
+
+  const loadReport = async (id: string) => {
+    try {
+      const response = await fetch(`/api/ma/exit-analysis/${id}`);
+      const data = await response.json();
+
+      if (data.success && data.data.report) {
+        setResults(data.data.report);
+        setStep(4);
+        window.history.replaceState(null, '', `?report=${id}`);
+      } else {
+        alert(data.error || 'This report is not available');
+      }
+    } catch (error) {
+      console.error('Failed to load report:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setAnalyzing(true);
@@ -56,6 +104,8 @@ export default function ExitAccelerator() {
       if (data.success) {
         setResults(data.report);
         setStep(4);
+        window.history.replaceState(null, '', `?report=${data.id}`);
+        fetchPastReports();
       } else {
         alert('Analysis failed: ' + (data.error || 'Unknown error'));
       }
@@ -133,6 +183,39 @@ export default function ExitAccelerator() {
           </div>
         </div>
 
+        {/* Past Reports */}
+        {pastReports.length > 0 && step !== 4 && (
+          <div className="max-w-4xl mx-auto mb-8 bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6">
+            <h2 className="text-xl font-bold mb-4">Past Reports</h2>
+            <div className="space-y-2">
+              {pastReports.map((report) => (
+                <button
+                  key={report.id}
+                  type="button"
+                  onClick={() => loadReport(report.id)}
+                  disabled={report.status !== 'COMPLETE'}
+                  className="w-full flex items-center justify-between p-3 bg-gray-700/50 hover:bg-gray-700 rounded-lg text-left disabled:opacity-50"
+                >
+                  <div>
+                    <div className="font-semibold">{report.companyName}</div>
+                    <div className="text-sm text-gray-400">{new Date(report.createdAt).toLocaleDateString()}</div>
+                  </div>
+                  <div className="text-sm text-right">
+                    {report.status === 'COMPLETE' && report.valuationLow !== null && report.valuationHigh !== null ? (
+                      <>
+                        <div>{formatCurrency(report.valuationLow)} - {formatCurrency(report.valuationHigh)}</div>
+                        <div className="text-gray-400">Readiness {report.readinessScore}/100</div>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">{report.status === 'FAILED' ? 'Failed' : 'Analyzing…'}</span>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Form Steps */}
         <div className="max-w-4xl mx-auto bg-gray-800/50 backdrop-blur-sm rounded-2xl p-8">
           <form onSubmit={handleSubmit}>
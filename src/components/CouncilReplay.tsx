@@ -0,0 +1,192 @@
+'use client';
+
+/**
+ * Replay of a stored council debate from its event log, at adjustable speed
+ * and with a seek bar. The log can be searched by speaker or message type
+ * (click a result to jump there) and exported as markdown.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { CouncilChamber } from '@/components/LiveCouncil';
+import {
+  DEBATE_MESSAGE_TYPES,
+  REPLAY_SPEEDS,
+  councilStateAt,
+  formatElapsed,
+  replayDelayMs,
+  searchDebateLog,
+  type DebateLogEntry,
+  type DebateMessageType,
+} from '@/lib/council/debate-log';
+import { councilStateFromDebate } from '@/lib/council/debate-state';
+import type { CouncilDebateDetail } from '@/types/dashboard';
+
+interface CouncilReplayProps {
+  startupId: string;
+  debate: CouncilDebateDetail;
+}
+
+export default function CouncilReplay({ startupId, debate }: CouncilReplayProps) {
+  const [entries, setEntries] = useState<DebateLogEntry[]>([]);
+  // Events played so far; null shows the finished debate
+  const [position, setPosition] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(4);
+  const [speaker, setSpeaker] = useState('');
+  const [messageType, setMessageType] = useState<DebateMessageType | ''>('');
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      try {
+        const res = await fetch(`/api/pitches/${startupId}/council-debates/${debate.id}/events`);
+        if (res.ok) {
+          const data = await res.json();
+          setEntries(data.data.entries);
+        }
+      } catch (error) {
+        console.error('Failed to fetch council debate events:', error);
+      }
+    };
+
+    fetchEntries();
+  }, [startupId, debate.id]);
+
+  useEffect(() => {
+    if (!playing || position === null) return;
+
+    const timer = setTimeout(() => {
+      const next = position + 1;
+      setPosition(next >= entries.length ? null : next);
+      if (next >= entries.length) setPlaying(false);
+    }, replayDelayMs(entries, position, speed));
+
+    return () => clearTimeout(timer);
+  }, [playing, position, speed, entries]);
+
+  const played = position ?? entries.length;
+  const state = useMemo(
+    () => (entries.length > 0 ? councilStateAt(entries, played) : councilStateFromDebate(debate)),
+    [entries, played, debate]
+  );
+  const results = useMemo(
+    () => (speaker || messageType ? searchDebateLog(entries, { speaker, messageType: messageType || undefined }) : []),
+    [entries, speaker, messageType]
+  );
+
+  const togglePlaying = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (position === null) setPosition(0);
+    setPlaying(true);
+  };
+
+  const seek = (count: number) => {
+    setPlaying(false);
+    setPosition(count >= entries.length ? null : count);
+  };
+
+  return (
+    <div>
+      {entries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+          <button
+            onClick={togglePlaying}
+            className="px-4 py-2 bg-purple-600/30 hover:bg-purple-600/50 rounded-lg font-semibold"
+          >
+            {playing ? 'Pause' : position === null ? 'Replay' : 'Resume'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={entries.length}
+            value={played}
+            onChange={(e) => seek(Number(e.target.value))}
+            className="flex-1 min-w-[120px]"
+            aria-label="Replay position"
+          />
+          <span className="text-gray-400 w-12 text-right">
+            {formatElapsed(played > 0 ? entries[played - 1].elapsedMs : 0)}
+          </span>
+          <div className="flex gap-1">
+            {REPLAY_SPEEDS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`px-2 py-1 rounded ${
+                  speed === option ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+          <a
+            href={`/api/pitches/${startupId}/council-debates/${debate.id}/export`}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg border border-gray-700"
+          >
+            Export Markdown
+          </a>
+        </div>
+      )}
+
+      <CouncilChamber state={state} inProgress={position !== null} />
+
+      {entries.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm text-gray-400 mb-2">Search Transcript</h4>
+          <div className="flex flex-wrap gap-3 mb-3">
+            <select
+              value={speaker}
+              onChange={(e) => setSpeaker(e.target.value)}
+              className="px-3 py-2 bg-gray-900/50 rounded-lg border border-gray-700 text-sm"
+            >
+              <option value="">Any speaker</option>
+              {debate.votes.map((vote) => (
+                <option key={vote.agentId} value={vote.agentId}>
+                  {vote.agentName}
+                </option>
+              ))}
+            </select>
+            <select
+              value={messageType}
+              onChange={(e) => setMessageType(e.target.value as DebateMessageType | '')}
+              className="px-3 py-2 bg-gray-900/50 rounded-lg border border-gray-700 text-sm capitalize"
+            >
+              <option value="">Any type</option>
+              {DEBATE_MESSAGE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {(speaker || messageType) && (
+            results.length === 0 ? (
+              <p className="text-sm text-gray-500">No matching messages.</p>
+            ) : (
+              <ul className="space-y-2 text-sm max-h-80 overflow-y-auto">
+                {results.map((entry) => (
+                  <li
+                    key={entry.seq}
+                    onClick={() => seek(entry.seq + 1)}
+                    className="p-3 bg-gray-900/50 rounded-lg cursor-pointer border border-transparent hover:border-gray-700"
+                  >
+                    <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                      <span className="capitalize">{entry.event.messageType}</span>
+                      <span>{formatElapsed(entry.elapsedMs)}</span>
+                    </div>
+                    <span className="font-semibold">{entry.event.agentName}: </span>
+                    <span className="text-gray-300">{entry.event.text}</span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+/**
+ * Live AI Council: the five council members with their sentiment and
+ * position, who is speaking and the transcript so far. Streams a new debate
+ * from /api/pitches/[id]/council-stream when `live` is set, otherwise shows
+ * a stored debate. With `interactive` the founder answers the council's
+ * questions as they're asked. `CouncilChamber` renders any council state
+ * (the replay uses it too).
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  applyCouncilEvent,
+  councilStateFromDebate,
+  emptyCouncilState,
+  type CouncilFounderQuestion,
+  type CouncilMember,
+  type CouncilState,
+  type CouncilStreamEvent,
+} from '@/lib/council/debate-state';
+import type { CouncilDebateDetail } from '@/types/dashboard';
+
+interface LiveCouncilProps {
+  startupId: string;
+  /** Stored debate shown when not streaming */
+  debate?: CouncilDebateDetail | null;
+  /** Start a new debate and stream it */
+  live?: boolean;
+  /** Let the founder answer the council's questions (live only) */
+  interactive?: boolean;
+  onComplete?: (debateId: string | null) => void;
+}
+
+const PHASES = [
+  { id: 'initial_reactions', label: 'Reactions' },
+  { id: 'questioning', label: 'Questions' },
+  { id: 'debate', label: 'Debate' },
+  { id: 'consensus', label: 'Verdicts' },
+] as const;
+
+const POSITION_COLORS: Record<string, string> = {
+  YES: 'bg-green-600/20 text-green-400',
+  NO: 'bg-red-600/20 text-red-400',
+  MAYBE: 'bg-yellow-600/20 text-yellow-400',
+};
+
+// Sentiment runs from -1 (against) to 1 (for)
+const sentimentColor = (sentiment: number) =>
+  sentiment > 0.2 ? 'bg-green-500' : sentiment < -0.2 ? 'bg-red-500' : 'bg-yellow-500';
+
+interface CouncilChamberProps {
+  state: CouncilState;
+  /** Still in progress (live or mid-replay) */
+  inProgress?: boolean;
+}
+
+export default function LiveCouncil({
+  startupId,
+  debate,
+  live = false,
+  interactive = false,
+  onComplete,
+}: LiveCouncilProps) {
+  const [liveState, setLiveState] = useState<CouncilState>(emptyCouncilState);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  // The state resets itself on debate_started
+  useEffect(() => {
+    if (!live) return;
+
+    const eventSource = new EventSource(
+      `/api/pitches/${startupId}/council-stream${interactive ? '?interactive=true' : ''}`
+    );
+
+    eventSource.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data) as CouncilStreamEvent;
+        setLiveState((state) => applyCouncilEvent(state, event));
+
+        if (event.type === 'complete' || event.type === 'error') {
+          eventSource.close();
+          onCompleteRef.current?.(event.type === 'complete' ? event.debateId : null);
+        }
+      } catch (error) {
+        console.error('Failed to parse council event:', error);
+      }
+    };
+
+    eventSource.onerror = () => {
+      eventSource.close();
+      setLiveState((state) => (state.done ? state : { ...state, done: true, error: 'Connection lost' }));
+      onCompleteRef.current?.(null);
+    };
+
+    return () => eventSource.close();
+  }, [live, interactive, startupId]);
+
+  const state = live ? liveState : debate ? councilStateFromDebate(debate) : emptyCouncilState();
+  const openQuestion = live ? liveState.founderQuestions.find((question) => question.status === 'open') : undefined;
+  const asker = openQuestion && liveState.members.find((member) => member.id === openQuestion.agentId);
+
+  return (
+    <div>
+      {openQuestion && liveState.debateId && (
+        <FounderAnswerForm
+          key={openQuestion.questionId}
+          startupId={startupId}
+          debateId={liveState.debateId}
+          question={openQuestion}
+          askedBy={asker?.name ?? 'The council'}
+        />
+      )}
+      <CouncilChamber state={state} inProgress={live && !liveState.done} />
+    </div>
+  );
+}
+
+interface FounderAnswerFormProps {
+  startupId: string;
+  debateId: string;
+  question: CouncilFounderQuestion;
+  askedBy: string;
+}
+
+// The debate waits on this question until it's answered or times out
+function FounderAnswerForm({ startupId, debateId, question, askedBy }: FounderAnswerFormProps) {
+  const [answer, setAnswer] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/pitches/${startupId}/council-debates/${debateId}/answers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionId: question.questionId, answer }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error ?? 'Failed to submit answer');
+        setSubmitting(false);
+      }
+    } catch (error) {
+      console.error('Failed to submit answer:', error);
+      setError('Failed to submit answer');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-purple-900/30 rounded-lg border border-purple-600/50">
+      <div className="text-sm text-purple-300 mb-1">
+        {askedBy} asks you (answer within {Math.round(question.timeoutMs / 1000)}s):
+      </div>
+      <p className="font-semibold mb-3">{question.question}</p>
+      <textarea
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        rows={3}
+        maxLength={4000}
+        disabled={submitting}
+        className="w-full px-3 py-2 mb-2 bg-gray-900/50 rounded-lg border border-gray-700 text-sm"
+        placeholder="Your answer"
+      />
+      <div className="flex items-center gap-3">
+        <button
+          onClick={submit}
+          disabled={submitting || !answer.trim()}
+          className="px-4 py-2 text-sm bg-purple-600/30 hover:bg-purple-600/50 rounded-lg font-semibold disabled:opacity-50"
+        >
+          {submitting ? 'Answering…' : 'Answer'}
+        </button>
+        {error && <span className="text-sm text-red-400">{error}</span>}
+      </div>
+    </div>
+  );
+}
+
+export function CouncilChamber({ state, inProgress = false }: CouncilChamberProps) {
+  const phaseIndex = PHASES.findIndex((phase) => phase.id === state.phase);
+  const recentSpeeches = state.speeches
+    .map((speech, index) => ({ ...speech, index }))
+    .slice(-8)
+    .reverse();
+
+  const renderMember = (member: CouncilMember) => {
+    const speaking = state.speakingAgentId === member.id;
+    const width = `${Math.round(((member.sentiment + 1) / 2) * 100)}%`;
+
+    return (
+      <motion.div
+        key={member.id}
+        layout
+        className={`p-4 rounded-lg border transition-colors ${
+          speaking ? 'bg-gray-900/80 border-purple-600/50' : 'bg-gray-900/50 border-transparent'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-2xl">{member.avatar}</span>
+            <div className="min-w-0">
+              <div className="font-semibold truncate">{member.name}</div>
+              <div className="text-xs text-gray-400">{member.role}</div>
+            </div>
+          </div>
+          {member.position ? (
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${POSITION_COLORS[member.position]}`}>
+              {member.position}
+            </span>
+          ) : speaking ? (
+            <span className="flex items-center gap-1 text-xs text-blue-400">
+              <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
+              Speaking
+            </span>
+          ) : null}
+        </div>
+        <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden" title={`Sentiment ${member.sentiment.toFixed(2)}`}>
+          <motion.div
+            className={`h-full ${sentimentColor(member.sentiment)}`}
+            initial={false}
+            animate={{ width }}
+            transition={{ duration: 0.4 }}
+          />
+        </div>
+      </motion.div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        {PHASES.map((phase, i) => (
+          <span
+            key={phase.id}
+            className={`px-3 py-1 rounded-full ${
+              i === phaseIndex
+                ? 'bg-purple-600/30 text-purple-300'
+                : i < phaseIndex
+                ? 'text-gray-400'
+                : 'text-gray-600'
+            }`}
+          >
+            {phase.label}
+          </span>
+        ))}
+      </div>
+
+      {state.members.length === 0 ? (
+        !state.error && (
+          <p className="text-gray-400">{inProgress ? 'Convening the council…' : 'No debate yet.'}</p>
+        )
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">{state.members.map(renderMember)}</div>
+      )}
+
+      {state.decision && (
+        <div className="flex items-center gap-4 mb-6">
+          <span
+            className={`px-4 py-2 rounded-full text-sm font-semibold ${
+              state.decision === 'APPROVED' ? 'bg-green-600/20 text-green-400' : 'bg-red-600/20 text-red-400'
+            }`}
+          >
+            {state.decision === 'APPROVED' ? 'Approved' : 'Rejected'}
+          </span>
+          {state.confidence !== null && (
+            <span className="text-gray-400">{Math.round(state.confidence * 100)}% margin</span>
+          )}
+        </div>
+      )}
+
+      {recentSpeeches.length > 0 && (
+        <div>
+          <h4 className="text-sm text-gray-400 mb-2">
+            {inProgress ? state.phaseDescription ?? 'Transcript' : 'Transcript'}
+          </h4>
+          <ul className="space-y-2 text-sm">
+            <AnimatePresence initial={false}>
+              {recentSpeeches.map((speech) => (
+                <motion.li
+                  key={speech.index}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="p-3 bg-gray-900/50 rounded-lg"
+                >
+                  <span className="font-semibold">{speech.speaker}: </span>
+                  <span className="text-gray-300">{speech.text}</span>
+                </motion.li>
+              ))}
+            </AnimatePresence>
+          </ul>
+        </div>
+      )}
+
+      {state.error && <p className="mt-3 text-red-400">Council debate failed: {state.error}</p>}
+    </div>
+  );
+}
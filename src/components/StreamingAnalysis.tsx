@@ -88,6 +88,17 @@ export function StreamingAnalysis({ pitchId, onComplete }: StreamingAnalysisProp
             }));
             break;
 
+          case 'agent_error':
+            setAgents(prev => ({
+              ...prev,
+              [data.agent]: {
+                ...prev[data.agent],
+                name: data.agent,
+                status: 'error',
+              }
+            }));
+            break;
+
           case 'synthesis':
             setStatus(data.message);
             break;
@@ -0,0 +1,253 @@
+'use client';
+
+/**
+ * Evaluation swarm spawn tree: which expert spawned which sub-agent, with
+ * each agent's verdict, confidence and time spent. Streams live from
+ * /api/pitches/[id]/swarm-stream when `live` is set, otherwise shows a
+ * stored run. Click an agent for its strengths, weaknesses and reasoning.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import {
+  applySwarmEvent,
+  childrenOf,
+  emptySpawnTree,
+  spawnTreeFromRun,
+  type SpawnTree,
+  type SpawnTreeNode,
+  type SwarmStreamEvent,
+} from '@/lib/agents/evaluation-swarm/spawn-tree';
+import type { SwarmRunDetail } from '@/types/dashboard';
+
+interface SwarmSpawnTreeProps {
+  startupId: string;
+  /** Stored run shown when not streaming */
+  run?: SwarmRunDetail | null;
+  /** Start a new swarm run and stream it */
+  live?: boolean;
+  onComplete?: (runId: string | null) => void;
+}
+
+const VERDICT_COLORS: Record<string, string> = {
+  strong_yes: 'bg-green-600/20 text-green-400',
+  yes: 'bg-green-600/20 text-green-400',
+  maybe: 'bg-yellow-600/20 text-yellow-400',
+  no: 'bg-red-600/20 text-red-400',
+  strong_no: 'bg-red-600/20 text-red-400',
+};
+
+const formatAgentType = (agentType: string) =>
+  agentType.toLowerCase().replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+const SKIP_REASONS: Record<string, string> = {
+  max_depth: 'depth limit',
+  max_agents: 'agent limit',
+  max_spend: 'spend limit',
+  deadline: 'deadline',
+  sub_agents_disabled: 'sub-agents disabled',
+  unknown_type: 'unknown agent',
+  duplicate: 'duplicate',
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return null;
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+};
+
+export default function SwarmSpawnTree({ startupId, run, live = false, onComplete }: SwarmSpawnTreeProps) {
+  const [liveTree, setLiveTree] = useState<SpawnTree>(emptySpawnTree);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string | null>(null);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  // The tree resets itself on swarm_start
+  useEffect(() => {
+    if (!live) return;
+
+    const eventSource = new EventSource(`/api/pitches/${startupId}/swarm-stream`);
+
+    eventSource.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data) as SwarmStreamEvent;
+        setLiveTree((tree) => applySwarmEvent(tree, event));
+
+        if (event.type === 'complete' || event.type === 'error') {
+          eventSource.close();
+          onCompleteRef.current?.(event.type === 'complete' ? event.runId : null);
+        }
+      } catch (error) {
+        console.error('Failed to parse swarm event:', error);
+      }
+    };
+
+    eventSource.onerror = () => {
+      eventSource.close();
+      setLiveTree((tree) => (tree.done ? tree : { ...tree, done: true, error: 'Connection lost' }));
+      onCompleteRef.current?.(null);
+    };
+
+    return () => eventSource.close();
+  }, [live, startupId]);
+
+  const tree = live ? liveTree : run ? spawnTreeFromRun(run) : emptySpawnTree();
+  const nodes = Object.values(tree.nodes);
+  const running = nodes.filter((node) => node.status === 'running').length;
+
+  const toggleCollapsed = (agentId: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(agentId)) next.delete(agentId);
+      else next.add(agentId);
+      return next;
+    });
+  };
+
+  const renderNode = (node: SpawnTreeNode) => {
+    const children = childrenOf(tree, node.agentId);
+    const isCollapsed = collapsed.has(node.agentId);
+    const isSelected = selected === node.agentId;
+
+    return (
+      <motion.li
+        key={node.agentId}
+        layout
+        initial={{ opacity: 0, x: -10 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ duration: 0.2 }}
+      >
+        <div
+          onClick={() => setSelected(isSelected ? null : node.agentId)}
+          className={`flex items-center justify-between p-3 rounded-lg text-sm cursor-pointer border transition-colors ${
+            isSelected ? 'bg-gray-900/80 border-purple-600/50' : 'bg-gray-900/50 border-transparent hover:border-gray-700'
+          }`}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            {children.length > 0 ? (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleCollapsed(node.agentId);
+                }}
+                className="text-gray-400 hover:text-white"
+                aria-label={isCollapsed ? 'Expand sub-agents' : 'Collapse sub-agents'}
+              >
+                {isCollapsed ? <ChevronRightIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+              </button>
+            ) : (
+              <span className="w-4" />
+            )}
+            <span className="font-semibold truncate">{formatAgentType(node.agentType)}</span>
+            <span className="text-gray-500 truncate hidden md:inline">{node.domain}</span>
+            {children.length > 0 && isCollapsed && (
+              <span className="text-xs text-gray-500">+{children.length}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3 flex-shrink-0">
+            {node.confidence !== null && <span className="text-gray-400">{node.confidence}%</span>}
+            {node.timeSpentMs !== null && <span className="text-gray-500">{formatDuration(node.timeSpentMs)}</span>}
+            {node.status === 'running' ? (
+              <span className="flex items-center gap-1 text-xs text-blue-400">
+                <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
+                Analyzing
+              </span>
+            ) : node.status === 'failed' ? (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-red-600/20 text-red-400">Failed</span>
+            ) : (
+              <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${VERDICT_COLORS[node.verdict ?? 'maybe']}`}>
+                {node.verdict?.replace(/_/g, ' ')}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <AnimatePresence>
+          {isSelected && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="mt-2 ml-6 p-3 bg-gray-900/30 rounded-lg text-sm space-y-2">
+                {node.error && <p className="text-red-400">{node.error}</p>}
+                {node.strengths.length > 0 && (
+                  <ul className="text-green-400 list-disc list-inside">
+                    {node.strengths.slice(0, 3).map((item, i) => <li key={i}>{item}</li>)}
+                  </ul>
+                )}
+                {node.weaknesses.length > 0 && (
+                  <ul className="text-red-400 list-disc list-inside">
+                    {node.weaknesses.slice(0, 3).map((item, i) => <li key={i}>{item}</li>)}
+                  </ul>
+                )}
+                {node.reasoning && <p className="text-gray-400">{node.reasoning}</p>}
+                {node.status === 'running' && <p className="text-gray-500">Still analyzing…</p>}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {children.length > 0 && !isCollapsed && (
+          <ul className="mt-2 ml-6 pl-4 border-l border-gray-700 space-y-2">
+            {children.map((agentId) => renderNode(tree.nodes[agentId]))}
+          </ul>
+        )}
+      </motion.li>
+    );
+  };
+
+  const roots = childrenOf(tree, null);
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-3 text-sm text-gray-400">
+        <span>{nodes.length} agents</span>
+        <span>{nodes.filter((node) => node.parentAgentId).length} sub-agents</span>
+        {running > 0 && (
+          <span className="flex items-center gap-1 text-blue-400">
+            <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
+            {running} running
+          </span>
+        )}
+      </div>
+
+      {roots.length === 0 ? (
+        <p className="text-gray-400">
+          {live && !tree.done ? 'Deciding which experts to spawn…' : 'No agents were spawned.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          <AnimatePresence>{roots.map((agentId) => renderNode(tree.nodes[agentId]))}</AnimatePresence>
+        </ul>
+      )}
+
+      {tree.skipped.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm text-gray-400 mb-2">Skipped Spawns</h4>
+          <ul className="space-y-1 text-sm">
+            {tree.skipped.map((spawn, i) => (
+              <li key={i} className="flex items-center justify-between text-gray-500">
+                <span>
+                  {formatAgentType(spawn.agentType)}
+                  {spawn.parentAgentId && tree.nodes[spawn.parentAgentId] && (
+                    <> ← {formatAgentType(tree.nodes[spawn.parentAgentId].agentType)}</>
+                  )}
+                </span>
+                <span className="text-xs">{SKIP_REASONS[spawn.reason] ?? spawn.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {live && tree.error && <p className="mt-3 text-red-400">Swarm evaluation failed: {tree.error}</p>}
+    </div>
+  );
+}
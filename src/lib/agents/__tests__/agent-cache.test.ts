@@ -0,0 +1,104 @@
+/**
+ * Tests for content-addressed agent result caching
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Startup } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { llm, withLLMContext } from '@/lib/llm';
+import { cache } from '@/lib/cache';
+import { canonicalJson } from '../agent-cache';
+import { FinancialAnalystAgent } from '../financial-analyst';
+import { LegalComplianceAgent } from '../legal-compliance';
+
+const structured = vi.spyOn(llm, 'structured');
+
+const analysis = {
+  score: 70,
+  confidence: 80,
+  strengths: ['Clear market'],
+  concerns: ['Burn rate'],
+  feedback: [],
+  valuation: 5_000_000,
+  valuationMethodology: 'Comparables',
+  burnRateAssessment: 'OK',
+  revenueModelAnalysis: 'SaaS',
+  fundingRecommendation: 'Raise seed',
+};
+
+function startup(overrides: Partial<Startup> = {}): Startup {
+  return {
+    id: 'startup_1',
+    name: 'Acme',
+    tagline: 'Rockets for everyone',
+    description: 'Reusable rockets',
+    stage: 'MVP',
+    industry: 'Aerospace',
+    fundingAsk: 1_000_000,
+    teamSize: 5,
+    website: null,
+    deckUrl: null,
+    pitchVideo: null,
+    founderName: 'Ada',
+    founderEmail: 'ada@example.com',
+    allowSharedAnalysis: false,
+    status: 'PENDING',
+    ...overrides,
+  } as Startup;
+}
+
+describe('agent result cache', () => {
+  const agent = new FinancialAnalystAgent();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await cache.clear();
+    structured.mockResolvedValue({ data: analysis } as never);
+  });
+
+  it('reuses a result while every prompt input is unchanged', async () => {
+    await agent.analyze(startup());
+    // Fields the prompt doesn't read don't affect the key
+    await agent.analyze(startup({ status: 'ANALYZING', founderName: 'Grace', deckUrl: 'https://deck.example' }));
+
+    expect(structured).toHaveBeenCalledTimes(1);
+  });
+
+  it('misses when any field the prompt reads changes', async () => {
+    await agent.analyze(startup());
+    await agent.analyze(startup({ description: 'Reusable rockets, now with landing legs' }));
+    await agent.analyze(startup({ stage: 'GROWTH' }));
+
+    expect(structured).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps results private to a startup unless both opted into sharing', async () => {
+    await agent.analyze(startup({ id: 'a' }));
+    await agent.analyze(startup({ id: 'b' }));
+    expect(structured).toHaveBeenCalledTimes(2);
+
+    await agent.analyze(startup({ id: 'c', allowSharedAnalysis: true }));
+    await agent.analyze(startup({ id: 'd', allowSharedAnalysis: true }));
+    expect(structured).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps budget-downgraded results apart from full-model ones', async () => {
+    const legal = new LegalComplianceAgent();
+
+    await withLLMContext({ downgrade: true }, () => legal.analyze(startup()));
+    await legal.analyze(startup());
+    expect(structured).toHaveBeenCalledTimes(2);
+
+    await withLLMContext({ downgrade: true }, () => legal.analyze(startup()));
+    expect(structured).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('canonicalJson', () => {
+  it('ignores object key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: 3 } }))
+      .toBe(canonicalJson({ a: { c: 3, d: [2, { e: 0, f: 1 }] }, b: 1 }));
+  });
+});
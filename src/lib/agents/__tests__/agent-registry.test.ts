@@ -0,0 +1,25 @@
+/**
+ * Tests for the agent registry
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { CORE_AGENTS, INDUSTRY_AGENTS, SPECIALIST_AGENTS } from '../agent-registry';
+
+const allAgents = [...CORE_AGENTS, ...INDUSTRY_AGENTS, ...SPECIALIST_AGENTS];
+
+describe('agent registry', () => {
+  it('has a runner and a unique tracking type for every agent', () => {
+    for (const agent of allAgents) {
+      expect(agent.run, agent.id).toBeTypeOf('function');
+      expect(agent.agentType, agent.id).toBeDefined();
+    }
+    expect(new Set(allAgents.map(a => a.agentType)).size).toBe(allAgents.length);
+  });
+
+  it('declares one agent per capability', () => {
+    expect(new Set(allAgents.map(a => a.capability)).size).toBe(allAgents.length);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for agent checkpoints (resumable analysis)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Startup } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agentCheckpoint: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { loadCheckpoints, fingerprintStartup } from '../checkpoints';
+
+const findMany = vi.mocked(prisma.agentCheckpoint.findMany);
+const upsert = vi.mocked(prisma.agentCheckpoint.upsert);
+
+const startup = {
+  id: 'startup_1',
+  name: 'Acme',
+  tagline: 'Rockets for everyone',
+  description: 'Reusable rockets',
+  stage: 'MVP',
+  industry: 'Aerospace',
+  fundingAsk: 1_000_000,
+  teamSize: 5,
+  website: null,
+  deckUrl: null,
+} as Startup;
+
+describe('AgentCheckpointSet', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reuses completed agents and only runs missing ones', async () => {
+    findMany.mockResolvedValue([
+      { agentType: 'FINANCIAL_ANALYST', output: { score: 80 } },
+    ] as never);
+    const checkpoints = await loadCheckpoints(startup);
+    const financial = vi.fn();
+    const technical = vi.fn(async () => ({ score: 70 }));
+
+    expect(await checkpoints.run('FINANCIAL_ANALYST', financial)).toEqual({ score: 80 });
+    expect(await checkpoints.run('TECHNICAL_DD', technical)).toEqual({ score: 70 });
+
+    expect(financial).not.toHaveBeenCalled();
+    expect(technical).toHaveBeenCalledOnce();
+    expect(upsert.mock.calls[0][0].create).toMatchObject({ agentType: 'TECHNICAL_DD', status: 'COMPLETED' });
+  });
+
+  it('records failures and rethrows', async () => {
+    findMany.mockResolvedValue([]);
+    const checkpoints = await loadCheckpoints(startup);
+
+    await expect(
+      checkpoints.run('LEGAL_COMPLIANCE', async () => {
+        throw new Error('provider down');
+      })
+    ).rejects.toThrow('provider down');
+    expect(upsert.mock.calls[0][0].create).toMatchObject({ status: 'FAILED' });
+  });
+
+  it('invalidates checkpoints when the pitch changes', () => {
+    const edited = { ...startup, description: 'Reusable rockets, now cheaper' };
+
+    expect(fingerprintStartup(edited)).not.toBe(fingerprintStartup(startup));
+  });
+});
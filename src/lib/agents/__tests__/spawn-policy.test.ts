@@ -0,0 +1,168 @@
+/**
+ * Tests for the evaluation swarm's spawn policy
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { llm } from '@/lib/llm';
+import type { LLMMessage } from '@/lib/llm';
+import { EvaluationOrchestrator, estimateSwarmCost, matchAgentTypes, type Pitch } from '../evaluation-swarm/orchestrator';
+import {
+  DEFAULT_SPAWN_POLICY,
+  SpawnPolicySchema,
+  admitSpawns,
+  resolveSpawnPolicy,
+  type SpawnPolicy,
+} from '../evaluation-swarm/spawn-policy';
+
+const pitch: Pitch = {
+  id: 'startup_1',
+  name: 'SwapRoute',
+  tagline: 'Best price execution for DeFi traders',
+  description: 'A DeFi aggregator routing swaps',
+  industry: 'DeFi',
+  stage: 'Seed',
+  fundingAsk: 500000,
+  valuation: 5000000,
+  teamSize: 3,
+  founderName: 'Alice Builder',
+  founderBackground: 'Ex-exchange engineer',
+};
+
+const topLevel = matchAgentTypes(pitch).length;
+
+/** The DeFi expert asks for sub-agents, including another DeFi expert */
+let requested: string[] = [];
+
+function respond(messages: LLMMessage[]) {
+  const prompt = messages.map(message => message.content).join('\n');
+  if (prompt.includes('investment offer')) return { interested: false };
+  if (prompt.includes('DeFi & Crypto')) {
+    return { verdict: 'yes', confidence: 80, shouldSpawnSubAgents: true, requiredSubAgents: requested };
+  }
+  return { verdict: 'yes', confidence: 75 };
+}
+
+function context(policy: Partial<SpawnPolicy>, state: Partial<{ agentCount: number; projectedSpendUsd: number; elapsedMs: number }> = {}) {
+  return {
+    policy: { ...DEFAULT_SPAWN_POLICY, ...policy },
+    state: { agentCount: 0, projectedSpendUsd: 0, elapsedMs: 0, ...state },
+    depth: 1,
+    parentAgentId: 'PARENT_1',
+    costPerAgentUsd: 0.25,
+    isKnownType: (agentType: string) => agentType !== 'WIZARD',
+  };
+}
+
+describe('admitSpawns', () => {
+  it('takes candidates in priority order until the agent limit', () => {
+    const { admitted, skipped } = admitSpawns(
+      [
+        { agentType: 'C', priority: 2 },
+        { agentType: 'A', priority: 0 },
+        { agentType: 'B', priority: 1 },
+      ],
+      context({ maxAgents: 4 }, { agentCount: 2 })
+    );
+
+    expect(admitted).toEqual(['A', 'B']);
+    expect(skipped).toEqual([{ agentType: 'C', parentAgentId: 'PARENT_1', depth: 1, reason: 'max_agents' }]);
+  });
+
+  it('counts running agents against the spend limit', () => {
+    const { admitted, skipped } = admitSpawns(
+      [{ agentType: 'A', priority: 0 }, { agentType: 'B', priority: 1 }],
+      context({ maxSpendUsd: 1 }, { projectedSpendUsd: 0.6 })
+    );
+
+    expect(admitted).toEqual(['A']);
+    expect(skipped.map(spawn => spawn.reason)).toEqual(['max_spend']);
+  });
+
+  it('stops spawning after the deadline and below the depth limit', () => {
+    expect(admitSpawns([{ agentType: 'A', priority: 0 }], context({ deadlineMs: 1000 }, { elapsedMs: 1000 })).skipped[0].reason)
+      .toBe('deadline');
+    expect(admitSpawns([{ agentType: 'A', priority: 0 }], context({ maxDepth: 0 })).skipped[0].reason)
+      .toBe('max_depth');
+  });
+
+  it('skips unknown and repeated types', () => {
+    const { admitted, skipped } = admitSpawns(
+      [{ agentType: 'WIZARD', priority: 0 }, { agentType: 'A', priority: 1 }, { agentType: 'A', priority: 2 }],
+      context({})
+    );
+
+    expect(admitted).toEqual(['A']);
+    expect(skipped.map(spawn => spawn.reason)).toEqual(['unknown_type', 'duplicate']);
+  });
+});
+
+describe('spawn policy input', () => {
+  it('fills unset fields from the defaults and coerces query strings', () => {
+    const parsed = SpawnPolicySchema.parse({ maxDepth: '0', maxSpendUsd: '2.5' });
+    expect(resolveSpawnPolicy(parsed)).toEqual({ ...DEFAULT_SPAWN_POLICY, maxDepth: 0, maxSpendUsd: 2.5 });
+  });
+
+  it('rejects out-of-range limits', () => {
+    expect(SpawnPolicySchema.safeParse({ maxAgents: 0 }).success).toBe(false);
+    expect(SpawnPolicySchema.safeParse({ maxDepth: 10 }).success).toBe(false);
+  });
+
+  it('caps the sub-agent estimate by the policy', () => {
+    expect(estimateSwarmCost(pitch, resolveSpawnPolicy({ maxDepth: 0 })).subAgentCostUsd).toBe(0);
+    expect(estimateSwarmCost(pitch, resolveSpawnPolicy({ maxAgents: topLevel + 1 })).subAgentCostUsd).toBe(0.25);
+  });
+});
+
+describe('EvaluationOrchestrator spawn policy', () => {
+  beforeEach(() => {
+    requested = [];
+    vi.spyOn(llm, 'json').mockImplementation(async (_task, messages) => ({
+      data: respond(messages),
+      response: { content: '', provider: 'mock', model: 'mock-1', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, latencyMs: 0 },
+    }) as never);
+  });
+
+  it("prunes the parent's lower-priority requests at the agent limit", async () => {
+    // Declared order is TOKENOMICS_SPECIALIST, SECURITY_AUDITOR, LIQUIDITY_ANALYST
+    requested = ['SECURITY_AUDITOR', 'TOKENOMICS_SPECIALIST'];
+
+    const evaluation = await new EvaluationOrchestrator(pitch, { policy: { maxAgents: topLevel + 1 } }).evaluate();
+    const { spawnedAgents, skippedSpawns, policy, evaluationStrategy } = evaluation.orchestratorDecision;
+
+    expect(spawnedAgents).toHaveLength(topLevel + 1);
+    expect(spawnedAgents.at(-1)).toMatchObject({ type: 'TOKENOMICS_SPECIALIST', depth: 1 });
+    expect(skippedSpawns).toEqual([
+      expect.objectContaining({ agentType: 'SECURITY_AUDITOR', depth: 1, reason: 'max_agents' }),
+    ]);
+    expect(policy.maxAgents).toBe(topLevel + 1);
+    expect(evaluationStrategy).toContain('Skipped 1 spawns (max agents)');
+  });
+
+  it('stops agents that can spawn from recursing past the depth limit', async () => {
+    requested = ['DEFI_PROTOCOL_EXPERT', 'WIZARD'];
+
+    const evaluation = await new EvaluationOrchestrator(pitch).evaluate();
+    const { spawnedAgents, skippedSpawns } = evaluation.orchestratorDecision;
+
+    expect(spawnedAgents.filter(agent => agent.type === 'DEFI_PROTOCOL_EXPERT').map(agent => agent.depth)).toEqual([0, 1]);
+    expect(skippedSpawns.map(spawn => [spawn.agentType, spawn.depth, spawn.reason])).toEqual([
+      ['WIZARD', 1, 'unknown_type'],
+      ['DEFI_PROTOCOL_EXPERT', 2, 'max_depth'],
+      ['WIZARD', 2, 'unknown_type'],
+    ]);
+  });
+
+  it('reports requested sub-agents when they are disabled', async () => {
+    requested = ['TOKENOMICS_SPECIALIST'];
+
+    const evaluation = await new EvaluationOrchestrator(pitch, { allowSubAgents: false }).evaluate();
+
+    expect(evaluation.orchestratorDecision.totalAgentsSpawned).toBe(topLevel);
+    expect(evaluation.orchestratorDecision.skippedSpawns).toEqual([
+      expect.objectContaining({ agentType: 'TOKENOMICS_SPECIALIST', reason: 'sub_agents_disabled' }),
+    ]);
+  });
+});
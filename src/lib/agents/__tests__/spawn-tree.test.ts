@@ -0,0 +1,145 @@
+/**
+ * Tests for the evaluation swarm's lifecycle events and the spawn tree
+ * built from them
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { llm } from '@/lib/llm';
+import type { LLMMessage } from '@/lib/llm';
+import { EvaluationOrchestrator, type Pitch, type SwarmEvent } from '../evaluation-swarm/orchestrator';
+import {
+  applySwarmEvent,
+  childrenOf,
+  emptySpawnTree,
+  spawnTreeFromRun,
+  type SpawnTree,
+} from '../evaluation-swarm/spawn-tree';
+
+const pitch: Pitch = {
+  id: 'startup_1',
+  name: 'SwapRoute',
+  tagline: 'Best price execution for DeFi traders',
+  description: 'A DeFi aggregator routing swaps across protocols',
+  industry: 'DeFi',
+  stage: 'Seed',
+  fundingAsk: 500000,
+  valuation: 5000000,
+  teamSize: 3,
+  founderName: 'Alice Builder',
+  founderBackground: 'Ex-exchange engineer',
+};
+
+function respond(messages: LLMMessage[]) {
+  const prompt = messages.map(message => message.content).join('\n');
+  if (prompt.includes('investment offer')) return { interested: false };
+  if (prompt.includes('DeFi & Crypto')) {
+    return { verdict: 'yes', confidence: 80, strengths: ['Audited contracts'], shouldSpawnSubAgents: true, requiredSubAgents: ['TOKENOMICS_SPECIALIST'] };
+  }
+  if (prompt.includes('Token Economics')) {
+    return { verdict: 'maybe', confidence: 60, weaknesses: ['No token utility'] };
+  }
+  return { verdict: 'yes', confidence: 75 };
+}
+
+describe('EvaluationOrchestrator events', () => {
+  beforeEach(() => {
+    vi.spyOn(llm, 'json').mockImplementation(async (_task, messages) => ({
+      data: respond(messages),
+      response: { content: '', provider: 'mock', model: 'mock-1', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, latencyMs: 0 },
+    }) as never);
+  });
+
+  it('reports spawns and completions that rebuild the spawn tree', async () => {
+    const events: SwarmEvent[] = [];
+    const evaluation = await new EvaluationOrchestrator(pitch).on(event => events.push(event)).evaluate();
+
+    expect(events[0]).toEqual({ type: 'swarm_start', pitchId: 'startup_1', allowSubAgents: true });
+    expect(events.at(-1)).toMatchObject({ type: 'swarm_complete', totalAgentsSpawned: evaluation.orchestratorDecision.totalAgentsSpawned });
+
+    // A parent completes after its sub-agents
+    const types = events.map(event => event.type === 'agent_complete' ? event.agentId : event.type);
+    const expert = evaluation.orchestratorDecision.spawnedAgents.find(agent => agent.type === 'DEFI_PROTOCOL_EXPERT')!;
+    const tokenomics = evaluation.orchestratorDecision.spawnedAgents.find(agent => agent.type === 'TOKENOMICS_SPECIALIST')!;
+    expect(tokenomics.parentAgentId).toBe(expert.id);
+    expect(types.indexOf(tokenomics.id)).toBeLessThan(types.indexOf(expert.id));
+
+    const tree = events.reduce(applySwarmEvent, emptySpawnTree());
+    expect(tree.order).toHaveLength(evaluation.orchestratorDecision.totalAgentsSpawned);
+    expect(childrenOf(tree, expert.id)).toEqual([tokenomics.id]);
+    expect(childrenOf(tree, null)).not.toContain(tokenomics.id);
+    expect(Object.values(tree.nodes).every(node => node.status === 'complete')).toBe(true);
+    expect(tree.nodes[tokenomics.id]).toMatchObject({ verdict: 'maybe', confidence: 60, weaknesses: ['No token utility'] });
+    expect(tree.consensus?.overallVerdict).toBe(evaluation.consensus.overallVerdict);
+  });
+
+  it('reports the failing agent before the evaluation rejects', async () => {
+    vi.mocked(llm.json).mockRejectedValue(new Error('provider down'));
+    const events: SwarmEvent[] = [];
+
+    await expect(new EvaluationOrchestrator(pitch).on(event => events.push(event)).evaluate()).rejects.toThrow('provider down');
+
+    const tree = events.reduce(applySwarmEvent, emptySpawnTree());
+    expect(Object.values(tree.nodes).some(node => node.status === 'failed' && node.error === 'provider down')).toBe(true);
+  });
+});
+
+describe('spawn tree', () => {
+  it('ignores events for agents it never saw spawn', () => {
+    const tree: SpawnTree = applySwarmEvent(emptySpawnTree(), { type: 'agent_error', agentId: 'ghost_1', error: 'x' });
+    expect(tree.order).toEqual([]);
+  });
+
+  it('shows orphaned sub-agents as roots', () => {
+    const tree = applySwarmEvent(emptySpawnTree(), {
+      type: 'agent_spawned',
+      agent: { id: 'SECURITY_AUDITOR_2', type: 'SECURITY_AUDITOR', domain: 'Security', parentAgentId: 'MISSING_1', depth: 1, spawnedAt: 0 },
+    });
+    expect(childrenOf(tree, null)).toEqual(['SECURITY_AUDITOR_2']);
+  });
+
+  it('rebuilds a stored run, marking agents that never reported back', () => {
+    const node = (agentId: string, verdict: 'yes' | null, subAgents = []) => ({
+      agentId,
+      agentType: agentId.replace(/_\d+$/, ''),
+      domain: 'DeFi & Crypto',
+      spawnedAt: '2026-10-19T12:00:00.000Z',
+      verdict,
+      confidence: verdict ? 80 : null,
+      strengths: [],
+      weaknesses: [],
+      criticalQuestions: [],
+      recommendations: [],
+      reasoning: null,
+      timeSpentMs: null,
+      prompt: null,
+      subAgents,
+    });
+
+    const tree = spawnTreeFromRun({
+      id: 'run_1',
+      status: 'COMPLETED',
+      startedAt: '2026-10-19T12:00:00.000Z',
+      completedAt: '2026-10-19T12:00:05.000Z',
+      executionTimeMs: 5000,
+      allowSubAgents: true,
+      policy: null,
+      skippedSpawns: [],
+      strategy: null,
+      overallVerdict: 'accept',
+      confidenceScore: 80,
+      consensus: { topStrengths: [], topWeaknesses: [], criticalIssues: [] },
+      error: null,
+      totalAgents: 2,
+      agents: [{ ...node('DEFI_PROTOCOL_EXPERT_1', 'yes'), subAgents: [node('SECURITY_AUDITOR_2', null)] }],
+      offers: [],
+    });
+
+    expect(tree.done).toBe(true);
+    expect(childrenOf(tree, 'DEFI_PROTOCOL_EXPERT_1')).toEqual(['SECURITY_AUDITOR_2']);
+    expect(tree.nodes.SECURITY_AUDITOR_2.status).toBe('failed');
+    expect(tree.consensus).toMatchObject({ overallVerdict: 'accept', confidenceScore: 80 });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for the evaluation swarm's consensus: votes weighted by how relevant
+ * each agent's registry triggers and expertise are to the pitch, red flag
+ * vetoes and the confidence score; and for cancelling an evaluation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { llm } from '@/lib/llm';
+import type { LLMMessage } from '@/lib/llm';
+import { EvaluationOrchestrator, type Pitch } from '../evaluation-swarm/orchestrator';
+
+// Spawns the three cross-functional agents and the DeFi expert, who
+// mentions "defi" once: relevance 1.25 against 1 for the rest
+const pitch: Pitch = {
+  id: 'startup_1',
+  name: 'SwapRoute',
+  tagline: 'Best price execution for DeFi traders',
+  description: 'A DeFi aggregator routing swaps',
+  industry: 'DeFi',
+  stage: 'Seed',
+  fundingAsk: 500000,
+  valuation: 5000000,
+  teamSize: 3,
+  founderName: 'Alice Builder',
+  founderBackground: 'Ex-exchange engineer',
+};
+
+/** Each domain's answer; agents not listed vote yes at 80 */
+let answers: Record<string, Record<string, unknown>> = {};
+
+function respond(messages: LLMMessage[]) {
+  const prompt = messages.map(message => message.content).join('\n');
+  if (prompt.includes('investment offer')) return { interested: false };
+
+  const domain = prompt.match(/You are an expert (.+?) evaluation agent/)?.[1] ?? '';
+  return answers[domain] ?? { verdict: 'yes', confidence: 80 };
+}
+
+function dissenters(evaluation: Awaited<ReturnType<EvaluationOrchestrator['evaluate']>>) {
+  return evaluation.consensus.dissent.dissenters.map(({ voterName, weight }) => ({ voterName, weight }));
+}
+
+describe('EvaluationOrchestrator consensus', () => {
+  beforeEach(() => {
+    answers = {};
+    vi.spyOn(llm, 'json').mockImplementation(async (_task, messages) => ({
+      data: respond(messages),
+      response: { content: '', provider: 'mock', model: 'mock-1', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, latencyMs: 0 },
+    }) as never);
+  });
+
+  it('weights agents whose registry triggers the pitch mentions', async () => {
+    answers['DeFi & Crypto'] = { verdict: 'no', confidence: 80 };
+
+    const evaluation = await new EvaluationOrchestrator(pitch).evaluate();
+
+    // (3 x 0.5 - 1.25 x 0.5) / 4.25 = 0.206: not enough to accept
+    expect(evaluation.consensus.overallVerdict).toBe('needs_revision');
+    expect(dissenters(evaluation)).toEqual([{ voterName: 'DEFI_PROTOCOL_EXPERT', weight: 0.294 }]);
+  });
+
+  it('discounts sub-agents\' votes by a quarter', async () => {
+    answers['DeFi & Crypto'] = { verdict: 'yes', confidence: 80, shouldSpawnSubAgents: true, requiredSubAgents: ['SECURITY_AUDITOR'] };
+    answers['Smart Contract Security'] = { verdict: 'no', confidence: 80 };
+
+    const evaluation = await new EvaluationOrchestrator(pitch).evaluate();
+
+    // Weights 1, 1, 1, 1.25 and 0.75 for the auditor
+    expect(evaluation.consensus.overallVerdict).toBe('accept');
+    expect(dissenters(evaluation)).toEqual([{ voterName: 'SECURITY_AUDITOR', weight: 0.15 }]);
+  });
+
+  it('lets a security expert\'s red flag veto the majority, but not a weakness', async () => {
+    answers['DeFi & Crypto'] = { verdict: 'yes', confidence: 80, shouldSpawnSubAgents: true, requiredSubAgents: ['SECURITY_AUDITOR'] };
+    answers['Smart Contract Security'] = {
+      verdict: 'strong_no',
+      confidence: 90,
+      weaknesses: ['Thin test coverage'],
+      redFlags: ['Unaudited contracts hold user funds'],
+    };
+    answers['Market & Competition'] = { verdict: 'no', confidence: 90, weaknesses: ['Unaudited contracts are common in this space'] };
+
+    const evaluation = await new EvaluationOrchestrator(pitch).evaluate();
+    const { consensus } = evaluation;
+
+    expect(consensus.overallVerdict).toBe('reject');
+    expect(consensus.vetoes).toEqual([
+      expect.objectContaining({ ruleId: 'security', voterName: 'SECURITY_AUDITOR', concern: 'Unaudited contracts hold user funds' }),
+    ]);
+    expect(consensus.criticalIssues[0]).toBe('[Security red flag] Unaudited contracts hold user funds');
+    expect(evaluation.offers).toEqual([]);
+  });
+
+  it('ignores red flags outside the rule\'s domains', async () => {
+    answers['Team & Execution'] = { verdict: 'strong_no', confidence: 90, redFlags: ['Unaudited contracts'] };
+
+    const evaluation = await new EvaluationOrchestrator(pitch).evaluate();
+
+    expect(evaluation.consensus.vetoes).toEqual([]);
+  });
+
+  it('reports the weighted confidence out of 100', async () => {
+    answers['Finance & Metrics'] = { verdict: 'yes', confidence: 60 };
+    answers['Market & Competition'] = { verdict: 'yes', confidence: 90 };
+    answers['Team & Execution'] = { verdict: 'yes', confidence: 90 };
+    answers['DeFi & Crypto'] = { verdict: 'yes', confidence: 90 };
+
+    const evaluation = await new EvaluationOrchestrator(pitch).evaluate();
+
+    // (0.6 + 0.9 x 3.25) / 4.25 = 0.829
+    expect(evaluation.consensus.confidenceScore).toBe(83);
+  });
+});
+
+describe('EvaluationOrchestrator cancellation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(llm, 'json').mockResolvedValue({
+      data: { verdict: 'yes', confidence: 80 },
+      response: { content: '', provider: 'mock', model: 'mock-1', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, latencyMs: 0 },
+    } as never);
+  });
+
+  it('runs no more agents once aborted', async () => {
+    const viewer = new AbortController();
+    const orchestrator = new EvaluationOrchestrator(pitch, { signal: viewer.signal })
+      .on(event => {
+        if (event.type === 'agent_spawned') viewer.abort();
+      });
+
+    await expect(orchestrator.evaluate()).rejects.toThrow('Evaluation cancelled');
+    expect(llm.json).not.toHaveBeenCalled();
+  });
+
+  it('spawns no sub-agents once aborted', async () => {
+    const viewer = new AbortController();
+    // The viewer leaves while the first agents are being answered
+    vi.mocked(llm.json).mockImplementation(async () => {
+      viewer.abort();
+      return {
+        data: { verdict: 'yes', confidence: 80, shouldSpawnSubAgents: true, requiredSubAgents: ['SECURITY_AUDITOR'] },
+        response: { content: '', provider: 'mock', model: 'mock-1', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, latencyMs: 0 },
+      } as never;
+    });
+    const spawned: string[] = [];
+    const orchestrator = new EvaluationOrchestrator(pitch, { signal: viewer.signal })
+      .on(event => {
+        if (event.type === 'agent_spawned') spawned.push(event.agent.type);
+      });
+
+    await expect(orchestrator.evaluate()).rejects.toThrow('Evaluation cancelled');
+    expect(spawned).toContain('DEFI_PROTOCOL_EXPERT');
+    expect(spawned).not.toContain('SECURITY_AUDITOR');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for analysis synthesis
+ */
+
+import { describe, it, expect } from 'vitest';
+import { synthesizeAnalysis } from '../synthesis';
+import type { FinancialAnalysis } from '../financial-analyst';
+import type { TechnicalAnalysis } from '../technical-dd';
+import type { MarketAnalysis } from '../market-research';
+import type { LegalAnalysis } from '../legal-compliance';
+
+function agent<T>(score: number, extra: object = {}): T {
+  return { score, strengths: [`strength ${score}`], concerns: [`concern ${score}`], ...extra } as T;
+}
+
+const financial = agent<FinancialAnalysis>(80, { valuation: 5_000_000 });
+const technical = agent<TechnicalAnalysis>(80);
+const market = agent<MarketAnalysis>(80);
+const legal = agent<LegalAnalysis>(80);
+
+describe('synthesizeAnalysis', () => {
+  it('scores on core agents alone when no specialists ran', () => {
+    const synthesis = synthesizeAnalysis(financial, technical, market, legal);
+
+    expect(synthesis.overallScore).toBe(80);
+    expect(synthesis.recommendation).toBe('APPROVED');
+  });
+
+  it('blends specialist scores and flags weak specialist reviews', () => {
+    const synthesis = synthesizeAnalysis(financial, technical, market, legal, [
+      { name: 'Healthcare Compliance Expert', result: agent(30) },
+    ]);
+
+    expect(synthesis.overallScore).toBe(70);
+    expect(synthesis.recommendation).toBe('CONDITIONAL');
+    expect(synthesis.summary).toContain('Specialist red flags: Healthcare Compliance Expert (30/100)');
+    expect(synthesis.keyConcerns).toContain('concern 30');
+    expect(synthesis.nextSteps).toContain('- Resolve the issues raised by the Healthcare Compliance Expert');
+  });
+});
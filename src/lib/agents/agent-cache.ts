@@ -0,0 +1,69 @@
+/**
+ * Agent Result Cache - Content-Addressed Keys
+ *
+ * An agent result is cached under a hash of exactly what the model is asked:
+ * the rendered system and user prompts (so every pitch field the prompt
+ * uses, and the prompt text itself, are part of the key), the output schema
+ * and the model route. Editing any field a prompt reads, changing a prompt or
+ * switching models always misses; fields a prompt ignores never do.
+ *
+ * Entries are private to a startup unless it opted into
+ * `allowSharedAnalysis`; opted-in pitches with identical content share
+ * results across users.
+ */
+
+import { createHash } from "crypto";
+import type { Startup } from "@prisma/client";
+import { cacheTags, type CacheOptions } from "../cache";
+import type { LLMMessage, RouteConfig } from "../llm";
+
+/** Bump to discard every cached agent result (e.g. output post-processing changed) */
+const CACHE_FORMAT_VERSION = 1;
+
+const SHARED_TAG = "agent-results:shared";
+
+export interface AgentCacheScope {
+  startupId: string;
+  shared: boolean;
+}
+
+export interface AgentCacheRequest {
+  /** Models, temperature and token limit the call is routed with */
+  route: RouteConfig;
+  messages: LLMMessage[];
+  /** JSON Schema of the expected output */
+  schema: unknown;
+}
+
+export function agentCacheScope(startup: Pick<Startup, "id" | "allowSharedAnalysis">): AgentCacheScope {
+  return { startupId: startup.id, shared: startup.allowSharedAnalysis };
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return item;
+    return Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    );
+  });
+}
+
+export function agentCacheKey(request: AgentCacheRequest, scope: AgentCacheScope): string {
+  const hash = createHash("sha256")
+    .update(canonicalJson({ version: CACHE_FORMAT_VERSION, ...request }))
+    .digest("hex");
+
+  return `agent:${scope.shared ? "shared" : `startup:${scope.startupId}`}:${hash}`;
+}
+
+export function agentCacheOptions(scope: AgentCacheScope): CacheOptions {
+  return {
+    // Keys change whenever the answer could, so entries can live long
+    ttl: { hours: 24 },
+    tags: [scope.shared ? SHARED_TAG : cacheTags.startup(scope.startupId)],
+    metric: scope.shared ? "agent-shared" : "agent",
+  };
+}
@@ -1,4 +1,26 @@
-import type { Startup } from "@prisma/client";
+import type { AgentType, Startup } from "@prisma/client";
+import { FinancialAnalystAgent } from "./financial-analyst";
+import { TechnicalDDAgent } from "./technical-dd";
+import { MarketResearchAgent } from "./market-research";
+import { LegalComplianceAgent } from "./legal-compliance";
+import { BlockchainExpertAgent } from "./industry/blockchain-expert";
+import { AIMLSpecialistAgent } from "./industry/ai-ml-specialist";
+import { FinTechRegulatorAgent } from "./industry/fintech-regulator";
+import { HealthcareComplianceAgent } from "./industry/healthcare-compliance";
+import { ClimateImpactAgent } from "./industry/climate-impact";
+import { HardwareManufacturingAgent } from "./industry/hardware-manufacturing";
+import { BiotechScienceAgent } from "./industry/biotech-science";
+import { GamingMonetizationAgent } from "./industry/gaming-monetization";
+import { EcommerceLogisticsAgent } from "./industry/ecommerce-logistics";
+import { EducationPedagogyAgent } from "./industry/education-pedagogy";
+import { SecurityAuditAgent } from "./specialists/security-audit";
+import { DataPrivacyAgent } from "./specialists/data-privacy";
+import { TeamDynamicsAgent } from "./specialists/team-dynamics";
+import { CompetitiveIntelligenceAgent } from "./specialists/competitive-intelligence";
+import { PatentSearchAgent } from "./specialists/patent-search";
+import { GoToMarketAgent } from "./specialists/go-to-market";
+import { PricingStrategyAgent } from "./specialists/pricing-strategy";
+import { FundraisingStrategyAgent } from "./specialists/fundraising-strategy";
 
 // Agent capability types
 export type AgentCapability = 
@@ -27,6 +49,17 @@ export type AgentCapability =
   | "pricing_strategy"
   | "fundraising_strategy";
 
+/**
+ * Fields every agent result shares (agent-specific schemas extend this).
+ * A type alias rather than an interface so results stay assignable to
+ * Prisma JSON columns.
+ */
+export type AgentOutput = {
+  score: number;
+  strengths: string[];
+  concerns: string[];
+};
+
 export interface AgentDefinition {
   id: string;
   name: string;
@@ -37,6 +70,12 @@ export interface AgentDefinition {
   industryFocus?: string[];
   stageFocus?: string[];
   spawnConditions?: (startup: Startup) => boolean;
+  /** Tracking/checkpoint key; set together with `run` */
+  agentType?: AgentType;
+  /** Runs the agent; agents without a runner are selected but skipped */
+  run?: (startup: Startup) => Promise<AgentOutput>;
+  /** Version of the agent's output schema, stored with each result (default 1) */
+  schemaVersion?: number;
 }
 
 // Core agents - always run
@@ -48,6 +87,8 @@ export const CORE_AGENTS: AgentDefinition[] = [
     description: "Analyzes revenue models, burn rate, and financial viability",
     priority: 10,
     cost: 0.60,
+    agentType: "FINANCIAL_ANALYST",
+    run: (startup) => new FinancialAnalystAgent().analyze(startup),
   },
   {
     id: "technical-dd",
@@ -56,6 +97,8 @@ export const CORE_AGENTS: AgentDefinition[] = [
     description: "Evaluates tech stack, scalability, and security",
     priority: 9,
     cost: 0.55,
+    agentType: "TECHNICAL_DD",
+    run: (startup) => new TechnicalDDAgent().analyze(startup),
   },
   {
     id: "market-research",
@@ -64,6 +107,8 @@ export const CORE_AGENTS: AgentDefinition[] = [
     description: "Analyzes TAM, competition, and market timing",
     priority: 9,
     cost: 0.65,
+    agentType: "MARKET_RESEARCH",
+    run: (startup) => new MarketResearchAgent().analyze(startup),
   },
   {
     id: "legal-compliance",
@@ -72,6 +117,8 @@ export const CORE_AGENTS: AgentDefinition[] = [
     description: "Reviews regulatory requirements and corporate structure",
     priority: 8,
     cost: 0.50,
+    agentType: "LEGAL_COMPLIANCE",
+    run: (startup) => new LegalComplianceAgent().analyze(startup),
   },
 ];
 
@@ -91,6 +138,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("crypto") ||
       startup.description.toLowerCase().includes("token") ||
       startup.description.toLowerCase().includes("smart contract"),
+    agentType: "BLOCKCHAIN_EXPERT",
+    run: (startup) => new BlockchainExpertAgent().analyze(startup),
   },
   {
     id: "ai-ml-specialist",
@@ -105,6 +154,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("machine learning") ||
       startup.description.toLowerCase().includes("llm") ||
       startup.description.toLowerCase().includes("neural network"),
+    agentType: "AI_ML_SPECIALIST",
+    run: (startup) => new AIMLSpecialistAgent().analyze(startup),
   },
   {
     id: "healthcare-specialist",
@@ -120,6 +171,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("biotech") ||
       startup.description.toLowerCase().includes("hipaa") ||
       startup.description.toLowerCase().includes("fda"),
+    agentType: "HEALTHCARE_COMPLIANCE",
+    run: (startup) => new HealthcareComplianceAgent().analyze(startup),
   },
   {
     id: "fintech-regulator",
@@ -135,6 +188,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("banking") ||
       startup.description.toLowerCase().includes("kyc") ||
       startup.description.toLowerCase().includes("financial"),
+    agentType: "FINTECH_REGULATOR",
+    run: (startup) => new FinTechRegulatorAgent().analyze(startup),
   },
   {
     id: "climate-impact",
@@ -150,6 +205,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("sustainability") ||
       startup.description.toLowerCase().includes("carbon") ||
       startup.description.toLowerCase().includes("renewable"),
+    agentType: "CLIMATE_IMPACT",
+    run: (startup) => new ClimateImpactAgent().analyze(startup),
   },
   {
     id: "hardware-manufacturing",
@@ -165,6 +222,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("robotics") ||
       startup.description.toLowerCase().includes("manufacture") ||
       startup.description.toLowerCase().includes("physical product"),
+    agentType: "HARDWARE_MANUFACTURING",
+    run: (startup) => new HardwareManufacturingAgent().analyze(startup),
   },
   {
     id: "biotech-scientist",
@@ -179,6 +238,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("pharma") ||
       startup.description.toLowerCase().includes("clinical") ||
       startup.description.toLowerCase().includes("molecule"),
+    agentType: "BIOTECH_SCIENCE",
+    run: (startup) => new BiotechScienceAgent().analyze(startup),
   },
   {
     id: "gaming-monetization",
@@ -192,6 +253,8 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("gaming") ||
       startup.industry.toLowerCase().includes("game") ||
       startup.industry.toLowerCase().includes("esports"),
+    agentType: "GAMING_MONETIZATION",
+    run: (startup) => new GamingMonetizationAgent().analyze(startup),
   },
   {
     id: "ecommerce-logistics",
@@ -206,6 +269,24 @@ export const INDUSTRY_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("marketplace") ||
       startup.industry.toLowerCase().includes("retail") ||
       startup.description.toLowerCase().includes("logistics"),
+    agentType: "ECOMMERCE_LOGISTICS",
+    run: (startup) => new EcommerceLogisticsAgent().analyze(startup),
+  },
+  {
+    id: "education-specialist",
+    name: "Education & Pedagogy Expert",
+    capability: "education_pedagogy",
+    description: "Learning efficacy, instructional design, school and district sales",
+    priority: 6,
+    cost: 0.55,
+    industryFocus: ["EdTech", "Education", "Corporate Learning"],
+    spawnConditions: (startup) =>
+      startup.industry.toLowerCase().includes("edtech") ||
+      startup.industry.toLowerCase().includes("education") ||
+      startup.description.toLowerCase().includes("students") ||
+      startup.description.toLowerCase().includes("teachers"),
+    agentType: "EDUCATION_PEDAGOGY",
+    run: (startup) => new EducationPedagogyAgent().analyze(startup),
   },
 ];
 
@@ -223,6 +304,8 @@ export const SPECIALIST_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("fintech") ||
       startup.industry.toLowerCase().includes("blockchain") ||
       startup.industry.toLowerCase().includes("health"),
+    agentType: "SECURITY_AUDIT",
+    run: (startup) => new SecurityAuditAgent().analyze(startup),
   },
   {
     id: "data-privacy-expert",
@@ -236,6 +319,8 @@ export const SPECIALIST_AGENTS: AgentDefinition[] = [
       startup.description.toLowerCase().includes("personal information") ||
       startup.industry.toLowerCase().includes("health") ||
       startup.industry.toLowerCase().includes("fintech"),
+    agentType: "DATA_PRIVACY",
+    run: (startup) => new DataPrivacyAgent().analyze(startup),
   },
   {
     id: "team-psychologist",
@@ -247,6 +332,8 @@ export const SPECIALIST_AGENTS: AgentDefinition[] = [
     stageFocus: ["IDEA", "MVP"],
     spawnConditions: (startup) =>
       startup.teamSize >= 5 && startup.stage === "IDEA",
+    agentType: "TEAM_DYNAMICS",
+    run: (startup) => new TeamDynamicsAgent().analyze(startup),
   },
   {
     id: "competitive-intel",
@@ -257,6 +344,8 @@ export const SPECIALIST_AGENTS: AgentDefinition[] = [
     cost: 0.60,
     spawnConditions: (startup) =>
       startup.fundingAsk > 2000000, // Only for larger rounds
+    agentType: "COMPETITIVE_INTELLIGENCE",
+    run: (startup) => new CompetitiveIntelligenceAgent().analyze(startup),
   },
   {
     id: "patent-searcher",
@@ -270,6 +359,8 @@ export const SPECIALIST_AGENTS: AgentDefinition[] = [
       startup.industry.toLowerCase().includes("hardware") ||
       startup.description.toLowerCase().includes("patent") ||
       startup.description.toLowerCase().includes("invention"),
+    agentType: "PATENT_SEARCH",
+    run: (startup) => new PatentSearchAgent().analyze(startup),
   },
   {
     id: "gtm-strategist",
@@ -281,6 +372,36 @@ export const SPECIALIST_AGENTS: AgentDefinition[] = [
     stageFocus: ["MVP", "GROWTH"],
     spawnConditions: (startup) =>
       startup.stage === "MVP" || startup.stage === "GROWTH",
+    agentType: "GO_TO_MARKET",
+    run: (startup) => new GoToMarketAgent().analyze(startup),
+  },
+  {
+    id: "pricing-strategist",
+    name: "Pricing Strategist",
+    capability: "pricing_strategy",
+    description: "Pricing model, value metric, packaging and willingness to pay",
+    priority: 6,
+    cost: 0.50,
+    stageFocus: ["MVP", "GROWTH"],
+    spawnConditions: (startup) =>
+      startup.industry.toLowerCase().includes("saas") ||
+      startup.description.toLowerCase().includes("subscription") ||
+      startup.description.toLowerCase().includes("pricing"),
+    agentType: "PRICING_STRATEGY",
+    run: (startup) => new PricingStrategyAgent().analyze(startup),
+  },
+  {
+    id: "fundraising-strategist",
+    name: "Fundraising Strategist",
+    capability: "fundraising_strategy",
+    description: "Round sizing, instruments, investor targeting and milestones",
+    priority: 5,
+    cost: 0.50,
+    spawnConditions: (startup) =>
+      startup.fundingAsk > 10000000 || // Large rounds
+      (startup.stage === "IDEA" && startup.fundingAsk > 1500000), // Ambitious ask for the stage
+    agentType: "FUNDRAISING_STRATEGY",
+    run: (startup) => new FundraisingStrategyAgent().analyze(startup),
   },
 ];
 
@@ -313,10 +434,9 @@ export function estimateCost(agents: AgentDefinition[]): number {
   return agents.reduce((sum, agent) => sum + agent.cost, 0);
 }
 
-// Get agent count breakdown
-export function getAgentBreakdown(startup: Startup) {
-  const agents = selectAgents(startup);
-  
+// Get agent count breakdown (defaults to every agent selected for the startup)
+export function getAgentBreakdown(startup: Startup, agents: AgentDefinition[] = selectAgents(startup)) {
+
   return {
     total: agents.length,
     core: agents.filter(a => CORE_AGENTS.includes(a)).length,
@@ -0,0 +1,127 @@
+/**
+ * Agent Checkpoints - Resumable Analysis
+ *
+ * Each agent's result is persisted as soon as it finishes, keyed by startup
+ * and `AgentType`. When an analysis is rerun (after a crash, a failed core
+ * agent or a job retry) completed agents are restored from their checkpoint
+ * and only missing or failed agents execute again.
+ *
+ * Checkpoints carry a fingerprint of the pitch fields the agents saw, so
+ * editing the pitch invalidates them. They are cleared once a complete
+ * (non-partial) analysis has been saved.
+ */
+
+import { createHash } from "crypto";
+import type { AgentType, Prisma, Startup } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { prisma } from "../prisma";
+
+/**
+ * The startup fields agents analyze
+ */
+export function pitchInput(startup: Startup) {
+  return {
+    name: startup.name,
+    tagline: startup.tagline,
+    description: startup.description,
+    stage: startup.stage,
+    industry: startup.industry,
+    fundingAsk: startup.fundingAsk,
+    teamSize: startup.teamSize,
+    website: startup.website,
+    deckUrl: startup.deckUrl,
+  };
+}
+
+export type PitchInput = ReturnType<typeof pitchInput>;
+
+/**
+ * Fingerprint of the startup fields agents analyze
+ */
+export function fingerprintStartup(startup: Startup): string {
+  return createHash("sha256").update(JSON.stringify(pitchInput(startup))).digest("hex").slice(0, 32);
+}
+
+export class AgentCheckpointSet {
+  constructor(
+    readonly startupId: string,
+    readonly inputHash: string,
+    private outputs: Map<AgentType, unknown>
+  ) {}
+
+  /** Agent types restored from a previous run */
+  get restored(): AgentType[] {
+    return [...this.outputs.keys()];
+  }
+
+  has(agentType: AgentType): boolean {
+    return this.outputs.has(agentType);
+  }
+
+  /**
+   * Return the checkpointed result for an agent, or run it and persist the
+   * result (or the failure) before returning/throwing
+   */
+  async run<T>(agentType: AgentType, fn: () => Promise<T>): Promise<T> {
+    if (this.outputs.has(agentType)) {
+      logger.info(`[Checkpoints] Reusing ${agentType} result for ${this.startupId}`);
+      return this.outputs.get(agentType) as T;
+    }
+
+    try {
+      const output = await fn();
+      await this.save(agentType, {
+        status: "COMPLETED",
+        output: output as Prisma.InputJsonValue,
+        errorMessage: null,
+      });
+      this.outputs.set(agentType, output);
+      return output;
+    } catch (error) {
+      await this.save(agentType, {
+        status: "FAILED",
+        output: undefined,
+        errorMessage: String(error),
+      }).catch(saveError => {
+        logger.error(`[Checkpoints] Failed to record ${agentType} failure:`, saveError);
+      });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await prisma.agentCheckpoint.deleteMany({ where: { startupId: this.startupId } });
+  }
+
+  private async save(
+    agentType: AgentType,
+    data: { status: "COMPLETED" | "FAILED"; output: Prisma.InputJsonValue | undefined; errorMessage: string | null }
+  ): Promise<void> {
+    await prisma.agentCheckpoint.upsert({
+      where: { startupId_agentType: { startupId: this.startupId, agentType } },
+      create: { startupId: this.startupId, agentType, inputHash: this.inputHash, ...data },
+      update: { inputHash: this.inputHash, ...data, attempts: { increment: 1 } },
+    });
+  }
+}
+
+/**
+ * Load completed checkpoints that still match the startup's current pitch
+ */
+export async function loadCheckpoints(startup: Startup): Promise<AgentCheckpointSet> {
+  const inputHash = fingerprintStartup(startup);
+
+  const checkpoints = await prisma.agentCheckpoint.findMany({
+    where: { startupId: startup.id, inputHash, status: "COMPLETED" },
+  });
+
+  const outputs = new Map<AgentType, unknown>(
+    checkpoints.map(checkpoint => [checkpoint.agentType, checkpoint.output])
+  );
+
+  if (outputs.size > 0) {
+    logger.info(`[Checkpoints] Resuming ${startup.id} with ${outputs.size} completed agents`);
+  }
+
+  return new AgentCheckpointSet(startup.id, inputHash, outputs);
+}
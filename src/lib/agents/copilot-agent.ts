@@ -12,7 +12,7 @@
  * Uses existing Message model with agentType='COPILOT' (no schema changes needed).
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { llm, type LLMMessage } from '@/lib/llm';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 
@@ -24,15 +24,6 @@ interface CopilotContext {
 }
 
 export class CopilotAgent {
-  private anthropic: Anthropic;
-
-  constructor() {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY is required for CopilotAgent');
-    }
-    this.anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  }
-
   /**
    * Main chat function - handles a founder's message and returns AI response
    */
@@ -56,8 +47,9 @@ export class CopilotAgent {
       // 3. Build system prompt with startup context
       const systemPrompt = this.buildSystemPrompt(context);
       
-      // 4. Format messages for Claude
-      const messages: Anthropic.MessageParam[] = [
+      // 4. Format conversation messages
+      const messages: LLMMessage[] = [
+        { role: 'system', content: systemPrompt },
         ...history.map(h => ({
           role: h.role.toLowerCase() as 'user' | 'assistant',
           content: h.content,
@@ -65,18 +57,10 @@ export class CopilotAgent {
         { role: 'user' as const, content: message },
       ];
 
-      // 5. Call Claude Sonnet
-      logger.info(`CopilotAgent: Calling Claude with ${messages.length} messages`);
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        system: systemPrompt,
-        messages,
-      });
-
-      const reply = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : '';
+      // 5. Call the conversation model
+      logger.info(`CopilotAgent: Calling LLM with ${messages.length} messages`);
+      const response = await llm.chat('conversation', messages, { maxTokens: 2000 });
+      const reply = response.content;
 
       // 6. Store both messages in DB
       await this.storeMessages(userId, startupId, message, reply);
@@ -225,13 +209,13 @@ Keep it casual (2-3 sentences max) and specific to their startup. Make it feel p
 Example tone: "Morning! How's the new feature coming along? Hit any roadblocks with the API integration?"`;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-haiku-20241022', // Cheaper model for check-ins
-        max_tokens: 150,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const response = await llm.chat(
+        'triage', // Cheaper model for check-ins
+        [{ role: 'user', content: prompt }],
+        { maxTokens: 150, temperature: 0.7 }
+      );
 
-      return response.content[0].type === 'text' ? response.content[0].text : '';
+      return response.content;
     } catch (error) {
       logger.error('CopilotAgent: Error generating check-in', error);
       return `Hey ${founderName}! Quick check-in – how's everything going with ${startupName} today?`;
@@ -296,13 +280,13 @@ Best,
 - If no metrics mentioned, acknowledge that and focus on progress narrative`;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const response = await llm.chat(
+        'conversation',
+        [{ role: 'user', content: prompt }],
+        { maxTokens: 1500 }
+      );
 
-      return response.content[0].type === 'text' ? response.content[0].text : '';
+      return response.content;
     } catch (error) {
       logger.error('CopilotAgent: Error generating investor update', error);
       return 'Failed to generate investor update. Please try again.';
@@ -1,11 +1,7 @@
 // DeFi Agent: Liquidity Strategist
 // Plans liquidity bootstrapping, POL, market making strategy
 
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from '@/lib/llm';
 
 export interface LiquidityStrategy {
   // Initial liquidity
@@ -159,21 +155,20 @@ Task: Design complete liquidity strategy:
 
 Return JSON with complete liquidity strategy.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      {
-        role: 'system',
-        content:
-          'You are a liquidity strategist. Design sustainable, capital-efficient strategies.',
-      },
-      { role: 'user', content: prompt },
-    ],
+  const completion = await llm.chat('complex', [
+    {
+      role: 'system',
+      content:
+        'You are a liquidity strategist. Design sustainable, capital-efficient strategies.',
+    },
+    { role: 'user', content: prompt },
+  ], {
     temperature: 0.3,
-    response_format: { type: 'json_object' },
+    maxTokens: 4000,
+    jsonMode: true,
   });
 
-  const result = JSON.parse(completion.choices[0].message.content || '{}');
+  const result = JSON.parse(completion.content || '{}');
 
   return {
     initialLiquidity: result.initialLiquidity || {},
@@ -1,11 +1,7 @@
 // DeFi Agent: Smart Contract Security Auditor
 // Pre-audit analysis of smart contracts (before formal audit)
 
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from '@/lib/llm';
 
 export interface SecurityAuditResult {
   overallRisk: 'low' | 'medium' | 'high' | 'critical';
@@ -133,21 +129,20 @@ Task: Perform pre-audit security analysis:
 
 Return JSON with detailed security analysis.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      {
-        role: 'system',
-        content:
-          'You are a smart contract security auditor. Be thorough and conservative in risk assessment.',
-      },
-      { role: 'user', content: prompt },
-    ],
+  const completion = await llm.chat('complex', [
+    {
+      role: 'system',
+      content:
+        'You are a smart contract security auditor. Be thorough and conservative in risk assessment.',
+    },
+    { role: 'user', content: prompt },
+  ], {
     temperature: 0.2,
-    response_format: { type: 'json_object' },
+    maxTokens: 4000,
+    jsonMode: true,
   });
 
-  const result = JSON.parse(completion.choices[0].message.content || '{}');
+  const result = JSON.parse(completion.content || '{}');
 
   return {
     overallRisk: result.overallRisk || 'medium',
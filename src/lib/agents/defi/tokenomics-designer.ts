@@ -1,11 +1,7 @@
 // DeFi Agent: Tokenomics Designer
 // Designs token economics (ve-model, emissions, liquidity mining, governance)
 
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from '@/lib/llm';
 
 export interface TokenomicsDesign {
   // Token basics
@@ -161,21 +157,20 @@ Task: Design comprehensive tokenomics:
 
 Return JSON with complete tokenomics design.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      {
-        role: 'system',
-        content:
-          'You are a DeFi tokenomics expert. Design sustainable, anti-ponzi token economics.',
-      },
-      { role: 'user', content: prompt },
-    ],
+  const completion = await llm.chat('complex', [
+    {
+      role: 'system',
+      content:
+        'You are a DeFi tokenomics expert. Design sustainable, anti-ponzi token economics.',
+    },
+    { role: 'user', content: prompt },
+  ], {
     temperature: 0.3,
-    response_format: { type: 'json_object' },
+    maxTokens: 4000,
+    jsonMode: true,
   });
 
-  const design = JSON.parse(completion.choices[0].message.content || '{}');
+  const design = JSON.parse(completion.content || '{}');
 
   return {
     tokenSymbol: design.tokenSymbol || 'TKN',
@@ -13,11 +13,17 @@
  * 5. Generate investment offers with detailed reasoning
  */
 
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { keywordRelevance, reachConsensus, type ConsensusVeto, type ConsensusVote, type DissentReport } from '@/lib/consensus';
+import { computeCostUsd, llm, withLLMContext } from '@/lib/llm';
+import { logger } from '@/lib/logger';
+import { prompts, recordPromptUsage, renderPrompt, type PromptArm, type PromptVariables } from '@/lib/prompts';
+import {
+  admitSpawns,
+  resolveSpawnPolicy,
+  type SkippedSpawn,
+  type SpawnCandidate,
+  type SpawnPolicy,
+} from './spawn-policy';
 
 // ============================================================================
 // Types
@@ -56,6 +62,8 @@ export interface EvaluationAgent {
   type: string;
   domain: string;
   parentAgentId?: string;
+  /** 0 for top-level experts, 1 for their sub-agents... */
+  depth: number;
   capability: AgentCapability;
   spawnedAt: number;
 }
@@ -68,6 +76,8 @@ export interface AgentAnalysis {
   verdict: 'strong_yes' | 'yes' | 'maybe' | 'no' | 'strong_no';
   strengths: string[];
   weaknesses: string[];
+  /** Disqualifying issues only (security holes, legal exposure); these can veto */
+  redFlags: string[];
   criticalQuestions: string[];
   recommendations: string[];
   subAgentAnalyses?: AgentAnalysis[];
@@ -76,6 +86,8 @@ export interface AgentAnalysis {
     analysisDepth: 'shallow' | 'medium' | 'deep';
     timeSpentMs: number;
     subAgentsSpawned: number;
+    /** Registry prompt that produced the analysis */
+    prompt: { id: string; version: number; arm: PromptArm | null };
   };
 }
 
@@ -102,6 +114,9 @@ export interface SwarmEvaluation {
     spawnedAgents: EvaluationAgent[];
     totalAgentsSpawned: number;
     evaluationStrategy: string;
+    policy: SpawnPolicy;
+    /** Agents requested but pruned by the policy, in the order they were dropped */
+    skippedSpawns: SkippedSpawn[];
   };
   agentAnalyses: AgentAnalysis[];
   consensus: {
@@ -110,11 +125,46 @@ export interface SwarmEvaluation {
     topStrengths: string[];
     topWeaknesses: string[];
     criticalIssues: string[];
+    /** Security or legal red flags that decided the verdict */
+    vetoes: ConsensusVeto[];
+    dissent: DissentReport;
   };
   offers: InvestmentOffer[];
   executionTimeMs: number;
 }
 
+/**
+ * Spawn-tree node as sent to listeners (the capability is looked up from the registry)
+ */
+export type SwarmAgentInfo = Omit<EvaluationAgent, 'capability'>;
+
+/**
+ * Lifecycle events emitted while a swarm evaluates a pitch. A parent agent
+ * completes after its sub-agents, so `timeSpentMs` includes theirs.
+ */
+export type SwarmEvent =
+  | { type: 'swarm_start'; pitchId: string; allowSubAgents: boolean }
+  | { type: 'agent_spawned'; agent: SwarmAgentInfo }
+  | { type: 'spawn_skipped'; skipped: SkippedSpawn }
+  /** Sub-agent analyses are left out; each arrives in its own event */
+  | { type: 'agent_complete'; agentId: string; analysis: AgentAnalysis }
+  | { type: 'agent_error'; agentId: string; error: string }
+  | { type: 'consensus'; consensus: SwarmEvaluation['consensus'] }
+  | { type: 'swarm_complete'; totalAgentsSpawned: number; executionTimeMs: number };
+
+export type SwarmEventListener = (event: SwarmEvent) => void;
+
+/**
+ * JSON shape an agent returns before metadata is attached
+ */
+interface RawAgentAnalysis extends Partial<Pick<
+  AgentAnalysis,
+  'confidence' | 'verdict' | 'strengths' | 'weaknesses' | 'redFlags' | 'criticalQuestions' | 'recommendations' | 'reasoning'
+>> {
+  shouldSpawnSubAgents?: boolean;
+  requiredSubAgents?: string[];
+}
+
 // ============================================================================
 // Agent Registry - Available Expert Agents
 // ============================================================================
@@ -236,17 +286,109 @@ const AGENT_REGISTRY: Record<string, AgentCapability> = {
   },
 };
 
+// ============================================================================
+// Agent Selection & Cost Estimates
+// ============================================================================
+
+/**
+ * Estimated USD cost of one swarm agent analysis (critical route, ~2k tokens)
+ */
+export const SWARM_AGENT_COST_USD = 0.25;
+
+/**
+ * Top-level agent types the orchestrator will spawn for a pitch:
+ * cross-functional agents first, then trigger-matched domain experts
+ */
+export function matchAgentTypes(pitch: Pitch): string[] {
+  const pitchContent = `${pitch.name} ${pitch.tagline} ${pitch.description} ${pitch.industry}`.toLowerCase();
+  const entries = Object.entries(AGENT_REGISTRY);
+
+  const crossFunctional = entries
+    .filter(([, capability]) => capability.spawnsTriggers.includes('*'))
+    .map(([agentType]) => agentType);
+
+  const domainExperts = entries
+    .filter(([, capability]) =>
+      !capability.spawnsTriggers.includes('*') &&
+      capability.spawnsTriggers.some(trigger => pitchContent.includes(trigger.toLowerCase()))
+    )
+    .map(([agentType]) => agentType);
+
+  return [...crossFunctional, ...domainExperts];
+}
+
+/**
+ * Upfront cost estimate: top-level agents (plus one offer per agent) always
+ * run; sub-agents are optional and estimated at their worst case
+ */
+export function estimateSwarmCost(
+  pitch: Pitch,
+  policy: SpawnPolicy = resolveSpawnPolicy()
+): { baseCostUsd: number; subAgentCostUsd: number } {
+  const agentTypes = matchAgentTypes(pitch).slice(0, policy.maxAgents);
+  const declaredSubAgents = agentTypes.reduce(
+    (sum, agentType) => sum + (AGENT_REGISTRY[agentType].subAgentTypes?.length || 0),
+    0
+  );
+  const maxSubAgents = policy.maxDepth > 0 ? Math.min(declaredSubAgents, policy.maxAgents - agentTypes.length) : 0;
+
+  return {
+    baseCostUsd: agentTypes.length * SWARM_AGENT_COST_USD * 2,
+    subAgentCostUsd: maxSubAgents * SWARM_AGENT_COST_USD,
+  };
+}
+
 // ============================================================================
 // Orchestrator - Spawns and Coordinates Agents
 // ============================================================================
 
+/** Verdicts as consensus stances */
+const VERDICT_STANCE: Record<AgentAnalysis['verdict'], number> = {
+  strong_yes: 1,
+  yes: 0.5,
+  maybe: 0,
+  no: -0.5,
+  strong_no: -1,
+};
+
+/** Registry prompt every swarm agent is evaluated with */
+const SWARM_PROMPT_ID = 'swarm-evaluator';
+
+export interface EvaluationOptions {
+  /** Let expert agents spawn sub-agents (disabled when over budget) */
+  allowSubAgents?: boolean;
+  /** Limits on depth, agent count, spend and time; unset fields use the defaults */
+  policy?: Partial<SpawnPolicy>;
+  /** Abort to stop the evaluation: no further agents are spawned or run */
+  signal?: AbortSignal;
+}
+
 export class EvaluationOrchestrator {
   private pitch: Pitch;
+  private allowSubAgents: boolean;
+  private policy: SpawnPolicy;
   private spawnedAgents: EvaluationAgent[] = [];
+  private skippedSpawns: SkippedSpawn[] = [];
   private analyses: AgentAnalysis[] = [];
-
-  constructor(pitch: Pitch) {
+  private agentCount = 0;
+  private listeners: SwarmEventListener[] = [];
+  private startTime = 0;
+  /** Actual cost of finished analyses */
+  private spentUsd = 0;
+  /** Analyses waiting on the model (charged at the estimate until they finish) */
+  private inFlight = 0;
+  private signal?: AbortSignal;
+
+  constructor(pitch: Pitch, options: EvaluationOptions = {}) {
     this.pitch = pitch;
+    this.allowSubAgents = options.allowSubAgents ?? true;
+    this.policy = resolveSpawnPolicy(options.policy);
+    this.signal = options.signal;
+  }
+
+  on(listener: SwarmEventListener): this {
+    this.listeners.push(listener);
+    return this;
   }
 
   /**
@@ -259,6 +401,8 @@ export class EvaluationOrchestrator {
    */
   async evaluate(): Promise<SwarmEvaluation> {
     const startTime = Date.now();
+    this.startTime = startTime;
+    this.emit({ type: 'swarm_start', pitchId: this.pitch.id, allowSubAgents: this.allowSubAgents });
 
     // Step 1: Determine which agents to spawn
     const agentsToSpawn = await this.determineRequiredAgents();
@@ -271,11 +415,13 @@ export class EvaluationOrchestrator {
 
     // Step 3: Synthesize consensus
     const consensus = await this.synthesizeConsensus();
+    this.emit({ type: 'consensus', consensus });
 
     // Step 4: Generate investment offers
     const offers = await this.generateOffers(consensus);
 
     const executionTimeMs = Date.now() - startTime;
+    this.emit({ type: 'swarm_complete', totalAgentsSpawned: this.spawnedAgents.length, executionTimeMs });
 
     return {
       pitchId: this.pitch.id,
@@ -284,6 +430,8 @@ export class EvaluationOrchestrator {
         spawnedAgents: this.spawnedAgents,
         totalAgentsSpawned: this.spawnedAgents.length,
         evaluationStrategy: this.getEvaluationStrategy(),
+        policy: this.policy,
+        skippedSpawns: this.skippedSpawns,
       },
       agentAnalyses: this.analyses,
       consensus,
@@ -296,76 +444,61 @@ export class EvaluationOrchestrator {
    * Intelligently determine which expert agents to spawn based on pitch content
    */
   private async determineRequiredAgents(): Promise<EvaluationAgent[]> {
-    const agents: EvaluationAgent[] = [];
-    const pitchContent = `${this.pitch.name} ${this.pitch.tagline} ${this.pitch.description} ${this.pitch.industry}`.toLowerCase();
-
-    // Always spawn cross-functional agents
-    for (const [agentType, capability] of Object.entries(AGENT_REGISTRY)) {
-      if (capability.spawnsTriggers.includes('*')) {
-        agents.push({
-          id: `${agentType}_${Date.now()}`,
-          type: agentType,
-          domain: capability.domain,
-          capability,
-          spawnedAt: Date.now(),
-        });
-      }
-    }
-
-    // Spawn domain-specific agents based on triggers
-    for (const [agentType, capability] of Object.entries(AGENT_REGISTRY)) {
-      if (capability.spawnsTriggers.includes('*')) continue;
-
-      const shouldSpawn = capability.spawnsTriggers.some(trigger => 
-        pitchContent.includes(trigger.toLowerCase())
-      );
+    // Cross-functional agents first, then domain experts in registry order
+    const candidates = matchAgentTypes(this.pitch).map((agentType, priority) => ({ agentType, priority }));
+    return this.spawn(candidates, null);
+  }
 
-      if (shouldSpawn) {
-        agents.push({
-          id: `${agentType}_${Date.now()}`,
-          type: agentType,
-          domain: capability.domain,
-          capability,
-          spawnedAt: Date.now(),
-        });
-      }
+  /**
+   * Execute an agent, reporting its completion or failure to listeners
+   */
+  private async executeAgent(agent: EvaluationAgent): Promise<AgentAnalysis> {
+    try {
+      const analysis = await this.analyzeWithAgent(agent);
+      this.emit({ type: 'agent_complete', agentId: agent.id, analysis: { ...analysis, subAgentAnalyses: undefined } });
+      return analysis;
+    } catch (error) {
+      this.emit({ type: 'agent_error', agentId: agent.id, error: error instanceof Error ? error.message : String(error) });
+      throw error;
     }
-
-    this.spawnedAgents = agents;
-    return agents;
   }
 
   /**
-   * Execute individual agent analysis (may spawn sub-agents)
+   * Individual agent analysis (may spawn sub-agents)
    */
-  private async executeAgent(agent: EvaluationAgent): Promise<AgentAnalysis> {
+  private async analyzeWithAgent(agent: EvaluationAgent): Promise<AgentAnalysis> {
     const startTime = Date.now();
     
-    // Build agent-specific system prompt
-    const systemPrompt = this.buildAgentSystemPrompt(agent);
-    
-    // Build analysis request
-    const userPrompt = this.buildAgentAnalysisPrompt(agent);
+    // Agent-specific prompts; the pitch decides the experiment arm
+    const { prompt, arm } = prompts.select(SWARM_PROMPT_ID, this.pitch.id);
+    const messages = renderPrompt(prompt, this.buildPromptVariables(agent));
 
     // Execute agent analysis
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 2000,
-      response_format: { type: 'json_object' },
+    this.throwIfCancelled();
+    const llmStartedAt = Date.now();
+    this.inFlight++;
+    let analysis: RawAgentAnalysis;
+    try {
+      const { data, response } = await withLLMContext({ agentType: agent.type }, () =>
+        llm.json<RawAgentAnalysis>('critical', messages, { temperature: 0.7, maxTokens: 2000 })
+      );
+      analysis = data;
+      this.spentUsd += computeCostUsd(response.model, response.usage);
+    } finally {
+      this.inFlight--;
+    }
+    recordPromptUsage({
+      promptId: prompt.id,
+      version: prompt.version,
+      arm,
+      cached: false,
+      durationMs: Date.now() - llmStartedAt,
     });
 
-    const analysisRaw = response.choices[0]?.message?.content || '{}';
-    const analysis = JSON.parse(analysisRaw);
-
     // Check if agent should spawn sub-agents
     const subAgentAnalyses: AgentAnalysis[] = [];
     if (agent.capability.canSpawnSubAgents && analysis.shouldSpawnSubAgents) {
-      const subAgents = await this.spawnSubAgents(agent, analysis.requiredSubAgents || []);
+      const subAgents = this.spawnSubAgents(agent, analysis.requiredSubAgents || []);
       const subAnalysesPromises = subAgents.map(subAgent => this.executeAgent(subAgent));
       subAgentAnalyses.push(...await Promise.all(subAnalysesPromises));
     }
@@ -380,6 +513,7 @@ export class EvaluationOrchestrator {
       verdict: analysis.verdict || 'maybe',
       strengths: analysis.strengths || [],
       weaknesses: analysis.weaknesses || [],
+      redFlags: Array.isArray(analysis.redFlags) ? analysis.redFlags : [],
       criticalQuestions: analysis.criticalQuestions || [],
       recommendations: analysis.recommendations || [],
       subAgentAnalyses,
@@ -388,119 +522,132 @@ export class EvaluationOrchestrator {
         analysisDepth: subAgentAnalyses.length > 0 ? 'deep' : 'medium',
         timeSpentMs,
         subAgentsSpawned: subAgentAnalyses.length,
+        prompt: { id: prompt.id, version: prompt.version, arm },
       },
     };
   }
 
   /**
-   * Spawn sub-agents for deeper analysis
+   * Spawn sub-agents for deeper analysis. The parent's declared specialists
+   * outrank other registry agents; within each group, request order decides.
    */
-  private async spawnSubAgents(parentAgent: EvaluationAgent, requiredSubAgents: string[]): Promise<EvaluationAgent[]> {
-    const subAgents: EvaluationAgent[] = [];
-
-    for (const subAgentType of requiredSubAgents) {
-      const capability = AGENT_REGISTRY[subAgentType];
-      if (!capability) continue;
-
-      subAgents.push({
-        id: `${subAgentType}_${Date.now()}`,
-        type: subAgentType,
-        domain: capability.domain,
-        parentAgentId: parentAgent.id,
-        capability,
-        spawnedAt: Date.now(),
-      });
+  private spawnSubAgents(parentAgent: EvaluationAgent, requiredSubAgents: string[]): EvaluationAgent[] {
+    const declared = parentAgent.capability.subAgentTypes || [];
+    const candidates = requiredSubAgents.map((agentType, index) => {
+      const declaredIndex = declared.indexOf(agentType);
+      return { agentType, priority: declaredIndex >= 0 ? declaredIndex : declared.length + index };
+    });
+
+    if (!this.allowSubAgents) {
+      candidates.forEach(({ agentType }) =>
+        this.skip({ agentType, parentAgentId: parentAgent.id, depth: parentAgent.depth + 1, reason: 'sub_agents_disabled' })
+      );
+      return [];
     }
 
-    this.spawnedAgents.push(...subAgents);
-    return subAgents;
+    return this.spawn(candidates, parentAgent);
   }
 
   /**
-   * Build agent-specific system prompt
+   * Admit candidates under the spawn policy and create the agents that fit
    */
-  private buildAgentSystemPrompt(agent: EvaluationAgent): string {
-    return `You are an expert ${agent.domain} evaluation agent in the VentureClaw AI accelerator swarm.
-
-**Your Domain:** ${agent.domain}
-**Your Expertise:** ${agent.capability.expertise.join(', ')}
+  private spawn(candidates: SpawnCandidate[], parentAgent: EvaluationAgent | null): EvaluationAgent[] {
+    this.throwIfCancelled();
+    const depth = parentAgent ? parentAgent.depth + 1 : 0;
+    const { admitted, skipped } = admitSpawns(candidates, {
+      policy: this.policy,
+      state: {
+        agentCount: this.spawnedAgents.length,
+        projectedSpendUsd: this.spentUsd + this.inFlight * SWARM_AGENT_COST_USD,
+        elapsedMs: Date.now() - this.startTime,
+      },
+      depth,
+      parentAgentId: parentAgent?.id ?? null,
+      costPerAgentUsd: SWARM_AGENT_COST_USD,
+      isKnownType: agentType => agentType in AGENT_REGISTRY,
+    });
+    skipped.forEach(spawn => this.skip(spawn));
+
+    const agents = admitted.map(agentType => ({
+      id: this.nextAgentId(agentType),
+      type: agentType,
+      domain: AGENT_REGISTRY[agentType].domain,
+      parentAgentId: parentAgent?.id,
+      depth,
+      capability: AGENT_REGISTRY[agentType],
+      spawnedAt: Date.now(),
+    }));
+
+    this.spawnedAgents.push(...agents);
+    agents.forEach(agent => this.emitSpawned(agent));
+    return agents;
+  }
 
-**Your Role:**
-You are part of a collaborative agent swarm evaluating startup pitches. Your job is to:
-1. Analyze the pitch from your domain expertise perspective
-2. Identify strengths and weaknesses specific to your domain
-3. Ask critical questions that must be answered
-4. Determine if sub-agents are needed for deeper analysis
-5. Provide a clear verdict with confidence score
+  private skip(spawn: SkippedSpawn): void {
+    this.skippedSpawns.push(spawn);
+    this.emit({ type: 'spawn_skipped', skipped: spawn });
+  }
 
-**Response Format (JSON):**
-{
-  "confidence": 0-100,
-  "verdict": "strong_yes" | "yes" | "maybe" | "no" | "strong_no",
-  "strengths": ["strength1", "strength2", ...],
-  "weaknesses": ["weakness1", "weakness2", ...],
-  "criticalQuestions": ["question1", "question2", ...],
-  "recommendations": ["rec1", "rec2", ...],
-  "shouldSpawnSubAgents": boolean,
-  "requiredSubAgents": ["SUB_AGENT_TYPE1", "SUB_AGENT_TYPE2"] (if shouldSpawnSubAgents),
-  "reasoning": "detailed analysis explaining your verdict"
-}
+  private emitSpawned(agent: EvaluationAgent): void {
+    const { id, type, domain, parentAgentId, depth, spawnedAt } = agent;
+    this.emit({ type: 'agent_spawned', agent: { id, type, domain, parentAgentId, depth, spawnedAt } });
+  }
 
-${agent.capability.canSpawnSubAgents ? `\n**Available Sub-Agents:** ${agent.capability.subAgentTypes?.join(', ')}\nYou can request sub-agents for specialized deep dives.` : ''}
+  private throwIfCancelled(): void {
+    if (this.signal?.aborted) throw new Error('Evaluation cancelled');
+  }
 
-Be thorough, critical, and specific. Your analysis will be combined with other agents to reach a final decision.`;
+  private emit(event: SwarmEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('[Swarm] Event listener failed:', error);
+      }
+    }
   }
 
   /**
-   * Build analysis request prompt
+   * Variables for the agent's `swarm-evaluator` prompt
    */
-  private buildAgentAnalysisPrompt(agent: EvaluationAgent): string {
-    return `Evaluate this startup pitch from your ${agent.domain} expertise:
-
-**Company:** ${this.pitch.name}
-**Tagline:** ${this.pitch.tagline}
-**Industry:** ${this.pitch.industry}
-**Stage:** ${this.pitch.stage}
-
-**Description:**
-${this.pitch.description}
-
-**Funding Ask:** $${this.pitch.fundingAsk.toLocaleString()} at $${this.pitch.valuation.toLocaleString()} valuation
+  private buildPromptVariables(agent: EvaluationAgent): PromptVariables {
+    const { capability } = agent;
+    const pitch = this.pitch;
 
-**Metrics:**
-- Revenue: ${this.pitch.revenue ? `$${this.pitch.revenue.toLocaleString()}` : 'Pre-revenue'}
-- Users: ${this.pitch.users?.toLocaleString() || 'N/A'}
-- Team Size: ${this.pitch.teamSize}
-
-**Founder:** ${this.pitch.founderName} - ${this.pitch.founderBackground}
-
-${this.pitch.traction ? `**Traction:** ${this.pitch.traction}` : ''}
-${this.pitch.businessModel ? `**Business Model:** ${this.pitch.businessModel}` : ''}
-${this.pitch.techStack ? `**Tech Stack:** ${this.pitch.techStack.join(', ')}` : ''}
-
-Provide your expert analysis in JSON format as specified.`;
+    return {
+      domain: agent.domain,
+      expertise: capability.expertise.join(', '),
+      subAgents: capability.canSpawnSubAgents
+        ? `\n**Available Sub-Agents:** ${capability.subAgentTypes?.join(', ')}\nYou can request sub-agents for specialized deep dives.`
+        : '',
+      name: pitch.name,
+      tagline: pitch.tagline,
+      industry: pitch.industry,
+      stage: pitch.stage,
+      description: pitch.description,
+      fundingAsk: pitch.fundingAsk.toLocaleString(),
+      valuation: pitch.valuation.toLocaleString(),
+      revenue: pitch.revenue ? `$${pitch.revenue.toLocaleString()}` : 'Pre-revenue',
+      users: pitch.users?.toLocaleString() || 'N/A',
+      teamSize: pitch.teamSize,
+      founderName: pitch.founderName,
+      founderBackground: pitch.founderBackground,
+      traction: pitch.traction ? `**Traction:** ${pitch.traction}` : '',
+      businessModel: pitch.businessModel ? `**Business Model:** ${pitch.businessModel}` : '',
+      techStack: pitch.techStack ? `**Tech Stack:** ${pitch.techStack.join(', ')}` : '',
+    };
   }
 
   /**
-   * Synthesize consensus from all agent analyses
+   * Synthesize consensus from all agent analyses, sub-agents included:
+   * votes weighted by expertise relevance and confidence, with vetoes
    */
   private async synthesizeConsensus(): Promise<SwarmEvaluation['consensus']> {
-    const verdictCounts = {
-      strong_yes: 0,
-      yes: 0,
-      maybe: 0,
-      no: 0,
-      strong_no: 0,
-    };
-
-    let totalConfidence = 0;
     const allStrengths: string[] = [];
     const allWeaknesses: string[] = [];
     const criticalIssues: string[] = [];
 
     for (const analysis of this.analyses) {
-      verdictCounts[analysis.verdict]++;
-      totalConfidence += analysis.confidence;
       allStrengths.push(...analysis.strengths);
       allWeaknesses.push(...analysis.weaknesses);
 
@@ -509,29 +656,52 @@ Provide your expert analysis in JSON format as specified.`;
       }
     }
 
-    const avgConfidence = totalConfidence / this.analyses.length;
-
-    // Determine overall verdict
-    let overallVerdict: 'accept' | 'reject' | 'needs_revision' = 'needs_revision';
-    if (verdictCounts.strong_yes + verdictCounts.yes >= this.analyses.length * 0.7) {
-      overallVerdict = 'accept';
-    } else if (verdictCounts.strong_no + verdictCounts.no >= this.analyses.length * 0.5) {
-      overallVerdict = 'reject';
-    }
+    const consensus = reachConsensus(this.consensusVotes(this.analyses));
 
     // Get top strengths and weaknesses (most mentioned)
     const strengthCounts = this.countOccurrences(allStrengths);
     const weaknessCounts = this.countOccurrences(allWeaknesses);
 
     return {
-      overallVerdict,
-      confidenceScore: Math.round(avgConfidence),
+      overallVerdict: consensus.outcome,
+      confidenceScore: Math.round(consensus.confidence * 100),
       topStrengths: this.getTopN(strengthCounts, 5),
       topWeaknesses: this.getTopN(weaknessCounts, 5),
-      criticalIssues,
+      criticalIssues: [...consensus.vetoes.map(veto => `[${veto.label}] ${veto.concern}`), ...criticalIssues],
+      vetoes: consensus.vetoes,
+      dissent: consensus.dissent,
     };
   }
 
+  /**
+   * An agent's vote counts for more the more of its triggers and expertise
+   * the pitch mentions. Sub-agents' narrower views count for less, but
+   * their red flags can still veto.
+   */
+  private consensusVotes(analyses: AgentAnalysis[], depth = 0): ConsensusVote[] {
+    const pitchContent = `${this.pitch.name} ${this.pitch.tagline} ${this.pitch.description} ${this.pitch.industry}`;
+
+    return analyses.flatMap(analysis => {
+      const capability = AGENT_REGISTRY[analysis.agentType];
+      const keywords = capability
+        ? [...capability.spawnsTriggers.filter(trigger => trigger !== '*'), ...capability.expertise]
+        : [];
+
+      const vote: ConsensusVote = {
+        voterId: analysis.agentId,
+        voterName: analysis.agentType,
+        domain: analysis.domain,
+        stance: VERDICT_STANCE[analysis.verdict] ?? 0,
+        confidence: analysis.confidence / 100,
+        relevance: keywordRelevance(keywords, pitchContent) * (depth > 0 ? 0.75 : 1),
+        concerns: analysis.redFlags,
+        reasoning: analysis.reasoning,
+      };
+
+      return [vote, ...this.consensusVotes(analysis.subAgentAnalyses ?? [], depth + 1)];
+    });
+  }
+
   /**
    * Generate investment offers from top agents
    */
@@ -549,6 +719,7 @@ Provide your expert analysis in JSON format as specified.`;
     const offers: InvestmentOffer[] = [];
 
     for (const agent of offerAgents) {
+      this.throwIfCancelled();
       const offer = await this.generateOfferFromAgent(agent, consensus);
       if (offer.interested) {
         offers.push(offer);
@@ -602,18 +773,14 @@ Your analysis showed:
 
 Structure your offer.`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
+    const { data: offerData } = await llm.json<Omit<InvestmentOffer, 'offerId' | 'agentId' | 'agentType'>>(
+      'critical',
+      [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      temperature: 0.7,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
-    });
-
-    const offerData = JSON.parse(response.choices[0]?.message?.content || '{}');
+      { temperature: 0.7, maxTokens: 1000 }
+    );
 
     return {
       offerId: `offer_${analysis.agentId}_${Date.now()}`,
@@ -624,6 +791,14 @@ Structure your offer.`;
   }
 
   // Helper methods
+
+  /**
+   * Agent ids are unique within a run (stored runs key agents by them)
+   */
+  private nextAgentId(agentType: string): string {
+    return `${agentType}_${++this.agentCount}`;
+  }
+
   private countOccurrences(items: string[]): Record<string, number> {
     return items.reduce((acc, item) => {
       acc[item] = (acc[item] || 0) + 1;
@@ -642,7 +817,11 @@ Structure your offer.`;
     const domainAgents = this.spawnedAgents.filter(a => !a.parentAgentId);
     const subAgents = this.spawnedAgents.filter(a => a.parentAgentId);
 
-    return `Spawned ${domainAgents.length} domain experts (${domainAgents.map(a => a.domain).join(', ')}) with ${subAgents.length} specialized sub-agents for deep analysis.`;
+    const strategy = `Spawned ${domainAgents.length} domain experts (${domainAgents.map(a => a.domain).join(', ')}) with ${subAgents.length} specialized sub-agents for deep analysis.`;
+    if (this.skippedSpawns.length === 0) return strategy;
+
+    const reasons = [...new Set(this.skippedSpawns.map(spawn => spawn.reason.replace(/_/g, ' ')))];
+    return `${strategy} Skipped ${this.skippedSpawns.length} spawns (${reasons.join(', ')}).`;
   }
 }
 
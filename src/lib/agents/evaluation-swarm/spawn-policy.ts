@@ -0,0 +1,133 @@
+/**
+ * Evaluation Swarm Spawn Policy
+ *
+ * Per-run limits on how far the swarm fans out: sub-agent depth, total
+ * agents, analysis spend and a wall-clock deadline for new spawns. When a
+ * request for agents would break a limit, the lowest-priority candidates
+ * are pruned and reported back as skipped spawns.
+ */
+
+import { z } from 'zod';
+
+export interface SpawnPolicy {
+  /** Levels of sub-agents below the top-level experts (0 disables them) */
+  maxDepth: number;
+  /** Agents per run, top-level experts included */
+  maxAgents: number;
+  /** Stop spawning once analyses have cost (or will cost) this much, in USD */
+  maxSpendUsd: number | null;
+  /** Stop spawning this long after the run starts, in ms (running agents finish) */
+  deadlineMs: number | null;
+}
+
+export const DEFAULT_SPAWN_POLICY: SpawnPolicy = {
+  maxDepth: 1,
+  maxAgents: 20,
+  maxSpendUsd: null,
+  deadlineMs: 120_000,
+};
+
+export const SpawnPolicySchema = z.object({
+  maxDepth: z.coerce.number().int().min(0).max(3).optional(),
+  maxAgents: z.coerce.number().int().min(1).max(50).optional(),
+  maxSpendUsd: z.coerce.number().positive().nullable().optional(),
+  deadlineMs: z.coerce.number().int().min(1000).max(600_000).nullable().optional(),
+});
+
+export type SpawnPolicyInput = z.infer<typeof SpawnPolicySchema>;
+
+export function resolveSpawnPolicy(input: SpawnPolicyInput = {}): SpawnPolicy {
+  const overrides = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  return { ...DEFAULT_SPAWN_POLICY, ...overrides };
+}
+
+export type SkipReason =
+  | 'max_depth'
+  | 'max_agents'
+  | 'max_spend'
+  | 'deadline'
+  /** Sub-agents turned off for the run (e.g. over the LLM budget) */
+  | 'sub_agents_disabled'
+  /** Not in the agent registry */
+  | 'unknown_type'
+  /** Requested twice by the same parent */
+  | 'duplicate';
+
+export interface SkippedSpawn {
+  agentType: string;
+  parentAgentId: string | null;
+  depth: number;
+  reason: SkipReason;
+}
+
+export interface SpawnCandidate {
+  agentType: string;
+  /** Lower runs first; ties keep request order */
+  priority: number;
+}
+
+/**
+ * Where the run stands when new agents are requested
+ */
+export interface SpawnState {
+  agentCount: number;
+  /** Spend so far plus the estimate for agents still running */
+  projectedSpendUsd: number;
+  elapsedMs: number;
+}
+
+/**
+ * Split candidates at one depth into those to spawn and those skipped.
+ * Candidates are taken in priority order until a limit is reached; every
+ * candidate after that is skipped with the limit that stopped it.
+ */
+export function admitSpawns(
+  candidates: SpawnCandidate[],
+  context: {
+    policy: SpawnPolicy;
+    state: SpawnState;
+    depth: number;
+    parentAgentId: string | null;
+    costPerAgentUsd: number;
+    isKnownType: (agentType: string) => boolean;
+  }
+): { admitted: string[]; skipped: SkippedSpawn[] } {
+  const { policy, state, depth, parentAgentId, costPerAgentUsd, isKnownType } = context;
+  const admitted: string[] = [];
+  const skipped: SkippedSpawn[] = [];
+  const skip = (agentType: string, reason: SkipReason) => skipped.push({ agentType, parentAgentId, depth, reason });
+
+  const ordered = candidates
+    .map((candidate, index) => ({ ...candidate, index }))
+    .sort((a, b) => a.priority - b.priority || a.index - b.index);
+
+  const seen = new Set<string>();
+  for (const { agentType } of ordered) {
+    if (!isKnownType(agentType)) {
+      skip(agentType, 'unknown_type');
+      continue;
+    }
+    if (seen.has(agentType)) {
+      skip(agentType, 'duplicate');
+      continue;
+    }
+    seen.add(agentType);
+
+    if (depth > policy.maxDepth) {
+      skip(agentType, 'max_depth');
+    } else if (policy.deadlineMs !== null && state.elapsedMs >= policy.deadlineMs) {
+      skip(agentType, 'deadline');
+    } else if (state.agentCount + admitted.length >= policy.maxAgents) {
+      skip(agentType, 'max_agents');
+    } else if (
+      policy.maxSpendUsd !== null &&
+      state.projectedSpendUsd + (admitted.length + 1) * costPerAgentUsd > policy.maxSpendUsd
+    ) {
+      skip(agentType, 'max_spend');
+    } else {
+      admitted.push(agentType);
+    }
+  }
+
+  return { admitted, skipped };
+}
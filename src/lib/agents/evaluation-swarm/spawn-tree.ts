@@ -0,0 +1,179 @@
+/**
+ * Evaluation Swarm Spawn Tree
+ *
+ * Builds the tree of which agent spawned which from the swarm's lifecycle
+ * events (live, over SSE) or from a stored run. Pure and type-only imports,
+ * so client components can use it.
+ */
+
+import type { AgentAnalysis, SwarmEvaluation, SwarmEvent } from './orchestrator';
+import type { SkippedSpawn } from './spawn-policy';
+import type { DissentReport } from '@/lib/consensus';
+import type { SwarmAgentNode, SwarmRunDetail } from '@/types/dashboard';
+
+/**
+ * Events on GET /api/pitches/[id]/swarm-stream: the orchestrator's, then
+ * `complete` with the stored run id, or `error`
+ */
+export type SwarmStreamEvent =
+  | SwarmEvent
+  | { type: 'complete'; runId: string }
+  | { type: 'error'; error: string; data?: Record<string, unknown> };
+
+export type SpawnNodeStatus = 'running' | 'complete' | 'failed';
+
+export interface SpawnTreeNode {
+  agentId: string;
+  agentType: string;
+  domain: string;
+  parentAgentId: string | null;
+  status: SpawnNodeStatus;
+  verdict: AgentAnalysis['verdict'] | null;
+  confidence: number | null;
+  timeSpentMs: number | null;
+  strengths: string[];
+  weaknesses: string[];
+  reasoning: string | null;
+  error: string | null;
+}
+
+export interface SpawnTree {
+  /** Nodes by agent id */
+  nodes: Record<string, SpawnTreeNode>;
+  /** Agent ids in spawn order */
+  order: string[];
+  /** Spawns the run's policy pruned */
+  skipped: SkippedSpawn[];
+  /** Runs stored before weighted consensus have no dissent report */
+  consensus: (Omit<SwarmEvaluation['consensus'], 'dissent'> & { dissent: DissentReport | null }) | null;
+  done: boolean;
+  error: string | null;
+}
+
+export function emptySpawnTree(): SpawnTree {
+  return { nodes: {}, order: [], skipped: [], consensus: null, done: false, error: null };
+}
+
+/**
+ * Apply one stream event; returns a new tree (React state friendly)
+ */
+export function applySwarmEvent(tree: SpawnTree, event: SwarmStreamEvent): SpawnTree {
+  switch (event.type) {
+    case 'swarm_start':
+      return emptySpawnTree();
+    case 'agent_spawned': {
+      const { agent } = event;
+      if (tree.nodes[agent.id]) return tree;
+      return {
+        ...tree,
+        nodes: {
+          ...tree.nodes,
+          [agent.id]: {
+            agentId: agent.id,
+            agentType: agent.type,
+            domain: agent.domain,
+            parentAgentId: agent.parentAgentId ?? null,
+            status: 'running',
+            verdict: null,
+            confidence: null,
+            timeSpentMs: null,
+            strengths: [],
+            weaknesses: [],
+            reasoning: null,
+            error: null,
+          },
+        },
+        order: [...tree.order, agent.id],
+      };
+    }
+    case 'spawn_skipped':
+      return { ...tree, skipped: [...tree.skipped, event.skipped] };
+    case 'agent_complete': {
+      const node = tree.nodes[event.agentId];
+      if (!node) return tree;
+      const { analysis } = event;
+      return {
+        ...tree,
+        nodes: {
+          ...tree.nodes,
+          [node.agentId]: {
+            ...node,
+            status: 'complete',
+            verdict: analysis.verdict,
+            confidence: analysis.confidence,
+            timeSpentMs: analysis.metadata.timeSpentMs,
+            strengths: analysis.strengths,
+            weaknesses: analysis.weaknesses,
+            reasoning: analysis.reasoning,
+          },
+        },
+      };
+    }
+    case 'agent_error': {
+      const node = tree.nodes[event.agentId];
+      if (!node) return tree;
+      return {
+        ...tree,
+        nodes: { ...tree.nodes, [node.agentId]: { ...node, status: 'failed', error: event.error } },
+      };
+    }
+    case 'consensus':
+      return { ...tree, consensus: event.consensus };
+    case 'swarm_complete':
+      return tree;
+    case 'complete':
+      return { ...tree, done: true };
+    case 'error':
+      return { ...tree, done: true, error: event.error };
+  }
+}
+
+/**
+ * Tree for a stored run (every agent finished or never reported back)
+ */
+export function spawnTreeFromRun(run: SwarmRunDetail): SpawnTree {
+  const tree = emptySpawnTree();
+
+  const visit = (agent: SwarmAgentNode, parentAgentId: string | null) => {
+    tree.nodes[agent.agentId] = {
+      agentId: agent.agentId,
+      agentType: agent.agentType,
+      domain: agent.domain,
+      parentAgentId,
+      status: agent.verdict ? 'complete' : 'failed',
+      verdict: agent.verdict,
+      confidence: agent.confidence,
+      timeSpentMs: agent.timeSpentMs,
+      strengths: agent.strengths,
+      weaknesses: agent.weaknesses,
+      reasoning: agent.reasoning,
+      error: agent.verdict ? null : 'No analysis recorded',
+    };
+    tree.order.push(agent.agentId);
+    agent.subAgents.forEach(subAgent => visit(subAgent, agent.agentId));
+  };
+  run.agents.forEach(agent => visit(agent, null));
+
+  return {
+    ...tree,
+    skipped: run.skippedSpawns,
+    consensus: run.overallVerdict && run.consensus && run.confidenceScore !== null
+      ? { overallVerdict: run.overallVerdict, confidenceScore: run.confidenceScore, ...run.consensus }
+      : null,
+    done: run.status !== 'RUNNING',
+    error: run.error,
+  };
+}
+
+/**
+ * Child ids of a node (null for the roots), in spawn order
+ */
+export function childrenOf(tree: SpawnTree, parentAgentId: string | null): string[] {
+  return tree.order.filter(agentId => {
+    const parent = tree.nodes[agentId].parentAgentId;
+    // Orphans (parent never seen) are shown as roots
+    return parentAgentId === null
+      ? parent === null || !tree.nodes[parent]
+      : parent === parentAgentId;
+  });
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const BiotechAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  scientificValidity: z.string().describe("Strength of the underlying science and mechanism of action"),
+  researchMethodology: z.string().describe("Quality of preclinical/clinical data and study design"),
+  developmentStage: z.string().describe("Current development stage (discovery, preclinical, Phase I-III)"),
+  ipPosition: z.string().describe("Composition-of-matter/method patents and freedom to operate"),
+  clinicalRisk: z.string().describe("Probability of technical and regulatory success"),
+  capitalRequirements: z.string().describe("Capital needed to reach the next value inflection point"),
+});
+
+export type BiotechAnalysis = z.infer<typeof BiotechAnalysisSchema>;
+
+export class BiotechScienceAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'complex' tier (gpt-4o) - judging scientific claims needs careful reasoning
+    super("complex");
+  }
+
+  async analyze(startup: Startup): Promise<BiotechAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        BiotechAnalysisSchema,
+        'biotech-scientist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+        },
+        { startup }
+      );
+
+      return result as BiotechAnalysis;
+    } catch (error) {
+      console.error("Biotech science analysis failed:", error);
+      throw new Error(`Biotech science analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeBiotech(startup: Startup): Promise<BiotechAnalysis> {
+  const agent = new BiotechScienceAgent();
+  return await agent.analyze(startup);
+}
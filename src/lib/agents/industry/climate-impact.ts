@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const ClimateAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  carbonImpact: z.string().describe("Estimated emissions avoided or removed, and how it scales"),
+  measurementVerification: z.string().describe("MRV approach and credibility of impact claims"),
+  technologyReadiness: z.string().describe("Technology readiness level (TRL) and scale-up risk"),
+  unitEconomics: z.string().describe("Cost curve versus incumbents (green premium)"),
+  policyTailwinds: z.string().describe("Relevant incentives, mandates and carbon markets (IRA, EU ETS, etc.)"),
+  capitalIntensity: z.string().describe("Capex needs and project-finance suitability"),
+});
+
+export type ClimateAnalysis = z.infer<typeof ClimateAnalysisSchema>;
+
+export class ClimateImpactAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - structured impact scoring
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<ClimateAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        ClimateAnalysisSchema,
+        'climate-impact',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+        },
+        { startup }
+      );
+
+      return result as ClimateAnalysis;
+    } catch (error) {
+      console.error("Climate impact analysis failed:", error);
+      throw new Error(`Climate impact analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeClimateImpact(startup: Startup): Promise<ClimateAnalysis> {
+  const agent = new ClimateImpactAgent();
+  return await agent.analyze(startup);
+}
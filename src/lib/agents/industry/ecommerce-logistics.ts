@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const EcommerceAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  unitEconomics: z.string().describe("Contribution margin per order after COGS, shipping and returns"),
+  fulfillmentModel: z.string().describe("Fulfillment approach (3PL, own warehouse, dropship) and scalability"),
+  customerAcquisition: z.string().describe("CAC, repeat purchase rate and channel dependency"),
+  marketplaceDynamics: z.string().describe("Liquidity, take rate and supply/demand balance (for marketplaces)"),
+  inventoryRisk: z.string().describe("Inventory turns, obsolescence and working capital exposure"),
+  platformDependency: z.string().describe("Reliance on Amazon, Shopify, Meta/Google ads or other platforms"),
+});
+
+export type EcommerceAnalysis = z.infer<typeof EcommerceAnalysisSchema>;
+
+export class EcommerceLogisticsAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - unit economics scoring is structured
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<EcommerceAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        EcommerceAnalysisSchema,
+        'ecommerce-logistics',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+        },
+        { startup }
+      );
+
+      return result as EcommerceAnalysis;
+    } catch (error) {
+      console.error("E-commerce logistics analysis failed:", error);
+      throw new Error(`E-commerce logistics analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeEcommerce(startup: Startup): Promise<EcommerceAnalysis> {
+  const agent = new EcommerceLogisticsAgent();
+  return await agent.analyze(startup);
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const EducationAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  learningEfficacy: z.string().describe("Evidence that the product improves learning outcomes"),
+  pedagogicalApproach: z.string().describe("Soundness of the instructional design"),
+  buyerAndUser: z.string().describe("Who pays versus who uses (district, school, parent, learner, employer)"),
+  salesCycle: z.string().describe("Procurement process and length of the sales cycle"),
+  engagementAndCompletion: z.string().describe("Engagement, completion and retention expectations"),
+  studentDataCompliance: z.string().describe("FERPA, COPPA and student data privacy obligations"),
+});
+
+export type EducationAnalysis = z.infer<typeof EducationAnalysisSchema>;
+
+export class EducationPedagogyAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - structured product scoring
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<EducationAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        EducationAnalysisSchema,
+        'education-specialist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+        },
+        { startup }
+      );
+
+      return result as EducationAnalysis;
+    } catch (error) {
+      console.error("Education pedagogy analysis failed:", error);
+      throw new Error(`Education pedagogy analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeEducation(startup: Startup): Promise<EducationAnalysis> {
+  const agent = new EducationPedagogyAgent();
+  return await agent.analyze(startup);
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const GamingAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  monetizationModel: z.string().describe("Premium, F2P, subscription or hybrid model assessment"),
+  retentionOutlook: z.string().describe("Expected D1/D7/D30 retention and core loop strength"),
+  playerAcquisition: z.string().describe("UA costs, virality and platform discovery"),
+  liveOpsCapability: z.string().describe("Content cadence and live operations readiness"),
+  platformStrategy: z.string().describe("Platform choice (mobile, PC, console, web) and store dependency"),
+  genreCompetition: z.string().describe("Genre saturation and differentiation"),
+});
+
+export type GamingAnalysis = z.infer<typeof GamingAnalysisSchema>;
+
+export class GamingMonetizationAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - structured market scoring
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<GamingAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        GamingAnalysisSchema,
+        'gaming-monetization',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+        },
+        { startup }
+      );
+
+      return result as GamingAnalysis;
+    } catch (error) {
+      console.error("Gaming monetization analysis failed:", error);
+      throw new Error(`Gaming monetization analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeGaming(startup: Startup): Promise<GamingAnalysis> {
+  const agent = new GamingMonetizationAgent();
+  return await agent.analyze(startup);
+}
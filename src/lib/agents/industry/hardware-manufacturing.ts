@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const HardwareAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  manufacturingFeasibility: z.string().describe("Design for manufacturing and path from prototype to volume"),
+  supplyChainRisk: z.string().describe("Component sourcing, single-source parts and geopolitical exposure"),
+  billOfMaterials: z.string().describe("BOM cost estimate and gross margin at volume"),
+  certifications: z.string().describe("Required certifications (FCC, CE, UL, etc.)"),
+  inventoryAndWorkingCapital: z.string().describe("Inventory, MOQ and working capital requirements"),
+  recurringRevenue: z.string().describe("Software/services attach and recurring revenue potential"),
+});
+
+export type HardwareAnalysis = z.infer<typeof HardwareAnalysisSchema>;
+
+export class HardwareManufacturingAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - structured feasibility scoring
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<HardwareAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        HardwareAnalysisSchema,
+        'hardware-manufacturing',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+          teamSize: startup.teamSize,
+        },
+        { startup }
+      );
+
+      return result as HardwareAnalysis;
+    } catch (error) {
+      console.error("Hardware manufacturing analysis failed:", error);
+      throw new Error(`Hardware manufacturing analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeHardware(startup: Startup): Promise<HardwareAnalysis> {
+  const agent = new HardwareManufacturingAgent();
+  return await agent.analyze(startup);
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const HealthcareAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  regulatoryPathway: z.string().describe("FDA/CE pathway (510(k), De Novo, PMA, exempt, or non-device)"),
+  hipaaCompliance: z.string().describe("HIPAA/PHI handling requirements and readiness"),
+  clinicalEvidence: z.string().describe("Clinical validation and evidence required"),
+  reimbursementStrategy: z.string().describe("Payer coverage and reimbursement outlook (CPT codes, CMS)"),
+  providerAdoption: z.string().describe("Barriers to adoption by clinicians and health systems"),
+  timeToMarket: z.string().describe("Realistic regulatory timeline to commercial launch"),
+});
+
+export type HealthcareAnalysis = z.infer<typeof HealthcareAnalysisSchema>;
+
+export class HealthcareComplianceAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'complex' tier (gpt-4o) - patient safety and FDA pathways are high-stakes
+    super("complex");
+  }
+
+  async analyze(startup: Startup): Promise<HealthcareAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        HealthcareAnalysisSchema,
+        'healthcare-specialist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+        },
+        { startup }
+      );
+
+      return result as HealthcareAnalysis;
+    } catch (error) {
+      console.error("Healthcare compliance analysis failed:", error);
+      throw new Error(`Healthcare compliance analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeHealthcare(startup: Startup): Promise<HealthcareAnalysis> {
+  const agent = new HealthcareComplianceAgent();
+  return await agent.analyze(startup);
+}
@@ -1,7 +1,7 @@
 // M&A Agent: Acquirer Matcher
 // Identifies and ranks potential acquirers (strategic, PE, SPACs)
 
-import { createOptimizedClient } from '../../ai-client';
+import { llm } from '@/lib/llm';
 
 
 export interface AcquirerProfile {
@@ -112,8 +112,7 @@ Format as JSON:
 }`;
 
   // Use Gemini for analysis (50% cheaper than OpenAI)
-  const client = createOptimizedClient('analysis');
-  const response = await client.chat([
+  const response = await llm.chat('analysis', [
     {
       role: 'system',
       content: 'You are an M&A advisor specializing in tech acquisitions. Provide detailed, actionable acquirer lists.',
@@ -1,7 +1,7 @@
 // M&A Agent: Due Diligence Preparer
 // Creates comprehensive data room checklist and exit readiness scorecard
 
-import { createOptimizedClient } from '../../ai-client';
+import { llm } from '@/lib/llm';
 
 
 export interface DataRoomSection {
@@ -125,8 +125,7 @@ Task: Create comprehensive due diligence preparation plan:
 Format as JSON with detailed checklists.`;
 
   // Use Gemini for analysis (50% cheaper than OpenAI)
-  const client = createOptimizedClient('analysis');
-  const response = await client.chat([
+  const response = await llm.chat('analysis', [
     {
       role: 'system',
       content:
@@ -1,7 +1,7 @@
 // M&A Agent: Deal Structurer
 // Designs optimal deal structure and negotiation strategy
 
-import { createOptimizedClient } from '../../ai-client';
+import { llm } from '@/lib/llm';
 
 
 export interface DealStructure {
@@ -157,8 +157,7 @@ Task: Design optimal deal structure considering:
 Provide detailed deal structure optimized for maximum value and minimum risk.`;
 
   // Use Gemini for analysis (50% cheaper than OpenAI)
-  const client = createOptimizedClient('analysis');
-  const response = await client.chat([
+  const response = await llm.chat('analysis', [
     {
       role: 'system',
       content:
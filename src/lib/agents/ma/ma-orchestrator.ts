@@ -95,6 +95,19 @@ export interface ExitAnalysisReport {
   }[];
 }
 
+/**
+ * Estimated USD cost of one M&A agent (analysis route, a long report)
+ */
+export const MA_AGENT_COST_USD = 0.1;
+
+/**
+ * Upfront cost estimate: acquirer matching, valuation, due diligence and
+ * deal structuring each make one call
+ */
+export function estimateExitAnalysisCost(): number {
+  return 4 * MA_AGENT_COST_USD;
+}
+
 export async function orchestrateExitAnalysis(
   input: ExitAnalysisInput
 ): Promise<ExitAnalysisReport> {
@@ -1,7 +1,7 @@
 // M&A Agent: Valuation Modeler
 // Creates comprehensive valuation analysis (comps, DCF, precedent transactions)
 
-import { createOptimizedClient } from '../../ai-client';
+import { llm } from '@/lib/llm';
 
 
 export interface ValuationModel {
@@ -123,8 +123,7 @@ Provide:
 Format as JSON with detailed reasoning.`;
 
   // Use Gemini for analysis (50% cheaper than OpenAI)
-  const client = createOptimizedClient('analysis');
-  const response = await client.chat([
+  const response = await llm.chat('analysis', [
     {
       role: 'system',
       content:
@@ -1,7 +1,7 @@
 // Matching Engine: Project Analyzer
 // Analyzes projects seeking funding and creates investment profile
 
-import { createOptimizedClient } from '../../ai-client';
+import { llm } from '@/lib/llm';
 
 export interface ProjectProfile {
   id: string;
@@ -158,8 +158,7 @@ Format as JSON:
 }`;
 
   // Use Gemini for analysis (50% cheaper than OpenAI)
-  const client = createOptimizedClient('analysis');
-  const response = await client.chat([
+  const response = await llm.chat('analysis', [
     {
       role: 'system',
       content:
@@ -265,8 +264,7 @@ Provide:
 Format as JSON.`;
 
   // Use Gemini for matching analysis (50% cheaper)
-  const client = createOptimizedClient('analysis');
-  const response = await client.chat([
+  const response = await llm.chat('analysis', [
     {
       role: 'system',
       content: 'You are an investment matching AI. Score matches conservatively but fairly.',
@@ -1,525 +0,0 @@
-/**
- * OPTIMIZED Orchestrator - Parallel Agent Execution + Semantic Memory
- * 
- * Key improvements:
- * 1. All agents spawn immediately (parallel execution)
- * 2. Uses Promise.allSettled for fault tolerance
- * 3. 3-5x faster than sequential execution
- * 4. Semantic memory for context-aware evaluations (90% token savings)
- * 
- * Performance: 10-30s → 4-8s
- * Memory: Searches past evaluations for relevant context
- */
-
-import { logger } from "@/lib/logger";
-import type { Startup } from "@prisma/client";
-import { FinancialAnalystAgent, type FinancialAnalysis } from "./financial-analyst";
-import { TechnicalDDAgent, type TechnicalAnalysis } from "./technical-dd";
-import { MarketResearchAgent, type MarketAnalysis } from "./market-research";
-import { LegalComplianceAgent, type LegalAnalysis } from "./legal-compliance";
-import { BlockchainExpertAgent, type BlockchainAnalysis } from "./industry/blockchain-expert";
-import { AIMLSpecialistAgent, type AIMLAnalysis } from "./industry/ai-ml-specialist";
-import { FinTechRegulatorAgent, type FinTechAnalysis } from "./industry/fintech-regulator";
-import { selectAgents, getAgentBreakdown, type AgentDefinition } from "./agent-registry";
-import { prisma } from "../prisma";
-import { withCache } from "../cache";
-// TODO: Re-enable when PostgreSQL migration is complete (Cycle #19)
-// import { semanticMemory, storeEvaluationMemory } from "../memory/semantic-memory";
-
-export interface CompleteAnalysis {
-  financial: FinancialAnalysis;
-  technical: TechnicalAnalysis;
-  market: MarketAnalysis;
-  legal: LegalAnalysis;
-  blockchain?: BlockchainAnalysis;
-  aiml?: AIMLAnalysis;
-  fintech?: FinTechAnalysis;
-  industrySpecific?: Record<string, any>;
-  agentBreakdown: {
-    total: number;
-    core: number;
-    industry: number;
-    specialist: number;
-    estimatedCost: number;
-    agents: Array<{ id: string; name: string; capability: string; priority: number }>;
-  };
-  synthesis: {
-    overallScore: number;
-    recommendation: "APPROVED" | "CONDITIONAL" | "REJECTED";
-    valuation: number;
-    summary: string;
-    keyStrengths: string[];
-    keyConcerns: string[];
-    nextSteps: string[];
-  };
-}
-
-export class OptimizedAnalysisOrchestrator {
-  private financialAgent: FinancialAnalystAgent;
-  private technicalAgent: TechnicalDDAgent;
-  private marketAgent: MarketResearchAgent;
-  private legalAgent: LegalComplianceAgent;
-  
-  constructor() {
-    this.financialAgent = new FinancialAnalystAgent();
-    this.technicalAgent = new TechnicalDDAgent();
-    this.marketAgent = new MarketResearchAgent();
-    this.legalAgent = new LegalComplianceAgent();
-  }
-  
-  /**
-   * OPTIMIZED: All agents spawn in parallel immediately
-   */
-  async analyzeStartup(startupId: string): Promise<CompleteAnalysis> {
-    // 1. Get startup data (with caching for repeated calls)
-    const startup = await withCache(
-      `startup:${startupId}`,
-      () => prisma.startup.findUnique({ where: { id: startupId } }),
-      2 * 60 * 1000 // 2 min TTL
-    );
-    
-    if (!startup) {
-      throw new Error(`Startup not found: ${startupId}`);
-    }
-    
-    // 2. Update status to analyzing
-    await prisma.startup.update({
-      where: { id: startupId },
-      data: { status: "ANALYZING" },
-    });
-    
-    const analysisStartedAt = new Date();
-    
-    try {
-      // 3. Search relevant historical evaluations (semantic memory)
-      // TODO: Re-enable when PostgreSQL migration is complete (Cycle #19)
-      /*
-      const searchQuery = `
-        ${startup.name} - ${startup.industry} startup
-        Stage: ${startup.stage}
-        Description: ${startup.description}
-        Funding ask: $${startup.fundingAsk}
-      `.trim();
-      
-      const relevantMemories = await semanticMemory.search(searchQuery, {
-        limit: 5,
-        memoryType: 'evaluation',
-        minScore: 0.75,
-        timeWindow: 180, // Last 6 months
-      });
-      
-      if (relevantMemories.length > 0) {
-        logger.info(`[Orchestrator] Found ${relevantMemories.length} relevant past evaluations`);
-        logger.info(`[Orchestrator] Average similarity: ${(relevantMemories.reduce((sum, m) => sum + m.score, 0) / relevantMemories.length * 100).toFixed(1)}%`);
-      }
-      */
-      const relevantMemories: any[] = []; // Placeholder until PostgreSQL migration
-      
-      // 4. Determine all required agents upfront
-      const selectedAgents = selectAgents(startup);
-      const agentBreakdown = getAgentBreakdown(startup);
-      
-      logger.info(`[Orchestrator] Spawning ${agentBreakdown.total} agents in PARALLEL`);
-      logger.info(`[Orchestrator] Cost estimate: $${agentBreakdown.estimatedCost.toFixed(2)}`);
-      
-      // 5. Build context from semantic memory (if available)
-      let memoryContext = '';
-      if (relevantMemories.length > 0) {
-        memoryContext = '\n\n## Relevant Historical Context\n\n';
-        memoryContext += relevantMemories
-          .map((m, idx) => `${idx + 1}. ${m.content.slice(0, 300)}... (Score: ${(m.score * 100).toFixed(0)}%)`)
-          .join('\n\n');
-        logger.info(`[Orchestrator] Injecting ${memoryContext.length} chars of historical context`);
-      }
-      
-      // 6. Build ALL agent promises immediately (no waiting)
-      // Note: Memory context could be injected into agent prompts here if needed
-      const allAgentPromises: Promise<any>[] = [
-        // Core agents (always run)
-        this.runWithTracking(startupId, "FINANCIAL_ANALYST", () => 
-          this.financialAgent.analyze(startup)
-        ),
-        this.runWithTracking(startupId, "TECHNICAL_DD", () => 
-          this.technicalAgent.analyze(startup)
-        ),
-        this.runWithTracking(startupId, "MARKET_RESEARCH", () => 
-          this.marketAgent.analyze(startup)
-        ),
-        this.runWithTracking(startupId, "LEGAL_COMPLIANCE", () => 
-          this.legalAgent.analyze(startup)
-        ),
-      ];
-      
-      // Track which industry agents we're spawning
-      const industryAgentMap: Map<string, number> = new Map();
-      
-      // Add industry-specific agents immediately (don't wait!)
-      for (const agent of selectedAgents) {
-        if (agent.capability === "blockchain_analysis") {
-          const idx = allAgentPromises.length;
-          industryAgentMap.set("blockchain", idx);
-          allAgentPromises.push(
-            this.runWithTracking(startupId, "BLOCKCHAIN_EXPERT", async () => {
-              const blockchainAgent = new BlockchainExpertAgent();
-              return await blockchainAgent.analyze(startup);
-            })
-          );
-        }
-        
-        if (agent.capability === "ai_ml_evaluation") {
-          const idx = allAgentPromises.length;
-          industryAgentMap.set("aiml", idx);
-          allAgentPromises.push(
-            this.runWithTracking(startupId, "AI_ML_SPECIALIST", async () => {
-              const aimlAgent = new AIMLSpecialistAgent();
-              return await aimlAgent.analyze(startup);
-            })
-          );
-        }
-        
-        if (agent.capability === "fintech_regulation") {
-          const idx = allAgentPromises.length;
-          industryAgentMap.set("fintech", idx);
-          allAgentPromises.push(
-            this.runWithTracking(startupId, "FINTECH_REGULATOR", async () => {
-              const fintechAgent = new FinTechRegulatorAgent();
-              return await fintechAgent.analyze(startup);
-            })
-          );
-        }
-      }
-      
-      // 5. Execute ALL agents in parallel (Promise.allSettled for fault tolerance)
-      logger.info(`[Orchestrator] Executing ${allAgentPromises.length} agents in parallel...`);
-      const results = await Promise.allSettled(allAgentPromises);
-      
-      // 6. Extract results (handle failures gracefully)
-      const [financialResult, technicalResult, marketResult, legalResult] = results.slice(0, 4);
-      
-      const financial = financialResult.status === 'fulfilled' ? financialResult.value : null;
-      const technical = technicalResult.status === 'fulfilled' ? technicalResult.value : null;
-      const market = marketResult.status === 'fulfilled' ? marketResult.value : null;
-      const legal = legalResult.status === 'fulfilled' ? legalResult.value : null;
-      
-      // Log any failures
-      if (!financial) console.error('[Orchestrator] Financial analysis failed');
-      if (!technical) console.error('[Orchestrator] Technical analysis failed');
-      if (!market) console.error('[Orchestrator] Market analysis failed');
-      if (!legal) console.error('[Orchestrator] Legal analysis failed');
-      
-      // Extract industry-specific results
-      let blockchain: BlockchainAnalysis | undefined;
-      let aiml: AIMLAnalysis | undefined;
-      let fintech: FinTechAnalysis | undefined;
-      
-      if (industryAgentMap.has("blockchain")) {
-        const idx = industryAgentMap.get("blockchain")!;
-        const result = results[idx];
-        if (result.status === 'fulfilled') {
-          blockchain = result.value;
-        }
-      }
-      
-      if (industryAgentMap.has("aiml")) {
-        const idx = industryAgentMap.get("aiml")!;
-        const result = results[idx];
-        if (result.status === 'fulfilled') {
-          aiml = result.value;
-        }
-      }
-      
-      if (industryAgentMap.has("fintech")) {
-        const idx = industryAgentMap.get("fintech")!;
-        const result = results[idx];
-        if (result.status === 'fulfilled') {
-          fintech = result.value;
-        }
-      }
-      
-      // 7. Synthesize results
-      const synthesis = this.synthesizeAnalysis(financial, technical, market, legal);
-      
-      // 8. Calculate analysis duration
-      const analysisCompletedAt = new Date();
-      const analysisDuration = Math.round(
-        (analysisCompletedAt.getTime() - analysisStartedAt.getTime()) / 1000
-      );
-      
-      logger.info(`[Orchestrator] Analysis completed in ${analysisDuration}s`);
-      
-      // 9. Save analysis to database
-      const createdAnalysis = await prisma.analysis.create({
-        data: {
-          startupId,
-          financialScore: financial?.score || 0,
-          technicalScore: technical?.score || 0,
-          marketScore: market?.score || 0,
-          legalScore: legal?.score || 0,
-          overallScore: synthesis.overallScore,
-          
-          financialFeedback: financial as any,
-          technicalFeedback: technical as any,
-          marketFeedback: market as any,
-          legalFeedback: legal as any,
-          
-          valuation: Number(synthesis.valuation),
-          recommendation: synthesis.recommendation,
-          summary: synthesis.summary,
-          
-          analysisStartedAt,
-          analysisCompletedAt,
-          analysisDuration,
-        },
-      });
-      
-      // 10. Update startup status (offers are generated on-demand via API)
-      await prisma.startup.update({
-        where: { id: startupId },
-        data: {
-          status: synthesis.recommendation === "APPROVED" ? "APPROVED" :
-                  synthesis.recommendation === "CONDITIONAL" ? "CONDITIONAL" :
-                  "REJECTED",
-        },
-      });
-      
-      // 11. Store evaluation in semantic memory (for future context)
-      // TODO: Re-enable when PostgreSQL migration is complete (Cycle #19)
-      /*
-      await storeEvaluationMemory(startupId, {
-        overallScore: synthesis.overallScore,
-        recommendation: synthesis.recommendation,
-        summary: synthesis.summary,
-        keyStrengths: synthesis.keyStrengths,
-        keyConcerns: synthesis.keyConcerns,
-      });
-      logger.info(`[Orchestrator] Stored evaluation in semantic memory`);
-      */
-      
-      return {
-        financial: financial!,
-        technical: technical!,
-        market: market!,
-        legal: legal!,
-        blockchain,
-        aiml,
-        fintech,
-        industrySpecific: {},
-        agentBreakdown,
-        synthesis,
-      };
-      
-    } catch (error) {
-      // Mark as failed
-      await prisma.startup.update({
-        where: { id: startupId },
-        data: { status: "PENDING" },
-      });
-      
-      throw error;
-    }
-  }
-  
-  private async runWithTracking<T>(
-    startupId: string,
-    agentType: string,
-    fn: () => Promise<T>
-  ): Promise<T> {
-    const startedAt = new Date();
-    
-    // Create activity record
-    const activity = await prisma.agentActivity.create({
-      data: {
-        startupId,
-        agentName: this.getAgentName(agentType),
-        agentType: agentType as any,
-        action: "analyze",
-        description: `Analyzing ${agentType.toLowerCase().replace("_", " ")}`,
-        status: "RUNNING",
-        startedAt,
-      },
-    });
-    
-    try {
-      const result = await fn();
-      
-      // Update activity as completed
-      const completedAt = new Date();
-      await prisma.agentActivity.update({
-        where: { id: activity.id },
-        data: {
-          status: "COMPLETED",
-          completedAt,
-          duration: completedAt.getTime() - startedAt.getTime(),
-          result: `Score: ${(result as any).score}/100`,
-        },
-      });
-      
-      return result;
-    } catch (error) {
-      // Update activity as failed
-      await prisma.agentActivity.update({
-        where: { id: activity.id },
-        data: {
-          status: "FAILED",
-          completedAt: new Date(),
-          errorMessage: String(error),
-        },
-      });
-      
-      throw error;
-    }
-  }
-  
-  private getAgentName(agentType: string): string {
-    const names: Record<string, string> = {
-      FINANCIAL_ANALYST: "Financial Analyst",
-      TECHNICAL_DD: "Technical DD",
-      MARKET_RESEARCH: "Market Research",
-      LEGAL_COMPLIANCE: "Legal & Compliance",
-      BLOCKCHAIN_EXPERT: "Blockchain Expert",
-      AI_ML_SPECIALIST: "AI/ML Specialist",
-      FINTECH_REGULATOR: "FinTech Regulator",
-    };
-    return names[agentType] || agentType;
-  }
-  
-  private synthesizeAnalysis(
-    financial: FinancialAnalysis | null,
-    technical: TechnicalAnalysis | null,
-    market: MarketAnalysis | null,
-    legal: LegalAnalysis | null
-  ): CompleteAnalysis["synthesis"] {
-    // Handle missing analyses gracefully
-    const financialScore = financial?.score || 0;
-    const technicalScore = technical?.score || 0;
-    const marketScore = market?.score || 0;
-    const legalScore = legal?.score || 0;
-    
-    // Calculate weighted overall score
-    const overallScore = Math.round(
-      financialScore * 0.30 +
-      technicalScore * 0.25 +
-      marketScore * 0.30 +
-      legalScore * 0.15
-    );
-    
-    // Determine recommendation
-    let recommendation: "APPROVED" | "CONDITIONAL" | "REJECTED";
-    if (overallScore >= 75) {
-      recommendation = "APPROVED";
-    } else if (overallScore >= 55) {
-      recommendation = "CONDITIONAL";
-    } else {
-      recommendation = "REJECTED";
-    }
-    
-    // Use financial agent's valuation as base
-    const valuation = financial?.valuation || 0;
-    
-    // Aggregate strengths and concerns
-    const keyStrengths = [
-      ...(financial?.strengths.slice(0, 2) || []),
-      ...(technical?.strengths.slice(0, 2) || []),
-      ...(market?.strengths.slice(0, 2) || []),
-    ];
-    
-    const keyConcerns = [
-      ...(financial?.concerns.slice(0, 2) || []),
-      ...(technical?.concerns.slice(0, 2) || []),
-      ...(market?.concerns.slice(0, 2) || []),
-      ...(legal?.concerns.slice(0, 1) || []),
-    ];
-    
-    // Generate summary
-    const summary = this.generateSummary(
-      overallScore,
-      recommendation,
-      financial,
-      technical,
-      market,
-      legal
-    );
-    
-    // Generate next steps
-    const nextSteps = this.generateNextSteps(
-      recommendation,
-      financial,
-      technical,
-      market,
-      legal
-    );
-    
-    return {
-      overallScore,
-      recommendation,
-      valuation,
-      summary,
-      keyStrengths,
-      keyConcerns,
-      nextSteps,
-    };
-  }
-  
-  private generateSummary(
-    overallScore: number,
-    recommendation: string,
-    financial: FinancialAnalysis | null,
-    technical: TechnicalAnalysis | null,
-    market: MarketAnalysis | null,
-    legal: LegalAnalysis | null
-  ): string {
-    const scoreDescriptor = 
-      overallScore >= 85 ? "exceptional" :
-      overallScore >= 75 ? "strong" :
-      overallScore >= 65 ? "solid" :
-      overallScore >= 55 ? "promising but needs work" :
-      "not ready for funding";
-    
-    return `This startup is ${scoreDescriptor} with an overall score of ${overallScore}/100. ${
-      recommendation === "APPROVED" ? "We recommend approval for funding and accelerator admission." :
-      recommendation === "CONDITIONAL" ? "We recommend conditional approval pending improvements." :
-      "We do not recommend funding at this time."
-    }`;
-  }
-  
-  private generateNextSteps(
-    recommendation: string,
-    financial: FinancialAnalysis | null,
-    technical: TechnicalAnalysis | null,
-    market: MarketAnalysis | null,
-    legal: LegalAnalysis | null
-  ): string[] {
-    if (recommendation === "APPROVED") {
-      return [
-        "Begin VC matching process",
-        "Set up Futarchy prediction market",
-        "Schedule onboarding call",
-      ];
-    }
-    
-    if (recommendation === "CONDITIONAL") {
-      return [
-        "Address identified concerns",
-        "Resubmit pitch once improvements are made",
-      ];
-    }
-    
-    return [
-      "Significant improvements needed",
-      "Build more traction before reapplying",
-    ];
-  }
-}
-
-// Helper function for API routes
-export async function analyzeStartupOptimized(startupId: string): Promise<CompleteAnalysis> {
-  // Use cache to prevent duplicate analyses
-  return await withCache(
-    `analysis:${startupId}`,
-    async () => {
-      const orchestrator = new OptimizedAnalysisOrchestrator();
-      return await orchestrator.analyzeStartup(startupId);
-    },
-    5 * 60 * 1000 // 5 min TTL
-  );
-}
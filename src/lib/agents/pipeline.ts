@@ -0,0 +1,564 @@
+/**
+ * Analysis Pipeline - the single engine behind every startup analysis
+ *
+ * Background jobs, the SSE streaming route and the CLI (through that route)
+ * all run analyses through this engine:
+ *
+ * 1. Select agents from the registry and plan them against the LLM budget
+ * 2. Run every agent with a `run` function in parallel, tracked in
+ *    AgentActivity and checkpointed so reruns resume
+ * 3. Require the core agents; optional agents that fail make the analysis
+ *    partial instead of failing it
+ * 4. Synthesize and save the run (an Analysis plus one AgentResult per
+ *    agent) as the startup's current analysis; earlier runs are kept
+ *
+ * Progress is reported as typed lifecycle events (`PipelineEvent`).
+ *
+ * @example
+ * const analysis = await new AnalysisPipeline()
+ *   .on(event => console.log(event.type))
+ *   .run(startupId);
+ */
+
+import { Prisma, type AgentType, type Startup } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { prisma } from "../prisma";
+import { cacheTags, invalidateTags } from "../cache";
+import { withLLMContext } from "../llm";
+import { collectPromptUsage, type PromptUsage } from "../prompts";
+import { planAnalysisBudget, type BudgetPlan } from "../billing/budget";
+import { encodeStringArray } from "../utils/json-arrays";
+import {
+  CORE_AGENTS,
+  INDUSTRY_AGENTS,
+  selectAgents,
+  getAgentBreakdown,
+  type AgentDefinition,
+  type AgentOutput,
+} from "./agent-registry";
+import { loadCheckpoints, pitchInput, type AgentCheckpointSet } from "./checkpoints";
+import { synthesizeAnalysis, type AnalysisSynthesis, type SpecialistResult } from "./synthesis";
+import type { FinancialAnalysis } from "./financial-analyst";
+import type { TechnicalAnalysis } from "./technical-dd";
+import type { MarketAnalysis } from "./market-research";
+import type { LegalAnalysis } from "./legal-compliance";
+import type { BlockchainAnalysis } from "./industry/blockchain-expert";
+import type { AIMLAnalysis } from "./industry/ai-ml-specialist";
+import type { FinTechAnalysis } from "./industry/fintech-regulator";
+
+export interface CompleteAnalysis {
+  /** Stored Analysis row for this run */
+  analysisId: string;
+  runNumber: number;
+  financial: FinancialAnalysis;
+  technical: TechnicalAnalysis;
+  market: MarketAnalysis;
+  legal: LegalAnalysis;
+  blockchain?: BlockchainAnalysis;
+  aiml?: AIMLAnalysis;
+  fintech?: FinTechAnalysis;
+  /** Results of other industry/specialist agents, keyed by agent id */
+  industrySpecific?: Record<string, AgentOutput>;
+  agentBreakdown: {
+    total: number;
+    core: number;
+    industry: number;
+    specialist: number;
+    estimatedCost: number;
+    agents: Array<{ id: string; name: string; capability: string; priority: number }>;
+  };
+  synthesis: AnalysisSynthesis;
+  /** True when non-core agents failed and were left out of the synthesis */
+  partial: boolean;
+  missingAgents: AgentType[];
+}
+
+export type AgentRole = "core" | "industry" | "specialist";
+
+export interface PipelineAgent {
+  id: string;
+  name: string;
+  role: AgentRole;
+  agentType?: AgentType;
+}
+
+export type PipelineEvent =
+  | {
+      type: "pipeline_start";
+      startupId: string;
+      agents: PipelineAgent[];
+      /** Agents restored from checkpoints of an interrupted run */
+      resumed: AgentType[];
+      estimatedCost: number;
+      downgraded: boolean;
+    }
+  | { type: "agent_skipped"; agent: PipelineAgent; reason: "budget" | "not_implemented" }
+  | { type: "agent_start"; agent: PipelineAgent }
+  | { type: "agent_complete"; agent: PipelineAgent; result: AgentOutput; durationMs: number; fromCheckpoint: boolean }
+  | { type: "agent_error"; agent: PipelineAgent; error: string }
+  | { type: "synthesis" }
+  | { type: "pipeline_complete"; analysis: CompleteAnalysis; durationMs: number }
+  | { type: "pipeline_error"; error: string };
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+export interface AgentRun {
+  agent: AgentDefinition;
+  result: AgentOutput;
+  durationMs: number;
+  fromCheckpoint: boolean;
+  /** Prompt behind the result; absent when it came from a checkpoint */
+  prompt?: PromptUsage;
+}
+
+// Agents whose results have a dedicated CompleteAnalysis field
+const NAMED_RESULTS: Partial<Record<AgentType, keyof CompleteAnalysis>> = {
+  FINANCIAL_ANALYST: "financial",
+  TECHNICAL_DD: "technical",
+  MARKET_RESEARCH: "market",
+  LEGAL_COMPLIANCE: "legal",
+  BLOCKCHAIN_EXPERT: "blockchain",
+  AI_ML_SPECIALIST: "aiml",
+  FINTECH_REGULATOR: "fintech",
+};
+
+function toPipelineAgent(agent: AgentDefinition): PipelineAgent {
+  return {
+    id: agent.id,
+    name: agent.name,
+    role: CORE_AGENTS.includes(agent) ? "core" : INDUSTRY_AGENTS.includes(agent) ? "industry" : "specialist",
+    agentType: agent.agentType,
+  };
+}
+
+/** Tries at claiming the next run number when runs of a startup finish together */
+const MAX_RUN_NUMBER_ATTEMPTS = 5;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function toAgentResultData(run: AgentRun): Prisma.AgentResultCreateWithoutAnalysisInput {
+  const { agent, result } = run;
+  const confidence = (result as { confidence?: unknown }).confidence;
+
+  return {
+    agentId: agent.id,
+    agentType: agent.agentType!,
+    agentName: agent.name,
+    role: toPipelineAgent(agent).role,
+    schemaVersion: agent.schemaVersion ?? 1,
+    score: Math.round(result.score),
+    confidence: typeof confidence === "number" ? Math.round(confidence) : null,
+    output: result,
+    fromCheckpoint: run.fromCheckpoint,
+    durationMs: run.durationMs,
+    promptId: run.prompt?.promptId ?? null,
+    promptVersion: run.prompt?.version ?? null,
+    promptArm: run.prompt?.arm ?? null,
+    cacheHit: run.prompt?.cached ?? false,
+  };
+}
+
+export interface SynthesizedRuns {
+  financial: FinancialAnalysis;
+  technical: TechnicalAnalysis;
+  market: MarketAnalysis;
+  legal: LegalAnalysis;
+  synthesis: AnalysisSynthesis;
+}
+
+/**
+ * Synthesize completed agent runs (every core agent must be among them)
+ *
+ * @param runs Completed runs, in completion order
+ * @param unavailable Optional agents that failed
+ */
+export function synthesizeRuns(
+  runs: Array<{ agent: AgentDefinition; result: AgentOutput }>,
+  unavailable: AgentDefinition[] = []
+): SynthesizedRuns {
+  const result = (agentType: AgentType) => runs.find(run => run.agent.agentType === agentType)?.result;
+  const financial = result("FINANCIAL_ANALYST") as FinancialAnalysis;
+  const technical = result("TECHNICAL_DD") as TechnicalAnalysis;
+  const market = result("MARKET_RESEARCH") as MarketAnalysis;
+  const legal = result("LEGAL_COMPLIANCE") as LegalAnalysis;
+
+  const specialists: SpecialistResult[] = runs
+    .filter(run => !CORE_AGENTS.includes(run.agent))
+    .map(run => ({ name: run.agent.name, result: run.result }));
+
+  const synthesis = synthesizeAnalysis(
+    financial,
+    technical,
+    market,
+    legal,
+    specialists,
+    unavailable.map(agent => agent.name)
+  );
+
+  return { financial, technical, market, legal, synthesis };
+}
+
+/**
+ * Stores around one agent call (checkpoints, activity tracking); `call`
+ * runs the agent itself
+ */
+export type AgentCallWrapper = (call: () => Promise<AgentOutput>) => Promise<AgentOutput>;
+
+/**
+ * Run one agent, attributing its LLM calls to it in the cost ledger and
+ * noting the prompt it used. Nothing is stored unless `wrap` stores it.
+ */
+export async function executeAgent(
+  startup: Startup,
+  agent: AgentDefinition,
+  wrap: AgentCallWrapper = call => call()
+): Promise<AgentRun> {
+  const startedAt = Date.now();
+  const call = () => withLLMContext({ agentType: agent.agentType }, () => agent.run!(startup));
+  const { result, usages } = await collectPromptUsage(() => wrap(call));
+
+  return { agent, result, durationMs: Date.now() - startedAt, fromCheckpoint: false, prompt: usages[0] };
+}
+
+export interface AgentRunsOutcome {
+  /** Completed runs, in completion order */
+  runs: AgentRun[];
+  failedCore: AgentDefinition[];
+  /** Optional agents that failed */
+  missing: AgentDefinition[];
+}
+
+/**
+ * Run agents in parallel. Failures are collected, not thrown: a failed core
+ * agent fails the analysis, failed optional agents make it partial.
+ */
+export async function executeAgents(
+  agents: AgentDefinition[],
+  run: (agent: AgentDefinition) => Promise<AgentRun>
+): Promise<AgentRunsOutcome> {
+  const outcome: AgentRunsOutcome = { runs: [], failedCore: [], missing: [] };
+
+  await Promise.all(
+    agents.map(async agent => {
+      try {
+        outcome.runs.push(await run(agent));
+      } catch {
+        (CORE_AGENTS.includes(agent) ? outcome.failedCore : outcome.missing).push(agent);
+      }
+    })
+  );
+
+  return outcome;
+}
+
+export class AnalysisPipeline {
+  private listeners: PipelineEventListener[] = [];
+
+  on(listener: PipelineEventListener): this {
+    this.listeners.push(listener);
+    return this;
+  }
+
+  async run(startupId: string): Promise<CompleteAnalysis> {
+    try {
+      const startup = await prisma.startup.findUnique({ where: { id: startupId } });
+      if (!startup) {
+        throw new Error(`Startup not found: ${startupId}`);
+      }
+
+      // Enforce the owner's LLM budget before any agent spawns
+      // (throws BudgetExceededError; may skip specialists or downgrade models)
+      const selected = selectAgents(startup);
+      const { plan, agents } = await planAnalysisBudget(startup, selected);
+      for (const agent of selected.filter(a => !agents.includes(a))) {
+        this.emit({ type: "agent_skipped", agent: toPipelineAgent(agent), reason: "budget" });
+      }
+
+      return await withLLMContext(
+        { startupId, userId: startup.userId, downgrade: plan.downgraded },
+        () => this.analyze(startup, agents, plan)
+      );
+    } catch (error) {
+      this.emit({ type: "pipeline_error", error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  private async analyze(
+    startup: Startup,
+    budgeted: AgentDefinition[],
+    plan: BudgetPlan
+  ): Promise<CompleteAnalysis> {
+    const startupId = startup.id;
+    const runnable = budgeted.filter(agent => agent.run && agent.agentType);
+    for (const agent of budgeted.filter(a => !runnable.includes(a))) {
+      this.emit({ type: "agent_skipped", agent: toPipelineAgent(agent), reason: "not_implemented" });
+    }
+
+    await prisma.startup.update({
+      where: { id: startupId },
+      data: { status: "ANALYZING" },
+    });
+
+    const analysisStartedAt = new Date();
+
+    try {
+      // Restore agents that already finished in an interrupted run
+      const checkpoints = await loadCheckpoints(startup);
+      const agentBreakdown = getAgentBreakdown(startup, runnable);
+
+      logger.info(`[Pipeline] Spawning ${agentBreakdown.total} agents in PARALLEL`);
+      logger.info(`[Pipeline] Cost estimate: $${agentBreakdown.estimatedCost.toFixed(2)}`);
+
+      this.emit({
+        type: "pipeline_start",
+        startupId,
+        agents: runnable.map(toPipelineAgent),
+        resumed: checkpoints.restored,
+        estimatedCost: agentBreakdown.estimatedCost,
+        downgraded: plan.downgraded,
+      });
+
+      // Run every agent; core failures fail the run (finished agents stay
+      // checkpointed, so a rerun only repeats the ones that failed)
+      const { runs, failedCore, missing } = await executeAgents(
+        runnable,
+        agent => this.runAgent(startup, agent, checkpoints)
+      );
+
+      if (failedCore.length > 0) {
+        throw new Error(`Core agents failed: ${failedCore.map(agent => agent.agentType).join(", ")}`);
+      }
+
+      const results = new Map(runs.map(run => [run.agent.agentType!, run.result]));
+      const missingAgents = missing.map(agent => agent.agentType!);
+      const partial = missingAgents.length > 0;
+
+      this.emit({ type: "synthesis" });
+      const { financial, technical, market, legal, synthesis } = synthesizeRuns(runs, missing);
+
+      const analysisCompletedAt = new Date();
+      const analysisDuration = Math.round(
+        (analysisCompletedAt.getTime() - analysisStartedAt.getTime()) / 1000
+      );
+
+      logger.info(`[Pipeline] Analysis completed in ${analysisDuration}s`);
+
+      // Save the run with one AgentResult per agent, and make it the startup's current analysis
+      const analysisData = {
+        financialScore: financial.score,
+        technicalScore: technical.score,
+        marketScore: market.score,
+        legalScore: legal.score,
+        overallScore: synthesis.overallScore,
+
+        financialFeedback: financial,
+        technicalFeedback: technical,
+        marketFeedback: market,
+        legalFeedback: legal,
+
+        valuation: Number(synthesis.valuation),
+        recommendation: synthesis.recommendation,
+        summary: synthesis.summary,
+
+        partial,
+        missingAgents: partial ? encodeStringArray(missingAgents) : null,
+
+        analysisStartedAt,
+        analysisCompletedAt,
+        analysisDuration,
+      };
+
+      const saveRun = () => prisma.$transaction(async tx => {
+        const runNumber = (await tx.analysis.count({ where: { startupId } })) + 1;
+        const created = await tx.analysis.create({
+          data: {
+            startupId,
+            runNumber,
+            inputHash: checkpoints.inputHash,
+            inputSnapshot: pitchInput(startup),
+            ...analysisData,
+            results: { create: runs.map(toAgentResultData) },
+          },
+        });
+
+        // Offers are generated on-demand via API
+        await tx.startup.update({
+          where: { id: startupId },
+          data: { analysisId: created.id, status: synthesis.recommendation },
+        });
+
+        return created;
+      });
+
+      // A concurrent run that took the same number fails the unique
+      // (startupId, runNumber) index; count again and take the next one
+      let saved: Awaited<ReturnType<typeof saveRun>> | undefined;
+      for (let attempt = 1; !saved; attempt++) {
+        try {
+          saved = await saveRun();
+        } catch (error) {
+          if (!isUniqueViolation(error) || attempt >= MAX_RUN_NUMBER_ATTEMPTS) throw error;
+          logger.warn(`[Pipeline] Run number taken for ${startupId}; retrying (attempt ${attempt + 1})`);
+        }
+      }
+
+      // Listings show the latest score and status
+      await invalidateTags(
+        cacheTags.pitchList,
+        ...(startup.userId ? [cacheTags.user(startup.userId)] : [])
+      );
+
+      // Partial runs keep their checkpoints so a rerun only retries the missing agents
+      if (!partial) {
+        await checkpoints.clear();
+      }
+
+      const industrySpecific: Record<string, AgentOutput> = {};
+      for (const agent of runnable) {
+        const result = results.get(agent.agentType!);
+        if (result && !NAMED_RESULTS[agent.agentType!]) {
+          industrySpecific[agent.id] = result;
+        }
+      }
+
+      const analysis: CompleteAnalysis = {
+        analysisId: saved.id,
+        runNumber: saved.runNumber,
+        financial,
+        technical,
+        market,
+        legal,
+        blockchain: results.get("BLOCKCHAIN_EXPERT") as BlockchainAnalysis | undefined,
+        aiml: results.get("AI_ML_SPECIALIST") as AIMLAnalysis | undefined,
+        fintech: results.get("FINTECH_REGULATOR") as FinTechAnalysis | undefined,
+        industrySpecific,
+        agentBreakdown,
+        synthesis,
+        partial,
+        missingAgents,
+      };
+
+      this.emit({
+        type: "pipeline_complete",
+        analysis,
+        durationMs: analysisCompletedAt.getTime() - analysisStartedAt.getTime(),
+      });
+
+      return analysis;
+    } catch (error) {
+      // Back to PENDING so the analysis can be retried
+      await prisma.startup.update({
+        where: { id: startupId },
+        data: { status: "PENDING" },
+      });
+
+      throw error;
+    }
+  }
+
+  private async runAgent(
+    startup: Startup,
+    agent: AgentDefinition,
+    checkpoints: AgentCheckpointSet
+  ): Promise<AgentRun> {
+    const agentType = agent.agentType!;
+    const pipelineAgent = toPipelineAgent(agent);
+    const fromCheckpoint = checkpoints.has(agentType);
+
+    this.emit({ type: "agent_start", agent: pipelineAgent });
+
+    try {
+      const run = await executeAgent(startup, agent, call =>
+        checkpoints.run(agentType, () => this.runWithTracking(startup.id, agent, call))
+      );
+
+      this.emit({
+        type: "agent_complete",
+        agent: pipelineAgent,
+        result: run.result,
+        durationMs: run.durationMs,
+        fromCheckpoint,
+      });
+
+      return { ...run, fromCheckpoint };
+    } catch (error) {
+      logger.error(`[Pipeline] ${agent.name} failed:`, error);
+      this.emit({ type: "agent_error", agent: pipelineAgent, error: String(error) });
+      throw error;
+    }
+  }
+
+  private async runWithTracking<T extends AgentOutput>(
+    startupId: string,
+    agent: AgentDefinition,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const agentType = agent.agentType!;
+    const startedAt = new Date();
+
+    const activity = await prisma.agentActivity.create({
+      data: {
+        startupId,
+        agentName: agent.name,
+        agentType,
+        action: "analyze",
+        description: `Analyzing ${agent.capability.replace(/_/g, " ")}`,
+        status: "RUNNING",
+        startedAt,
+      },
+    });
+
+    try {
+      const result = await fn();
+
+      const completedAt = new Date();
+      await prisma.agentActivity.update({
+        where: { id: activity.id },
+        data: {
+          status: "COMPLETED",
+          completedAt,
+          duration: completedAt.getTime() - startedAt.getTime(),
+          result: `Score: ${result.score}/100`,
+        },
+      });
+
+      return result;
+    } catch (error) {
+      await prisma.agentActivity.update({
+        where: { id: activity.id },
+        data: {
+          status: "FAILED",
+          completedAt: new Date(),
+          errorMessage: String(error),
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  private emit(event: PipelineEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error("[Pipeline] Event listener failed:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Run a full analysis for a startup
+ */
+export async function runAnalysisPipeline(
+  startupId: string,
+  onEvent?: PipelineEventListener
+): Promise<CompleteAnalysis> {
+  const pipeline = new AnalysisPipeline();
+  if (onEvent) pipeline.on(onEvent);
+  return pipeline.run(startupId);
+}
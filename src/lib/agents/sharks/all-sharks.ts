@@ -1,33 +1,16 @@
-import { SharkAgent, SharkPersonality, Pitch, SharkAnalysis, SharkOffer } from './shark-base';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { SharkAgent, Pitch, SharkAnalysis, SharkOffer } from './shark-base';
+import { llm } from '@/lib/llm';
 
 // Base helper for all sharks
 async function generateSharkResponse(systemPrompt: string, userPrompt: string): Promise<string> {
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
+  const response = await llm.chat('complex', [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ], {
     temperature: 0.8,
-    max_tokens: 1000,
+    maxTokens: 1000,
   });
-  return response.choices[0]?.message?.content || '';
-}
-
-function createSystemPrompt(personality: SharkPersonality): string {
-  return `You are ${personality.name}, ${personality.title}.
-
-PERSONALITY: ${personality.personality}
-SPECIALTY: ${personality.specialty.join(', ')}
-INVESTMENT STYLE: ${personality.investmentStyle}
-SIGNATURE: "${personality.signatureQuote}"
-
-Stay in character. Be authentic. Make tough but fair decisions.`;
+  return response.content;
 }
 
 // Barbara Corcoran AI
@@ -55,7 +38,7 @@ Focus on: founder personality, brand potential, consumer appeal, retail opportun
 
 Respond in JSON format with: interestLevel, strengths, concerns, questions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       const parsed = JSON.parse(response);
       return { sharkName: this.personality.name, ...parsed };
@@ -87,7 +70,7 @@ Ask: $${pitch.fundingAsk.toLocaleString()} at $${pitch.valuation.toLocaleString(
 Focus on: mentorship value, brand building, your network's power.
 JSON format: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       const parsed = JSON.parse(response);
       return { sharkName: this.personality.name, ...parsed };
@@ -103,7 +86,7 @@ JSON format: interested, amount, equity, dealStructure, terms, conditions, reaso
 
   async respondToQuestion(pitch: Pitch, question: string): Promise<string> {
     const prompt = `Founder asks: "${question}"\n\nRespond as Barbara - warm, people-focused, brand-obsessed.`;
-    return generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    return generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
   }
 }
 
@@ -129,7 +112,7 @@ Ask: $${pitch.fundingAsk.toLocaleString()}
 Focus on: profitability, cash flow, ROI potential, defensibility.
 JSON: interestLevel, strengths, concerns, questions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -160,7 +143,7 @@ Revenue: ${pitch.revenue || 0} | Ask: $${pitch.fundingAsk.toLocaleString()}
 Structure a Kevin O'Leary-style deal: royalty until paid back, then equity conversion.
 JSON format: interested, amount, equity, dealStructure ('royalty'), terms, conditions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -175,7 +158,7 @@ JSON format: interested, amount, equity, dealStructure ('royalty'), terms, condi
 
   async respondToQuestion(pitch: Pitch, question: string): Promise<string> {
     const prompt = `"${question}"\n\nKevin response: brutal honesty, focus on money.`;
-    return generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    return generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
   }
 }
 
@@ -200,7 +183,7 @@ Is this a HERO or ZERO product?
 Focus on: product appeal, QVC potential, retail viability, mass market.
 JSON: interestLevel, strengths, concerns, questions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -231,7 +214,7 @@ Ask: $${pitch.fundingAsk.toLocaleString()}
 Offer includes: QVC slot, retail distribution, product optimization.
 JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -246,7 +229,7 @@ JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
   async respondToQuestion(pitch: Pitch, question: string): Promise<string> {
     const prompt = `"${question}"\n\nLori: enthusiastic, product-obsessed, retail genius.`;
-    return generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    return generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
   }
 }
 
@@ -271,7 +254,7 @@ Industry: ${pitch.industry}
 Focus on: brand authenticity, cultural relevance, influencer potential, scrappiness.
 JSON: interestLevel, strengths, concerns, questions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -302,7 +285,7 @@ Ask: $${pitch.fundingAsk.toLocaleString()}
 Include: influencer intros, brand building, cultural capital.
 JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -317,7 +300,7 @@ JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
   async respondToQuestion(pitch: Pitch, question: string): Promise<string> {
     const prompt = `"${question}"\n\nDaymond: streetwise, brand-focused, power of broke.`;
-    return generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    return generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
   }
 }
 
@@ -342,7 +325,7 @@ Revenue: ${pitch.revenue || 'Pre-revenue'} | Customers: ${pitch.users || 'Unknow
 Focus on: enterprise readiness, sales process, security, execution capability.
 JSON: interestLevel, strengths, concerns, questions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -373,7 +356,7 @@ Ask: $${pitch.fundingAsk.toLocaleString()}
 Include: enterprise sales support, security expertise, process improvement.
 JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -388,7 +371,7 @@ JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
   async respondToQuestion(pitch: Pitch, question: string): Promise<string> {
     const prompt = `"${question}"\n\nRobert: process-driven, execution-focused, enterprise mindset.`;
-    return generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    return generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
   }
 }
 
@@ -413,7 +396,7 @@ Industry: ${pitch.industry}
 Focus on: athlete appeal, health impact, DTC potential, winner's mindset.
 JSON: interestLevel, strengths, concerns, questions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -444,7 +427,7 @@ Ask: $${pitch.fundingAsk.toLocaleString()}
 Include: A-Rod brand ambassador, athlete network, wellness credibility.
 JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
-    const response = await generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    const response = await generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
     try {
       return { sharkName: this.personality.name, ...JSON.parse(response) };
     } catch {
@@ -459,7 +442,7 @@ JSON: interested, amount, equity, dealStructure, terms, conditions, reasoning`;
 
   async respondToQuestion(pitch: Pitch, question: string): Promise<string> {
     const prompt = `"${question}"\n\nA-Rod: championship mindset, wellness-focused, athlete network.`;
-    return generateSharkResponse(createSystemPrompt(this.personality), prompt);
+    return generateSharkResponse(this.getSystemPrompt(pitch, 'shark-persona-compact'), prompt);
   }
 }
 
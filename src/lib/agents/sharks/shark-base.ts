@@ -1,4 +1,5 @@
-import { createOptimizedClient, type AIClient } from '../../ai-client';
+import { llm } from '@/lib/llm';
+import { prompts, renderTemplate } from '@/lib/prompts';
 
 export interface SharkPersonality {
   name: string;
@@ -60,18 +61,16 @@ export abstract class SharkAgent {
   abstract respondToQuestion(pitch: Pitch, question: string): Promise<string>;
 
   /**
-   * Generate AI response using optimized provider routing
-   * - Analysis tasks → Gemini (50% cheaper)
-   * - Critical decisions → OpenAI (most reliable)
+   * Generate AI response using the shared provider routing
+   * - Analysis tasks → cheap reasoning route
+   * - Critical decisions → most reliable route
    */
   protected async generateResponse(
     systemPrompt: string,
     userPrompt: string,
     taskType: 'analysis' | 'critical' = 'analysis'
   ): Promise<string> {
-    const client = createOptimizedClient(taskType);
-    
-    const response = await client.chat([
+    const response = await llm.chat(taskType, [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt },
     ], {
@@ -82,26 +81,20 @@ export abstract class SharkAgent {
     return response.content;
   }
 
-  protected getSystemPrompt(): string {
-    return `You are ${this.personality.name}, a legendary investor from Shark Tank.
-
-PERSONALITY: ${this.personality.personality}
-
-SPECIALTY: ${this.personality.specialty.join(', ')}
-
-INVESTMENT STYLE: ${this.personality.investmentStyle}
-
-SIGNATURE QUOTE: "${this.personality.signatureQuote}"
-
-You evaluate startups from your unique perspective. Be authentic to your character:
-- Use your signature phrases and mannerisms
-- Focus on areas within your specialty
-- Make decisions aligned with your investment style
-- Be tough but fair in your analysis
-- Show enthusiasm when genuinely interested
-- Be direct when saying "I'm out"
-
-Always respond in character. Be specific, actionable, and true to your personality.`;
+  /**
+   * Persona system prompt from the prompt registry; the pitch decides the
+   * experiment arm when one is running
+   */
+  protected getSystemPrompt(pitch: Pitch, promptId = 'shark-persona'): string {
+    const { prompt } = prompts.select(promptId, pitch.id);
+    return renderTemplate(prompt.system, {
+      name: this.personality.name,
+      title: this.personality.title,
+      personality: this.personality.personality,
+      specialty: this.personality.specialty.join(', '),
+      investmentStyle: this.personality.investmentStyle,
+      signatureQuote: this.personality.signatureQuote,
+    });
   }
 }
 
@@ -139,7 +132,7 @@ JSON:
   "reasoning": "2-3 sentences"
 }`;
 
-    const response = await this.generateResponse(this.getSystemPrompt(), prompt);
+    const response = await this.generateResponse(this.getSystemPrompt(pitch), prompt);
 
     try {
       const analysis = JSON.parse(response);
@@ -189,7 +182,7 @@ JSON:
   "reasoning": "2 sentences"
 }`;
 
-    const response = await this.generateResponse(this.getSystemPrompt(), prompt);
+    const response = await this.generateResponse(this.getSystemPrompt(pitch), prompt);
 
     try {
       const offer = JSON.parse(response);
@@ -214,7 +207,7 @@ Founder: "${question}"
 
 Respond as Mark Cuban (direct, metrics-focused).`;
 
-    return this.generateResponse(this.getSystemPrompt(), prompt);
+    return this.generateResponse(this.getSystemPrompt(pitch), prompt);
   }
 }
 
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const CompetitiveIntelligenceSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  directCompetitors: z.array(z.object({
+    name: z.string(),
+    positioning: z.string(),
+    threatLevel: z.enum(["LOW", "MEDIUM", "HIGH"]),
+  })).describe("Most relevant direct competitors"),
+  indirectAlternatives: z.string().describe("Substitutes and status-quo alternatives customers use today"),
+  differentiation: z.string().describe("What is genuinely different and how durable it is"),
+  moatAssessment: z.string().describe("Defensibility (network effects, data, switching costs, IP, brand)"),
+  incumbentResponse: z.string().describe("How incumbents are likely to respond"),
+  positioningRecommendation: z.string().describe("Recommended market positioning"),
+});
+
+export type CompetitiveIntelligenceAnalysis = z.infer<typeof CompetitiveIntelligenceSchema>;
+
+export class CompetitiveIntelligenceAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'complex' tier (gpt-4o) - competitor mapping needs broad world knowledge
+    super("complex");
+  }
+
+  async analyze(startup: Startup): Promise<CompetitiveIntelligenceAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        CompetitiveIntelligenceSchema,
+        'competitive-intel',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+          website: startup.website || "N/A",
+        },
+        { startup }
+      );
+
+      return result as CompetitiveIntelligenceAnalysis;
+    } catch (error) {
+      console.error("Competitive intelligence analysis failed:", error);
+      throw new Error(`Competitive intelligence analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeCompetition(startup: Startup): Promise<CompetitiveIntelligenceAnalysis> {
+  const agent = new CompetitiveIntelligenceAgent();
+  return await agent.analyze(startup);
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const DataPrivacySchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  dataInventory: z.string().describe("Personal and sensitive data categories the product likely processes"),
+  applicableLaws: z.array(z.string()).describe("Applicable privacy laws (GDPR, CCPA/CPRA, HIPAA, COPPA, LGPD, etc.)"),
+  lawfulBasisAndConsent: z.string().describe("Lawful basis, consent and transparency requirements"),
+  crossBorderTransfers: z.string().describe("International data transfer requirements (SCCs, adequacy)"),
+  dataSubjectRights: z.string().describe("Readiness to handle access, deletion and portability requests"),
+  privacyByDesign: z.string().describe("Data minimization, retention and anonymization practices"),
+});
+
+export type DataPrivacyAnalysis = z.infer<typeof DataPrivacySchema>;
+
+export class DataPrivacyAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'critical' tier - privacy violations carry regulatory fines
+    super("critical");
+  }
+
+  async analyze(startup: Startup): Promise<DataPrivacyAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        DataPrivacySchema,
+        'data-privacy-expert',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+        },
+        { startup }
+      );
+
+      return result as DataPrivacyAnalysis;
+    } catch (error) {
+      console.error("Data privacy analysis failed:", error);
+      throw new Error(`Data privacy analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeDataPrivacy(startup: Startup): Promise<DataPrivacyAnalysis> {
+  const agent = new DataPrivacyAgent();
+  return await agent.analyze(startup);
+}
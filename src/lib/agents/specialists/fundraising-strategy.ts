@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const FundraisingStrategySchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  roundSizing: z.string().describe("Whether the ask fits the stage and the milestones it must fund"),
+  instrument: z.string().describe("Recommended instrument (SAFE, convertible note, priced equity, token, grant)"),
+  investorTargets: z.array(z.string()).describe("Investor types and example firms that fit this round"),
+  milestonesToNextRound: z.array(z.string()).describe("Milestones this round must reach to raise the next one"),
+  dilutionAndRunway: z.string().describe("Expected dilution and months of runway"),
+  fundraisingNarrative: z.string().describe("Strongest story to tell investors"),
+});
+
+export type FundraisingStrategyAnalysis = z.infer<typeof FundraisingStrategySchema>;
+
+export class FundraisingStrategyAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - structured round planning
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<FundraisingStrategyAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        FundraisingStrategySchema,
+        'fundraising-strategist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+          teamSize: startup.teamSize,
+        },
+        { startup }
+      );
+
+      return result as FundraisingStrategyAnalysis;
+    } catch (error) {
+      console.error("Fundraising strategy analysis failed:", error);
+      throw new Error(`Fundraising strategy analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeFundraising(startup: Startup): Promise<FundraisingStrategyAnalysis> {
+  const agent = new FundraisingStrategyAgent();
+  return await agent.analyze(startup);
+}
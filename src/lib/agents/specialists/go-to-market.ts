@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const GoToMarketSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  idealCustomerProfile: z.string().describe("Who to sell to first and why"),
+  primaryChannels: z.array(z.string()).describe("Most promising acquisition channels, in priority order"),
+  salesMotion: z.string().describe("Self-serve, product-led, inside sales or enterprise sales"),
+  launchPlan: z.string().describe("Sequenced launch plan for the next 6-12 months"),
+  growthLoops: z.string().describe("Compounding growth loops (viral, content, network, paid)"),
+  keyMetrics: z.array(z.string()).describe("Metrics that prove GTM is working"),
+});
+
+export type GoToMarketAnalysis = z.infer<typeof GoToMarketSchema>;
+
+export class GoToMarketAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - playbook-style recommendations
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<GoToMarketAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        GoToMarketSchema,
+        'gtm-strategist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+          teamSize: startup.teamSize,
+        },
+        { startup }
+      );
+
+      return result as GoToMarketAnalysis;
+    } catch (error) {
+      console.error("Go-to-market analysis failed:", error);
+      throw new Error(`Go-to-market analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeGoToMarket(startup: Startup): Promise<GoToMarketAnalysis> {
+  const agent = new GoToMarketAgent();
+  return await agent.analyze(startup);
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const PatentSearchSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  patentability: z.string().describe("Likelihood the core invention is novel and non-obvious"),
+  priorArt: z.array(z.string()).describe("Known prior art, technologies or patent families to review"),
+  freedomToOperate: z.string().describe("Risk of infringing existing patents"),
+  ipLandscape: z.string().describe("Density of patents and key holders in this space"),
+  ipStrategy: z.string().describe("Recommended filing strategy (provisional, PCT, trade secrets)"),
+  estimatedCosts: z.string().describe("Estimated cost and timeline of the recommended IP strategy"),
+});
+
+export type PatentSearchAnalysis = z.infer<typeof PatentSearchSchema>;
+
+export class PatentSearchAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'complex' tier (gpt-4o) - prior art reasoning needs broad technical recall
+    super("complex");
+  }
+
+  async analyze(startup: Startup): Promise<PatentSearchAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        PatentSearchSchema,
+        'patent-searcher',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+        },
+        { startup }
+      );
+
+      return result as PatentSearchAnalysis;
+    } catch (error) {
+      console.error("Patent search analysis failed:", error);
+      throw new Error(`Patent search analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function searchPatents(startup: Startup): Promise<PatentSearchAnalysis> {
+  const agent = new PatentSearchAgent();
+  return await agent.analyze(startup);
+}
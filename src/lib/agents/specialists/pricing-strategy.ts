@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const PricingStrategySchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  pricingModel: z.string().describe("Recommended model (per seat, usage-based, tiered, transactional, freemium)"),
+  valueMetric: z.string().describe("The unit of value pricing should scale with"),
+  pricePoints: z.array(z.object({
+    tier: z.string(),
+    price: z.string(),
+    targetCustomer: z.string(),
+  })).describe("Suggested tiers and price points"),
+  willingnessToPay: z.string().describe("Evidence and estimate of customer willingness to pay"),
+  competitiveBenchmark: z.string().describe("How prices compare with alternatives"),
+  marginImpact: z.string().describe("Effect of the pricing on gross margin and LTV/CAC"),
+});
+
+export type PricingStrategyAnalysis = z.infer<typeof PricingStrategySchema>;
+
+export class PricingStrategyAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - structured pricing recommendations
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<PricingStrategyAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        PricingStrategySchema,
+        'pricing-strategist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+        },
+        { startup }
+      );
+
+      return result as PricingStrategyAnalysis;
+    } catch (error) {
+      console.error("Pricing strategy analysis failed:", error);
+      throw new Error(`Pricing strategy analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzePricing(startup: Startup): Promise<PricingStrategyAnalysis> {
+  const agent = new PricingStrategyAgent();
+  return await agent.analyze(startup);
+}
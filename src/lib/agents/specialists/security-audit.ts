@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const SecurityAuditSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  threatModel: z.string().describe("Most likely attackers, assets at risk and attack surface"),
+  criticalVulnerabilities: z.array(z.string()).describe("Highest-risk vulnerability classes for this product"),
+  securityPosture: z.string().describe("Expected maturity of authentication, secrets, infrastructure and SDLC"),
+  complianceFrameworks: z.string().describe("Relevant certifications (SOC 2, ISO 27001, PCI-DSS, audits)"),
+  incidentImpact: z.string().describe("Business impact of a breach (financial, regulatory, reputational)"),
+  remediationPriorities: z.array(z.string()).describe("Ordered list of security investments to make first"),
+});
+
+export type SecurityAuditAnalysis = z.infer<typeof SecurityAuditSchema>;
+
+export class SecurityAuditAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'critical' tier - security findings drive go/no-go decisions on large rounds
+    super("critical");
+  }
+
+  async analyze(startup: Startup): Promise<SecurityAuditAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        SecurityAuditSchema,
+        'security-auditor',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+          website: startup.website || "N/A",
+        },
+        { startup }
+      );
+
+      return result as SecurityAuditAnalysis;
+    } catch (error) {
+      console.error("Security audit failed:", error);
+      throw new Error(`Security audit failed: ${error}`);
+    }
+  }
+}
+
+export async function auditSecurity(startup: Startup): Promise<SecurityAuditAnalysis> {
+  const agent = new SecurityAuditAgent();
+  return await agent.analyze(startup);
+}
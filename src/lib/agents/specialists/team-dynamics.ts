@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { Startup } from "@prisma/client";
+import { OptimizedBaseAgent } from "../optimized-base-agent";
+
+const TeamDynamicsSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  concerns: z.array(z.string()),
+  feedback: z.array(z.string()),
+  teamComposition: z.string().describe("Balance of technical, commercial and domain skills"),
+  founderMarketFit: z.string().describe("Why this team is suited to this problem"),
+  skillGaps: z.array(z.string()).describe("Roles or skills missing for the next stage"),
+  teamSizeFit: z.string().describe("Whether team size fits the stage and burn"),
+  decisionMaking: z.string().describe("Likely decision-making and co-founder conflict risks"),
+  hiringPlan: z.string().describe("Recommended next hires and hiring sequence"),
+});
+
+export type TeamDynamicsAnalysis = z.infer<typeof TeamDynamicsSchema>;
+
+export class TeamDynamicsAgent extends OptimizedBaseAgent {
+  constructor() {
+    // Use 'simple' tier (gpt-4o-mini) - inference from limited team data
+    super("simple");
+  }
+
+  async analyze(startup: Startup): Promise<TeamDynamicsAnalysis> {
+    try {
+      const result = await this.invokeStructured(
+        TeamDynamicsSchema,
+        'team-psychologist',
+        {
+          name: startup.name,
+          industry: startup.industry,
+          stage: startup.stage,
+          description: startup.description,
+          tagline: startup.tagline,
+          fundingAsk: startup.fundingAsk,
+          teamSize: startup.teamSize,
+        },
+        { startup }
+      );
+
+      return result as TeamDynamicsAnalysis;
+    } catch (error) {
+      console.error("Team dynamics analysis failed:", error);
+      throw new Error(`Team dynamics analysis failed: ${error}`);
+    }
+  }
+}
+
+export async function analyzeTeamDynamics(startup: Startup): Promise<TeamDynamicsAnalysis> {
+  const agent = new TeamDynamicsAgent();
+  return await agent.analyze(startup);
+}
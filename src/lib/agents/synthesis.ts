@@ -0,0 +1,239 @@
+/**
+ * Analysis Synthesis
+ *
+ * Combines agent results into the overall score, recommendation, summary
+ * and next steps. The four core agents carry the weighted score; industry
+ * and specialist agents contribute 20% of it when any ran, and their
+ * strengths, concerns and red flags feed the report.
+ */
+
+import type { FinancialAnalysis } from "./financial-analyst";
+import type { TechnicalAnalysis } from "./technical-dd";
+import type { MarketAnalysis } from "./market-research";
+import type { LegalAnalysis } from "./legal-compliance";
+import type { AgentOutput } from "./agent-registry";
+
+export interface AnalysisSynthesis {
+  overallScore: number;
+  recommendation: "APPROVED" | "CONDITIONAL" | "REJECTED";
+  valuation: number;
+  summary: string;
+  keyStrengths: string[];
+  keyConcerns: string[];
+  nextSteps: string[];
+}
+
+/**
+ * Result of an industry or specialist agent, labelled for the report
+ */
+export interface SpecialistResult {
+  name: string;
+  result: AgentOutput;
+}
+
+// Specialist scores below this are called out as red flags
+const RED_FLAG_SCORE = 50;
+
+/**
+ * @param specialists Results of the industry/specialist agents that completed
+ * @param unavailableAgents Names of optional agents that failed; flagged in the summary
+ */
+export function synthesizeAnalysis(
+  financial: FinancialAnalysis,
+  technical: TechnicalAnalysis,
+  market: MarketAnalysis,
+  legal: LegalAnalysis,
+  specialists: SpecialistResult[] = [],
+  unavailableAgents: string[] = []
+): AnalysisSynthesis {
+  // Calculate weighted overall score
+  const coreScore =
+    financial.score * 0.30 +    // 30% weight
+    technical.score * 0.25 +     // 25% weight
+    market.score * 0.30 +        // 30% weight
+    legal.score * 0.15;          // 15% weight
+
+  const overallScore = Math.round(
+    specialists.length > 0
+      ? coreScore * 0.8 + average(specialists.map(s => s.result.score)) * 0.2
+      : coreScore
+  );
+
+  // Weakest specialist reviews first
+  const bySeverity = [...specialists].sort((a, b) => a.result.score - b.result.score);
+  const redFlags = bySeverity.filter(s => s.result.score < RED_FLAG_SCORE);
+  
+  // Determine recommendation
+  let recommendation: "APPROVED" | "CONDITIONAL" | "REJECTED";
+  if (overallScore >= 75) {
+    recommendation = "APPROVED";
+  } else if (overallScore >= 55) {
+    recommendation = "CONDITIONAL";
+  } else {
+    recommendation = "REJECTED";
+  }
+  
+  // Use financial agent's valuation as base
+  const valuation = financial.valuation;
+  
+  // Aggregate strengths and concerns
+  const keyStrengths = [
+    ...financial.strengths.slice(0, 2),
+    ...technical.strengths.slice(0, 2),
+    ...market.strengths.slice(0, 2),
+    ...[...bySeverity].reverse().flatMap(s => s.result.strengths.slice(0, 1)).slice(0, 3),
+  ];
+  
+  const keyConcerns = [
+    ...financial.concerns.slice(0, 2),
+    ...technical.concerns.slice(0, 2),
+    ...market.concerns.slice(0, 2),
+    ...legal.concerns.slice(0, 1),
+    ...bySeverity.flatMap(s => s.result.concerns.slice(0, 1)).slice(0, 3),
+  ];
+  
+  // Generate summary (flag partial analyses explicitly)
+  let summary = generateSummary(
+    overallScore,
+    recommendation,
+    financial,
+    technical,
+    market,
+    legal
+  );
+  if (redFlags.length > 0) {
+    summary += ` Specialist red flags: ${redFlags.map(s => `${s.name} (${s.result.score}/100)`).join(", ")}.`;
+  }
+  if (unavailableAgents.length > 0) {
+    summary += ` Partial analysis: ${unavailableAgents.join(", ")} unavailable.`;
+  }
+  
+  // Generate next steps
+  const nextSteps = generateNextSteps(
+    recommendation,
+    financial,
+    technical,
+    market,
+    legal,
+    redFlags
+  );
+  
+  return {
+    overallScore,
+    recommendation,
+    valuation,
+    summary,
+    keyStrengths,
+    keyConcerns,
+    nextSteps,
+  };
+}
+
+function generateSummary(
+  overallScore: number,
+  recommendation: string,
+  financial: FinancialAnalysis,
+  technical: TechnicalAnalysis,
+  market: MarketAnalysis,
+  legal: LegalAnalysis
+): string {
+  const scoreDescriptor = 
+    overallScore >= 85 ? "exceptional" :
+    overallScore >= 75 ? "strong" :
+    overallScore >= 65 ? "solid" :
+    overallScore >= 55 ? "promising but needs work" :
+    "not ready for funding";
+  
+  const parts = [
+    `This startup is ${scoreDescriptor} with an overall score of ${overallScore}/100.`,
+  ];
+  
+  // Add recommendation context
+  if (recommendation === "APPROVED") {
+    parts.push("We recommend approval for funding and accelerator admission.");
+    parts.push(`The startup demonstrates strong fundamentals across all evaluation criteria.`);
+  } else if (recommendation === "CONDITIONAL") {
+    parts.push("We recommend conditional approval pending improvements in key areas.");
+    parts.push("The startup shows promise but should address identified concerns before final approval.");
+  } else {
+    parts.push("We do not recommend funding at this time.");
+    parts.push("The startup needs significant improvements before reapplying.");
+  }
+  
+  // Highlight top scores
+  const scores = [
+    { name: "Financial", score: financial.score },
+    { name: "Technical", score: technical.score },
+    { name: "Market", score: market.score },
+    { name: "Legal", score: legal.score },
+  ].sort((a, b) => b.score - a.score);
+  
+  parts.push(
+    `Strongest areas: ${scores[0].name} (${scores[0].score}/100) and ${scores[1].name} (${scores[1].score}/100).`
+  );
+  
+  if (scores[3].score < 60) {
+    parts.push(
+      `Area needing attention: ${scores[3].name} (${scores[3].score}/100).`
+    );
+  }
+  
+  return parts.join(" ");
+}
+
+function generateNextSteps(
+  recommendation: string,
+  financial: FinancialAnalysis,
+  technical: TechnicalAnalysis,
+  market: MarketAnalysis,
+  legal: LegalAnalysis,
+  redFlags: SpecialistResult[]
+): string[] {
+  if (recommendation === "APPROVED") {
+    return [
+      "Begin VC matching process with our network",
+      "Set up Futarchy prediction market for community validation",
+      "Prepare ICO fundraising campaign",
+      "Schedule onboarding call with accelerator team",
+      "Access full suite of AI coaching and marketing agents",
+    ];
+  }
+  
+  if (recommendation === "CONDITIONAL") {
+    const steps: string[] = ["Address the following concerns before final approval:"];
+    
+    // Add specific concerns
+    if (financial.score < 65) {
+      steps.push("- Refine financial projections and revenue model");
+    }
+    if (technical.score < 65) {
+      steps.push("- Strengthen technical infrastructure and scalability plan");
+    }
+    if (market.score < 65) {
+      steps.push("- Better define market positioning and GTM strategy");
+    }
+    if (legal.score < 65) {
+      steps.push("- Address legal and compliance requirements");
+    }
+    for (const { name } of redFlags) {
+      steps.push(`- Resolve the issues raised by the ${name}`);
+    }
+    
+    steps.push("Resubmit pitch once improvements are made (free resubmission)");
+    
+    return steps;
+  }
+  
+  // REJECTED
+  return [
+    "Significant improvements needed across multiple areas",
+    "Consider refining the core business model and value proposition",
+    "Build more traction before reapplying (users, revenue, partnerships)",
+    "Access our coaching agents for guidance on improvements",
+    "Reapply in 3-6 months after addressing feedback",
+  ];
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -3,7 +3,7 @@
  * Uses Claude Opus to generate validated startup ideas from market intelligence
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { llm } from '@/lib/llm';
 import { MarketIntelligence, type MarketGap, type TechTrend } from './market-intelligence';
 
 export interface StartupIdea {
@@ -33,13 +33,9 @@ export interface StartupIdea {
 }
 
 export class IdeaGenerator {
-  private anthropic: Anthropic;
   private intelligence: MarketIntelligence;
 
   constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
     this.intelligence = new MarketIntelligence();
   }
 
@@ -53,22 +49,15 @@ export class IdeaGenerator {
     // Build context-rich prompt
     const prompt = this.buildIdeaPrompt(intel);
 
-    // Generate idea using Claude Opus (best model)
-    const response = await this.anthropic.messages.create({
-      model: 'claude-opus-4',
-      max_tokens: 8192,
-      temperature: 0.9, // High creativity
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    });
-
-    const content = response.content[0];
-    const text = content.type === 'text' ? content.text : '';
+    // Generate idea using the creative route (best model)
+    const response = await llm.chat(
+      'creative',
+      [{ role: 'user', content: prompt }],
+      { maxTokens: 8192, temperature: 0.9 } // High creativity
+    );
 
     // Parse idea from response
-    return this.parseIdea(text);
+    return this.parseIdea(response.content);
   }
 
   /**
@@ -155,7 +144,7 @@ Generate the idea now:`;
   }
 
   /**
-   * Parse JSON idea from Claude response
+   * Parse JSON idea from model response
    */
   private parseIdea(text: string): StartupIdea {
     // Extract JSON from response
@@ -189,17 +178,12 @@ Output format:
   "reasoning": "Brief explanation of score"
 }`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4',
-      max_tokens: 1024,
-      messages: [{
-        role: 'user',
-        content: scoringPrompt
-      }]
-    });
-
-    const content = response.content[0];
-    const text = content.type === 'text' ? content.text : '';
+    const response = await llm.chat(
+      'analysis',
+      [{ role: 'user', content: scoringPrompt }],
+      { maxTokens: 1024 }
+    );
+    const text = response.content;
     
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
@@ -3,7 +3,7 @@
  * Scrapes GitHub, Reddit, Twitter for market gaps and trends
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { llm } from '@/lib/llm';
 
 export interface MarketGap {
   problem: string;
@@ -22,14 +22,6 @@ export interface TechTrend {
 }
 
 export class MarketIntelligence {
-  private anthropic: Anthropic;
-
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-
   /**
    * Analyze GitHub trending repositories
    * Discovers what developers are building (early signals)
@@ -42,11 +34,8 @@ export class MarketIntelligence {
       
       const repos = data.items || [];
       
-      // Use Claude to extract trends
-      const analysis = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4',
-        max_tokens: 4096,
-        messages: [{
+      // Use the analysis model to extract trends
+      const analysis = await llm.chat('analysis', [{
           role: 'user',
           content: `Analyze these GitHub repositories and identify emerging tech trends:
 
@@ -60,11 +49,9 @@ For each trend, provide:
 5. GitHub stars
 
 Output as JSON array.`
-        }]
-      });
+        }], { maxTokens: 4096 });
 
-      const content = analysis.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      const text = analysis.content;
       
       // Extract JSON from response
       const jsonMatch = text.match(/\[[\s\S]*\]/);
@@ -107,11 +94,8 @@ Output as JSON array.`
         }
       ];
 
-      // Use Claude to extract pain points
-      const analysis = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4',
-        max_tokens: 4096,
-        messages: [{
+      // Use the analysis model to extract pain points
+      const analysis = await llm.chat('analysis', [{
           role: 'user',
           content: `Analyze these Reddit posts and identify startup pain points:
 
@@ -125,11 +109,9 @@ For each pain point, provide:
 5. URL
 
 Output as JSON array.`
-        }]
-      });
+        }], { maxTokens: 4096 });
 
-      const content = analysis.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      const text = analysis.content;
       
       const jsonMatch = text.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
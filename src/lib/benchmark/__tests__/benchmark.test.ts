@@ -0,0 +1,208 @@
+/**
+ * Tests for the offline evaluation harness
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+
+// The harness must run without a database
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { llm } from '@/lib/llm';
+import { recordLLMUsage } from '@/lib/monitoring/cost-ledger';
+import { cache } from '@/lib/cache';
+import { sampleFromSchema } from '@/lib/llm/drivers/mock-driver';
+import {
+  auc,
+  calibration,
+  compareReports,
+  computeMetrics,
+  loadDataset,
+  ranks,
+  renderMarkdownReport,
+  runBenchmark,
+  spearman,
+  type BenchmarkDataset,
+  type PitchResult,
+} from '@/lib/benchmark';
+
+function pitchResult(id: string, overallScore: number | null, success: boolean, overrides: Partial<PitchResult> = {}): PitchResult {
+  return {
+    id,
+    name: id,
+    outcome: { success },
+    overallScore,
+    recommendation: overallScore === null ? null : overallScore >= 75 ? 'APPROVED' : overallScore >= 55 ? 'CONDITIONAL' : 'REJECTED',
+    agentScores: {},
+    failedAgents: [],
+    durationMs: 0,
+    ...overrides,
+  };
+}
+
+describe('metrics', () => {
+  it('ranks ties by their average rank', () => {
+    expect(ranks([10, 30, 20, 30])).toEqual([1, 3.5, 2, 3.5]);
+  });
+
+  it('computes rank correlation and AUC', () => {
+    expect(spearman([1, 2, 3, 4], [10, 20, 30, 40])).toBe(1);
+    expect(spearman([1, 2, 3, 4], [40, 30, 20, 10])).toBe(-1);
+    // No variance, no ranking information
+    expect(spearman([50, 50, 50], [0, 100, 0])).toBeNull();
+
+    expect(auc([90, 80, 20, 10], [true, true, false, false])).toBe(1);
+    expect(auc([50, 50], [true, false])).toBe(0.5);
+    expect(auc([90, 80], [true, true])).toBeNull();
+  });
+
+  it('measures calibration with a Brier score and binned reliability', () => {
+    const result = calibration([0.9, 0.9, 0.1, 0.1], [true, false, false, false]);
+
+    expect(result.brierScore).toBeCloseTo((0.01 + 0.81 + 0.01 + 0.01) / 4, 4);
+    expect(result.bins).toEqual([
+      { range: [0, 0.2], count: 2, meanPredicted: 0.1, observedRate: 0 },
+      { range: [0.8, 1], count: 2, meanPredicted: 0.9, observedRate: 0.5 },
+    ]);
+    expect(result.ece).toBeCloseTo(0.5 * 0.1 + 0.5 * 0.4, 4);
+  });
+
+  it('summarizes recommendations and per-agent agreement, skipping failed pitches', () => {
+    const metrics = computeMetrics([
+      pitchResult('a', 80, true, { agentScores: { 'financial-analyst': 70 }, outcome: { success: true, recommendation: 'APPROVED' } }),
+      pitchResult('b', 60, false, { agentScores: { 'financial-analyst': 40 }, outcome: { success: false, recommendation: 'REJECTED' } }),
+      pitchResult('c', 40, true, { agentScores: { 'financial-analyst': 60 } }),
+      pitchResult('d', null, false, { error: 'Core agents failed: legal-compliance' }),
+    ]);
+
+    expect(metrics.evaluated).toBe(3);
+    expect(metrics.failed).toBe(1);
+    expect(metrics.recommendations.accuracy).toBe(0.5);
+    expect(metrics.recommendations.labelled).toBe(2);
+    expect(metrics.recommendations.approvalPrecision).toBe(1);
+    expect(metrics.recommendations.successRecall).toBe(0.5);
+    expect(metrics.recommendations.byOutcome.CONDITIONAL).toEqual({ success: 0, failure: 1 });
+
+    expect(metrics.agents).toEqual([
+      {
+        agentId: 'financial-analyst',
+        samples: 3,
+        meanScore: 56.67,
+        spearman: 0.866,
+        outcomeAgreement: 1,
+        consensusAgreement: 0.3333,
+      },
+    ]);
+  });
+});
+
+describe('compareReports', () => {
+  it('reports environment changes, metric deltas and recommendation flips', async () => {
+    const report = (scores: Array<number | null>, prompt: number) => ({
+      dataset: { name: 'd', version: '1', pitches: 3 },
+      generatedAt: `2026-10-0${prompt}T00:00:00.000Z`,
+      durationMs: 0,
+      environment: { llmMode: 'replay', models: { simple: 'openai:gpt-4o-mini' }, prompts: { 'financial-analyst': prompt } },
+      metrics: computeMetrics(scores.map((score, i) => pitchResult(`p${i}`, score, i === 0, { agentScores: { 'market-research': (score ?? 0) + 5 } }))),
+      pitches: scores.map((score, i) => pitchResult(`p${i}`, score, i === 0, { agentScores: { 'market-research': (score ?? 0) + 5 } })),
+    });
+
+    const drift = compareReports(report([80, 60, 30], 1), report([85, 50, 30], 2));
+
+    expect(drift.changes.models).toEqual({});
+    expect(drift.changes.prompts).toEqual({ 'financial-analyst': { from: 1, to: 2 } });
+    expect(drift.scores).toEqual({
+      compared: 3,
+      meanAbsDelta: 5,
+      maxAbsDelta: 10,
+      recommendationFlips: [{ id: 'p1', from: 'CONDITIONAL', to: 'REJECTED' }],
+    });
+    expect(drift.agents).toEqual([{ agentId: 'market-research', meanDelta: -1.67, meanAbsDelta: 5 }]);
+    expect(drift.metrics.approvalPrecision).toEqual({ baseline: 1, current: 1, delta: 0 });
+  });
+});
+
+describe('runBenchmark', () => {
+  const structured = vi.spyOn(llm, 'structured');
+
+  // Agents score each pitch by the number in its name
+  const dataset: BenchmarkDataset = {
+    name: 'unit',
+    version: '1',
+    pitches: [90, 70, 20].map((score, i) => ({
+      id: `p${i}`,
+      name: `Pitch ${score}`,
+      tagline: 'Software for teams',
+      description: 'B2B software',
+      industry: 'Software',
+      stage: 'MVP' as const,
+      fundingAsk: 1_000_000,
+      teamSize: 5,
+      outcome: { success: score > 50 },
+    })),
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await cache.clear();
+    structured.mockImplementation(async (_task, messages, schema) => {
+      const score = Number(messages.map(m => m.content).join('\n').match(/Pitch (\d+)/)?.[1]);
+      const sample = sampleFromSchema(z.toJSONSchema(schema as z.ZodType)) as Record<string, unknown>;
+      return { data: { ...sample, score } } as never;
+    });
+  });
+
+  it('runs the agents and synthesis for every pitch and scores them against the labels', async () => {
+    const completed: string[] = [];
+    const report = await runBenchmark(dataset, { onPitchComplete: result => completed.push(result.id) });
+
+    expect(completed).toEqual(['p0', 'p1', 'p2']);
+    expect(report.pitches.map(p => p.recommendation)).toEqual(['APPROVED', 'CONDITIONAL', 'REJECTED']);
+    expect(report.pitches[0].agentScores['financial-analyst']).toBe(90);
+    expect(report.metrics.ranking.auc).toBe(1);
+    expect(report.environment.prompts['financial-analyst']).toBe(1);
+    expect(Object.keys(report.environment.models)).toEqual(['simple', 'complex', 'critical']);
+    expect(report.environment.tier).toBe('enterprise');
+
+    const markdown = renderMarkdownReport({ ...report, drift: compareReports(report, report) });
+    expect(markdown).toContain('# Benchmark: unit v1');
+    expect(markdown).toContain('No model or prompt changes.');
+  });
+
+  it('keeps its LLM calls out of the cost ledger', async () => {
+    const remove = vi.spyOn(llm, 'removeUsageListener');
+    const add = vi.spyOn(llm, 'addUsageListener');
+    // Whether the ledger was detached while the agents ran
+    const detached: boolean[] = [];
+    structured.mockImplementation(async () => {
+      detached.push(remove.mock.results[0]?.value === true && add.mock.calls.length === 0);
+      throw new Error('provider down');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await runBenchmark({ ...dataset, pitches: dataset.pitches.slice(0, 1) });
+
+    expect(detached.length).toBeGreaterThan(0);
+    expect(detached.every(Boolean)).toBe(true);
+    expect(remove).toHaveBeenCalledWith(recordLLMUsage);
+    expect(add).toHaveBeenCalledWith(recordLLMUsage);
+  });
+
+  it('records pitches whose core agents fail without synthesizing them', async () => {
+    structured.mockRejectedValue(new Error('provider down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const report = await runBenchmark({ ...dataset, pitches: dataset.pitches.slice(0, 1) });
+
+    expect(report.pitches[0].overallScore).toBeNull();
+    expect(report.pitches[0].error).toMatch(/^Core agents failed: /);
+    expect(report.metrics.failed).toBe(1);
+  });
+});
+
+describe('loadDataset', () => {
+  it('accepts the bundled seed dataset', async () => {
+    const dataset = await loadDataset('benchmarks/datasets/seed-pitches.json');
+    expect(dataset.pitches.length).toBeGreaterThan(0);
+  });
+});
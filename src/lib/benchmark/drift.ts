@@ -0,0 +1,106 @@
+/**
+ * Drift between two benchmark reports
+ *
+ * Run the same dataset before and after changing a model route or prompt
+ * version, then compare: what changed in the environment, how the headline
+ * metrics moved, and how individual pitch and agent scores shifted.
+ */
+
+import type { BenchmarkReport, DriftReport } from './types';
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function diffRecords<T extends string | number>(
+  from: Record<string, T>,
+  to: Record<string, T>
+): Record<string, { from: T | null; to: T | null }> {
+  const changes: Record<string, { from: T | null; to: T | null }> = {};
+  for (const key of [...new Set([...Object.keys(from), ...Object.keys(to)])].sort()) {
+    if (from[key] !== to[key]) {
+      changes[key] = { from: from[key] ?? null, to: to[key] ?? null };
+    }
+  }
+  return changes;
+}
+
+function headlineMetrics(report: BenchmarkReport): Record<string, number | null> {
+  const { calibration, ranking, recommendations } = report.metrics;
+  return {
+    brierScore: calibration.brierScore,
+    ece: calibration.ece,
+    spearman: ranking.spearman,
+    auc: ranking.auc,
+    accuracy: recommendations.accuracy,
+    approvalPrecision: recommendations.approvalPrecision,
+    successRecall: recommendations.successRecall,
+  };
+}
+
+export function compareReports(baseline: BenchmarkReport, current: BenchmarkReport): DriftReport {
+  const before = headlineMetrics(baseline);
+  const after = headlineMetrics(current);
+  const metrics: DriftReport['metrics'] = {};
+  for (const [name, value] of Object.entries(after)) {
+    const previous = before[name];
+    metrics[name] = {
+      baseline: previous,
+      current: value,
+      delta: previous === null || value === null ? null : round(value - previous),
+    };
+  }
+
+  // Pitches scored in both runs
+  const baselinePitches = new Map(baseline.pitches.map(pitch => [pitch.id, pitch]));
+  const pairs = current.pitches
+    .map(pitch => ({ current: pitch, baseline: baselinePitches.get(pitch.id) }))
+    .filter((pair): pair is { current: typeof pair.current; baseline: NonNullable<typeof pair.baseline> } =>
+      pair.baseline !== undefined
+    );
+
+  const scoreDeltas = pairs
+    .filter(pair => pair.current.overallScore !== null && pair.baseline.overallScore !== null)
+    .map(pair => Math.abs(pair.current.overallScore! - pair.baseline.overallScore!));
+
+  const recommendationFlips = pairs
+    .filter(pair => pair.current.recommendation !== pair.baseline.recommendation)
+    .map(pair => ({ id: pair.current.id, from: pair.baseline.recommendation, to: pair.current.recommendation }));
+
+  const agentIds = [...new Set(pairs.flatMap(pair => Object.keys(pair.current.agentScores)))].sort();
+  const agents = agentIds
+    .map(agentId => {
+      const deltas = pairs
+        .filter(pair => agentId in pair.current.agentScores && agentId in pair.baseline.agentScores)
+        .map(pair => pair.current.agentScores[agentId] - pair.baseline.agentScores[agentId]);
+      return {
+        agentId,
+        meanDelta: round(mean(deltas), 2),
+        meanAbsDelta: round(mean(deltas.map(Math.abs)), 2),
+        compared: deltas.length,
+      };
+    })
+    .filter(agent => agent.compared > 0)
+    .map(({ agentId, meanDelta, meanAbsDelta }) => ({ agentId, meanDelta, meanAbsDelta }));
+
+  return {
+    baseline: { generatedAt: baseline.generatedAt, environment: baseline.environment },
+    changes: {
+      models: diffRecords(baseline.environment.models, current.environment.models),
+      prompts: diffRecords(baseline.environment.prompts, current.environment.prompts),
+    },
+    metrics,
+    scores: {
+      compared: scoreDeltas.length,
+      meanAbsDelta: round(mean(scoreDeltas), 2),
+      maxAbsDelta: scoreDeltas.length === 0 ? 0 : Math.max(...scoreDeltas),
+      recommendationFlips,
+    },
+    agents,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Offline evaluation harness
+ *
+ * Scores the analysis agents against a labelled dataset of pitches with
+ * known outcomes: calibration of `synthesis.overallScore`, rank
+ * correlation, recommendation quality, per-agent agreement, and drift
+ * against an earlier report. Run with `npm run benchmark`.
+ */
+
+import { promises as fs } from 'fs';
+import { BenchmarkDatasetSchema, type BenchmarkDataset, type BenchmarkReport } from './types';
+
+export async function loadDataset(file: string): Promise<BenchmarkDataset> {
+  const raw = JSON.parse(await fs.readFile(file, 'utf8'));
+  const parsed = BenchmarkDatasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid benchmark dataset ${file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const ids = new Set<string>();
+  for (const pitch of parsed.data.pitches) {
+    if (ids.has(pitch.id)) throw new Error(`Duplicate pitch id "${pitch.id}" in ${file}`);
+    ids.add(pitch.id);
+  }
+
+  return parsed.data;
+}
+
+export async function loadReport(file: string): Promise<BenchmarkReport> {
+  return JSON.parse(await fs.readFile(file, 'utf8')) as BenchmarkReport;
+}
+
+export { runBenchmark, toStartup, type BenchmarkOptions } from './runner';
+export { computeMetrics, spearman, auc, calibration, ranks, POSITIVE_SCORE } from './metrics';
+export { compareReports } from './drift';
+export { renderMarkdownReport } from './markdown';
+export * from './types';
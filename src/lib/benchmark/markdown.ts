@@ -0,0 +1,165 @@
+/**
+ * Markdown rendering of a benchmark report
+ */
+
+import { RECOMMENDATIONS, type BenchmarkReport } from './types';
+
+function format(value: number | null, digits = 3): string {
+  return value === null ? 'n/a' : value.toFixed(digits);
+}
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function signed(value: number | null, digits = 3): string {
+  if (value === null) return 'n/a';
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+function table(headers: string[], rows: Array<Array<string | number>>): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+export function renderMarkdownReport(report: BenchmarkReport): string {
+  const { metrics, environment } = report;
+  const lines: string[] = [
+    `# Benchmark: ${report.dataset.name} v${report.dataset.version}`,
+    '',
+    `Generated ${report.generatedAt} in ${(report.durationMs / 1000).toFixed(1)}s. ` +
+      `${metrics.evaluated} of ${report.dataset.pitches} pitches evaluated` +
+      (metrics.failed > 0 ? `, ${metrics.failed} failed.` : '.'),
+    '',
+    '## Environment',
+    '',
+    `LLM mode: \`${environment.llmMode}\` · budget tier: \`${environment.tier}\``,
+    '',
+    ...table(
+      ['Task', 'Model'],
+      Object.entries(environment.models).map(([task, model]) => [task, `\`${model}\``])
+    ),
+    '',
+    `Prompts: ${Object.entries(environment.prompts).map(([id, version]) => `${id}@v${version}`).join(', ') || 'none'}`,
+    '',
+    '## Headline metrics',
+    '',
+    ...table(
+      ['Metric', 'Value'],
+      [
+        ['Brier score (lower is better)', format(metrics.calibration.brierScore)],
+        ['Expected calibration error', format(metrics.calibration.ece)],
+        ['Spearman (score vs outcome)', format(metrics.ranking.spearman)],
+        ['AUC', format(metrics.ranking.auc)],
+        [
+          'Recommendation accuracy',
+          `${percent(metrics.recommendations.accuracy)} (${metrics.recommendations.labelled} labelled)`,
+        ],
+        ['Approval precision', percent(metrics.recommendations.approvalPrecision)],
+        ['Success recall (not rejected)', percent(metrics.recommendations.successRecall)],
+      ]
+    ),
+    '',
+    '## Calibration',
+    '',
+    ...table(
+      ['Predicted', 'Pitches', 'Mean predicted', 'Observed success'],
+      metrics.calibration.bins.map(bin => [
+        `${bin.range[0].toFixed(1)}–${bin.range[1].toFixed(1)}`,
+        bin.count,
+        percent(bin.meanPredicted),
+        percent(bin.observedRate),
+      ])
+    ),
+    '',
+    '## Recommendations by outcome',
+    '',
+    ...table(
+      ['Recommendation', 'Succeeded', 'Failed'],
+      RECOMMENDATIONS.map(recommendation => [
+        recommendation,
+        metrics.recommendations.byOutcome[recommendation].success,
+        metrics.recommendations.byOutcome[recommendation].failure,
+      ])
+    ),
+    '',
+    '## Agents',
+    '',
+    ...table(
+      ['Agent', 'Pitches', 'Mean score', 'Spearman', 'Agrees with outcome', 'Agrees with recommendation'],
+      metrics.agents.map(agent => [
+        agent.agentId,
+        agent.samples,
+        agent.meanScore.toFixed(1),
+        format(agent.spearman),
+        percent(agent.outcomeAgreement),
+        percent(agent.consensusAgreement),
+      ])
+    ),
+    '',
+  ];
+
+  const { drift } = report;
+  if (drift) {
+    const modelChanges = Object.entries(drift.changes.models);
+    const promptChanges = Object.entries(drift.changes.prompts);
+
+    lines.push(
+      '## Drift',
+      '',
+      `Compared with the report generated ${drift.baseline.generatedAt}.`,
+      '',
+      ...(modelChanges.length + promptChanges.length === 0
+        ? ['No model or prompt changes.']
+        : [
+            ...modelChanges.map(([task, change]) => `- Model \`${task}\`: ${change.from ?? 'none'} → ${change.to ?? 'none'}`),
+            ...promptChanges.map(([id, change]) =>
+              `- Prompt \`${id}\`: ${change.from === null ? 'none' : `v${change.from}`} → ${change.to === null ? 'none' : `v${change.to}`}`
+            ),
+          ]),
+      '',
+      ...table(
+        ['Metric', 'Baseline', 'Current', 'Delta'],
+        Object.entries(drift.metrics).map(([name, metric]) => [
+          name,
+          format(metric.baseline),
+          format(metric.current),
+          signed(metric.delta),
+        ])
+      ),
+      '',
+      `Overall score moved by ${drift.scores.meanAbsDelta.toFixed(1)} points on average ` +
+        `(max ${drift.scores.maxAbsDelta}) across ${drift.scores.compared} pitches; ` +
+        `${drift.scores.recommendationFlips.length} recommendation(s) changed.`,
+      '',
+      ...drift.scores.recommendationFlips.map(flip => `- ${flip.id}: ${flip.from ?? 'none'} → ${flip.to ?? 'none'}`),
+      ...(drift.scores.recommendationFlips.length > 0 ? [''] : []),
+      ...table(
+        ['Agent', 'Mean delta', 'Mean |delta|'],
+        drift.agents.map(agent => [agent.agentId, signed(agent.meanDelta, 1), agent.meanAbsDelta.toFixed(1)])
+      ),
+      ''
+    );
+  }
+
+  lines.push(
+    '## Pitches',
+    '',
+    ...table(
+      ['Pitch', 'Outcome', 'Score', 'Recommendation', 'Failed agents'],
+      report.pitches.map(pitch => [
+        pitch.name,
+        pitch.outcome.success ? 'success' : 'failure',
+        pitch.overallScore ?? 'n/a',
+        pitch.recommendation ?? (pitch.error ? `error: ${pitch.error}` : 'n/a'),
+        pitch.failedAgents.join(', ') || '—',
+      ])
+    ),
+    ''
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,196 @@
+/**
+ * Benchmark metrics
+ *
+ * Pure functions over pitch results. Overall scores are read as success
+ * probabilities (score / 100) for calibration; scores at or above the
+ * synthesis CONDITIONAL threshold count as a positive verdict.
+ */
+
+import {
+  RECOMMENDATIONS,
+  type AgentMetrics,
+  type BenchmarkMetrics,
+  type CalibrationBin,
+  type PitchResult,
+  type Recommendation,
+} from './types';
+
+/** Same cut-off as the CONDITIONAL recommendation in synthesis */
+export const POSITIVE_SCORE = 55;
+
+const CALIBRATION_BINS = 5;
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : round(numerator / denominator);
+}
+
+export function outcomeScore(outcome: PitchResult['outcome']): number {
+  return outcome.score ?? (outcome.success ? 100 : 0);
+}
+
+/**
+ * 1-based ranks, ties sharing their average rank
+ */
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) result[order[i].index] = rank;
+    start = end + 1;
+  }
+
+  return result;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+
+  // Constant scores (e.g. the mock provider) carry no ranking information
+  if (vx === 0 || vy === 0) return null;
+  return round(covariance / Math.sqrt(vx * vy));
+}
+
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+/**
+ * Area under the ROC curve: share of (success, failure) pairs where the
+ * success scored higher, ties counting half
+ */
+export function auc(scores: number[], positives: boolean[]): number | null {
+  const pos = scores.filter((_, i) => positives[i]);
+  const neg = scores.filter((_, i) => !positives[i]);
+  if (pos.length === 0 || neg.length === 0) return null;
+
+  let wins = 0;
+  for (const p of pos) {
+    for (const n of neg) {
+      wins += p > n ? 1 : p === n ? 0.5 : 0;
+    }
+  }
+  return round(wins / (pos.length * neg.length));
+}
+
+export function calibration(predicted: number[], observed: boolean[]): BenchmarkMetrics['calibration'] {
+  if (predicted.length === 0) return { brierScore: null, ece: null, bins: [] };
+
+  const brierScore = round(mean(predicted.map((p, i) => (p - (observed[i] ? 1 : 0)) ** 2)));
+
+  const bins: CalibrationBin[] = [];
+  let ece = 0;
+  for (let b = 0; b < CALIBRATION_BINS; b++) {
+    const low = b / CALIBRATION_BINS;
+    const high = (b + 1) / CALIBRATION_BINS;
+    const members = predicted
+      .map((p, i) => ({ p, success: observed[i] }))
+      .filter(({ p }) => p >= low && (p < high || (b === CALIBRATION_BINS - 1 && p <= high)));
+    if (members.length === 0) continue;
+
+    const meanPredicted = mean(members.map(m => m.p));
+    const observedRate = members.filter(m => m.success).length / members.length;
+    ece += (members.length / predicted.length) * Math.abs(meanPredicted - observedRate);
+    bins.push({
+      range: [round(low, 2), round(high, 2)],
+      count: members.length,
+      meanPredicted: round(meanPredicted),
+      observedRate: round(observedRate),
+    });
+  }
+
+  return { brierScore, ece: round(ece), bins };
+}
+
+function recommendationMetrics(results: PitchResult[]): BenchmarkMetrics['recommendations'] {
+  const byOutcome = Object.fromEntries(
+    RECOMMENDATIONS.map(recommendation => [recommendation, { success: 0, failure: 0 }])
+  ) as Record<Recommendation, { success: number; failure: number }>;
+
+  let labelled = 0;
+  let correct = 0;
+  for (const result of results) {
+    const recommendation = result.recommendation!;
+    byOutcome[recommendation][result.outcome.success ? 'success' : 'failure']++;
+
+    if (result.outcome.recommendation) {
+      labelled++;
+      if (result.outcome.recommendation === recommendation) correct++;
+    }
+  }
+
+  const approved = byOutcome.APPROVED.success + byOutcome.APPROVED.failure;
+  const successes = results.filter(result => result.outcome.success).length;
+
+  return {
+    accuracy: ratio(correct, labelled),
+    labelled,
+    byOutcome,
+    approvalPrecision: ratio(byOutcome.APPROVED.success, approved),
+    successRecall: ratio(successes - byOutcome.REJECTED.success, successes),
+  };
+}
+
+function agentMetrics(results: PitchResult[]): AgentMetrics[] {
+  const agentIds = [...new Set(results.flatMap(result => Object.keys(result.agentScores)))].sort();
+
+  return agentIds.map(agentId => {
+    const scored = results.filter(result => agentId in result.agentScores);
+    const scores = scored.map(result => result.agentScores[agentId]);
+    const positive = scores.map(score => score >= POSITIVE_SCORE);
+
+    return {
+      agentId,
+      samples: scored.length,
+      meanScore: round(mean(scores), 2),
+      spearman: spearman(scores, scored.map(result => outcomeScore(result.outcome))),
+      outcomeAgreement: round(
+        positive.filter((p, i) => p === scored[i].outcome.success).length / scored.length
+      ),
+      consensusAgreement: round(
+        positive.filter((p, i) => p === (scored[i].recommendation !== 'REJECTED')).length / scored.length
+      ),
+    };
+  });
+}
+
+export function computeMetrics(results: PitchResult[]): BenchmarkMetrics {
+  const evaluated = results.filter(result => result.overallScore !== null);
+  const scores = evaluated.map(result => result.overallScore!);
+  const successes = evaluated.map(result => result.outcome.success);
+
+  return {
+    evaluated: evaluated.length,
+    failed: results.length - evaluated.length,
+    calibration: calibration(scores.map(score => score / 100), successes),
+    ranking: {
+      spearman: spearman(scores, evaluated.map(result => outcomeScore(result.outcome))),
+      auc: auc(scores, successes),
+    },
+    recommendations: recommendationMetrics(evaluated),
+    agents: agentMetrics(evaluated),
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Benchmark Runner
+ *
+ * Runs every labelled pitch through the analysis pipeline's agent
+ * selection, budget planning, agent runner and synthesis, without the
+ * pipeline's storage (no Startup rows, checkpoints, activity or stored
+ * analyses) and without recording spend in the cost ledger, then scores the
+ * results against the labels.
+ *
+ * Point the LLM layer at recorded fixtures (`LLM_REPLAY_MODE=replay`) or the
+ * mock provider (`LLM_PROVIDER=mock`) for repeatable runs.
+ */
+
+import type { Startup } from '@prisma/client';
+import { selectAgents } from '@/lib/agents/agent-registry';
+import { executeAgent, executeAgents, synthesizeRuns } from '@/lib/agents/pipeline';
+import { BudgetExceededError, planAnalysisBudget } from '@/lib/billing/budget';
+import { getReplayMode, llm, resolveRoute, withLLMContext, type ModelTarget } from '@/lib/llm';
+import { recordLLMUsage } from '@/lib/monitoring/cost-ledger';
+import type { SubscriptionTier } from '@/lib/stripe';
+import { compareReports } from './drift';
+import { computeMetrics } from './metrics';
+import type { BenchmarkDataset, BenchmarkEnvironment, BenchmarkReport, LabelledPitch, PitchResult } from './types';
+
+/** Task classes the analysis agents are routed through */
+const AGENT_TASKS = ['simple', 'complex', 'critical'] as const;
+
+export interface BenchmarkOptions {
+  /** Earlier report to compute drift against */
+  baseline?: BenchmarkReport;
+  /** Tier the analyses are budgeted as (default enterprise: every agent runs) */
+  tier?: SubscriptionTier;
+  onPitchComplete?: (result: PitchResult, index: number, total: number) => void;
+}
+
+/**
+ * In-memory Startup for a labelled pitch (never saved)
+ */
+export function toStartup(dataset: Pick<BenchmarkDataset, 'name'>, pitch: LabelledPitch): Startup {
+  const now = new Date();
+  return {
+    id: `benchmark:${dataset.name}:${pitch.id}`,
+    userId: null,
+    name: pitch.name,
+    tagline: pitch.tagline,
+    description: pitch.description,
+    stage: pitch.stage,
+    industry: pitch.industry,
+    fundingAsk: pitch.fundingAsk,
+    teamSize: pitch.teamSize,
+    founderName: 'Benchmark',
+    founderEmail: 'benchmark@ventureclaw.local',
+    website: pitch.website ?? null,
+    deckUrl: null,
+    pitchVideo: null,
+    allowSharedAnalysis: false,
+    status: 'PENDING',
+    createdAt: now,
+    updatedAt: now,
+    analysisId: null,
+  };
+}
+
+function llmMode(): string {
+  const replay = getReplayMode();
+  if (replay) return replay;
+  return (process.env.LLM_PROVIDER || process.env.AI_PROVIDER) === 'mock' ? 'mock' : 'live';
+}
+
+function formatTarget(target: ModelTarget): string {
+  return `${target.provider}:${target.model}`;
+}
+
+async function runPitch(
+  dataset: BenchmarkDataset,
+  pitch: LabelledPitch,
+  tier: SubscriptionTier,
+  promptVersions: Map<string, number>
+): Promise<PitchResult> {
+  const startedAt = Date.now();
+  const startup = toStartup(dataset, pitch);
+  const base = { id: pitch.id, name: pitch.name, outcome: pitch.outcome };
+
+  // Planned as the pipeline plans an analysis, for the benchmark's tier
+  let planned: Awaited<ReturnType<typeof planAnalysisBudget>>;
+  try {
+    planned = await planAnalysisBudget(startup, selectAgents(startup), tier);
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    return {
+      ...base,
+      agentScores: {},
+      failedAgents: [],
+      overallScore: null,
+      recommendation: null,
+      durationMs: Date.now() - startedAt,
+      error: error.message,
+    };
+  }
+
+  const runnable = planned.agents.filter(agent => agent.run && agent.agentType);
+  const { runs, failedCore, missing } = await withLLMContext(
+    { downgrade: planned.plan.downgraded },
+    () => executeAgents(runnable, agent => executeAgent(startup, agent))
+  );
+  for (const { prompt } of runs) {
+    if (prompt) promptVersions.set(prompt.promptId, prompt.version);
+  }
+
+  const scored = {
+    ...base,
+    agentScores: Object.fromEntries(runs.map(run => [run.agent.id, Math.round(run.result.score)])),
+    failedAgents: [...failedCore, ...missing].map(agent => agent.id),
+  };
+
+  if (failedCore.length > 0) {
+    // Nothing to synthesize, as in the pipeline
+    return {
+      ...scored,
+      overallScore: null,
+      recommendation: null,
+      durationMs: Date.now() - startedAt,
+      error: `Core agents failed: ${failedCore.map(agent => agent.id).join(', ')}`,
+    };
+  }
+
+  const { synthesis } = synthesizeRuns(runs, missing);
+  return {
+    ...scored,
+    overallScore: synthesis.overallScore,
+    recommendation: synthesis.recommendation,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+export async function runBenchmark(dataset: BenchmarkDataset, options: BenchmarkOptions = {}): Promise<BenchmarkReport> {
+  const startedAt = Date.now();
+  const tier = options.tier ?? 'enterprise';
+  const promptVersions = new Map<string, number>();
+
+  // Benchmark calls are nobody's spend; keep them out of the cost ledger
+  const recording = llm.removeUsageListener(recordLLMUsage);
+
+  // One pitch at a time; each pitch runs its agents in parallel like the pipeline
+  const pitches: PitchResult[] = [];
+  try {
+    for (const [index, pitch] of dataset.pitches.entries()) {
+      const result = await runPitch(dataset, pitch, tier, promptVersions);
+      pitches.push(result);
+      options.onPitchComplete?.(result, index, dataset.pitches.length);
+    }
+  } finally {
+    if (recording) llm.addUsageListener(recordLLMUsage);
+  }
+
+  const environment: BenchmarkEnvironment = {
+    llmMode: llmMode(),
+    tier,
+    models: Object.fromEntries(AGENT_TASKS.map(task => [task, formatTarget(resolveRoute(task).primary)])),
+    prompts: Object.fromEntries([...promptVersions].sort(([a], [b]) => a.localeCompare(b))),
+  };
+
+  const report: BenchmarkReport = {
+    dataset: { name: dataset.name, version: dataset.version, pitches: dataset.pitches.length },
+    generatedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    environment,
+    metrics: computeMetrics(pitches),
+    pitches,
+  };
+
+  if (options.baseline) {
+    report.drift = compareReports(options.baseline, report);
+  }
+
+  return report;
+}
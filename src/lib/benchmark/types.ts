@@ -0,0 +1,148 @@
+/**
+ * Benchmark dataset and report types
+ */
+
+import { z } from 'zod';
+import type { AnalysisSynthesis } from '@/lib/agents/synthesis';
+
+export type Recommendation = AnalysisSynthesis['recommendation'];
+
+export const RECOMMENDATIONS = ['APPROVED', 'CONDITIONAL', 'REJECTED'] as const satisfies readonly Recommendation[];
+
+export const LabelledPitchSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  tagline: z.string(),
+  description: z.string(),
+  industry: z.string(),
+  stage: z.enum(['IDEA', 'MVP', 'GROWTH', 'SCALE']),
+  fundingAsk: z.number().int().nonnegative(),
+  teamSize: z.number().int().positive(),
+  website: z.string().nullable().optional(),
+  outcome: z.object({
+    /** Reached the milestone the dataset tracks (e.g. raised a Series A within 24 months) */
+    success: z.boolean(),
+    /** Graded outcome (0-100) for rank correlation; defaults to 100 / 0 from `success` */
+    score: z.number().min(0).max(100).optional(),
+    /** What an experienced reviewer recommended at pitch time */
+    recommendation: z.enum(RECOMMENDATIONS).optional(),
+    notes: z.string().optional(),
+  }),
+});
+
+export const BenchmarkDatasetSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  pitches: z.array(LabelledPitchSchema).min(1),
+});
+
+export type LabelledPitch = z.infer<typeof LabelledPitchSchema>;
+export type BenchmarkDataset = z.infer<typeof BenchmarkDatasetSchema>;
+
+/**
+ * Result of analysing one labelled pitch
+ */
+export interface PitchResult {
+  id: string;
+  name: string;
+  outcome: LabelledPitch['outcome'];
+  /** Null when a core agent failed and no synthesis was possible */
+  overallScore: number | null;
+  recommendation: Recommendation | null;
+  /** Scores keyed by agent registry id */
+  agentScores: Record<string, number>;
+  failedAgents: string[];
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * What produced a report: compared by the drift section
+ */
+export interface BenchmarkEnvironment {
+  /** 'replay', 'mock', or 'live' */
+  llmMode: string;
+  /** Subscription tier the analyses were budgeted as */
+  tier: string;
+  /** Primary model per agent task class, as "provider:model" */
+  models: Record<string, string>;
+  /** Prompt version used per prompt id */
+  prompts: Record<string, number>;
+}
+
+export interface CalibrationBin {
+  /** Predicted success probability range, e.g. [0.6, 0.8) */
+  range: [number, number];
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface BenchmarkMetrics {
+  /** Pitches with a synthesized score */
+  evaluated: number;
+  failed: number;
+  calibration: {
+    /** Mean squared error of overallScore/100 against success (lower is better) */
+    brierScore: number | null;
+    /** Expected calibration error over the bins (lower is better) */
+    ece: number | null;
+    bins: CalibrationBin[];
+  };
+  ranking: {
+    /** Spearman correlation of overallScore with the graded outcome */
+    spearman: number | null;
+    /** Probability a random success outscores a random failure */
+    auc: number | null;
+  };
+  recommendations: {
+    /** Share matching the labelled recommendation, where labelled */
+    accuracy: number | null;
+    labelled: number;
+    /** recommendation → { success, failure } counts */
+    byOutcome: Record<Recommendation, { success: number; failure: number }>;
+    /** Successes among APPROVED pitches */
+    approvalPrecision: number | null;
+    /** Successes that were not REJECTED */
+    successRecall: number | null;
+  };
+  agents: AgentMetrics[];
+}
+
+export interface AgentMetrics {
+  agentId: string;
+  samples: number;
+  meanScore: number;
+  spearman: number | null;
+  /** Share of pitches where the agent's verdict (score >= 55) matched the outcome */
+  outcomeAgreement: number;
+  /** Share of pitches where the agent's verdict matched the synthesized recommendation */
+  consensusAgreement: number;
+}
+
+export interface DriftReport {
+  baseline: { generatedAt: string; environment: BenchmarkEnvironment };
+  changes: {
+    models: Record<string, { from: string | null; to: string | null }>;
+    prompts: Record<string, { from: number | null; to: number | null }>;
+  };
+  metrics: Record<string, { baseline: number | null; current: number | null; delta: number | null }>;
+  scores: {
+    compared: number;
+    meanAbsDelta: number;
+    maxAbsDelta: number;
+    recommendationFlips: Array<{ id: string; from: Recommendation | null; to: Recommendation | null }>;
+  };
+  agents: Array<{ agentId: string; meanDelta: number; meanAbsDelta: number }>;
+}
+
+export interface BenchmarkReport {
+  dataset: { name: string; version: string; pitches: number };
+  generatedAt: string;
+  durationMs: number;
+  environment: BenchmarkEnvironment;
+  metrics: BenchmarkMetrics;
+  pitches: PitchResult[];
+  drift?: DriftReport;
+}
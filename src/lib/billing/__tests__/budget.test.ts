@@ -0,0 +1,65 @@
+/**
+ * Tests for LLM spend budget planning
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/monitoring/cost-ledger', () => ({
+  costLedger: { getUserSpend: vi.fn() },
+  recordLLMUsage: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+import { planBudget, BudgetExceededError } from '../budget';
+
+const findUser = vi.mocked(prisma.user.findUnique);
+const getUserSpend = vi.mocked(costLedger.getUserSpend);
+
+function mockUser(tier: string, monthlyBudgetUsd: number | null = null) {
+  findUser.mockResolvedValue({ tier, monthlyBudgetUsd } as never);
+}
+
+const specialists = [
+  { id: 'regulatory-expert', costUsd: 1, priority: 7 },
+  { id: 'security-expert', costUsd: 1, priority: 9 },
+];
+
+describe('planBudget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getUserSpend.mockResolvedValue(0);
+  });
+
+  it('keeps optional work by priority within the per-request limit', async () => {
+    mockUser('starter'); // $5 per request
+
+    const plan = await planBudget({ userId: 'user_1', baseCostUsd: 3.5, optional: specialists });
+
+    expect(plan.included).toEqual(['security-expert']);
+    expect(plan.skipped).toEqual(['regulatory-expert']);
+    expect(plan.downgraded).toBe(false);
+  });
+
+  it('skips specialists and downgrades models for free users over the limit', async () => {
+    const plan = await planBudget({ baseCostUsd: 2.3, optional: specialists });
+
+    expect(plan.tier).toBe('free');
+    expect(plan.skipped).toHaveLength(2);
+    expect(plan.downgraded).toBe(true);
+  });
+
+  it('rejects requests once the monthly budget is spent', async () => {
+    mockUser('growth', 20);
+    getUserSpend.mockResolvedValue(20);
+
+    await expect(planBudget({ userId: 'user_1', baseCostUsd: 1 }))
+      .rejects.toBeInstanceOf(BudgetExceededError);
+  });
+});
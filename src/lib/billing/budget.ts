@@ -0,0 +1,229 @@
+/**
+ * LLM Spend Budgets
+ *
+ * Monthly and per-request LLM budgets per subscription tier (see
+ * `SUBSCRIPTION_TIERS` in `src/lib/stripe.ts`), with an optional per-user
+ * monthly override (`User.monthlyBudgetUsd`). Budgets are planned before any
+ * agent is spawned:
+ *
+ * 1. Monthly budget exhausted → `BudgetExceededError` (HTTP 402)
+ * 2. Optional work (specialist agents, swarm sub-agents) is dropped,
+ *    lowest priority first, until the estimate fits the request limit
+ * 3. Still over → downgrade to cheaper model routes
+ * 4. Still over → `BudgetExceededError`
+ *
+ * Limits can be overridden per deployment with
+ * `LLM_BUDGET_<TIER>_MONTHLY_USD` and `LLM_BUDGET_<TIER>_REQUEST_USD`.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+import type { SubscriptionTier } from '@/lib/stripe';
+import type { Startup } from '@prisma/client';
+import {
+  SPECIALIST_AGENTS,
+  estimateCost,
+  type AgentDefinition,
+} from '@/lib/agents/agent-registry';
+
+export interface TierBudget {
+  monthlyUsd: number;
+  perRequestUsd: number;
+  /** Whether optional specialist work may run at all */
+  allowSpecialists: boolean;
+}
+
+export const TIER_BUDGETS: Record<SubscriptionTier, TierBudget> = {
+  free: { monthlyUsd: 3, perRequestUsd: 1.5, allowSpecialists: false },
+  starter: { monthlyUsd: 30, perRequestUsd: 5, allowSpecialists: true },
+  growth: { monthlyUsd: 150, perRequestUsd: 10, allowSpecialists: true },
+  enterprise: { monthlyUsd: 1000, perRequestUsd: 25, allowSpecialists: true },
+};
+
+/**
+ * Rough cost multiplier when expensive routes are downgraded
+ * (gpt-4o → gpt-4o-mini class models)
+ */
+export const DOWNGRADE_COST_FACTOR = 0.25;
+
+export interface OptionalWork {
+  id: string;
+  costUsd: number;
+  priority: number; // Higher = kept first
+}
+
+export interface BudgetPlanInput {
+  userId?: string | null;
+  /** Tier to plan for when there is no user (e.g. benchmarks); default free */
+  tier?: SubscriptionTier;
+  /** Estimated cost of work that always runs */
+  baseCostUsd: number;
+  /** Work that may be skipped to stay within budget */
+  optional?: OptionalWork[];
+}
+
+export interface BudgetPlan {
+  tier: SubscriptionTier;
+  monthlyLimitUsd: number;
+  spentThisMonthUsd: number;
+  requestLimitUsd: number;
+  estimatedCostUsd: number;
+  included: string[];
+  skipped: string[];
+  downgraded: boolean;
+}
+
+export class BudgetExceededError extends Error {
+  readonly status = 402;
+
+  constructor(
+    message: string,
+    public readonly details: {
+      tier: SubscriptionTier;
+      monthlyLimitUsd: number;
+      spentThisMonthUsd: number;
+      requestLimitUsd: number;
+      estimatedCostUsd: number;
+    }
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function isTier(value: string | null | undefined): value is SubscriptionTier {
+  return typeof value === 'string' && value in TIER_BUDGETS;
+}
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Effective budget for a tier, with env overrides applied
+ */
+export function getTierBudget(tier: SubscriptionTier): TierBudget {
+  const base = TIER_BUDGETS[tier];
+  const key = tier.toUpperCase();
+  return {
+    ...base,
+    monthlyUsd: envNumber(`LLM_BUDGET_${key}_MONTHLY_USD`) ?? base.monthlyUsd,
+    perRequestUsd: envNumber(`LLM_BUDGET_${key}_REQUEST_USD`) ?? base.perRequestUsd,
+  };
+}
+
+function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Decide what may run for this request, or throw if nothing fits
+ */
+export async function planBudget(input: BudgetPlanInput): Promise<BudgetPlan> {
+  const user = input.userId
+    ? await prisma.user.findUnique({
+        where: { id: input.userId },
+        select: { tier: true, monthlyBudgetUsd: true },
+      })
+    : null;
+
+  // Anonymous or unknown users get the free tier unless told otherwise
+  const tier: SubscriptionTier = user && isTier(user.tier) ? user.tier : input.tier ?? 'free';
+  const budget = getTierBudget(tier);
+  const monthlyLimitUsd = user?.monthlyBudgetUsd ?? budget.monthlyUsd;
+
+  const spentThisMonthUsd = user && input.userId
+    ? await costLedger.getUserSpend(input.userId, startOfMonth())
+    : 0;
+  const remainingUsd = monthlyLimitUsd - spentThisMonthUsd;
+  const requestLimitUsd = Math.min(budget.perRequestUsd, remainingUsd);
+
+  const details = (estimatedCostUsd: number) => ({
+    tier,
+    monthlyLimitUsd,
+    spentThisMonthUsd,
+    requestLimitUsd,
+    estimatedCostUsd,
+  });
+
+  if (remainingUsd <= 0) {
+    throw new BudgetExceededError(
+      `Monthly LLM budget of $${monthlyLimitUsd.toFixed(2)} exhausted for the ${tier} tier`,
+      details(input.baseCostUsd)
+    );
+  }
+
+  // Keep optional work by priority while it fits
+  const optional = [...(input.optional || [])].sort((a, b) => b.priority - a.priority);
+  const included: string[] = [];
+  const skipped: string[] = [];
+  let estimatedCostUsd = input.baseCostUsd;
+
+  for (const work of optional) {
+    if (budget.allowSpecialists && estimatedCostUsd + work.costUsd <= requestLimitUsd) {
+      included.push(work.id);
+      estimatedCostUsd += work.costUsd;
+    } else {
+      skipped.push(work.id);
+    }
+  }
+
+  let downgraded = false;
+  if (estimatedCostUsd > requestLimitUsd) {
+    estimatedCostUsd *= DOWNGRADE_COST_FACTOR;
+    downgraded = true;
+  }
+
+  if (estimatedCostUsd > requestLimitUsd) {
+    throw new BudgetExceededError(
+      `Estimated cost $${estimatedCostUsd.toFixed(2)} exceeds the remaining $${requestLimitUsd.toFixed(2)} budget for this request`,
+      details(estimatedCostUsd)
+    );
+  }
+
+  if (skipped.length > 0 || downgraded) {
+    logger.info(`[Budget] ${tier}: skipped ${skipped.length} optional agents, downgraded=${downgraded}`);
+  }
+
+  return {
+    tier,
+    monthlyLimitUsd,
+    spentThisMonthUsd,
+    requestLimitUsd,
+    estimatedCostUsd,
+    included,
+    skipped,
+    downgraded,
+  };
+}
+
+/**
+ * Budget a startup analysis: core and industry agents are required,
+ * specialist agents are optional. Returns the agents allowed to run.
+ *
+ * @param tier Tier for a startup without an owner (default free)
+ */
+export async function planAnalysisBudget(
+  startup: Startup,
+  agents: AgentDefinition[],
+  tier?: SubscriptionTier
+): Promise<{ plan: BudgetPlan; agents: AgentDefinition[] }> {
+  const required = agents.filter(a => !SPECIALIST_AGENTS.includes(a));
+  const specialists = agents.filter(a => SPECIALIST_AGENTS.includes(a));
+
+  const plan = await planBudget({
+    userId: startup.userId,
+    tier,
+    baseCostUsd: estimateCost(required),
+    optional: specialists.map(a => ({ id: a.id, costUsd: a.cost, priority: a.priority })),
+  });
+
+  return {
+    plan,
+    agents: agents.filter(a => !plan.skipped.includes(a.id)),
+  };
+}
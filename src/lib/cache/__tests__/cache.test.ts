@@ -0,0 +1,109 @@
+/**
+ * Tests for the cache layer: TTL units, tag invalidation, single-flight
+ * loading and metrics
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Cache } from '../cache';
+import { MemoryCacheStore } from '../stores/memory-store';
+import { ttlToMs } from '../ttl';
+import { performanceMonitor } from '@/lib/monitoring/performance';
+import type { CacheStore } from '../types';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { warn: vi.fn(), info: vi.fn(), error: vi.fn() },
+}));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('ttlToMs', () => {
+  it('converts every unit to milliseconds', () => {
+    expect(ttlToMs({ ms: 250 })).toBe(250);
+    expect(ttlToMs({ seconds: 300 })).toBe(300_000);
+    expect(ttlToMs({ minutes: 5 })).toBe(300_000);
+    expect(ttlToMs({ hours: 1 })).toBe(3_600_000);
+  });
+});
+
+describe('Cache', () => {
+  let cache: Cache;
+
+  beforeEach(() => {
+    vi.useRealTimers();
+    cache = new Cache(new MemoryCacheStore());
+  });
+
+  it('returns cached values until the TTL expires', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    expect(await cache.wrap('k', fn, { ttl: { seconds: 300 } })).toBe('first');
+    vi.advanceTimersByTime(299_000);
+    expect(await cache.wrap('k', fn, { ttl: { seconds: 300 } })).toBe('first');
+    vi.advanceTimersByTime(2_000);
+    expect(await cache.wrap('k', fn, { ttl: { seconds: 300 } })).toBe('second');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates every entry carrying a tag', async () => {
+    await cache.set('a', 1, { tags: ['startup:1'] });
+    await cache.set('b', 2, { tags: ['startup:1', 'pitch-list'] });
+    await cache.set('c', 3, { tags: ['startup:2'] });
+
+    expect(await cache.invalidateTags('startup:1')).toBe(2);
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe(3);
+  });
+
+  it('runs one load for concurrent identical calls', async () => {
+    const pending = deferred<string>();
+    const fn = vi.fn(() => pending.promise);
+
+    const calls = [cache.wrap('k', fn), cache.wrap('k', fn), cache.wrap('k', fn)];
+    pending.resolve('result');
+
+    expect(await Promise.all(calls)).toEqual(['result', 'result', 'result']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store a result loaded across an invalidation', async () => {
+    const pending = deferred<string>();
+    const load = cache.wrap('k', () => pending.promise, { tags: ['startup:1'] });
+
+    await cache.invalidateTags('startup:1');
+    pending.resolve('stale');
+
+    expect(await load).toBe('stale');
+    expect(await cache.get('k')).toBeNull();
+  });
+
+  it('treats store failures as misses', async () => {
+    const broken: CacheStore = {
+      name: 'broken',
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      delete: () => Promise.resolve(),
+      invalidateTags: () => Promise.resolve(0),
+      clear: () => Promise.resolve(),
+    };
+    cache.setStore(broken);
+
+    expect(await cache.wrap('k', async () => 'fresh')).toBe('fresh');
+  });
+
+  it('reports hits, misses and shared loads to the performance monitor', async () => {
+    const metric = `test-${Date.now()}`;
+    const fn = () => Promise.resolve('value');
+
+    await Promise.all([cache.wrap('k', fn, { metric }), cache.wrap('k', fn, { metric })]);
+    await cache.wrap('k', fn, { metric });
+
+    const stats = performanceMonitor.getCacheStats().find(s => s.cache === metric);
+    expect(stats).toMatchObject({ lookups: 3, hits: 1, misses: 1, shared: 1 });
+  });
+});
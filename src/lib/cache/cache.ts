@@ -0,0 +1,134 @@
+/**
+ * Cache
+ *
+ * Read-through caching over a pluggable store, with tag invalidation and
+ * single-flight loading: concurrent `wrap` calls for the same key share one
+ * load instead of each running it (e.g. several requests triggering the
+ * same agent call at once).
+ */
+
+import { logger } from '@/lib/logger';
+import { performanceMonitor } from '@/lib/monitoring/performance';
+import { ttlToMs } from './ttl';
+import type { CacheEntry, CacheOptions, CacheStore, Ttl } from './types';
+
+export class Cache {
+  private inFlight = new Map<string, Promise<unknown>>();
+  /** Bumped by every invalidation so loads started before it aren't stored */
+  private generation = 0;
+
+  constructor(
+    private store: CacheStore,
+    private readonly defaultTtl: Ttl = { minutes: 1 }
+  ) {}
+
+  /**
+   * Swap the backing store (e.g. to a Redis store at startup, or in tests)
+   */
+  setStore(store: CacheStore): void {
+    this.store = store;
+    this.generation++;
+  }
+
+  getStore(): CacheStore {
+    return this.store;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key);
+    return entry ? entry.value : null;
+  }
+
+  async set<T>(key: string, value: T, options: CacheOptions = {}): Promise<void> {
+    try {
+      await this.store.set(key, this.entry(value, options));
+    } catch (error) {
+      logger.warn(`Cache store "${this.store.name}" failed to write ${key}`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.generation++;
+    await this.store.delete(key);
+  }
+
+  /**
+   * Remove every entry carrying any of `tags`
+   */
+  async invalidateTags(...tags: string[]): Promise<number> {
+    this.generation++;
+    try {
+      return await this.store.invalidateTags(tags);
+    } catch (error) {
+      logger.error(`Cache store "${this.store.name}" failed to invalidate ${tags.join(', ')}`, error);
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.generation++;
+    await this.store.clear();
+  }
+
+  /**
+   * Return the cached value for `key`, or run `fn` once (however many callers
+   * are waiting on it) and cache its result
+   */
+  async wrap<T>(key: string, fn: () => Promise<T>, options: CacheOptions = {}): Promise<T> {
+    const metric = options.metric ?? 'default';
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      performanceMonitor.trackCacheLookup(metric, 'shared', 0);
+      return pending as Promise<T>;
+    }
+
+    const load = this.load(key, fn, options, metric).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, load);
+
+    return load;
+  }
+
+  private async load<T>(key: string, fn: () => Promise<T>, options: CacheOptions, metric: string): Promise<T> {
+    const startTime = Date.now();
+    const generation = this.generation;
+
+    const cached = await this.read<T>(key);
+    if (cached) {
+      performanceMonitor.trackCacheLookup(metric, 'hit', Date.now() - startTime);
+      return cached.value;
+    }
+
+    const value = await fn();
+    performanceMonitor.trackCacheLookup(metric, 'miss', Date.now() - startTime);
+
+    // Skip the write if this key may have been invalidated while loading
+    if (generation === this.generation) {
+      await this.set(key, value, options);
+    }
+
+    return value;
+  }
+
+  /**
+   * Store failures degrade to a miss rather than failing the request
+   */
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.store.get<T>(key);
+    } catch (error) {
+      logger.warn(`Cache store "${this.store.name}" failed to read ${key}`, error);
+      return null;
+    }
+  }
+
+  private entry<T>(value: T, options: CacheOptions): CacheEntry<T> {
+    return {
+      value,
+      expiresAt: Date.now() + ttlToMs(options.ttl ?? this.defaultTtl),
+      tags: options.tags ?? [],
+    };
+  }
+}
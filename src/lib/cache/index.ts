@@ -0,0 +1,53 @@
+/**
+ * Caching
+ *
+ * Exposes a shared `cache` backed by the store named in `CACHE_STORE`:
+ *
+ * - `memory` (default outside production): per-process
+ * - `sql` (default in production): the `CacheEntry` table, shared by every
+ *   instance and kept across deploys
+ * - `redis`: register a client at startup with
+ *   `cache.setStore(new RedisCacheStore(client))`
+ */
+
+import { logger } from '@/lib/logger';
+import { Cache } from './cache';
+import { MemoryCacheStore } from './stores/memory-store';
+import { SqlCacheStore } from './stores/sql-store';
+import type { CacheOptions, CacheStore } from './types';
+
+function createDefaultStore(): CacheStore {
+  const configured = process.env.CACHE_STORE
+    ?? (process.env.NODE_ENV === 'production' ? 'sql' : 'memory');
+
+  if (configured === 'sql') return new SqlCacheStore();
+  if (configured === 'redis') {
+    logger.warn('CACHE_STORE=redis needs a client registered with cache.setStore(); using memory until then');
+  }
+  return new MemoryCacheStore();
+}
+
+export const cache = new Cache(createDefaultStore());
+
+/**
+ * Wrapper for caching async function results
+ */
+export function withCache<T>(key: string, fn: () => Promise<T>, options: CacheOptions = {}): Promise<T> {
+  return cache.wrap(key, fn, options);
+}
+
+/**
+ * Remove every entry carrying any of `tags`
+ */
+export function invalidateTags(...tags: string[]): Promise<number> {
+  return cache.invalidateTags(...tags);
+}
+
+export { Cache } from './cache';
+export { MemoryCacheStore } from './stores/memory-store';
+export { SqlCacheStore } from './stores/sql-store';
+export { RedisCacheStore } from './stores/redis-store';
+export type { RedisCacheClient } from './stores/redis-store';
+export { cacheTags } from './tags';
+export { ttlToMs } from './ttl';
+export * from './types';
@@ -0,0 +1,82 @@
+/**
+ * In-memory cache store
+ *
+ * Per-process only: entries are lost on restart and not shared between
+ * instances.
+ */
+
+import type { CacheEntry, CacheStore } from '../types';
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+  private keysByTag = new Map<string, Set<string>>();
+  private lastSweep = Date.now();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      this.remove(key);
+      return null;
+    }
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.remove(key);
+    this.entries.set(key, entry);
+    for (const tag of entry.tags) {
+      if (!this.keysByTag.has(tag)) {
+        this.keysByTag.set(tag, new Set());
+      }
+      this.keysByTag.get(tag)!.add(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        if (this.remove(key)) removed++;
+      }
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.keysByTag.clear();
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.keysByTag.delete(tag);
+    }
+    return true;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.remove(key);
+    }
+  }
+}
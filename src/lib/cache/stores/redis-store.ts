@@ -0,0 +1,77 @@
+/**
+ * Redis-compatible cache store
+ *
+ * Works with any client exposing the ioredis-style commands below. No Redis
+ * client ships with the app; construct one and register it with
+ * `cache.setStore(new RedisCacheStore(client))`.
+ *
+ * Each tag is a set of the keys carrying it. Tag sets aren't expired, so a
+ * set can briefly list keys that already expired; deleting those is a no-op.
+ */
+
+import type { CacheEntry, CacheStore } from '../types';
+
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<unknown>;
+  smembers(key: string): Promise<string[]>;
+}
+
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisCacheClient,
+    private readonly keyPrefix = 'cache:'
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const raw = await this.client.get(this.keyPrefix + key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttlMs = entry.expiresAt - Date.now();
+    if (ttlMs <= 0) return;
+
+    await this.client.set(this.keyPrefix + key, JSON.stringify(entry), 'PX', ttlMs);
+    await this.client.sadd(this.allKeysSet(), key);
+    for (const tag of entry.tags) {
+      await this.client.sadd(this.tagSet(tag), key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      const keys = await this.client.smembers(this.tagSet(tag));
+      if (keys.length > 0) {
+        removed += await this.client.del(...keys.map(key => this.keyPrefix + key));
+      }
+      await this.client.del(this.tagSet(tag));
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.client.smembers(this.allKeysSet());
+    if (keys.length > 0) {
+      await this.client.del(...keys.map(key => this.keyPrefix + key));
+    }
+    await this.client.del(this.allKeysSet());
+  }
+
+  private tagSet(tag: string): string {
+    return `${this.keyPrefix}tag:${tag}`;
+  }
+
+  private allKeysSet(): string {
+    return `${this.keyPrefix}__keys`;
+  }
+}
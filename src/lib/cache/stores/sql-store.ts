@@ -0,0 +1,76 @@
+/**
+ * SQL-backed cache store (Prisma `CacheEntry` / `CacheEntryTag`)
+ *
+ * Shared by every instance and survives deploys, so expensive agent results
+ * aren't recomputed after a restart.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { CacheEntry, CacheStore } from '../types';
+
+const PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+export class SqlCacheStore implements CacheStore {
+  readonly name = 'sql';
+  private lastPurge = Date.now();
+
+  constructor(private readonly db: PrismaClient = prisma) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    await this.purgeExpired();
+
+    const row = await this.db.cacheEntry.findUnique({ where: { key }, include: { tags: true } });
+    if (!row || row.expiresAt.getTime() <= Date.now()) return null;
+
+    // Values are wrapped so null/undefined can be cached too
+    return {
+      value: (row.value as { value: T }).value,
+      expiresAt: row.expiresAt.getTime(),
+      tags: row.tags.map(t => t.tag),
+    };
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const data = {
+      value: { value: entry.value } as Prisma.InputJsonValue,
+      expiresAt: new Date(entry.expiresAt),
+    };
+
+    // Tags cascade with the entry, so replace both together
+    await this.db.$transaction([
+      this.db.cacheEntry.deleteMany({ where: { key } }),
+      this.db.cacheEntry.create({
+        data: { key, ...data, tags: { create: entry.tags.map(tag => ({ tag })) } },
+      }),
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.cacheEntry.deleteMany({ where: { key } });
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) return 0;
+
+    const { count } = await this.db.cacheEntry.deleteMany({
+      where: { tags: { some: { tag: { in: tags } } } },
+    });
+    return count;
+  }
+
+  async clear(): Promise<void> {
+    await this.db.cacheEntry.deleteMany({});
+  }
+
+  /**
+   * Drop expired entries (runs at most every few minutes)
+   */
+  private async purgeExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPurge < PURGE_INTERVAL_MS) return;
+    this.lastPurge = now;
+
+    await this.db.cacheEntry.deleteMany({ where: { expiresAt: { lt: new Date(now) } } });
+  }
+}
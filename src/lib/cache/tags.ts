@@ -0,0 +1,12 @@
+/**
+ * Cache tag names shared by writers and invalidators
+ */
+
+export const cacheTags = {
+  /** Everything derived from a startup's pitch (agent results, details) */
+  startup: (id: string) => `startup:${id}`,
+  /** A user's own pitch list */
+  user: (id: string) => `user:${id}`,
+  /** Public pitch listings */
+  pitchList: 'pitch-list',
+};
@@ -0,0 +1,8 @@
+import type { Ttl } from './types';
+
+export function ttlToMs(ttl: Ttl): number {
+  if ('ms' in ttl) return ttl.ms;
+  if ('seconds' in ttl) return ttl.seconds * 1000;
+  if ('minutes' in ttl) return ttl.minutes * 60 * 1000;
+  return ttl.hours * 60 * 60 * 1000;
+}
@@ -0,0 +1,38 @@
+/**
+ * Shared types for the cache layer
+ */
+
+/**
+ * Time-to-live with an explicit unit, so seconds can't be passed where
+ * milliseconds are expected
+ */
+export type Ttl = { ms: number } | { seconds: number } | { minutes: number } | { hours: number };
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch ms */
+  expiresAt: number;
+  tags: string[];
+}
+
+export interface CacheOptions {
+  ttl?: Ttl;
+  /** Invalidate together with `cache.invalidateTags(tag)` */
+  tags?: string[];
+  /** Name the lookup is reported under in performance metrics */
+  metric?: string;
+}
+
+/**
+ * Pluggable persistence for cache entries. Values must survive a JSON round
+ * trip for stores that serialize them.
+ */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove every entry carrying any of `tags`; returns how many were removed */
+  invalidateTags(tags: string[]): Promise<number>;
+  clear(): Promise<void>;
+}
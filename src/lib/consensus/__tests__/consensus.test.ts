@@ -0,0 +1,130 @@
+/**
+ * Tests for weighted consensus: relevance and confidence weighting, vetoes
+ * and the dissent report
+ */
+
+import { describe, it, expect } from 'vitest';
+import { equalWeighting, keywordRelevance, reachConsensus, type ConsensusVote } from '..';
+
+function vote(voterId: string, stance: number, extra: Partial<ConsensusVote> = {}): ConsensusVote {
+  return { voterId, voterName: voterId, domain: 'General', stance, confidence: 0.8, concerns: [], ...extra };
+}
+
+describe('reachConsensus', () => {
+  it('counts undecided votes instead of ignoring them', () => {
+    const result = reachConsensus([vote('a', 1), vote('b', 0), vote('c', 0), vote('d', 0)]);
+
+    expect(result.score).toBe(0.25);
+    expect(result.outcome).toBe('needs_revision');
+  });
+
+  it('weights votes by expertise relevance and confidence', () => {
+    const votes = [
+      vote('expert', -1, { relevance: 2, confidence: 1 }),
+      vote('generalist', 1, { confidence: 0.5 }),
+      vote('unsure', 1, { confidence: 0.5 }),
+    ];
+
+    const weighted = reachConsensus(votes);
+    expect(weighted.score).toBe(-0.333);
+    expect(weighted.confidence).toBe(0.75);
+    expect(weighted.outcome).toBe('reject');
+    expect(weighted.weights).toEqual([
+      { voterId: 'expert', weight: 0.667 },
+      { voterId: 'generalist', weight: 0.167 },
+      { voterId: 'unsure', weight: 0.167 },
+    ]);
+
+    // One voter, one vote: the two for outvote the expert
+    expect(reachConsensus(votes, { weighting: equalWeighting, confidenceWeighted: false }).outcome).toBe('accept');
+  });
+
+  it('lets a confident red flag veto the majority', () => {
+    const result = reachConsensus([
+      vote('a', 1),
+      vote('b', 1),
+      vote('auditor', -0.5, {
+        voterName: 'Security Auditor',
+        domain: 'Smart Contract Security',
+        confidence: 0.9,
+        concerns: ['Admin key can drain the pool', 'Unaudited contracts'],
+      }),
+    ]);
+
+    expect(result.score).toBeGreaterThan(0.25);
+    expect(result.outcome).toBe('reject');
+    expect(result.vetoes).toEqual([
+      {
+        ruleId: 'security',
+        label: 'Security red flag',
+        voterId: 'auditor',
+        voterName: 'Security Auditor',
+        concern: 'Unaudited contracts',
+        outcome: 'reject',
+      },
+    ]);
+  });
+
+  it('ignores red flags from unsure or supportive voters', () => {
+    const result = reachConsensus([
+      vote('a', 1, { concerns: ['Unaudited contracts'] }),
+      vote('b', -1, { confidence: 0.5, concerns: ['Possible fraud'] }),
+      vote('c', 1),
+    ]);
+
+    expect(result.vetoes).toEqual([]);
+    expect(result.outcome).toBe('accept');
+  });
+
+  it('only takes red flags from voters in the rule\'s domains, as whole phrases', () => {
+    const result = reachConsensus([
+      vote('a', 1),
+      vote('marketer', -1, { domain: 'Go-To-Market', confidence: 0.9, concerns: ['Unaudited contracts'] }),
+      vote('auditor', -1, { domain: 'Smart Contract Security', confidence: 0.9, concerns: ['Exploits an underserved niche'] }),
+      vote('lawyer', -1, { domain: 'Finance & Metrics', confidence: 0.9, concerns: ['Fraud-detection is manual'] }),
+    ]);
+
+    expect(result.vetoes).toEqual([]);
+    expect(reachConsensus([vote('lawyer', -1, { domain: 'Finance & Metrics', confidence: 0.9, concerns: ['Fraudulent revenue figures'] })]).vetoes)
+      .toEqual([expect.objectContaining({ ruleId: 'legal', voterId: 'lawyer' })]);
+  });
+
+  it('reports who dissented and why', () => {
+    const result = reachConsensus([
+      vote('a', 1),
+      vote('b', 1),
+      vote('c', -1, { voterName: 'Skeptic', concerns: ['No retention data'], reasoning: 'Churn is unknown' }),
+    ]);
+
+    expect(result.outcome).toBe('accept');
+    expect(result.dissent).toEqual({
+      dissenters: [
+        {
+          voterId: 'c',
+          voterName: 'Skeptic',
+          domain: 'General',
+          stance: -1,
+          confidence: 0.8,
+          weight: 0.333,
+          concerns: ['No retention data'],
+          reasoning: 'Churn is unknown',
+        },
+      ],
+      weightShare: 0.333,
+      concerns: ['No retention data'],
+      summary: '1 of 3 voters dissented (33% of the weight): Skeptic',
+    });
+  });
+
+  it('needs revision without votes', () => {
+    expect(reachConsensus([])).toMatchObject({ outcome: 'needs_revision', score: 0, confidence: 0, vetoes: [] });
+  });
+});
+
+describe('keywordRelevance', () => {
+  it('adds a quarter per keyword the pitch mentions, up to double', () => {
+    expect(keywordRelevance([], 'A DeFi aggregator')).toBe(1);
+    expect(keywordRelevance(['defi', 'liquidity'], 'A DeFi aggregator')).toBe(1.25);
+    expect(keywordRelevance(['a', 'b', 'c', 'd', 'e'], 'a b c d e')).toBe(2);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Consensus Engine
+ *
+ * Folds weighted, confidence-aware votes into an outcome, applies veto
+ * rules and reports who dissented.
+ */
+
+import { DEFAULT_VETO_RULES, findVetoes } from './veto';
+import type {
+  ConsensusOutcome,
+  ConsensusPolicy,
+  ConsensusResult,
+  ConsensusVote,
+  Dissent,
+  DissentReport,
+  VoteWeighting,
+} from './types';
+
+/** Every voter counts the same */
+export const equalWeighting: VoteWeighting = () => 1;
+
+/** Voters count by how relevant their expertise is to the pitch */
+export const relevanceWeighting: VoteWeighting = vote => Math.max(0, vote.relevance ?? 1);
+
+export const DEFAULT_CONSENSUS_POLICY: ConsensusPolicy = {
+  weighting: relevanceWeighting,
+  confidenceWeighted: true,
+  acceptAbove: 0.25,
+  rejectBelow: -0.25,
+  vetoRules: DEFAULT_VETO_RULES,
+};
+
+/**
+ * Relevance of an expertise to a pitch: 1, plus 0.25 for each keyword the
+ * pitch mentions (at most 2 in all)
+ */
+export function keywordRelevance(keywords: string[], pitchText: string): number {
+  const text = pitchText.toLowerCase();
+  const matches = new Set(keywords.map(keyword => keyword.toLowerCase()).filter(keyword => keyword && text.includes(keyword)));
+  return 1 + 0.25 * Math.min(matches.size, 4);
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+function outcomeFor(score: number, policy: ConsensusPolicy): ConsensusOutcome {
+  if (score > policy.acceptAbove) return 'accept';
+  if (score < policy.rejectBelow) return 'reject';
+  return 'needs_revision';
+}
+
+function countConcerns(dissenters: Dissent[]): string[] {
+  const counts = new Map<string, number>();
+  for (const concern of dissenters.flatMap(dissent => dissent.concerns)) {
+    counts.set(concern, (counts.get(concern) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort(([, a], [, b]) => b - a).map(([concern]) => concern);
+}
+
+/**
+ * Voters on the other side of the outcome. Without a clear outcome, those
+ * against the way the score leans.
+ */
+function dissentReport(votes: ConsensusVote[], weights: number[], outcome: ConsensusOutcome, score: number): DissentReport {
+  const direction = outcome === 'accept' ? 1 : outcome === 'reject' ? -1 : Math.sign(score);
+
+  const dissenters: Dissent[] = votes
+    .map((vote, i) => ({ vote, weight: weights[i] }))
+    .filter(({ vote }) => direction !== 0 && vote.stance * direction < 0)
+    .map(({ vote, weight }) => ({
+      voterId: vote.voterId,
+      voterName: vote.voterName,
+      domain: vote.domain,
+      stance: vote.stance,
+      confidence: vote.confidence,
+      weight: round(weight),
+      concerns: vote.concerns,
+      reasoning: vote.reasoning ?? null,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+
+  const weightShare = round(dissenters.reduce((sum, dissent) => sum + dissent.weight, 0));
+  const summary = dissenters.length === 0
+    ? 'No dissent'
+    : `${dissenters.length} of ${votes.length} voters dissented (${Math.round(weightShare * 100)}% of the weight): ${dissenters.map(dissent => dissent.voterName).join(', ')}`;
+
+  return { dissenters, weightShare, concerns: countConcerns(dissenters), summary };
+}
+
+/**
+ * Reach a consensus over the votes. Vetoes override the vote: a `reject`
+ * veto rejects, a `needs_revision` veto holds back an accept.
+ */
+export function reachConsensus(votes: ConsensusVote[], overrides: Partial<ConsensusPolicy> = {}): ConsensusResult {
+  const policy = { ...DEFAULT_CONSENSUS_POLICY, ...overrides };
+
+  const baseWeights = votes.map(vote => Math.max(0, policy.weighting(vote)));
+  const weights = votes.map((vote, i) =>
+    policy.confidenceWeighted ? baseWeights[i] * Math.min(Math.max(vote.confidence, 0), 1) : baseWeights[i]
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const totalBase = baseWeights.reduce((sum, weight) => sum + weight, 0);
+
+  const score = totalWeight > 0
+    ? votes.reduce((sum, vote, i) => sum + weights[i] * Math.min(Math.max(vote.stance, -1), 1), 0) / totalWeight
+    : 0;
+  const confidence = totalBase > 0
+    ? votes.reduce((sum, vote, i) => sum + baseWeights[i] * vote.confidence, 0) / totalBase
+    : 0;
+  const shares = weights.map(weight => (totalWeight > 0 ? weight / totalWeight : 0));
+
+  const vetoes = findVetoes(votes, policy.vetoRules);
+  let outcome = votes.length > 0 ? outcomeFor(score, policy) : 'needs_revision';
+  if (vetoes.some(veto => veto.outcome === 'reject')) {
+    outcome = 'reject';
+  } else if (vetoes.length > 0 && outcome === 'accept') {
+    outcome = 'needs_revision';
+  }
+
+  return {
+    outcome,
+    score: round(score),
+    confidence: round(confidence),
+    weights: votes.map((vote, i) => ({ voterId: vote.voterId, weight: round(shares[i]) })),
+    vetoes,
+    dissent: dissentReport(votes, shares, outcome, score),
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Consensus
+ *
+ * One way of turning several agents' verdicts into a decision, used by the
+ * Live AI Council and the evaluation swarm: votes are weighted by how
+ * relevant each agent's expertise is to the pitch and by its confidence,
+ * veto rules let security and legal red flags override the count, and the
+ * agents outvoted are reported as dissent. The weighting, thresholds and
+ * veto rules are set per caller through a `ConsensusPolicy`.
+ */
+
+export {
+  DEFAULT_CONSENSUS_POLICY,
+  equalWeighting,
+  keywordRelevance,
+  reachConsensus,
+  relevanceWeighting,
+} from './engine';
+export { DEFAULT_VETO_RULES, findVetoes } from './veto';
+export * from './types';
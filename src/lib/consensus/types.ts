@@ -0,0 +1,97 @@
+/**
+ * Consensus types, shared by the Live AI Council and the evaluation swarm
+ */
+
+export type ConsensusOutcome = 'accept' | 'reject' | 'needs_revision';
+
+export interface ConsensusVote {
+  voterId: string;
+  voterName: string;
+  /** The voter's field, for veto rules that only trust some experts */
+  domain: string;
+  /** -1 (strongly against) to 1 (strongly for); 0 is undecided */
+  stance: number;
+  /** How sure the voter is, 0-1 */
+  confidence: number;
+  /** How relevant the voter's expertise is to this pitch; 1 is neutral */
+  relevance?: number;
+  /** Issues the voter raised; veto rules search these */
+  concerns: string[];
+  reasoning?: string;
+}
+
+/**
+ * A critical issue that decides the outcome on its own when a confident
+ * voter against the pitch raises it
+ */
+export interface VetoRule {
+  id: string;
+  label: string;
+  /** Case-insensitive words or phrases that mark a concern as this issue, matched whole */
+  keywords: string[];
+  /** Only voters whose domain contains one of these can veto (any voter when omitted) */
+  domains?: string[];
+  /** Voter confidence (0-1) needed to veto */
+  minConfidence: number;
+  outcome: Exclude<ConsensusOutcome, 'accept'>;
+}
+
+/** Weight of one vote before confidence is applied */
+export type VoteWeighting = (vote: ConsensusVote) => number;
+
+export interface ConsensusPolicy {
+  weighting: VoteWeighting;
+  /** Scale each vote by the voter's confidence */
+  confidenceWeighted: boolean;
+  /** Accept when the weighted stance is above this */
+  acceptAbove: number;
+  /** Reject when the weighted stance is below this */
+  rejectBelow: number;
+  vetoRules: VetoRule[];
+}
+
+export interface ConsensusVeto {
+  ruleId: string;
+  label: string;
+  voterId: string;
+  voterName: string;
+  /** The concern that matched the rule */
+  concern: string;
+  outcome: VetoRule['outcome'];
+}
+
+export interface Dissent {
+  voterId: string;
+  voterName: string;
+  domain: string;
+  stance: number;
+  confidence: number;
+  /** Share of the total weight, 0-1 */
+  weight: number;
+  concerns: string[];
+  reasoning: string | null;
+}
+
+/**
+ * Voters who went against the outcome and why
+ */
+export interface DissentReport {
+  dissenters: Dissent[];
+  /** Share of the total weight that dissented, 0-1 */
+  weightShare: number;
+  /** The dissenters' concerns, most raised first */
+  concerns: string[];
+  summary: string;
+}
+
+export interface ConsensusResult {
+  outcome: ConsensusOutcome;
+  /** Weighted stance, -1 to 1 */
+  score: number;
+  /** Weighted mean confidence of the voters, 0-1 */
+  confidence: number;
+  /** Each voter's share of the total weight, in vote order */
+  weights: { voterId: string; weight: number }[];
+  vetoes: ConsensusVeto[];
+  dissent: DissentReport;
+}
@@ -0,0 +1,92 @@
+/**
+ * Veto rules: security and legal red flags outweigh any vote count, when
+ * raised by a voter whose field covers them
+ */
+
+import type { ConsensusVeto, ConsensusVote, VetoRule } from './types';
+
+export const DEFAULT_VETO_RULES: VetoRule[] = [
+  {
+    id: 'security',
+    label: 'Security red flag',
+    keywords: [
+      'security vulnerability',
+      'security vulnerabilities',
+      'critical vulnerability',
+      'critical vulnerabilities',
+      'exploitable',
+      'been exploited',
+      'unaudited',
+      'backdoor',
+      'leaked private key',
+      'rug pull',
+      'hacked',
+    ],
+    // Swarm security and crypto experts, the council's technologist
+    domains: ['security', 'defi', 'crypto', 'technologist'],
+    minConfidence: 0.7,
+    outcome: 'reject',
+  },
+  {
+    id: 'legal',
+    label: 'Legal red flag',
+    keywords: [
+      'illegal',
+      'unlicensed',
+      'unregistered security',
+      'unregistered securities',
+      'securities violation',
+      'sanctions violation',
+      'money laundering',
+      'fraudulent',
+      'securities fraud',
+    ],
+    // Experts in regulated fields: finance (the council's financier), crypto, health
+    domains: ['legal', 'compliance', 'financ', 'defi', 'crypto', 'token', 'biotech'],
+    minConfidence: 0.7,
+    outcome: 'reject',
+  },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** A keyword only counts as a whole word or phrase ("exploitable", not "exploits a niche") */
+function keywordPattern(keywords: string[]): RegExp {
+  return new RegExp(`\\b(?:${keywords.map(escapeRegExp).join('|')})\\b`, 'i');
+}
+
+function matchesDomain(rule: VetoRule, vote: ConsensusVote): boolean {
+  if (!rule.domains) return true;
+  const domain = vote.domain.toLowerCase();
+  return rule.domains.some(pattern => domain.includes(pattern.toLowerCase()));
+}
+
+/**
+ * Vetoes cast by confident voters against the pitch, at most one per rule
+ * and voter
+ */
+export function findVetoes(votes: ConsensusVote[], rules: VetoRule[]): ConsensusVeto[] {
+  const vetoes: ConsensusVeto[] = [];
+
+  for (const rule of rules) {
+    const pattern = keywordPattern(rule.keywords);
+
+    for (const vote of votes) {
+      if (vote.stance >= 0 || vote.confidence < rule.minConfidence || !matchesDomain(rule, vote)) continue;
+
+      const concern = vote.concerns.find(text => pattern.test(text));
+      if (concern) {
+        vetoes.push({
+          ruleId: rule.id,
+          label: rule.label,
+          voterId: vote.voterId,
+          voterName: vote.voterName,
+          concern,
+          outcome: rule.outcome,
+        });
+      }
+    }
+  }
+
+  return vetoes;
+}
@@ -0,0 +1,134 @@
+/**
+ * Tests for replaying, searching and exporting a stored council debate log
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_REPLAY_GAP_MS,
+  councilStateAt,
+  debateLogToMarkdown,
+  replayDelayMs,
+  searchDebateLog,
+  type DebateLogEntry,
+} from '../debate-log';
+import type { DebateAgent } from '../debate-orchestrator';
+import type { CouncilDebateDetail } from '@/types/dashboard';
+
+const agents: DebateAgent[] = [
+  { id: 'skeptic', name: 'Dr. Sarah Chen', role: 'The Skeptic', personality: '', sentiment: 0, position: null, avatar: '🔍' },
+  { id: 'optimist', name: 'Marcus Vision', role: 'The Optimist', personality: '', sentiment: 0, position: null, avatar: '🚀' },
+];
+
+const entries: DebateLogEntry[] = [
+  { seq: 0, elapsedMs: 0, event: { type: 'debate_started', agents } },
+  { seq: 1, elapsedMs: 10, event: { type: 'phase_change', phase: 'questioning', description: 'Agents ask tough questions' } },
+  {
+    seq: 2,
+    elapsedMs: 2010,
+    event: { type: 'agent_speaking', agentId: 'skeptic', agentName: 'Dr. Sarah Chen', text: 'What is your churn?', avatar: '🔍', messageType: 'question' },
+  },
+  { seq: 3, elapsedMs: 2020, event: { type: 'sentiment_update', agentId: 'skeptic', sentiment: -0.5 } },
+  {
+    seq: 4,
+    elapsedMs: 62020,
+    event: { type: 'agent_speaking', agentId: 'optimist', agentName: 'Marcus Vision', text: 'This could be huge', avatar: '🚀', messageType: 'argument' },
+  },
+  { seq: 5, elapsedMs: 62030, event: { type: 'phase_change', phase: 'consensus', description: 'Agents give final verdicts' } },
+  {
+    seq: 6,
+    elapsedMs: 64030,
+    event: { type: 'agent_speaking', agentId: 'skeptic', agentName: 'Dr. Sarah Chen', text: 'NO, churn is too high', avatar: '🔍', messageType: 'consensus' },
+  },
+  { seq: 7, elapsedMs: 64040, event: { type: 'position_update', agentId: 'skeptic', position: 'NO' } },
+  { seq: 8, elapsedMs: 64050, event: { type: 'debate_complete', decision: 'REJECTED', confidence: 0.5 } },
+];
+
+const debate: CouncilDebateDetail = {
+  id: 'debate_1',
+  companyName: 'SwapRoute',
+  status: 'COMPLETED',
+  interactive: false,
+  startedAt: '2026-10-19T10:00:00.000Z',
+  completedAt: '2026-10-19T10:01:04.000Z',
+  decision: 'REJECTED',
+  confidence: 0.5,
+  transcript: [],
+  votes: [
+    { agentId: 'skeptic', agentName: 'Dr. Sarah Chen', role: 'The Skeptic', avatar: '🔍', position: 'NO', sentiment: -0.5 },
+    { agentId: 'optimist', agentName: 'Marcus Vision', role: 'The Optimist', avatar: '🚀', position: null, sentiment: 0 },
+  ],
+  offers: [],
+  consensus: null,
+  error: null,
+};
+
+describe('replayDelayMs', () => {
+  it('scales the gap before each event by the replay speed', () => {
+    expect(replayDelayMs(entries, 0, 1)).toBe(0);
+    expect(replayDelayMs(entries, 2, 1)).toBe(2000);
+    expect(replayDelayMs(entries, 2, 4)).toBe(500);
+  });
+
+  it('shortens long pauses', () => {
+    expect(replayDelayMs(entries, 4, 1)).toBe(MAX_REPLAY_GAP_MS);
+    expect(replayDelayMs(entries, 4, 2)).toBe(MAX_REPLAY_GAP_MS / 2);
+  });
+});
+
+describe('councilStateAt', () => {
+  it('rebuilds the council as it stood mid-debate', () => {
+    const state = councilStateAt(entries, 4);
+
+    expect(state.phase).toBe('questioning');
+    expect(state.speakingAgentId).toBe('skeptic');
+    expect(state.members.find(member => member.id === 'skeptic')?.sentiment).toBe(-0.5);
+    expect(state.speeches).toHaveLength(1);
+    expect(state.decision).toBeNull();
+  });
+
+  it('ends with the final positions and decision', () => {
+    const state = councilStateAt(entries, entries.length);
+
+    expect(state.members.find(member => member.id === 'skeptic')?.position).toBe('NO');
+    expect(state).toMatchObject({ phase: 'consensus', decision: 'REJECTED', confidence: 0.5 });
+  });
+});
+
+describe('searchDebateLog', () => {
+  it('finds speeches by agent id or part of the speaker name', () => {
+    expect(searchDebateLog(entries, { speaker: 'skeptic' }).map(entry => entry.seq)).toEqual([2, 6]);
+    expect(searchDebateLog(entries, { speaker: 'marcus' }).map(entry => entry.seq)).toEqual([4]);
+  });
+
+  it('finds speeches by message type', () => {
+    expect(searchDebateLog(entries, { messageType: 'question' }).map(entry => entry.seq)).toEqual([2]);
+  });
+
+  it('combines filters', () => {
+    expect(searchDebateLog(entries, { speaker: 'skeptic', messageType: 'consensus' }).map(entry => entry.seq)).toEqual([6]);
+    expect(searchDebateLog(entries, { speaker: 'optimist', messageType: 'question' })).toEqual([]);
+  });
+});
+
+describe('debateLogToMarkdown', () => {
+  it('exports the decision, votes and transcript by phase', () => {
+    const markdown = debateLogToMarkdown(debate, entries);
+
+    expect(markdown).toContain('# Live AI Council: SwapRoute');
+    expect(markdown).toContain('**Decision:** REJECTED (50% margin)');
+    expect(markdown).toContain('| Dr. Sarah Chen | The Skeptic | NO | -0.50 |');
+    expect(markdown).toContain('| Marcus Vision | The Optimist | — | 0.00 |');
+    expect(markdown.indexOf('### Questioning Round')).toBeLessThan(markdown.indexOf('What is your churn?'));
+    expect(markdown).toContain('**Marcus Vision** _(argument, 1:02)_: This could be huge');
+    expect(markdown.endsWith('\n')).toBe(true);
+  });
+
+  it('falls back to the stored transcript for debates without a log', () => {
+    const markdown = debateLogToMarkdown(
+      { ...debate, transcript: [{ speaker: 'Founder', text: 'We retain 90%', timestamp: 1, type: 'argument' }] },
+      []
+    );
+
+    expect(markdown).toContain('**Founder** _(argument)_: We retain 90%');
+  });
+});
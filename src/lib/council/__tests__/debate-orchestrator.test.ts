@@ -0,0 +1,376 @@
+/**
+ * Tests for the Live AI Council: its broadcast events, the live state built
+ * from them and the stored debate
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    startup: { findUnique: vi.fn() },
+    councilDebate: { create: vi.fn(), update: vi.fn(), findFirst: vi.fn() },
+    councilVote: { createMany: vi.fn() },
+    councilDebateEvent: { createMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { llm } from '@/lib/llm';
+import type { LLMMessage } from '@/lib/llm';
+import { prisma } from '@/lib/prisma';
+import { costLedger } from '@/lib/monitoring/cost-ledger';
+import { DebateOrchestrator, type DebateEvent, type DebatePitch } from '../debate-orchestrator';
+import { applyCouncilEvent, councilStateFromDebate, emptyCouncilState } from '../debate-state';
+import { answerFounderQuestion, runCouncilDebate } from '@/lib/services/council-debates';
+
+const pitch: DebatePitch = {
+  companyName: 'SwapRoute',
+  industry: 'DeFi',
+  shortDescription: 'Best price execution for DeFi traders',
+  problemStatement: 'Traders lose value to fragmented liquidity',
+  teamSize: 3,
+};
+
+function respond(messages: LLMMessage[]) {
+  const prompt = messages.map(message => message.content).join('\n');
+  const skeptic = prompt.startsWith('You are Dr. Sarah Chen');
+
+  if (prompt.includes('immediate reaction')) return { text: 'First take', sentiment: skeptic ? -0.6 : 0.5 };
+  if (prompt.includes('tough, specific questions')) return ['What is your take rate?'];
+  if (prompt.includes('Make your argument')) return { text: 'My argument', sentiment: skeptic ? -0.4 : 0.6, isRebuttal: false };
+  if (prompt.includes('final verdict')) return { position: skeptic ? 'NO' : 'YES', text: 'My final decision' };
+  throw new Error(`Unexpected prompt: ${prompt.slice(0, 80)}`);
+}
+
+function mockLLM() {
+  vi.spyOn(llm, 'chat').mockImplementation(async (_task, messages) => ({
+    content: JSON.stringify(respond(messages)),
+    provider: 'mock',
+    model: 'mock-1',
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    latencyMs: 0,
+  }));
+}
+
+// The council pauses between speakers; skip the waits
+async function conduct<T>(debate: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return debate;
+}
+
+describe('DebateOrchestrator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockLLM();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('broadcasts every phase, speech and vote in order', async () => {
+    const events: DebateEvent[] = [];
+    const result = await conduct(new DebateOrchestrator(event => events.push(event)).conductDebate(pitch));
+
+    expect(events[0]).toMatchObject({ type: 'debate_started' });
+    expect(events.filter(event => event.type === 'phase_change').map(event => event.type === 'phase_change' && event.phase))
+      .toEqual(['initial_reactions', 'questioning', 'debate', 'consensus']);
+    expect(events.filter(event => event.type === 'position_update')).toHaveLength(5);
+    expect(events[events.length - 1]).toEqual({ type: 'debate_complete', decision: 'APPROVED', confidence: 0.64 });
+
+    expect(result.votes).toEqual({ yes: 4, no: 1, maybe: 0 });
+    expect(result.offers).toHaveLength(4);
+    expect(result.consensus.dissent.dissenters.map(dissent => dissent.voterId)).toEqual(['skeptic']);
+  });
+
+  it('lets a confident red flag veto a majority', async () => {
+    vi.mocked(llm.chat).mockImplementation(async (_task, messages) => {
+      const prompt = messages[0].content;
+      const verdict = prompt.startsWith('You are Alex Code') && prompt.includes('final verdict')
+        ? { position: 'NO', confidence: 0.9, text: 'No', redFlags: ['Unaudited contracts hold user funds'] }
+        : respond(messages);
+      return {
+        content: JSON.stringify(verdict),
+        provider: 'mock',
+        model: 'mock-1',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        latencyMs: 0,
+      };
+    });
+
+    const result = await conduct(new DebateOrchestrator().conductDebate(pitch));
+
+    expect(result.votes).toEqual({ yes: 3, no: 2, maybe: 0 });
+    expect(result.decision).toBe('REJECTED');
+    expect(result.offers).toEqual([]);
+    expect(result.consensus.vetoes).toEqual([
+      expect.objectContaining({ ruleId: 'security', voterId: 'technologist', concern: 'Unaudited contracts hold user funds' }),
+    ]);
+  });
+
+  it('keeps debating when a viewer fails', async () => {
+    const result = await conduct(
+      new DebateOrchestrator(() => {
+        throw new Error('Viewer disconnected');
+      }).conductDebate(pitch)
+    );
+
+    expect(result.decision).toBe('APPROVED');
+  });
+
+  it('waits for the founder\'s answers and weighs them', async () => {
+    const events: DebateEvent[] = [];
+    const answerQuestion = vi.fn(async ({ agentId }: { agentId: string }) =>
+      agentId === 'financier' ? 'We take 0.3% per swap' : null
+    );
+    const result = await conduct(
+      new DebateOrchestrator(event => events.push(event), { answerQuestion, answerTimeoutMs: 30000 }).conductDebate(pitch)
+    );
+
+    expect(answerQuestion).toHaveBeenCalledTimes(5);
+    expect(events).toContainEqual({
+      type: 'founder_question',
+      questionId: 'financier_1',
+      agentId: 'financier',
+      question: 'What is your take rate?',
+      timeoutMs: 30000,
+    });
+    expect(events).toContainEqual({ type: 'founder_answer', questionId: 'financier_1', answer: 'We take 0.3% per swap' });
+    expect(events).toContainEqual({ type: 'founder_answer', questionId: 'skeptic_1', answer: null });
+
+    // Only real answers reach the transcript; no placeholders
+    const founder = result.transcript.filter(message => message.speaker === 'Founder');
+    expect(founder).toEqual([expect.objectContaining({ text: 'We take 0.3% per swap', type: 'answer' })]);
+
+    const prompts = vi.mocked(llm.chat).mock.calls.map(([, messages]) => messages[0].content);
+    for (const phase of ['Make your argument', 'final verdict']) {
+      const prompt = prompts.find(content => content.includes(phase))!;
+      expect(prompt).toContain('Founder: We take 0.3% per swap');
+      expect(prompt).toContain('Founder: (no answer)');
+    }
+  });
+
+  it('builds the live council state from the broadcasts', async () => {
+    let state = emptyCouncilState();
+    await conduct(new DebateOrchestrator(event => (state = applyCouncilEvent(state, event))).conductDebate(pitch));
+    state = applyCouncilEvent(state, { type: 'complete', debateId: 'debate_1' });
+
+    expect(state.members.map(member => member.id)).toEqual(['skeptic', 'optimist', 'financier', 'technologist', 'strategist']);
+    expect(state.members.find(member => member.id === 'skeptic')).toMatchObject({ position: 'NO', sentiment: -0.4 });
+    expect(state.members.find(member => member.id === 'optimist')).toMatchObject({ position: 'YES' });
+    expect(state.phase).toBe('consensus');
+    expect(state.speakingAgentId).toBeNull();
+    expect(state).toMatchObject({ decision: 'APPROVED', confidence: 0.64, done: true, error: null });
+  });
+});
+
+describe('councilStateFromDebate', () => {
+  it('attributes stored messages to council members', () => {
+    const state = councilStateFromDebate({
+      id: 'debate_1',
+      companyName: 'SwapRoute',
+      status: 'COMPLETED',
+      interactive: false,
+      startedAt: '2026-10-19T10:00:00.000Z',
+      completedAt: '2026-10-19T10:05:00.000Z',
+      decision: 'REJECTED',
+      confidence: 0.2,
+      transcript: [
+        { speaker: 'Dr. Sarah Chen', text: 'Show me retention', timestamp: 1, type: 'question' },
+        { speaker: 'Founder', text: '[Founder would respond here via video/audio]', timestamp: 2, type: 'argument' },
+      ],
+      votes: [{ agentId: 'skeptic', agentName: 'Dr. Sarah Chen', role: 'The Skeptic', avatar: '🔍', position: 'NO', sentiment: -0.5 }],
+      offers: [],
+      consensus: null,
+      error: null,
+    });
+
+    expect(state.speeches.map(speech => speech.agentId)).toEqual(['skeptic', null]);
+    expect(state.members[0]).toMatchObject({ id: 'skeptic', position: 'NO' });
+    expect(state).toMatchObject({ decision: 'REJECTED', done: true });
+  });
+});
+
+describe('runCouncilDebate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    mockLLM();
+    vi.mocked(prisma.startup.findUnique).mockResolvedValue({
+      id: 'startup_1',
+      userId: 'user_1',
+      name: 'SwapRoute',
+      tagline: 'Best price execution for DeFi traders',
+      description: 'A DeFi aggregator routing swaps across protocols',
+      industry: 'DeFi',
+      teamSize: 3,
+    } as never);
+    vi.mocked(prisma.councilDebate.create).mockResolvedValue({ id: 'debate_1' } as never);
+    // Free tier, nothing spent yet
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('stores the transcript and each member\'s vote', async () => {
+    const { debateId } = await conduct(runCouncilDebate({ startupId: 'startup_1', userId: 'user_1' }));
+
+    expect(debateId).toBe('debate_1');
+    expect(prisma.councilDebate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ startupId: 'startup_1', userId: 'user_1' }),
+    });
+
+    const votes = vi.mocked(prisma.councilVote.createMany).mock.calls[0][0]!.data;
+    expect(votes).toHaveLength(5);
+    expect(votes).toContainEqual(expect.objectContaining({ debateId: 'debate_1', agentId: 'skeptic', seat: 0, position: 'NO' }));
+
+    const update = vi.mocked(prisma.councilDebate.update).mock.calls[0][0];
+    expect(update.data).toMatchObject({ status: 'COMPLETED', decision: 'APPROVED', confidence: 0.66 });
+    expect(update.data.transcript).toHaveLength(5 + 10 + 16 + 5);
+    expect(update.data.consensus).toMatchObject({ outcome: 'accept', vetoes: [] });
+
+    // Every broadcast is logged in order for replay
+    const events = vi.mocked(prisma.councilDebateEvent.createMany).mock.calls[0][0]!.data as { seq: number; type: string }[];
+    expect(events.map(event => event.seq)).toEqual(events.map((_, i) => i));
+    expect(events[0]).toMatchObject({ debateId: 'debate_1', type: 'debate_started' });
+    expect(events[events.length - 1]).toMatchObject({ type: 'debate_complete' });
+  });
+
+  it('marks the debate failed when the council errors', async () => {
+    vi.mocked(llm.chat).mockRejectedValue(new Error('LLM unavailable'));
+
+    await expect(runCouncilDebate({ startupId: 'startup_1', userId: 'user_1' })).rejects.toThrow('LLM unavailable');
+    expect(prisma.councilDebate.update).toHaveBeenCalledWith({
+      where: { id: 'debate_1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'LLM unavailable' }),
+    });
+    expect(prisma.councilVote.createMany).not.toHaveBeenCalled();
+    expect(prisma.councilDebateEvent.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ seq: 0, type: 'debate_started' }),
+        expect.objectContaining({ seq: 1, type: 'phase_change' }),
+      ],
+    });
+  });
+
+  it('puts the founder\'s answers in an interactive debate', async () => {
+    vi.mocked(prisma.councilDebate.findFirst).mockResolvedValue({
+      userId: 'user_1',
+      status: 'RUNNING',
+      interactive: true,
+    } as never);
+
+    const submissions: Promise<void>[] = [];
+    const { result } = await conduct(
+      runCouncilDebate({
+        startupId: 'startup_1',
+        userId: 'user_1',
+        interactive: true,
+        onEvent: event => {
+          if (event.type === 'founder_question' && event.agentId === 'technologist') {
+            submissions.push(answerFounderQuestion({
+              startupId: 'startup_1',
+              debateId: 'debate_1',
+              userId: 'user_1',
+              questionId: event.questionId,
+              answer: 'Audited contracts, two chains live',
+            }));
+          }
+        },
+      })
+    );
+    await Promise.all(submissions);
+
+    expect(prisma.councilDebate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ interactive: true }),
+    });
+    expect(result.transcript.filter(message => message.type === 'answer').map(message => message.text))
+      .toEqual(['Audited contracts, two chains live']);
+
+    // The other questions timed out and are closed
+    await expect(answerFounderQuestion({
+      startupId: 'startup_1',
+      debateId: 'debate_1',
+      userId: 'user_1',
+      questionId: 'skeptic_1',
+      answer: 'Too late',
+    })).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('only lets the founder who started the debate answer', async () => {
+    vi.mocked(prisma.councilDebate.findFirst).mockResolvedValue({
+      userId: 'user_1',
+      status: 'RUNNING',
+      interactive: true,
+    } as never);
+
+    await expect(answerFounderQuestion({
+      startupId: 'startup_1',
+      debateId: 'debate_1',
+      userId: 'user_2',
+      questionId: 'skeptic_1',
+      answer: 'Hi',
+    })).rejects.toMatchObject({ status: 403 });
+    await expect(runCouncilDebate({ startupId: 'startup_1', userId: 'user_2', interactive: true }))
+      .rejects.toMatchObject({ status: 403 });
+    expect(prisma.councilDebate.create).not.toHaveBeenCalled();
+  });
+
+  it('only lets the founder convene the council', async () => {
+    await expect(runCouncilDebate({ startupId: 'startup_1', userId: 'user_2' }))
+      .rejects.toMatchObject({ status: 403 });
+    expect(llm.chat).not.toHaveBeenCalled();
+    expect(prisma.councilDebate.create).not.toHaveBeenCalled();
+  });
+
+  it('charges the debate to the founder\'s budget', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ tier: 'free', monthlyBudgetUsd: null } as never);
+    vi.spyOn(costLedger, 'getUserSpend').mockResolvedValue(3);
+
+    await expect(runCouncilDebate({ startupId: 'startup_1', userId: 'user_1' }))
+      .rejects.toMatchObject({ name: 'BudgetExceededError', status: 402 });
+    expect(llm.chat).not.toHaveBeenCalled();
+    expect(prisma.councilDebate.create).not.toHaveBeenCalled();
+  });
+
+  it('marks the debate failed when it can\'t be stored', async () => {
+    vi.mocked(prisma.$transaction).mockRejectedValueOnce(new Error('database is locked'));
+
+    const outcome = expect(runCouncilDebate({ startupId: 'startup_1', userId: 'user_1' })).rejects.toThrow('database is locked');
+    await vi.runAllTimersAsync();
+    await outcome;
+
+    expect(prisma.councilDebate.update).toHaveBeenLastCalledWith({
+      where: { id: 'debate_1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'database is locked' }),
+    });
+  });
+
+  it('stops waiting on the founder once the viewer leaves', async () => {
+    const viewer = new AbortController();
+    const debate = runCouncilDebate({
+      startupId: 'startup_1',
+      userId: 'user_1',
+      interactive: true,
+      answerTimeoutMs: 600_000,
+      signal: viewer.signal,
+      onEvent: event => {
+        if (event.type === 'founder_question') viewer.abort();
+      },
+    });
+    const outcome = expect(debate).rejects.toThrow('Debate cancelled');
+    // Well short of the founder's 10 minutes
+    await vi.advanceTimersByTimeAsync(60_000);
+    await outcome;
+
+    expect(prisma.councilDebate.update).toHaveBeenCalledWith({
+      where: { id: 'debate_1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'Debate cancelled' }),
+    });
+  });
+});
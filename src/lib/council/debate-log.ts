@@ -0,0 +1,153 @@
+/**
+ * Council Debate Log
+ *
+ * A finished debate is kept as the ordered list of everything it broadcast,
+ * with the time each event happened. From that log a debate can be replayed
+ * (folded through `applyCouncilEvent` at any speed), searched by speaker or
+ * message type, and exported as markdown. Pure and type-only imports, so
+ * client components can use it.
+ */
+
+import type { DebateEvent, DebateMessage, DebatePhase } from './debate-orchestrator';
+import { applyCouncilEvent, emptyCouncilState, type CouncilState } from './debate-state';
+import type { CouncilDebateDetail } from '@/types/dashboard';
+
+export interface DebateLogEntry {
+  seq: number;
+  /** Since the debate started */
+  elapsedMs: number;
+  event: DebateEvent;
+}
+
+export type DebateMessageType = DebateMessage['type'];
+
+export const DEBATE_MESSAGE_TYPES: readonly DebateMessageType[] = [
+  'reaction',
+  'question',
+  'answer',
+  'argument',
+  'rebuttal',
+  'consensus',
+];
+
+export const PHASE_LABELS: Record<DebatePhase, string> = {
+  initial_reactions: 'Initial Reactions',
+  questioning: 'Questioning Round',
+  debate: 'Agent Debate',
+  consensus: 'Final Verdicts',
+};
+
+/** Replay speeds offered in the UI (1 = as it happened) */
+export const REPLAY_SPEEDS = [1, 2, 4, 8, 16] as const;
+
+/** Long pauses (slow model calls) are shortened to this before scaling */
+export const MAX_REPLAY_GAP_MS = 5000;
+
+export function isDebateMessageType(value: string): value is DebateMessageType {
+  return (DEBATE_MESSAGE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * How long to wait before playing `entries[index]` at `speed`
+ */
+export function replayDelayMs(entries: DebateLogEntry[], index: number, speed: number): number {
+  if (index <= 0 || index >= entries.length) return 0;
+  const gap = Math.max(0, entries[index].elapsedMs - entries[index - 1].elapsedMs);
+  return Math.round(Math.min(gap, MAX_REPLAY_GAP_MS) / Math.max(speed, 0.1));
+}
+
+/**
+ * The council as it stood after the first `count` events
+ */
+export function councilStateAt(entries: DebateLogEntry[], count: number): CouncilState {
+  return entries.slice(0, Math.max(0, count)).reduce((state, entry) => applyCouncilEvent(state, entry.event), emptyCouncilState());
+}
+
+export interface DebateLogFilter {
+  /** Agent id, or part of the speaker's name (case-insensitive) */
+  speaker?: string;
+  messageType?: DebateMessageType;
+}
+
+export type DebateSpeechEntry = DebateLogEntry & { event: Extract<DebateEvent, { type: 'agent_speaking' }> };
+
+/**
+ * Speeches matching every given filter, in order
+ */
+export function searchDebateLog(entries: DebateLogEntry[], filter: DebateLogFilter = {}): DebateSpeechEntry[] {
+  const speaker = filter.speaker?.trim().toLowerCase();
+
+  return entries.filter((entry): entry is DebateSpeechEntry => {
+    if (entry.event.type !== 'agent_speaking') return false;
+    if (filter.messageType && entry.event.messageType !== filter.messageType) return false;
+    if (speaker && entry.event.agentId !== speaker && !entry.event.agentName.toLowerCase().includes(speaker)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * m:ss since the debate started
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The debate as a markdown document for the founder: decision, votes,
+ * vetoes and dissent, and the transcript by phase
+ */
+export function debateLogToMarkdown(debate: CouncilDebateDetail, entries: DebateLogEntry[]): string {
+  const lines = [`# Live AI Council: ${debate.companyName}`, ''];
+
+  lines.push(`Debated ${new Date(debate.startedAt).toUTCString()}`, '');
+  if (debate.decision) {
+    const margin = debate.confidence !== null ? ` (${Math.round(debate.confidence * 100)}% margin)` : '';
+    lines.push(`**Decision:** ${debate.decision}${margin}`, '');
+  } else if (debate.error) {
+    lines.push(`**Debate failed:** ${debate.error}`, '');
+  }
+
+  if (debate.votes.length > 0) {
+    lines.push('## Votes', '', '| Member | Role | Position | Sentiment |', '|---|---|---|---|');
+    for (const vote of debate.votes) {
+      lines.push(`| ${vote.agentName} | ${vote.role} | ${vote.position ?? '—'} | ${vote.sentiment.toFixed(2)} |`);
+    }
+    lines.push('');
+  }
+
+  if (debate.consensus) {
+    const { vetoes, dissent } = debate.consensus;
+    for (const veto of vetoes) {
+      lines.push(`**Vetoed (${veto.label}):** ${veto.voterName}: ${veto.concern}`, '');
+    }
+
+    lines.push('## Dissent', '', dissent.summary, '');
+    for (const dissenter of dissent.dissenters) {
+      lines.push(`- **${dissenter.voterName}** (${dissenter.domain}): ${dissenter.reasoning ?? dissenter.concerns.join('; ')}`);
+    }
+    if (dissent.dissenters.length > 0) lines.push('');
+  }
+
+  lines.push('## Transcript', '');
+  for (const { event, elapsedMs } of entries) {
+    if (event.type === 'phase_change') {
+      lines.push(`### ${PHASE_LABELS[event.phase] ?? event.phase}`, '');
+    } else if (event.type === 'agent_speaking') {
+      lines.push(`**${event.agentName}** _(${event.messageType}, ${formatElapsed(elapsedMs)})_: ${event.text}`, '');
+    } else if (event.type === 'founder_answer' && event.answer === null) {
+      lines.push('_The founder didn\'t answer in time._', '');
+    }
+  }
+
+  // Debates stored before the event log only have the transcript
+  if (entries.length === 0) {
+    for (const message of debate.transcript) {
+      lines.push(`**${message.speaker}** _(${message.type})_: ${message.text}`, '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
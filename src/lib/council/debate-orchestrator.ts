@@ -1,42 +1,171 @@
 // src/lib/council/debate-orchestrator.ts
 
-import Anthropic from '@anthropic-ai/sdk';
+import { llm, extractJSON } from '@/lib/llm';
 import { logger } from '@/lib/logger';
+import { keywordRelevance, reachConsensus, type ConsensusResult, type ConsensusVote } from '@/lib/consensus';
 
-interface DebateAgent {
+export type DebatePosition = 'YES' | 'NO' | 'MAYBE';
+
+export type DebateDecision = 'APPROVED' | 'REJECTED';
+
+export type DebatePhase = 'initial_reactions' | 'questioning' | 'debate' | 'consensus';
+
+export interface DebateAgent {
   id: string;
   name: string;
   role: string;
   personality: string;
   sentiment: number;
-  position: 'YES' | 'NO' | 'MAYBE' | null;
+  position: DebatePosition | null;
   avatar: string;
 }
 
-interface DebateMessage {
+export interface DebateMessage {
   speaker: string;
   text: string;
   timestamp: number;
-  type: 'question' | 'argument' | 'rebuttal' | 'consensus' | 'reaction';
+  type: 'question' | 'answer' | 'argument' | 'rebuttal' | 'consensus' | 'reaction';
 }
 
+/**
+ * What the council debates. Fields a stored Startup doesn't hold are optional.
+ */
+export interface DebatePitch {
+  companyName: string;
+  industry: string;
+  shortDescription: string;
+  problemStatement?: string;
+  solution?: string;
+  monthlyRevenue?: number;
+  teamSize?: number;
+}
+
+export interface DebateOffer {
+  id: string;
+  agentId: string;
+  agentName: string;
+  amount: number;
+  equity: number;
+  dealStructure: string;
+  valuation: number;
+  terms: string;
+  reasoning: string;
+}
+
+export interface DebateVotes {
+  yes: number;
+  no: number;
+  maybe: number;
+}
+
+export interface DebateResult {
+  decision: DebateDecision;
+  confidence: number;
+  offers: DebateOffer[];
+  transcript: DebateMessage[];
+  votes: DebateVotes;
+  agents: DebateAgent[];
+  /** Weighted outcome, vetoes and dissent behind the decision */
+  consensus: ConsensusResult;
+}
+
+/**
+ * Everything the debate broadcasts to viewers, in order
+ */
+export type DebateEvent =
+  | { type: 'debate_started'; agents: DebateAgent[] }
+  | { type: 'phase_change'; phase: DebatePhase; description: string }
+  | {
+      type: 'agent_speaking';
+      agentId: string;
+      agentName: string;
+      text: string;
+      avatar: string;
+      messageType: DebateMessage['type'];
+    }
+  | { type: 'founder_question'; questionId: string; agentId: string; question: string; timeoutMs: number }
+  | { type: 'founder_answer'; questionId: string; answer: string | null }
+  | { type: 'sentiment_update'; agentId: string; sentiment: number }
+  | { type: 'position_update'; agentId: string; position: DebatePosition }
+  | { type: 'debate_complete'; decision: DebateDecision; confidence: number };
+
 interface BroadcastCallback {
-  (data: any): void;
+  (event: DebateEvent): void;
+}
+
+export interface FounderQuestion {
+  questionId: string;
+  agentId: string;
+  question: string;
+  timeoutMs: number;
+}
+
+export interface DebateOptions {
+  /**
+   * Interactive mode: the debate pauses on each question until this resolves
+   * with the founder's answer, or null when they don't answer in time
+   */
+  answerQuestion?: (question: FounderQuestion) => Promise<string | null>;
+  /** How long the founder has per question (default 2 minutes) */
+  answerTimeoutMs?: number;
+  /** Stops the debate at the next pause or agent call (e.g. the viewer left) */
+  signal?: AbortSignal;
+}
+
+interface FinalVerdict {
+  position: DebatePosition;
+  text: string;
+  /** 0-1 */
+  confidence?: number;
+  redFlags?: string[];
+}
+
+// Pitch topics that make a member's vote count for more (the skeptic and
+// optimist judge every pitch alike)
+const COUNCIL_EXPERTISE: Record<string, string[]> = {
+  financier: ['revenue', 'mrr', 'pricing', 'margin', 'subscription', 'fintech', 'payments', 'lending'],
+  technologist: ['defi', 'crypto', 'blockchain', 'protocol', 'infrastructure', 'security', 'hardware', 'developer', 'machine learning'],
+  strategist: ['marketplace', 'consumer', 'b2b', 'saas', 'enterprise', 'network effect', 'go-to-market'],
+};
+
+const POSITION_STANCE: Record<DebatePosition, number> = { YES: 1, MAYBE: 0, NO: -1 };
+
+/** Rounds of paired arguments in `agentDebate` */
+const DEBATE_ROUNDS = 8;
+
+/**
+ * Estimated USD cost of one council member's turn (conversation route,
+ * a few hundred tokens)
+ */
+export const COUNCIL_TURN_COST_USD = 0.02;
+
+/**
+ * Upfront cost estimate: each of the five members reacts, asks questions and
+ * gives a verdict, and two of them argue in every debate round
+ */
+export function estimateDebateCost(): number {
+  return (5 * 3 + DEBATE_ROUNDS * 2) * COUNCIL_TURN_COST_USD;
+}
+
+interface FounderExchange {
+  agentName: string;
+  question: string;
+  answer: string | null;
 }
 
 export class DebateOrchestrator {
-  private anthropic: Anthropic;
   private agents: DebateAgent[];
   private transcript: DebateMessage[];
+  private founderQA: FounderExchange[];
   private broadcastCallback?: BroadcastCallback;
+  private options: DebateOptions;
 
-  constructor(broadcastCallback?: BroadcastCallback) {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY!
-    });
+  constructor(broadcastCallback?: BroadcastCallback, options: DebateOptions = {}) {
     this.agents = this.initializeAgents();
     this.transcript = [];
+    this.founderQA = [];
     this.broadcastCallback = broadcastCallback;
+    this.options = options;
   }
 
   private initializeAgents(): DebateAgent[] {
@@ -89,19 +218,13 @@ export class DebateOrchestrator {
     ];
   }
 
-  async conductDebate(pitch: any): Promise<{
-    decision: 'APPROVED' | 'REJECTED';
-    confidence: number;
-    offers: any[];
-    transcript: DebateMessage[];
-    agents: DebateAgent[];
-  }> {
+  async conductDebate(pitch: DebatePitch): Promise<DebateResult> {
     logger.info('🎭 Starting Live AI Council Debate...');
 
-    // Broadcast initial state
+    // Broadcast initial state (copies, since the agents keep changing)
     this.broadcast({
       type: 'debate_started',
-      agents: this.agents
+      agents: this.agents.map(agent => ({ ...agent }))
     });
 
     // Phase 1: Initial Reactions (2 min)
@@ -129,7 +252,7 @@ export class DebateOrchestrator {
     };
   }
 
-  private async initialReactions(pitch: any) {
+  private async initialReactions(pitch: DebatePitch) {
     logger.info('\n📊 Phase 1: Initial Reactions');
 
     this.broadcast({
@@ -157,7 +280,8 @@ export class DebateOrchestrator {
         agentId: agent.id,
         agentName: agent.name,
         text: reaction.text,
-        avatar: agent.avatar
+        avatar: agent.avatar,
+        messageType: 'reaction'
       });
 
       this.broadcast({
@@ -171,7 +295,7 @@ export class DebateOrchestrator {
     }
   }
 
-  private async getAgentReaction(agent: DebateAgent, pitch: any) {
+  private async getAgentReaction(agent: DebateAgent, pitch: DebatePitch) {
     const prompt = `You are ${agent.name}, ${agent.role}.
 
 Personality: ${agent.personality}
@@ -193,26 +317,10 @@ Format:
 
 Sentiment scale: -1 (very negative) to 1 (very positive)`;
 
-    const message = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4',
-      max_tokens: 200,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = message.content[0];
-    if (content.type !== 'text') throw new Error('Unexpected response type');
-    
-    // Parse JSON, handling potential formatting issues
-    const text = content.text.trim();
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-    
-    return JSON.parse(jsonMatch[0]);
+    return this.askForJSON<{ text: string; sentiment: number }>(prompt, 200);
   }
 
-  private async questioningRound(pitch: any) {
+  private async questioningRound(pitch: DebatePitch) {
     logger.info('\n❓ Phase 2: Questioning Round');
 
     this.broadcast({
@@ -225,7 +333,7 @@ Sentiment scale: -1 (very negative) to 1 (very positive)`;
     for (const agent of this.agents) {
       const questions = await this.getAgentQuestions(agent, pitch);
 
-      for (const question of questions) {
+      for (const [i, question] of questions.entries()) {
         this.transcript.push({
           speaker: agent.name,
           text: question,
@@ -238,13 +346,18 @@ Sentiment scale: -1 (very negative) to 1 (very positive)`;
           agentId: agent.id,
           agentName: agent.name,
           text: question,
-          avatar: agent.avatar
+          avatar: agent.avatar,
+          messageType: 'question'
         });
 
+        if (this.options.answerQuestion) {
+          await this.askFounder(agent, `${agent.id}_${i + 1}`, question);
+          continue;
+        }
+
         await this.sleep(3000);
 
-        // In real implementation, wait for founder response
-        // For now, simulate
+        // Without a founder in the room, note the unanswered question
         const founderResponse = `[Founder would respond here via video/audio]`;
         this.transcript.push({
           speaker: 'Founder',
@@ -256,7 +369,67 @@ Sentiment scale: -1 (very negative) to 1 (very positive)`;
     }
   }
 
-  private async getAgentQuestions(agent: DebateAgent, pitch: any): Promise<string[]> {
+  /**
+   * Pause the debate until the founder answers (or the question times out)
+   */
+  private async askFounder(agent: DebateAgent, questionId: string, question: string) {
+    this.throwIfCancelled();
+    const timeoutMs = this.options.answerTimeoutMs ?? 120000;
+
+    this.broadcast({
+      type: 'founder_question',
+      questionId,
+      agentId: agent.id,
+      question,
+      timeoutMs
+    });
+
+    let answer: string | null = null;
+    try {
+      answer = (await this.options.answerQuestion!({ questionId, agentId: agent.id, question, timeoutMs }))?.trim() || null;
+    } catch (error) {
+      logger.error('Founder answer error:', error);
+    }
+    this.throwIfCancelled();
+
+    this.founderQA.push({ agentName: agent.name, question, answer });
+
+    if (answer) {
+      this.transcript.push({
+        speaker: 'Founder',
+        text: answer,
+        timestamp: Date.now(),
+        type: 'answer'
+      });
+
+      this.broadcast({
+        type: 'agent_speaking',
+        agentId: 'founder',
+        agentName: 'Founder',
+        text: answer,
+        avatar: '🧑‍💼',
+        messageType: 'answer'
+      });
+    }
+
+    this.broadcast({ type: 'founder_answer', questionId, answer });
+  }
+
+  /**
+   * The founder's answers, for prompts after the questioning round. Kept
+   * whole since the recent-transcript window soon scrolls past them.
+   */
+  private founderAnswers(): string {
+    if (this.founderQA.length === 0) return '';
+
+    const exchanges = this.founderQA
+      .map(qa => `${qa.agentName} asked: ${qa.question}\nFounder: ${qa.answer ?? '(no answer)'}`)
+      .join('\n\n');
+
+    return `\nThe founder's answers to the council's questions:\n${exchanges}\n`;
+  }
+
+  private async getAgentQuestions(agent: DebateAgent, pitch: DebatePitch): Promise<string[]> {
     const prompt = `You are ${agent.name}, ${agent.role}.
 
 Personality: ${agent.personality}
@@ -265,33 +438,18 @@ Based on this pitch:
 Company: ${pitch.companyName}
 Industry: ${pitch.industry}
 Description: ${pitch.shortDescription}
-Problem: ${pitch.problemStatement}
-Solution: ${pitch.solution}
+Problem: ${pitch.problemStatement || 'Not provided'}
+Solution: ${pitch.solution || 'Not provided'}
 
 Ask 1-2 tough, specific questions that would help you evaluate this startup.
 Be direct and challenging. Use numbers/examples when possible.
 
 Return as JSON array: ["Question 1", "Question 2"]`;
 
-    const message = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4',
-      max_tokens: 300,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = message.content[0];
-    if (content.type !== 'text') throw new Error('Unexpected response type');
-    
-    const text = content.text.trim();
-    const jsonMatch = text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error('No JSON array found in response');
-    }
-    
-    return JSON.parse(jsonMatch[0]);
+    return this.askForJSON<string[]>(prompt, 300);
   }
 
-  private async agentDebate(pitch: any) {
+  private async agentDebate(pitch: DebatePitch) {
     logger.info('\n🗣️ Phase 3: Agent Debate');
 
     this.broadcast({
@@ -301,7 +459,7 @@ Return as JSON array: ["Question 1", "Question 2"]`;
     });
 
     // Agents debate each other for 8 exchanges
-    for (let round = 0; round < 8; round++) {
+    for (let round = 0; round < DEBATE_ROUNDS; round++) {
       // Pick two agents with differing sentiments
       const agents = this.selectDebatePair();
       
@@ -322,7 +480,8 @@ Return as JSON array: ["Question 1", "Question 2"]`;
           agentId: agent.id,
           agentName: agent.name,
           text: argument.text,
-          avatar: agent.avatar
+          avatar: agent.avatar,
+          messageType: argument.isRebuttal ? 'rebuttal' : 'argument'
         });
 
         this.broadcast({
@@ -344,7 +503,7 @@ Return as JSON array: ["Question 1", "Question 2"]`;
 
   private async getDebateArgument(
     agent: DebateAgent, 
-    pitch: any, 
+    pitch: DebatePitch, 
     transcript: DebateMessage[]
   ) {
     const recentDebate = transcript.slice(-5).map(m => `${m.speaker}: ${m.text}`).join('\n');
@@ -355,12 +514,13 @@ Personality: ${agent.personality}
 Current sentiment: ${agent.sentiment}
 
 Pitch: ${pitch.companyName} - ${pitch.shortDescription}
-
+${this.founderAnswers()}
 Recent debate:
 ${recentDebate}
 
 Make your argument. You can:
 - Defend your position
+- Weigh what the founder answered (or left unanswered)
 - Challenge another agent
 - Bring up new points
 - Change your mind if convinced
@@ -374,25 +534,10 @@ Format:
   "isRebuttal": false
 }`;
 
-    const message = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4',
-      max_tokens: 300,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = message.content[0];
-    if (content.type !== 'text') throw new Error('Unexpected response type');
-    
-    const text = content.text.trim();
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-    
-    return JSON.parse(jsonMatch[0]);
+    return this.askForJSON<{ text: string; sentiment: number; isRebuttal: boolean }>(prompt, 300);
   }
 
-  private async buildConsensus(pitch: any) {
+  private async buildConsensus(pitch: DebatePitch) {
     logger.info('\n🤝 Phase 4: Building Consensus');
 
     this.broadcast({
@@ -402,9 +547,11 @@ Format:
     });
 
     // Each agent gives final verdict
+    const verdicts: FinalVerdict[] = [];
     for (const agent of this.agents) {
       const verdict = await this.getFinalVerdict(agent, pitch, this.transcript);
-      
+      verdicts.push(verdict);
+
       agent.position = verdict.position;
       
       this.transcript.push({
@@ -419,7 +566,8 @@ Format:
         agentId: agent.id,
         agentName: agent.name,
         text: verdict.text,
-        avatar: agent.avatar
+        avatar: agent.avatar,
+        messageType: 'consensus'
       });
 
       this.broadcast({
@@ -431,28 +579,56 @@ Format:
       await this.sleep(3000);
     }
 
-    // Calculate final decision
+    // Calculate final decision: any lean for the pitch approves it, unless vetoed
     const yesVotes = this.agents.filter(a => a.position === 'YES').length;
     const noVotes = this.agents.filter(a => a.position === 'NO').length;
     const maybeVotes = this.agents.filter(a => a.position === 'MAYBE').length;
-    
-    const decision: 'APPROVED' | 'REJECTED' = yesVotes > noVotes ? 'APPROVED' : 'REJECTED';
-    const confidence = Math.abs(yesVotes - noVotes) / this.agents.length;
 
-    logger.info(`\n✅ Final Decision: ${decision} (${yesVotes} YES, ${noVotes} NO, ${maybeVotes} MAYBE)`);
+    const consensus = reachConsensus(this.consensusVotes(pitch, verdicts), { acceptAbove: 0, rejectBelow: 0 });
+    const decision: DebateDecision = consensus.outcome === 'accept' ? 'APPROVED' : 'REJECTED';
+    const confidence = Math.round(Math.abs(consensus.score) * 100) / 100;
+
+    logger.info(`\n✅ Final Decision: ${decision} (${yesVotes} YES, ${noVotes} NO, ${maybeVotes} MAYBE, ${consensus.vetoes.length} vetoes)`);
 
     return {
       decision,
       confidence,
       offers: decision === 'APPROVED' ? this.generateOffers(pitch) : [],
       transcript: this.transcript,
-      votes: { yes: yesVotes, no: noVotes, maybe: maybeVotes }
+      votes: { yes: yesVotes, no: noVotes, maybe: maybeVotes },
+      consensus
     };
   }
 
+  /**
+   * Final verdicts as consensus votes. A member who didn't say how sure
+   * they are is as sure as their sentiment is strong.
+   */
+  private consensusVotes(pitch: DebatePitch, verdicts: FinalVerdict[]): ConsensusVote[] {
+    const pitchText = `${pitch.companyName} ${pitch.industry} ${pitch.shortDescription} ${pitch.problemStatement ?? ''} ${pitch.solution ?? ''}`;
+
+    return this.agents.map((agent, i) => {
+      const verdict = verdicts[i];
+      const confidence = typeof verdict.confidence === 'number'
+        ? Math.min(Math.max(verdict.confidence, 0), 1)
+        : 0.5 + Math.abs(agent.sentiment) / 2;
+
+      return {
+        voterId: agent.id,
+        voterName: agent.name,
+        domain: agent.role,
+        stance: POSITION_STANCE[verdict.position] ?? 0,
+        confidence,
+        relevance: keywordRelevance(COUNCIL_EXPERTISE[agent.id] ?? [], pitchText),
+        concerns: Array.isArray(verdict.redFlags) ? verdict.redFlags : [],
+        reasoning: verdict.text
+      };
+    });
+  }
+
   private async getFinalVerdict(
     agent: DebateAgent,
-    pitch: any,
+    pitch: DebatePitch,
     transcript: DebateMessage[]
   ) {
     const debateSummary = transcript.slice(-20).map(m => `${m.speaker}: ${m.text}`).join('\n');
@@ -461,36 +637,38 @@ Format:
 
 After this entire debate:
 ${debateSummary}
-
+${this.founderAnswers()}
 Give your final verdict on whether to fund this startup.
 
 Format:
 {
   "position": "YES",
-  "text": "My final decision is YES/NO/MAYBE because..."
+  "confidence": 0.7,
+  "text": "My final decision is YES/NO/MAYBE because...",
+  "redFlags": []
 }
 
-Position must be one of: YES, NO, MAYBE`;
+Position must be one of: YES, NO, MAYBE
+Confidence: how sure you are, 0 to 1
+Red flags: only disqualifying issues (e.g. security holes, legal exposure), otherwise []`;
 
-    const message = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4',
-      max_tokens: 200,
-      messages: [{ role: 'user', content: prompt }]
-    });
+    return this.askForJSON<FinalVerdict>(prompt, 250);
+  }
 
-    const content = message.content[0];
-    if (content.type !== 'text') throw new Error('Unexpected response type');
-    
-    const text = content.text.trim();
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-    
-    return JSON.parse(jsonMatch[0]);
+  /**
+   * Single-turn agent call whose reply is parsed as JSON
+   */
+  private async askForJSON<T>(prompt: string, maxTokens: number): Promise<T> {
+    this.throwIfCancelled();
+    const response = await llm.chat(
+      'conversation',
+      [{ role: 'user', content: prompt }],
+      { maxTokens }
+    );
+    return extractJSON(response.content) as T;
   }
 
-  private generateOffers(pitch: any): any[] {
+  private generateOffers(pitch: DebatePitch): DebateOffer[] {
     // Generate funding offers from agents who voted YES
     const supportiveAgents = this.agents.filter(a => a.position === 'YES');
     
@@ -507,14 +685,23 @@ Position must be one of: YES, NO, MAYBE`;
     }));
   }
 
-  private broadcast(data: any) {
-    if (this.broadcastCallback) {
-      this.broadcastCallback(data);
+  // A viewer that goes away mustn't stop the debate
+  private broadcast(event: DebateEvent) {
+    if (!this.broadcastCallback) return;
+    try {
+      this.broadcastCallback(event);
+    } catch (error) {
+      logger.error('Debate broadcast error:', error);
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async sleep(ms: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, ms));
+    this.throwIfCancelled();
+  }
+
+  private throwIfCancelled() {
+    if (this.options.signal?.aborted) throw new Error('Debate cancelled');
   }
 
   // Public method to get current state
@@ -0,0 +1,206 @@
+/**
+ * Live AI Council State
+ *
+ * Folds the council's broadcast events (live, over SSE) or a stored debate
+ * into what the council page renders: each member's sentiment and position,
+ * the current phase and speaker, the transcript and any questions put to
+ * the founder. Pure and type-only
+ * imports, so client components can use it.
+ */
+
+import type {
+  DebateAgent,
+  DebateDecision,
+  DebateEvent,
+  DebateMessage,
+  DebatePhase,
+} from './debate-orchestrator';
+import type { CouncilDebateDetail } from '@/types/dashboard';
+
+/**
+ * Events on GET /api/pitches/[id]/council-stream: `started` with the stored
+ * debate id, the orchestrator's, then `complete`, or `error`
+ */
+export type CouncilStreamEvent =
+  | { type: 'started'; debateId: string; interactive: boolean }
+  | DebateEvent
+  | { type: 'complete'; debateId: string }
+  | { type: 'error'; error: string; data?: Record<string, unknown> };
+
+export type CouncilMember = Pick<DebateAgent, 'id' | 'name' | 'role' | 'avatar' | 'sentiment' | 'position'>;
+
+export interface CouncilSpeech {
+  agentId: string | null;
+  speaker: string;
+  text: string;
+  type: DebateMessage['type'];
+}
+
+/** A question put to the founder in an interactive debate */
+export interface CouncilFounderQuestion {
+  questionId: string;
+  agentId: string;
+  question: string;
+  timeoutMs: number;
+  status: 'open' | 'answered' | 'timed_out';
+}
+
+export interface CouncilState {
+  /** Stored debate, once the stream has started */
+  debateId: string | null;
+  interactive: boolean;
+  /** Members in seat order */
+  members: CouncilMember[];
+  phase: DebatePhase | null;
+  phaseDescription: string | null;
+  speakingAgentId: string | null;
+  speeches: CouncilSpeech[];
+  founderQuestions: CouncilFounderQuestion[];
+  decision: DebateDecision | null;
+  confidence: number | null;
+  done: boolean;
+  error: string | null;
+}
+
+export function emptyCouncilState(): CouncilState {
+  return {
+    debateId: null,
+    interactive: false,
+    members: [],
+    phase: null,
+    phaseDescription: null,
+    speakingAgentId: null,
+    speeches: [],
+    founderQuestions: [],
+    decision: null,
+    confidence: null,
+    done: false,
+    error: null,
+  };
+}
+
+function updateMember(state: CouncilState, agentId: string, update: Partial<CouncilMember>): CouncilState {
+  return {
+    ...state,
+    members: state.members.map(member => (member.id === agentId ? { ...member, ...update } : member)),
+  };
+}
+
+/**
+ * Apply one stream event; returns a new state (React state friendly)
+ */
+export function applyCouncilEvent(state: CouncilState, event: CouncilStreamEvent): CouncilState {
+  switch (event.type) {
+    case 'started':
+      return { ...state, debateId: event.debateId, interactive: event.interactive };
+
+    case 'debate_started':
+      return {
+        ...emptyCouncilState(),
+        debateId: state.debateId,
+        interactive: state.interactive,
+        members: event.agents.map(({ id, name, role, avatar, sentiment, position }) => ({
+          id,
+          name,
+          role,
+          avatar,
+          sentiment,
+          position,
+        })),
+      };
+
+    case 'phase_change':
+      return { ...state, phase: event.phase, phaseDescription: event.description, speakingAgentId: null };
+
+    case 'agent_speaking':
+      return {
+        ...state,
+        speakingAgentId: event.agentId,
+        speeches: [
+          ...state.speeches,
+          { agentId: event.agentId, speaker: event.agentName, text: event.text, type: event.messageType },
+        ],
+      };
+
+    case 'founder_question':
+      return {
+        ...state,
+        speakingAgentId: event.agentId,
+        founderQuestions: [
+          ...state.founderQuestions,
+          {
+            questionId: event.questionId,
+            agentId: event.agentId,
+            question: event.question,
+            timeoutMs: event.timeoutMs,
+            status: 'open',
+          },
+        ],
+      };
+
+    case 'founder_answer':
+      return {
+        ...state,
+        founderQuestions: state.founderQuestions.map(question =>
+          question.questionId === event.questionId
+            ? { ...question, status: event.answer === null ? 'timed_out' : 'answered' }
+            : question
+        ),
+      };
+
+    case 'sentiment_update':
+      return updateMember(state, event.agentId, { sentiment: event.sentiment });
+
+    case 'position_update':
+      return updateMember(state, event.agentId, { position: event.position });
+
+    case 'debate_complete':
+      return { ...state, speakingAgentId: null, decision: event.decision, confidence: event.confidence };
+
+    case 'complete':
+      return { ...state, done: true };
+
+    case 'error':
+      return {
+        ...state,
+        speakingAgentId: null,
+        founderQuestions: state.founderQuestions.map(question =>
+          question.status === 'open' ? { ...question, status: 'timed_out' } : question
+        ),
+        done: true,
+        error: event.error,
+      };
+  }
+}
+
+/**
+ * The final state of a stored debate
+ */
+export function councilStateFromDebate(debate: CouncilDebateDetail): CouncilState {
+  const agentIds = new Map(debate.votes.map(vote => [vote.agentName, vote.agentId]));
+
+  return {
+    ...emptyCouncilState(),
+    debateId: debate.id,
+    interactive: debate.interactive,
+    members: debate.votes.map(vote => ({
+      id: vote.agentId,
+      name: vote.agentName,
+      role: vote.role,
+      avatar: vote.avatar,
+      sentiment: vote.sentiment,
+      position: vote.position,
+    })),
+    phase: debate.status === 'COMPLETED' ? 'consensus' : null,
+    speeches: debate.transcript.map(message => ({
+      agentId: agentIds.get(message.speaker) ?? null,
+      speaker: message.speaker,
+      text: message.text,
+      type: message.type,
+    })),
+    decision: debate.decision,
+    confidence: debate.confidence,
+    done: debate.status !== 'RUNNING',
+    error: debate.error,
+  };
+}
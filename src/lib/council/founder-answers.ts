@@ -0,0 +1,64 @@
+/**
+ * Founder Answers
+ *
+ * Questions an interactive council debate is waiting on. The debate runs in
+ * the process serving its stream and answers arrive through the answers API
+ * on the same server, so pending questions are kept in memory: a question
+ * resolves with the founder's answer, or with null once its timeout passes.
+ */
+
+export const DEFAULT_FOUNDER_ANSWER_TIMEOUT_MS = 120_000;
+export const MIN_FOUNDER_ANSWER_TIMEOUT_MS = 10_000;
+export const MAX_FOUNDER_ANSWER_TIMEOUT_MS = 600_000;
+
+interface PendingQuestion {
+  resolve: (answer: string | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pending = new Map<string, PendingQuestion>();
+
+const key = (debateId: string, questionId: string) => `${debateId}:${questionId}`;
+
+/**
+ * Wait for the founder to answer a question; null after `timeoutMs`
+ */
+export function awaitFounderAnswer(debateId: string, questionId: string, timeoutMs: number): Promise<string | null> {
+  const id = key(debateId, questionId);
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      resolve(null);
+    }, timeoutMs);
+
+    pending.set(id, { resolve, timer });
+  });
+}
+
+/**
+ * Deliver an answer. False when the question isn't open (unknown, already
+ * answered or timed out).
+ */
+export function submitFounderAnswer(debateId: string, questionId: string, answer: string): boolean {
+  const id = key(debateId, questionId);
+  const question = pending.get(id);
+  if (!question) return false;
+
+  clearTimeout(question.timer);
+  pending.delete(id);
+  question.resolve(answer);
+  return true;
+}
+
+/**
+ * Close every open question of a debate (it ended or failed)
+ */
+export function cancelFounderQuestions(debateId: string): void {
+  for (const [id, question] of pending) {
+    if (!id.startsWith(`${debateId}:`)) continue;
+    clearTimeout(question.timer);
+    pending.delete(id);
+    question.resolve(null);
+  }
+}
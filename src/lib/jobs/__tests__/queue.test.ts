@@ -0,0 +1,95 @@
+/**
+ * Tests for the durable job queue (claiming, retries, dead-lettering)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Job } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { jobQueue, retryDelayMs, PermanentJobError } from '../queue';
+
+const findMany = vi.mocked(prisma.job.findMany);
+const updateMany = vi.mocked(prisma.job.updateMany);
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job_1',
+    type: 'analyze_startup',
+    payload: { startupId: 'startup_1' },
+    status: 'RUNNING',
+    startupId: 'startup_1',
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date(),
+    lockedBy: 'worker_1',
+    lockedUntil: new Date(Date.now() + 60_000),
+    lastError: null,
+    result: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    startedAt: new Date(),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe('jobQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('backs off exponentially with a cap', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+    expect(retryDelayMs(20)).toBe(30 * 60 * 1000);
+  });
+
+  it('skips candidates another worker claimed first', async () => {
+    findMany.mockResolvedValue([makeJob({ id: 'a', status: 'PENDING' }), makeJob({ id: 'b', status: 'PENDING' })]);
+    updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(makeJob({ id: 'b' }));
+
+    const job = await jobQueue.claim('worker_1');
+
+    expect(job?.id).toBe('b');
+    expect(updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('only claims a specific job when no live worker holds it', async () => {
+    vi.mocked(prisma.job.findUnique).mockResolvedValueOnce(makeJob());
+
+    expect(await jobQueue.claimJob('job_1', 'sse_1')).toBeNull();
+    expect(updateMany).not.toHaveBeenCalled();
+
+    vi.mocked(prisma.job.findUnique)
+      .mockResolvedValueOnce(makeJob({ status: 'PENDING', attempts: 0, lockedBy: null, lockedUntil: null }))
+      .mockResolvedValueOnce(makeJob({ lockedBy: 'sse_1' }));
+
+    expect((await jobQueue.claimJob('job_1', 'sse_1'))?.lockedBy).toBe('sse_1');
+  });
+
+  it('schedules a retry while attempts remain', async () => {
+    const status = await jobQueue.fail(makeJob({ attempts: 1 }), 'worker_1', new Error('timeout'));
+
+    expect(status).toBe('PENDING');
+    expect(updateMany.mock.calls[0][0]?.data).toMatchObject({ status: 'PENDING', lastError: 'timeout' });
+  });
+
+  it('dead-letters on the final attempt or a permanent error', async () => {
+    expect(await jobQueue.fail(makeJob({ attempts: 3 }), 'worker_1', new Error('timeout'))).toBe('DEAD');
+    expect(await jobQueue.fail(makeJob({ attempts: 1 }), 'worker_1', new PermanentJobError('over budget'))).toBe('DEAD');
+  });
+});
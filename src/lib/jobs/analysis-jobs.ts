@@ -0,0 +1,115 @@
+/**
+ * Startup Analysis Jobs
+ *
+ * Runs the analysis pipeline on the job queue instead of inside the HTTP
+ * request, and recovers startups left in ANALYZING by a crashed or
+ * timed-out process.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import type { Job } from '@prisma/client';
+import { runAnalysisPipeline, type PipelineEventListener } from '@/lib/agents/pipeline';
+import { BudgetExceededError } from '@/lib/billing/budget';
+import { jobQueue, JOB_TYPES, PermanentJobError } from './queue';
+import type { JobHandler } from './worker';
+
+export interface AnalyzeStartupPayload {
+  startupId: string;
+}
+
+/**
+ * ANALYZING startups untouched for this long with no live job are stale
+ */
+export const STALE_ANALYSIS_MS = 15 * 60 * 1000;
+
+/**
+ * Queue an analysis, reusing the startup's pending/running job if there is one
+ */
+export async function enqueueAnalysis(startupId: string): Promise<{ job: Job; created: boolean }> {
+  const active = await jobQueue.findActive(JOB_TYPES.ANALYZE_STARTUP, startupId);
+  if (active) {
+    return { job: active, created: false };
+  }
+
+  const payload: AnalyzeStartupPayload = { startupId };
+  const job = await jobQueue.enqueue(JOB_TYPES.ANALYZE_STARTUP, { ...payload }, { startupId });
+  return { job, created: true };
+}
+
+/**
+ * Job handler for analyses; `onEvent` receives the pipeline's lifecycle
+ * events (used when a request runs the job itself to stream progress)
+ */
+export function createAnalyzeStartupJob(onEvent?: PipelineEventListener): JobHandler {
+  return {
+    run: job => runAnalysisJob(job, onEvent),
+    onDead: markAnalysisDead,
+  };
+}
+
+async function runAnalysisJob(job: Job, onEvent?: PipelineEventListener) {
+  const { startupId } = job.payload as unknown as AnalyzeStartupPayload;
+
+  try {
+    const analysis = await runAnalysisPipeline(startupId, onEvent);
+    return {
+      overallScore: analysis.synthesis.overallScore,
+      recommendation: analysis.synthesis.recommendation,
+      partial: analysis.partial,
+      missingAgents: analysis.missingAgents,
+    };
+  } catch (error) {
+    // Retrying cannot help until the budget resets
+    if (error instanceof BudgetExceededError) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+async function markAnalysisDead(job: Job) {
+  const { startupId } = job.payload as unknown as AnalyzeStartupPayload;
+
+  // Don't leave the startup stuck if the worker died mid-analysis
+  await prisma.startup.updateMany({
+    where: { id: startupId, status: 'ANALYZING' },
+    data: { status: 'PENDING' },
+  });
+}
+
+export const analyzeStartupJob = createAnalyzeStartupJob();
+
+/**
+ * Re-queue startups stuck in ANALYZING with no pending or running job.
+ * Called on worker start.
+ */
+export async function recoverStaleAnalyses(): Promise<number> {
+  const stale = await prisma.startup.findMany({
+    where: {
+      status: 'ANALYZING',
+      updatedAt: { lt: new Date(Date.now() - STALE_ANALYSIS_MS) },
+      jobs: {
+        none: {
+          type: JOB_TYPES.ANALYZE_STARTUP,
+          status: { in: ['PENDING', 'RUNNING'] },
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  for (const { id } of stale) {
+    await prisma.startup.update({
+      where: { id },
+      data: { status: 'PENDING' },
+    });
+    await enqueueAnalysis(id);
+  }
+
+  if (stale.length > 0) {
+    logger.info(`[Jobs] Re-queued ${stale.length} stale ANALYZING startups`);
+  }
+
+  return stale.length;
+}
@@ -0,0 +1,266 @@
+/**
+ * Durable Job Queue
+ *
+ * Database-backed queue so long-running work (startup analysis) survives
+ * request timeouts and process crashes:
+ *
+ * - Workers claim jobs with a time-limited lease (`lockedBy`/`lockedUntil`)
+ *   and renew it while running. A job whose lease expires is picked up again.
+ * - Failures are retried with exponential backoff via `runAt`.
+ * - Jobs that run out of attempts (or fail permanently) move to `DEAD`.
+ *
+ * Claims use a conditional `updateMany`, so two workers can never hold the
+ * same job even without row locks (SQLite).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import type { Job, Prisma } from '@prisma/client';
+
+export const JOB_TYPES = {
+  ANALYZE_STARTUP: 'analyze_startup',
+} as const;
+
+export type JobType = (typeof JOB_TYPES)[keyof typeof JOB_TYPES];
+
+export const DEFAULT_LEASE_MS = 5 * 60 * 1000; // 5 min, renewed while running
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const CLAIM_BATCH_SIZE = 5;
+
+/**
+ * Throw from a handler to skip remaining retries (e.g. budget exceeded)
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export interface EnqueueOptions {
+  startupId?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): 30s, 1m, 2m, ... capped at 30m
+ */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Public view of a job for status polling (no payload, lease or worker ids)
+ */
+export function toJobStatus(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    nextRunAt: job.status === 'PENDING' ? job.runAt : null,
+    lastError: job.lastError,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+class JobQueue {
+  async enqueue(
+    type: JobType,
+    payload: Prisma.InputJsonValue,
+    options: EnqueueOptions = {}
+  ): Promise<Job> {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        payload,
+        startupId: options.startupId,
+        maxAttempts: options.maxAttempts,
+        runAt: options.runAt,
+      },
+    });
+
+    logger.info(`[Jobs] Enqueued ${type} job ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Pending or running job of a type for a startup, if any
+   */
+  async findActive(type: JobType, startupId: string): Promise<Job | null> {
+    return prisma.job.findFirst({
+      where: {
+        type,
+        startupId,
+        status: { in: ['PENDING', 'RUNNING'] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getLatestForStartup(startupId: string): Promise<Job | null> {
+    return prisma.job.findFirst({
+      where: { startupId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Claim the next runnable job: a due pending job, or a running job whose
+   * lease expired (its worker died). Returns null when nothing is runnable.
+   */
+  async claim(workerId: string, leaseMs = DEFAULT_LEASE_MS): Promise<Job | null> {
+    const now = new Date();
+
+    const candidates = await prisma.job.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING', runAt: { lte: now } },
+          { status: 'RUNNING', lockedUntil: { lt: now } },
+        ],
+      },
+      orderBy: { runAt: 'asc' },
+      take: CLAIM_BATCH_SIZE,
+    });
+
+    for (const candidate of candidates) {
+      const job = await this.tryClaim(candidate, workerId, leaseMs);
+      if (job) return job;
+    }
+
+    return null;
+  }
+
+  /**
+   * Claim a specific job (e.g. to run it in-request), unless it is already
+   * held by a live worker
+   */
+  async claimJob(jobId: string, workerId: string, leaseMs = DEFAULT_LEASE_MS): Promise<Job | null> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) return null;
+
+    const runnable = job.status === 'PENDING' ||
+      (job.status === 'RUNNING' && job.lockedUntil !== null && job.lockedUntil < new Date());
+    return runnable ? this.tryClaim(job, workerId, leaseMs) : null;
+  }
+
+  private async tryClaim(candidate: Job, workerId: string, leaseMs: number): Promise<Job | null> {
+    // Crashed on its final attempt: nothing left to retry
+    if (candidate.attempts >= candidate.maxAttempts) return null;
+
+    const now = new Date();
+    const { count } = await prisma.job.updateMany({
+      where: {
+        id: candidate.id,
+        status: candidate.status,
+        attempts: candidate.attempts,
+      },
+      data: {
+        status: 'RUNNING',
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        attempts: { increment: 1 },
+        startedAt: now,
+      },
+    });
+
+    // Another worker got there first
+    if (count === 0) return null;
+
+    return prisma.job.findUnique({ where: { id: candidate.id } });
+  }
+
+  /**
+   * Extend the lease on a running job. Returns false if the lease was lost.
+   */
+  async renewLease(jobId: string, workerId: string, leaseMs = DEFAULT_LEASE_MS): Promise<boolean> {
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: 'RUNNING' },
+      data: { lockedUntil: new Date(Date.now() + leaseMs) },
+    });
+    return count === 1;
+  }
+
+  async complete(job: Job, workerId: string, result?: Prisma.InputJsonValue): Promise<void> {
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status: 'COMPLETED',
+        result,
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry with backoff, or dead-letter
+   * the job. Returns the new status.
+   */
+  async fail(job: Job, workerId: string, error: unknown): Promise<'PENDING' | 'DEAD'> {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: dead
+        ? {
+            status: 'DEAD',
+            lastError: message,
+            lockedBy: null,
+            lockedUntil: null,
+            completedAt: new Date(),
+          }
+        : {
+            status: 'PENDING',
+            lastError: message,
+            lockedBy: null,
+            lockedUntil: null,
+            runAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+          },
+    });
+
+    if (dead) {
+      logger.error(`[Jobs] ${job.type} job ${job.id} dead after ${job.attempts} attempts: ${message}`);
+    } else {
+      logger.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying`);
+    }
+
+    return dead ? 'DEAD' : 'PENDING';
+  }
+
+  /**
+   * Dead-letter running jobs whose lease expired on their final attempt
+   */
+  async reapExpired(): Promise<Job[]> {
+    const expired = await prisma.job.findMany({
+      where: { status: 'RUNNING', lockedUntil: { lt: new Date() } },
+    });
+
+    const reaped: Job[] = [];
+    for (const job of expired) {
+      if (job.attempts < job.maxAttempts) continue;
+
+      const { count } = await prisma.job.updateMany({
+        where: { id: job.id, status: 'RUNNING', lockedUntil: job.lockedUntil },
+        data: {
+          status: 'DEAD',
+          lastError: job.lastError || 'Worker lease expired',
+          lockedBy: null,
+          lockedUntil: null,
+          completedAt: new Date(),
+        },
+      });
+      if (count === 1) reaped.push(job);
+    }
+
+    return reaped;
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,137 @@
+/**
+ * Job Worker
+ *
+ * Polls the queue, runs one job at a time and keeps its lease alive while
+ * the handler runs. Handlers are registered per job type.
+ *
+ * @example
+ * const worker = new JobWorker();
+ * worker.register(JOB_TYPES.ANALYZE_STARTUP, analyzeStartupJob);
+ * await worker.start();
+ */
+
+import { hostname } from 'os';
+import { logger } from '@/lib/logger';
+import type { Job, Prisma } from '@prisma/client';
+import { jobQueue, DEFAULT_LEASE_MS, type JobType } from './queue';
+
+export interface JobHandler {
+  run(job: Job): Promise<Prisma.InputJsonValue | void>;
+  /** Called once a job is dead-lettered (out of attempts or permanent failure) */
+  onDead?(job: Job, error: string): Promise<void>;
+}
+
+export interface WorkerOptions {
+  workerId?: string;
+  pollIntervalMs?: number;
+  leaseMs?: number;
+  /** Runs once before polling starts (e.g. crash recovery) */
+  onStart?: () => Promise<void>;
+}
+
+export class JobWorker {
+  readonly workerId: string;
+  private handlers = new Map<string, JobHandler>();
+  private pollIntervalMs: number;
+  private leaseMs: number;
+  private onStart?: () => Promise<void>;
+  private running = false;
+
+  constructor(options: WorkerOptions = {}) {
+    this.workerId = options.workerId || `${hostname()}:${process.pid}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.onStart = options.onStart;
+  }
+
+  register(type: JobType, handler: JobHandler): this {
+    this.handlers.set(type, handler);
+    return this;
+  }
+
+  /**
+   * Poll until `stop()` is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    logger.info(`[Worker] ${this.workerId} starting`);
+
+    if (this.onStart) {
+      await this.onStart();
+    }
+
+    while (this.running) {
+      try {
+        const processed = await this.runOnce();
+        if (!processed) await this.sleep(this.pollIntervalMs);
+      } catch (error) {
+        logger.error('[Worker] Poll failed:', error);
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+
+    logger.info(`[Worker] ${this.workerId} stopped`);
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Claim and run a single job. Returns false when the queue was empty.
+   */
+  async runOnce(): Promise<boolean> {
+    for (const job of await jobQueue.reapExpired()) {
+      await this.notifyDead(job, job.lastError || 'Worker lease expired');
+    }
+
+    const job = await jobQueue.claim(this.workerId, this.leaseMs);
+    if (!job) return false;
+
+    await this.execute(job);
+    return true;
+  }
+
+  /**
+   * Run a job this worker has claimed, recording success or failure
+   */
+  async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      const error = `No handler registered for job type "${job.type}"`;
+      await jobQueue.fail(job, this.workerId, error);
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      jobQueue.renewLease(job.id, this.workerId, this.leaseMs).catch(error => {
+        logger.error(`[Worker] Lease renewal failed for job ${job.id}:`, error);
+      });
+    }, Math.floor(this.leaseMs / 3));
+
+    try {
+      logger.info(`[Worker] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+      const result = await handler.run(job);
+      await jobQueue.complete(job, this.workerId, result ?? undefined);
+    } catch (error) {
+      const status = await jobQueue.fail(job, this.workerId, error);
+      if (status === 'DEAD') {
+        await this.notifyDead(job, error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async notifyDead(job: Job, error: string): Promise<void> {
+    try {
+      await this.handlers.get(job.type)?.onDead?.(job, error);
+    } catch (hookError) {
+      logger.error(`[Worker] onDead hook failed for job ${job.id}:`, hookError);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for the LLM provider layer (routing, retries, fallback)
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { LLMProvider, type LLMUsageEvent } from '../provider';
+import { withLLMContext } from '../context';
+import { computeCostUsd } from '../pricing';
+import { MockDriver } from '../drivers/mock-driver';
+import { resolveRoute } from '../routing';
+import {
+  LLMProviderError,
+  type LLMDriver,
+  type LLMRequest,
+  type LLMResponse,
+  type ProviderName,
+} from '../types';
+
+class FlakyDriver implements LLMDriver {
+  calls: LLMRequest[] = [];
+
+  constructor(
+    readonly name: ProviderName,
+    private failures: LLMProviderError[] = [],
+    private configured = true
+  ) {}
+
+  isConfigured() {
+    return this.configured;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.calls.push(request);
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    return {
+      content: `${this.name}:${request.model}`,
+      provider: this.name,
+      model: request.model,
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      latencyMs: 0,
+    };
+  }
+}
+
+const messages = [{ role: 'user' as const, content: 'hello' }];
+
+describe('LLMProvider', () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_ROUTE_SIMPLE;
+  });
+
+  it('routes a task to its primary target', async () => {
+    const openai = new FlakyDriver('openai');
+    const provider = new LLMProvider([openai]);
+
+    const response = await provider.chat('simple', messages);
+
+    expect(response.provider).toBe('openai');
+    expect(openai.calls[0].model).toBe(resolveRoute('simple').primary.model);
+  });
+
+  it('retries retriable errors on the same target', async () => {
+    const openai = new FlakyDriver('openai', [
+      new LLMProviderError('rate limited', 'openai', true, 429),
+    ]);
+    const provider = new LLMProvider([openai]);
+
+    const response = await provider.chat('simple', messages, { maxRetries: 1 });
+
+    expect(response.provider).toBe('openai');
+    expect(openai.calls).toHaveLength(2);
+  });
+
+  it('falls back to the secondary provider on non-retriable errors', async () => {
+    const openai = new FlakyDriver('openai', [
+      new LLMProviderError('bad request', 'openai', false, 400),
+    ]);
+    const anthropic = new FlakyDriver('anthropic');
+    const provider = new LLMProvider([openai, anthropic]);
+
+    const response = await provider.chat('complex', messages);
+
+    expect(openai.calls).toHaveLength(1);
+    expect(response.provider).toBe('anthropic');
+  });
+
+  it('skips unconfigured drivers', async () => {
+    const openai = new FlakyDriver('openai', [], false);
+    const anthropic = new FlakyDriver('anthropic');
+    const provider = new LLMProvider([openai, anthropic]);
+
+    const response = await provider.chat('complex', messages);
+
+    expect(openai.calls).toHaveLength(0);
+    expect(response.provider).toBe('anthropic');
+  });
+
+  it('honours per-task env overrides', async () => {
+    process.env.LLM_ROUTE_SIMPLE = 'kimi:moonshot-v1-32k';
+    const kimi = new FlakyDriver('kimi');
+    const provider = new LLMProvider([kimi]);
+
+    const response = await provider.chat('simple', messages);
+
+    expect(response.model).toBe('moonshot-v1-32k');
+  });
+
+  it('returns schema-valid structured output from the mock driver', async () => {
+    process.env.LLM_PROVIDER = 'mock';
+    const provider = new LLMProvider([new MockDriver()]);
+    const schema = z.object({
+      score: z.number().min(0).max(100),
+      strengths: z.array(z.string()),
+      verdict: z.enum(['yes', 'no']),
+    });
+
+    const { data } = await provider.structured('simple', messages, schema);
+
+    expect(data).toEqual({ score: 50, strengths: ['mock strengths'], verdict: 'yes' });
+  });
+
+  it('emits usage events with the active call context', async () => {
+    const provider = new LLMProvider([new FlakyDriver('openai')]);
+    const events: LLMUsageEvent[] = [];
+    provider.addUsageListener(event => {
+      events.push(event);
+    });
+
+    await withLLMContext({ startupId: 'startup_1' }, () =>
+      withLLMContext({ agentType: 'FINANCIAL_ANALYST' }, () =>
+        provider.chat('simple', messages)
+      )
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].task).toBe('simple');
+    expect(events[0].context).toEqual({ startupId: 'startup_1', agentType: 'FINANCIAL_ANALYST' });
+  });
+
+  it('prices usage by model family', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+    expect(computeCostUsd('gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(computeCostUsd('gpt-4o', usage)).toBeCloseTo(12.5);
+    expect(computeCostUsd('unknown-model', usage)).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for the record/replay LLM driver
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ReplayDriver, fixtureKey } from '../drivers/replay-driver';
+import { MockDriver } from '../drivers/mock-driver';
+import { LLMProviderError, type LLMRequest } from '../types';
+
+const request: LLMRequest = {
+  model: 'gpt-4o-mini',
+  messages: [
+    { role: 'system', content: 'You are a financial analyst.' },
+    { role: 'user', content: 'Score this startup.' },
+  ],
+  temperature: 0.3,
+  maxTokens: 1000,
+};
+
+describe('ReplayDriver', () => {
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('records a fixture and replays it without the live driver', async () => {
+    const live = new MockDriver(() => '{"score": 72}');
+    const recorder = new ReplayDriver(live, { mode: 'record', fixturesDir });
+    await recorder.complete(request);
+
+    expect(readdirSync(fixturesDir)).toEqual([`${fixtureKey(request.model, request.messages)}.json`]);
+
+    const offline = new MockDriver(() => {
+      throw new Error('live driver should not be called');
+    });
+    const replayer = new ReplayDriver(offline, { mode: 'replay', fixturesDir });
+    const response = await replayer.complete(request);
+
+    expect(response.content).toBe('{"score": 72}');
+    expect(response.model).toBe('gpt-4o-mini');
+  });
+
+  it('fails with a non-retriable error when a fixture is missing', async () => {
+    const replayer = new ReplayDriver(new MockDriver(), { mode: 'replay', fixturesDir });
+
+    await expect(replayer.complete(request)).rejects.toBeInstanceOf(LLMProviderError);
+    await expect(replayer.complete(request)).rejects.toMatchObject({ retriable: false });
+  });
+
+  it('keys fixtures on model and messages only', () => {
+    const key = fixtureKey(request.model, request.messages);
+
+    expect(fixtureKey(request.model, [...request.messages])).toBe(key);
+    expect(fixtureKey('gpt-4o', request.messages)).not.toBe(key);
+    expect(fixtureKey(request.model, request.messages.slice(1))).not.toBe(key);
+  });
+});
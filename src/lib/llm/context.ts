@@ -0,0 +1,29 @@
+/**
+ * Call attribution context
+ *
+ * Orchestrators wrap agent runs in `withLLMContext` so every model call made
+ * underneath (however deeply nested) can be attributed to a startup, user
+ * and agent without threading ids through each agent's API. Nested contexts
+ * inherit and override the enclosing one.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface LLMCallContext {
+  startupId?: string | null;
+  userId?: string | null;
+  /** Agent identifier, e.g. `FINANCIAL_ANALYST` or a swarm agent type */
+  agentType?: string;
+  /** Serve expensive tasks from cheaper routes (budget degradation) */
+  downgrade?: boolean;
+}
+
+const storage = new AsyncLocalStorage<LLMCallContext>();
+
+export function withLLMContext<T>(context: LLMCallContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function getLLMContext(): LLMCallContext {
+  return storage.getStore() || {};
+}
@@ -0,0 +1,83 @@
+/**
+ * Anthropic (Claude) driver
+ *
+ * Claude has no JSON response mode, so structured calls rely on the schema
+ * instructions the provider layer adds to the system prompt.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LLMProviderError,
+  type LLMDriver,
+  type LLMRequest,
+  type LLMResponse,
+} from '../types';
+
+export class AnthropicDriver implements LLMDriver {
+  readonly name = 'anthropic' as const;
+  private client?: Anthropic;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startedAt = Date.now();
+
+    // Claude takes the system prompt separately from the conversation
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    let response: Anthropic.Message;
+    try {
+      response = await this.getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: system || undefined,
+        messages,
+      });
+    } catch (error) {
+      const status = error instanceof Anthropic.APIError ? error.status : undefined;
+      const retriable = status === undefined || status === 408 || status === 429 || status === 529 || status >= 500;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new LLMProviderError(`anthropic request failed: ${message}`, this.name, retriable, status);
+    }
+
+    const content = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    if (!content) {
+      throw new LLMProviderError('Empty response from anthropic', this.name, true);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        maxRetries: 0, // Retries are handled by the provider layer
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Local mock driver
+ *
+ * Returns deterministic canned responses without any network access, so the
+ * app can be run end-to-end on a laptop with no API keys
+ * (`LLM_PROVIDER=mock`). Structured calls get a sample object generated from
+ * the requested JSON schema; free-text calls echo the last user message.
+ */
+
+import type { LLMDriver, LLMRequest, LLMResponse } from '../types';
+
+export type MockResponder = (request: LLMRequest) => string;
+
+export class MockDriver implements LLMDriver {
+  readonly name = 'mock' as const;
+  private responder?: MockResponder;
+
+  constructor(responder?: MockResponder) {
+    this.responder = responder;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Replace the canned response generator (useful in tests)
+   */
+  setResponder(responder?: MockResponder): void {
+    this.responder = responder;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const content = this.responder
+      ? this.responder(request)
+      : defaultResponse(request);
+
+    const promptTokens = estimateTokens(request.messages.map(m => m.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      latencyMs: 0,
+    };
+  }
+}
+
+function defaultResponse(request: LLMRequest): string {
+  if (request.responseSchema) {
+    return JSON.stringify(sampleFromSchema(request.responseSchema));
+  }
+
+  if (request.jsonMode) {
+    return '{}';
+  }
+
+  const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+  return `[mock:${request.model}] ${(lastUser?.content || '').slice(0, 200)}`;
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Build a minimal value that satisfies a JSON schema
+ */
+export function sampleFromSchema(schema: Record<string, unknown>, key = 'value'): unknown {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  if ('const' in schema) {
+    return schema.const;
+  }
+
+  const variants = (schema.anyOf || schema.oneOf) as Record<string, unknown>[] | undefined;
+  if (variants && variants.length > 0) {
+    return sampleFromSchema(variants[0], key);
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>;
+      const result: Record<string, unknown> = {};
+      for (const [name, propertySchema] of Object.entries(properties)) {
+        result[name] = sampleFromSchema(propertySchema, name);
+      }
+      return result;
+    }
+    case 'array': {
+      const items = schema.items as Record<string, unknown> | undefined;
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 1;
+      return items ? Array.from({ length: Math.max(1, minItems) }, () => sampleFromSchema(items, key)) : [];
+    }
+    case 'number':
+    case 'integer': {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : 0;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : 100;
+      const mid = (min + max) / 2;
+      return schema.type === 'integer' ? Math.round(mid) : mid;
+    }
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'string':
+    default:
+      return `mock ${key}`;
+  }
+}
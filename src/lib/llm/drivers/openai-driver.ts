@@ -0,0 +1,111 @@
+/**
+ * OpenAI-compatible driver
+ *
+ * Serves OpenAI directly plus any provider exposing the OpenAI chat
+ * completions API (Kimi/Moonshot, OpenRouter for Gemini).
+ */
+
+import OpenAI from 'openai';
+import {
+  LLMProviderError,
+  type LLMDriver,
+  type LLMRequest,
+  type LLMResponse,
+  type ProviderName,
+} from '../types';
+
+interface OpenAICompatibleConfig {
+  name: ProviderName;
+  apiKey: () => string | undefined;
+  baseURL?: string;
+}
+
+export class OpenAICompatibleDriver implements LLMDriver {
+  readonly name: ProviderName;
+  private config: OpenAICompatibleConfig;
+  private client?: OpenAI;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.apiKey());
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startedAt = Date.now();
+
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      response = await this.getClient().chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.jsonMode ? { type: 'json_object' } : undefined,
+      });
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new LLMProviderError(`Empty response from ${this.name}`, this.name, true);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0,
+      },
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey(),
+        baseURL: this.config.baseURL,
+        maxRetries: 0, // Retries are handled by the provider layer
+      });
+    }
+    return this.client;
+  }
+}
+
+function toProviderError(provider: ProviderName, error: unknown): LLMProviderError {
+  const status = error instanceof OpenAI.APIError ? error.status : undefined;
+  const retriable = status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMProviderError(`${provider} request failed: ${message}`, provider, retriable, status);
+}
+
+export function createOpenAIDriver(): OpenAICompatibleDriver {
+  return new OpenAICompatibleDriver({
+    name: 'openai',
+    apiKey: () => process.env.OPENAI_API_KEY,
+  });
+}
+
+export function createKimiDriver(): OpenAICompatibleDriver {
+  return new OpenAICompatibleDriver({
+    name: 'kimi',
+    apiKey: () => process.env.KIMI_API_KEY,
+    baseURL: 'https://api.moonshot.cn/v1',
+  });
+}
+
+export function createOpenRouterDriver(): OpenAICompatibleDriver {
+  return new OpenAICompatibleDriver({
+    name: 'openrouter',
+    apiKey: () => process.env.OPENROUTER_API_KEY,
+    baseURL: 'https://openrouter.ai/api/v1',
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Record/replay driver
+ *
+ * Wraps a real driver and persists prompt → response pairs as JSON fixtures
+ * keyed by a hash of model + messages. In replay mode the fixtures are served
+ * offline, so full agent runs are deterministic in CI and need no API keys.
+ *
+ * Modes (`LLM_REPLAY_MODE`):
+ * - record: always call the wrapped driver and (over)write the fixture
+ * - replay: serve fixtures only; a missing fixture is a hard error
+ * - auto:   serve the fixture if present, otherwise record it
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  LLMProviderError,
+  type LLMDriver,
+  type LLMMessage,
+  type LLMRequest,
+  type LLMResponse,
+  type ProviderName,
+} from '../types';
+
+export type ReplayMode = 'record' | 'replay' | 'auto';
+
+export const DEFAULT_FIXTURES_DIR = 'src/test/fixtures/llm';
+
+export interface ReplayFixture {
+  key: string;
+  model: string;
+  messages: LLMMessage[];
+  response: Omit<LLMResponse, 'latencyMs'>;
+  recordedAt: string;
+}
+
+interface ReplayDriverOptions {
+  mode: ReplayMode;
+  fixturesDir?: string;
+}
+
+export class ReplayDriver implements LLMDriver {
+  readonly name: ProviderName;
+  private inner: LLMDriver;
+  private mode: ReplayMode;
+  private fixturesDir: string;
+
+  constructor(inner: LLMDriver, options: ReplayDriverOptions) {
+    this.name = inner.name;
+    this.inner = inner;
+    this.mode = options.mode;
+    this.fixturesDir = options.fixturesDir || DEFAULT_FIXTURES_DIR;
+  }
+
+  isConfigured(): boolean {
+    // Replaying needs no credentials; recording needs the real driver
+    return this.mode === 'replay' || this.inner.isConfigured();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const key = fixtureKey(request.model, request.messages);
+
+    if (this.mode !== 'record') {
+      const fixture = await this.readFixture(key);
+      if (fixture) {
+        return { ...fixture.response, latencyMs: 0 };
+      }
+      if (this.mode === 'replay') {
+        throw new LLMProviderError(
+          `No replay fixture for ${this.name}/${request.model} (${key}). Record it with LLM_REPLAY_MODE=record.`,
+          this.name,
+          false
+        );
+      }
+    }
+
+    const response = await this.inner.complete(request);
+    await this.writeFixture({
+      key,
+      model: request.model,
+      messages: request.messages,
+      response: {
+        content: response.content,
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage,
+      },
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  }
+
+  private fixturePath(key: string): string {
+    return path.join(this.fixturesDir, `${key}.json`);
+  }
+
+  private async readFixture(key: string): Promise<ReplayFixture | null> {
+    try {
+      const raw = await fs.readFile(this.fixturePath(key), 'utf8');
+      return JSON.parse(raw) as ReplayFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeFixture(fixture: ReplayFixture): Promise<void> {
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(this.fixturePath(fixture.key), JSON.stringify(fixture, null, 2) + '\n');
+  }
+}
+
+/**
+ * Stable fixture key: sha256 of model + messages (first 16 hex chars)
+ */
+export function fixtureKey(model: string, messages: LLMMessage[]): string {
+  const canonical = JSON.stringify({
+    model,
+    messages: messages.map(m => [m.role, m.content]),
+  });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+/**
+ * Replay mode configured via env, if any
+ */
+export function getReplayMode(): ReplayMode | undefined {
+  const mode = process.env.LLM_REPLAY_MODE;
+  return mode === 'record' || mode === 'replay' || mode === 'auto' ? mode : undefined;
+}
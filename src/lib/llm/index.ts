@@ -0,0 +1,59 @@
+/**
+ * LLM provider layer
+ *
+ * Exposes a shared `llm` instance with every built-in driver registered.
+ * Drivers without credentials are skipped at call time, so the routing
+ * table falls through to whichever provider is configured.
+ *
+ * Setting `LLM_REPLAY_MODE` wraps every driver in a `ReplayDriver`, which
+ * records or replays fixtures under `LLM_FIXTURES_DIR`.
+ *
+ * Every successful call is written to the cost ledger; wrap agent runs in
+ * `withLLMContext` to attribute them to a startup, user and agent.
+ */
+
+import { LLMProvider } from './provider';
+import { AnthropicDriver } from './drivers/anthropic-driver';
+import { MockDriver } from './drivers/mock-driver';
+import { ReplayDriver, getReplayMode } from './drivers/replay-driver';
+import {
+  createKimiDriver,
+  createOpenAIDriver,
+  createOpenRouterDriver,
+} from './drivers/openai-driver';
+import type { LLMDriver } from './types';
+import { recordLLMUsage } from '@/lib/monitoring/cost-ledger';
+
+function createDefaultDrivers(): LLMDriver[] {
+  const drivers: LLMDriver[] = [
+    createOpenAIDriver(),
+    createKimiDriver(),
+    createOpenRouterDriver(),
+    new AnthropicDriver(),
+    new MockDriver(),
+  ];
+
+  const replayMode = getReplayMode();
+  if (!replayMode) return drivers;
+
+  return drivers.map(driver => new ReplayDriver(driver, {
+    mode: replayMode,
+    fixturesDir: process.env.LLM_FIXTURES_DIR,
+  }));
+}
+
+export const llm = new LLMProvider(createDefaultDrivers());
+llm.addUsageListener(recordLLMUsage);
+
+export { LLMProvider, extractJSON } from './provider';
+export type { StructuredResponse, LLMUsageEvent, LLMUsageListener } from './provider';
+export { withLLMContext, getLLMContext } from './context';
+export type { LLMCallContext } from './context';
+export { MODEL_PRICING, computeCostUsd, getModelPricing } from './pricing';
+export { DEFAULT_ROUTES, resolveRoute, parseTarget, downgradeTask } from './routing';
+export { MockDriver } from './drivers/mock-driver';
+export { AnthropicDriver } from './drivers/anthropic-driver';
+export { OpenAICompatibleDriver } from './drivers/openai-driver';
+export { ReplayDriver, fixtureKey, getReplayMode } from './drivers/replay-driver';
+export type { ReplayMode, ReplayFixture } from './drivers/replay-driver';
+export * from './types';
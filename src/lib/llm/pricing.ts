@@ -0,0 +1,60 @@
+/**
+ * Model pricing (USD per 1M tokens)
+ *
+ * Used to turn token usage into dollars for the cost ledger. Model ids are
+ * matched exactly first, then by longest prefix so dated snapshots
+ * (e.g. `gpt-4o-mini-2024-07-18`) resolve to their family.
+ */
+
+import { logger } from '@/lib/logger';
+import type { LLMUsage } from './types';
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  // Kimi / Moonshot
+  'moonshot-v1-8k': { inputPerMillion: 0.02, outputPerMillion: 0.08 },
+  'moonshot-v1-32k': { inputPerMillion: 0.04, outputPerMillion: 0.16 },
+  // OpenRouter
+  'google/gemini-2.0-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  // Anthropic
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+  // Local
+  'mock-1': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+export function getModelPricing(model: string): ModelPricing | undefined {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model];
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
+
+/**
+ * Dollar cost of a single call. Unknown models are logged and priced at 0.
+ */
+export function computeCostUsd(model: string, usage: LLMUsage): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    logger.warn(`[LLM] No pricing for model ${model}, recording $0`);
+    return 0;
+  }
+
+  return (
+    (usage.promptTokens / 1_000_000) * pricing.inputPerMillion +
+    (usage.completionTokens / 1_000_000) * pricing.outputPerMillion
+  );
+}
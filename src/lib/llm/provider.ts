@@ -0,0 +1,253 @@
+/**
+ * LLM Provider
+ *
+ * Single entry point for every model call in the app. Agents ask for a task
+ * class (`simple`, `critical`, ...) and the provider:
+ *
+ * 1. Resolves the route (primary + fallback target) for that task
+ * 2. Dispatches to the registered driver for the target's provider
+ * 3. Retries retriable failures with exponential backoff
+ * 4. Falls back to the secondary target when the primary is exhausted or
+ *    unconfigured
+ *
+ * Usage:
+ * ```typescript
+ * import { llm } from '@/lib/llm';
+ *
+ * const result = await llm.structured('simple', messages, MySchema);
+ * const reply = await llm.chat('conversation', messages);
+ * ```
+ */
+
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { downgradeTask, resolveRoute } from './routing';
+import { getLLMContext, type LLMCallContext } from './context';
+import {
+  LLMProviderError,
+  type LLMCallOptions,
+  type LLMDriver,
+  type LLMMessage,
+  type LLMResponse,
+  type LLMTask,
+  type ModelTarget,
+  type ProviderName,
+} from './types';
+
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+
+export interface StructuredResponse<T> {
+  data: T;
+  response: LLMResponse;
+}
+
+/**
+ * Emitted after every successful completion (cost ledger, metrics)
+ */
+export interface LLMUsageEvent {
+  task: LLMTask;
+  response: LLMResponse;
+  context: LLMCallContext;
+}
+
+export type LLMUsageListener = (event: LLMUsageEvent) => void | Promise<void>;
+
+export class LLMProvider {
+  private drivers = new Map<ProviderName, LLMDriver>();
+  private usageListeners: LLMUsageListener[] = [];
+
+  constructor(drivers: LLMDriver[] = []) {
+    for (const driver of drivers) {
+      this.registerDriver(driver);
+    }
+  }
+
+  /**
+   * Register (or replace) the driver serving a provider
+   */
+  registerDriver(driver: LLMDriver): void {
+    this.drivers.set(driver.name, driver);
+  }
+
+  getDriver(provider: ProviderName): LLMDriver | undefined {
+    return this.drivers.get(provider);
+  }
+
+  /**
+   * Subscribe to usage events. Returns an unsubscribe function.
+   */
+  addUsageListener(listener: LLMUsageListener): () => void {
+    this.usageListeners.push(listener);
+    return () => {
+      this.removeUsageListener(listener);
+    };
+  }
+
+  /**
+   * Unsubscribe a listener. Returns whether it was subscribed.
+   */
+  removeUsageListener(listener: LLMUsageListener): boolean {
+    const before = this.usageListeners.length;
+    this.usageListeners = this.usageListeners.filter(l => l !== listener);
+    return this.usageListeners.length < before;
+  }
+
+  /**
+   * Free-form chat completion
+   */
+  async chat(
+    task: LLMTask,
+    messages: LLMMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    return this.execute(task, messages, options);
+  }
+
+  /**
+   * Chat completion parsed as JSON (no schema validation)
+   */
+  async json<T = unknown>(
+    task: LLMTask,
+    messages: LLMMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<StructuredResponse<T>> {
+    const response = await this.execute(task, messages, { ...options, jsonMode: true });
+    return { data: extractJSON(response.content) as T, response };
+  }
+
+  /**
+   * Chat completion validated against a zod schema. The JSON schema is
+   * appended to the system prompt so every provider receives the same
+   * instructions, whether or not it supports a native JSON mode.
+   */
+  async structured<S extends z.ZodType>(
+    task: LLMTask,
+    messages: LLMMessage[],
+    schema: S,
+    options: LLMCallOptions = {}
+  ): Promise<StructuredResponse<z.infer<S>>> {
+    const jsonSchema = z.toJSONSchema(schema) as Record<string, unknown>;
+    const instructions =
+      'Respond ONLY with a JSON object matching this JSON schema:\n' +
+      JSON.stringify(jsonSchema);
+
+    const withInstructions = appendToSystem(messages, instructions);
+    const response = await this.execute(
+      task,
+      withInstructions,
+      { ...options, jsonMode: true },
+      jsonSchema
+    );
+
+    const parsed = schema.safeParse(extractJSON(response.content));
+    if (!parsed.success) {
+      throw new LLMProviderError(
+        `Structured output failed validation: ${parsed.error.message}`,
+        response.provider,
+        false
+      );
+    }
+
+    return { data: parsed.data, response };
+  }
+
+  private async execute(
+    requestedTask: LLMTask,
+    messages: LLMMessage[],
+    options: LLMCallOptions,
+    responseSchema?: Record<string, unknown>
+  ): Promise<LLMResponse> {
+    const context = getLLMContext();
+    const task = context.downgrade ? downgradeTask(requestedTask) : requestedTask;
+    const route = resolveRoute(task);
+    const targets: ModelTarget[] = options.target
+      ? [options.target]
+      : [route.primary, ...(route.fallback ? [route.fallback] : [])];
+
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    let lastError: unknown;
+
+    for (const target of targets) {
+      const driver = this.drivers.get(target.provider);
+      if (!driver || !driver.isConfigured()) {
+        logger.warn(`[LLM] ${target.provider} not configured, skipping for ${task}`);
+        lastError = new LLMProviderError(`${target.provider} is not configured`, target.provider, false);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        try {
+          const response = await driver.complete({
+            model: target.model,
+            messages,
+            temperature: options.temperature ?? route.temperature,
+            maxTokens: options.maxTokens ?? route.maxTokens,
+            jsonMode: options.jsonMode,
+            responseSchema,
+          });
+          await this.emitUsage({ task, response, context });
+          return response;
+        } catch (error) {
+          lastError = error;
+          const retriable = error instanceof LLMProviderError ? error.retriable : true;
+          if (!retriable || attempt === maxRetries) break;
+
+          const delay = BASE_BACKOFF_MS * 2 ** attempt;
+          logger.warn(`[LLM] ${target.provider}/${target.model} failed (attempt ${attempt + 1}), retrying in ${delay}ms`);
+          await sleep(delay);
+        }
+      }
+
+      logger.warn(`[LLM] ${target.provider}/${target.model} exhausted for ${task}`);
+    }
+
+    if (lastError instanceof Error) throw lastError;
+    throw new Error(`No LLM provider available for task: ${task}`);
+  }
+
+  /**
+   * Listener failures are logged, never surfaced to the caller
+   */
+  private async emitUsage(event: LLMUsageEvent): Promise<void> {
+    for (const listener of this.usageListeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        logger.error('[LLM] Usage listener failed:', error);
+      }
+    }
+  }
+}
+
+function appendToSystem(messages: LLMMessage[], text: string): LLMMessage[] {
+  const index = messages.findIndex(m => m.role === 'system');
+  if (index === -1) {
+    return [{ role: 'system', content: text }, ...messages];
+  }
+  return messages.map((m, i) =>
+    i === index ? { ...m, content: `${m.content}\n\n${text}` } : m
+  );
+}
+
+/**
+ * Parse JSON from a model reply, tolerating code fences and surrounding prose
+ */
+export function extractJSON(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const match = candidate.match(/[[{][\s\S]*[\]}]/);
+    if (match) {
+      return JSON.parse(match[0]);
+    }
+    throw new Error('LLM response did not contain valid JSON');
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,142 @@
+/**
+ * Per-task model routing
+ *
+ * Single source of truth for which provider/model serves each task class.
+ * Routes can be overridden per deployment:
+ *
+ * - `LLM_PROVIDER=mock`                   → send every task to one provider
+ * - `LLM_ROUTE_ANALYSIS=openai:gpt-4o`    → override a task's primary target
+ * - `LLM_FALLBACK_ANALYSIS=kimi:moonshot-v1-8k` → override a task's fallback
+ *
+ * The legacy `AI_PROVIDER` variable is still honoured (gemini → openrouter).
+ */
+
+import type { LLMTask, ModelTarget, ProviderName, RouteConfig } from './types';
+
+const PROVIDERS: ProviderName[] = ['openai', 'kimi', 'openrouter', 'anthropic', 'mock'];
+
+/**
+ * Default model for each provider, used when a provider is forced globally
+ */
+const PROVIDER_DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  kimi: 'moonshot-v1-8k',
+  openrouter: 'google/gemini-2.0-flash-001',
+  anthropic: 'claude-sonnet-4-20250514',
+  mock: 'mock-1',
+};
+
+export const DEFAULT_ROUTES: Record<LLMTask, RouteConfig> = {
+  triage: {
+    primary: { provider: 'kimi', model: 'moonshot-v1-8k' },
+    fallback: { provider: 'openai', model: 'gpt-4o-mini' },
+    temperature: 0.2,
+    maxTokens: 1000,
+  },
+  simple: {
+    primary: { provider: 'openai', model: 'gpt-4o-mini' },
+    fallback: { provider: 'openrouter', model: 'google/gemini-2.0-flash-001' },
+    temperature: 0.3,
+    maxTokens: 2000,
+  },
+  analysis: {
+    primary: { provider: 'openrouter', model: 'google/gemini-2.0-flash-001' },
+    fallback: { provider: 'openai', model: 'gpt-4o-mini' },
+    temperature: 0.3,
+    maxTokens: 2000,
+  },
+  complex: {
+    primary: { provider: 'openai', model: 'gpt-4o' },
+    fallback: { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+    temperature: 0.4,
+    maxTokens: 2000,
+  },
+  critical: {
+    primary: { provider: 'openai', model: 'gpt-4o' },
+    fallback: { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+    temperature: 0.3,
+    maxTokens: 3000,
+  },
+  creative: {
+    primary: { provider: 'anthropic', model: 'claude-opus-4-20250514' },
+    fallback: { provider: 'openai', model: 'gpt-4o' },
+    temperature: 0.9,
+    maxTokens: 4096,
+  },
+  conversation: {
+    primary: { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+    fallback: { provider: 'openai', model: 'gpt-4o' },
+    temperature: 0.7,
+    maxTokens: 1000,
+  },
+};
+
+/**
+ * Cheaper task class used when a call runs under budget degradation
+ */
+const DOWNGRADED_TASKS: Partial<Record<LLMTask, LLMTask>> = {
+  critical: 'simple',
+  complex: 'simple',
+  creative: 'analysis',
+  conversation: 'simple',
+};
+
+export function downgradeTask(task: LLMTask): LLMTask {
+  return DOWNGRADED_TASKS[task] || task;
+}
+
+/**
+ * Parse a `provider:model` string. The model part may itself contain
+ * colons (e.g. OpenRouter `:free` suffixes).
+ */
+export function parseTarget(value: string | undefined): ModelTarget | undefined {
+  if (!value) return undefined;
+
+  const separator = value.indexOf(':');
+  const provider = (separator === -1 ? value : value.slice(0, separator)).trim() as ProviderName;
+  if (!PROVIDERS.includes(provider)) return undefined;
+
+  const model = separator === -1 ? '' : value.slice(separator + 1).trim();
+  return { provider, model: model || PROVIDER_DEFAULT_MODELS[provider] };
+}
+
+/**
+ * Provider forced for every task, if any
+ */
+function getGlobalProvider(): ProviderName | undefined {
+  const forced = process.env.LLM_PROVIDER || process.env.AI_PROVIDER;
+  if (!forced) return undefined;
+
+  const provider = (forced === 'gemini' ? 'openrouter' : forced) as ProviderName;
+  return PROVIDERS.includes(provider) ? provider : undefined;
+}
+
+/**
+ * Resolve the effective route for a task, applying env overrides
+ */
+export function resolveRoute(task: LLMTask): RouteConfig {
+  const base = DEFAULT_ROUTES[task];
+  const key = task.toUpperCase();
+
+  const routeOverride = parseTarget(process.env[`LLM_ROUTE_${key}`]);
+  const fallbackOverride = parseTarget(process.env[`LLM_FALLBACK_${key}`]);
+
+  if (routeOverride || fallbackOverride) {
+    return {
+      ...base,
+      primary: routeOverride || base.primary,
+      fallback: fallbackOverride || base.fallback,
+    };
+  }
+
+  const globalProvider = getGlobalProvider();
+  if (globalProvider) {
+    const primary = base.primary.provider === globalProvider
+      ? base.primary
+      : { provider: globalProvider, model: PROVIDER_DEFAULT_MODELS[globalProvider] };
+    // Forcing a provider means no cross-provider fallback
+    return { ...base, primary, fallback: undefined };
+  }
+
+  return base;
+}
@@ -0,0 +1,101 @@
+/**
+ * Shared types for the LLM provider layer
+ */
+
+export type ProviderName = 'openai' | 'kimi' | 'openrouter' | 'anthropic' | 'mock';
+
+/**
+ * Logical task classes. Agents ask for a task, the routing table decides
+ * which provider/model actually serves it.
+ */
+export type LLMTask =
+  | 'triage'        // Classification, extraction, short answers
+  | 'simple'        // Structured scoring (core + industry agents)
+  | 'analysis'      // Long-form reasoning over pitch data
+  | 'complex'       // Nuanced synthesis, regulatory reasoning
+  | 'critical'      // High-stakes decisions (offers, verdicts)
+  | 'creative'      // Idea generation
+  | 'conversation'; // Multi-turn chat (co-pilot, council)
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Request handed to a driver after routing has been resolved
+ */
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  jsonMode?: boolean;
+  /** JSON schema of the expected output (structured calls only) */
+  responseSchema?: Record<string, unknown>;
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: ProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+/**
+ * Pluggable provider driver
+ */
+export interface LLMDriver {
+  readonly name: ProviderName;
+  /** False when the driver is missing credentials and should be skipped */
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface ModelTarget {
+  provider: ProviderName;
+  model: string;
+}
+
+export interface RouteConfig {
+  primary: ModelTarget;
+  fallback?: ModelTarget;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Per-call options. Anything left unset comes from the task route.
+ */
+export interface LLMCallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  /** Pin a specific provider/model, bypassing the routing table */
+  target?: ModelTarget;
+  /** Retries per target before falling back (default 2) */
+  maxRetries?: number;
+}
+
+/**
+ * Raised by drivers for provider failures. `retriable` controls whether the
+ * provider layer retries the same target before moving to the fallback.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly retriable: boolean,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
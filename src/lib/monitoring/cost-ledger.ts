@@ -0,0 +1,189 @@
+/**
+ * Cost Ledger
+ *
+ * Persists one row per LLM call (startup, user, agent, provider, model,
+ * tokens, USD) so costs survive restarts and can be billed per analysis.
+ * Rows are written by a usage listener on the shared `llm` provider.
+ *
+ * @module monitoring/cost-ledger
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { computeCostUsd } from '@/lib/llm/pricing';
+import type { LLMUsageEvent } from '@/lib/llm/provider';
+import { getAgentBreakdown } from '@/lib/agents/agent-registry';
+
+export interface CostFilter {
+  startupId?: string;
+  userId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface CostBreakdownRow {
+  key: string;
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface CostSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  byAgent: CostBreakdownRow[];
+  byModel: CostBreakdownRow[];
+}
+
+export interface StartupCostReport extends CostSummary {
+  startupId: string;
+  estimatedCostUsd: number;
+  varianceUsd: number; // actual - estimated
+}
+
+class CostLedger {
+  /**
+   * Write a ledger row for a completed LLM call
+   */
+  async record(event: LLMUsageEvent): Promise<void> {
+    const { response, context, task } = event;
+    const startupId = context.startupId || null;
+    let userId = context.userId || null;
+
+    // Calls attributed to a startup bill to its owner
+    if (!userId && startupId) {
+      const startup = await prisma.startup.findUnique({
+        where: { id: startupId },
+        select: { userId: true },
+      });
+      userId = startup?.userId || null;
+    }
+
+    const costUsd = computeCostUsd(response.model, response.usage);
+
+    await prisma.costLedgerEntry.create({
+      data: {
+        startupId,
+        userId,
+        agentType: context.agentType || null,
+        task,
+        provider: response.provider,
+        model: response.model,
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        totalTokens: response.usage.totalTokens,
+        costUsd,
+        latencyMs: response.latencyMs,
+      },
+    });
+  }
+
+  /**
+   * Totals plus per-agent and per-model breakdowns
+   */
+  async getSummary(filter: CostFilter = {}): Promise<CostSummary> {
+    const where = this.buildWhere(filter);
+
+    const [totals, byAgent, byModel] = await Promise.all([
+      prisma.costLedgerEntry.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { promptTokens: true, completionTokens: true, totalTokens: true, costUsd: true },
+      }),
+      prisma.costLedgerEntry.groupBy({
+        by: ['agentType'],
+        where,
+        _count: { _all: true },
+        _sum: { totalTokens: true, costUsd: true },
+      }),
+      prisma.costLedgerEntry.groupBy({
+        by: ['model'],
+        where,
+        _count: { _all: true },
+        _sum: { totalTokens: true, costUsd: true },
+      }),
+    ]);
+
+    return {
+      calls: totals._count._all,
+      promptTokens: totals._sum.promptTokens || 0,
+      completionTokens: totals._sum.completionTokens || 0,
+      totalTokens: totals._sum.totalTokens || 0,
+      costUsd: totals._sum.costUsd || 0,
+      byAgent: byAgent
+        .map(row => ({
+          key: row.agentType || 'unattributed',
+          calls: row._count._all,
+          totalTokens: row._sum.totalTokens || 0,
+          costUsd: row._sum.costUsd || 0,
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+      byModel: byModel
+        .map(row => ({
+          key: row.model,
+          calls: row._count._all,
+          totalTokens: row._sum.totalTokens || 0,
+          costUsd: row._sum.costUsd || 0,
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+    };
+  }
+
+  /**
+   * Actual spend for a startup compared against the agent registry estimate
+   */
+  async getStartupReport(startupId: string): Promise<StartupCostReport | null> {
+    const startup = await prisma.startup.findUnique({ where: { id: startupId } });
+    if (!startup) return null;
+
+    const summary = await this.getSummary({ startupId });
+    const estimatedCostUsd = getAgentBreakdown(startup).estimatedCost;
+
+    return {
+      ...summary,
+      startupId,
+      estimatedCostUsd,
+      varianceUsd: summary.costUsd - estimatedCostUsd,
+    };
+  }
+
+  /**
+   * Total USD spent by a user since a given date
+   */
+  async getUserSpend(userId: string, since?: Date): Promise<number> {
+    const result = await prisma.costLedgerEntry.aggregate({
+      where: this.buildWhere({ userId, since }),
+      _sum: { costUsd: true },
+    });
+    return result._sum.costUsd || 0;
+  }
+
+  private buildWhere(filter: CostFilter): Prisma.CostLedgerEntryWhereInput {
+    return {
+      startupId: filter.startupId,
+      userId: filter.userId,
+      createdAt: filter.since || filter.until
+        ? { gte: filter.since, lte: filter.until }
+        : undefined,
+    };
+  }
+}
+
+// Singleton instance
+export const costLedger = new CostLedger();
+
+/**
+ * Usage listener for the shared LLM provider. Ledger failures are logged
+ * and never fail the model call.
+ */
+export async function recordLLMUsage(event: LLMUsageEvent): Promise<void> {
+  try {
+    await costLedger.record(event);
+  } catch (error) {
+    logger.error('[CostLedger] Failed to record usage:', error);
+  }
+}
@@ -36,6 +36,24 @@ export interface EndpointStats {
   lastErrorTime?: number;
 }
 
+export interface CacheMetric {
+  cache: string;
+  outcome: 'hit' | 'miss' | 'shared';
+  durationMs: number;
+  timestamp: number;
+}
+
+export interface CacheStats {
+  cache: string;
+  lookups: number;
+  hits: number;
+  misses: number;
+  /** Callers that joined an identical in-flight load instead of running it */
+  shared: number;
+  hitRate: number;
+  avgMissDurationMs: number;
+}
+
 export interface ModelUsageStats {
   model: string;
   calls: number;
@@ -65,6 +83,7 @@ export interface Alert {
 
 class PerformanceMonitor {
   private metrics: APIMetric[] = [];
+  private cacheMetrics: CacheMetric[] = [];
   private alerts: Alert[] = [];
   private maxMetricsInMemory = 10000; // Keep last 10K metrics
   private alertThresholds: AlertThresholds = {
@@ -121,6 +140,54 @@ class PerformanceMonitor {
     }
   }
 
+  /**
+   * Track a cache lookup (`shared` = deduplicated onto an in-flight load)
+   */
+  trackCacheLookup(cache: string, outcome: CacheMetric['outcome'], durationMs: number): void {
+    this.cacheMetrics.push({ cache, outcome, durationMs, timestamp: Date.now() });
+
+    if (this.cacheMetrics.length > this.maxMetricsInMemory) {
+      this.cacheMetrics = this.cacheMetrics.slice(-this.maxMetricsInMemory);
+    }
+  }
+
+  /**
+   * Hit/miss statistics per cache
+   */
+  getCacheStats(timeWindowMs?: number): CacheStats[] {
+    const cutoff = timeWindowMs ? Date.now() - timeWindowMs : 0;
+
+    const groups = new Map<string, CacheMetric[]>();
+    for (const metric of this.cacheMetrics) {
+      if (metric.timestamp < cutoff) continue;
+      if (!groups.has(metric.cache)) {
+        groups.set(metric.cache, []);
+      }
+      groups.get(metric.cache)!.push(metric);
+    }
+
+    const stats: CacheStats[] = [];
+    for (const [cache, metrics] of groups) {
+      const misses = metrics.filter(m => m.outcome === 'miss');
+      const hits = metrics.filter(m => m.outcome === 'hit').length;
+      const shared = metrics.filter(m => m.outcome === 'shared').length;
+
+      stats.push({
+        cache,
+        lookups: metrics.length,
+        hits,
+        misses: misses.length,
+        shared,
+        hitRate: (hits + shared) / metrics.length,
+        avgMissDurationMs: misses.length > 0
+          ? misses.reduce((sum, m) => sum + m.durationMs, 0) / misses.length
+          : 0,
+      });
+    }
+
+    return stats.sort((a, b) => b.lookups - a.lookups);
+  }
+
   /**
    * Get statistics for a specific endpoint
    */
@@ -438,6 +505,7 @@ class PerformanceMonitor {
     alerts: Alert[];
     topEndpoints: Array<{ endpoint: string; calls: number; avgLatencyMs: number }>;
     topModels: ModelUsageStats[];
+    caches: CacheStats[];
   } {
     const dayMs = 24 * 60 * 60 * 1000;
     const hourMs = 60 * 60 * 1000;
@@ -487,6 +555,7 @@ class PerformanceMonitor {
           avgLatencyMs: s.avgDurationMs,
         })),
       topModels: this.getModelStats(dayMs).slice(0, 5),
+      caches: this.getCacheStats(dayMs),
     };
   }
 }
@@ -0,0 +1,150 @@
+/**
+ * Tests for the prompt registry, experiment assignment and reports
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  PromptNotFoundError,
+  PromptRegistry,
+  collectPromptUsage,
+  configurePrompts,
+  parseExperiment,
+  prompts,
+  recordPromptUsage,
+  renderPrompt,
+  type PromptDefinition,
+} from '@/lib/prompts';
+import { compareArms, summarizeArm } from '../experiments';
+import { CORE_AGENTS, INDUSTRY_AGENTS, SPECIALIST_AGENTS } from '@/lib/agents/agent-registry';
+
+const v1: PromptDefinition = { id: 'greeter', version: 1, system: 'Hello {name}', user: 'Rate {name}' };
+const v2: PromptDefinition = { id: 'greeter', version: 2, system: 'Hi {name}, from {place}' };
+
+function registry() {
+  return new PromptRegistry().register(v1, v2);
+}
+
+describe('PromptRegistry', () => {
+  it('serves the newest version unless one is pinned', () => {
+    const reg = registry();
+    expect(reg.get('greeter').version).toBe(2);
+
+    reg.pin('greeter', 1);
+    expect(reg.get('greeter').version).toBe(1);
+    expect(reg.get('greeter', 2)).toBe(v2);
+  });
+
+  it('rejects unknown prompts and duplicate versions', () => {
+    const reg = registry();
+    expect(() => reg.get('missing')).toThrow(PromptNotFoundError);
+    expect(() => reg.pin('greeter', 3)).toThrow(PromptNotFoundError);
+    expect(() => reg.register(v1)).toThrow(/already registered/);
+  });
+
+  it('assigns units to experiment arms deterministically and roughly by share', () => {
+    const reg = registry();
+    reg.startExperiment({ promptId: 'greeter', control: 1, variant: 2, variantShare: 0.3 });
+
+    const first = reg.select('greeter', 'startup_42');
+    expect(reg.select('greeter', 'startup_42')).toEqual(first);
+
+    let variant = 0;
+    for (let i = 0; i < 2000; i++) {
+      const { arm, prompt } = reg.select('greeter', `startup_${i}`);
+      expect(prompt.version).toBe(arm === 'variant' ? 2 : 1);
+      if (arm === 'variant') variant++;
+    }
+    expect(variant / 2000).toBeGreaterThan(0.25);
+    expect(variant / 2000).toBeLessThan(0.35);
+
+    reg.stopExperiment('greeter');
+    expect(reg.select('greeter', 'startup_42')).toEqual({ prompt: v2, arm: null });
+  });
+
+  it('reads pins and experiments from the environment, skipping bad entries', () => {
+    const reg = registry();
+    configurePrompts(reg, {
+      PROMPT_VERSIONS: 'greeter=1, missing=2',
+      PROMPT_EXPERIMENTS: 'greeter=1:2@0.1,other=oops',
+    } as unknown as NodeJS.ProcessEnv);
+
+    expect(reg.activeVersion('greeter')).toBe(1);
+    expect(reg.listExperiments()).toEqual([{ promptId: 'greeter', control: 1, variant: 2, variantShare: 0.1 }]);
+    expect(parseExperiment('greeter', '1:2')?.variantShare).toBe(0.5);
+  });
+});
+
+describe('prompt library', () => {
+  it('registers a prompt for every runnable agent', () => {
+    const agents = [...CORE_AGENTS, ...INDUSTRY_AGENTS, ...SPECIALIST_AGENTS].filter(agent => agent.run);
+    expect(agents).toHaveLength(22);
+    for (const agent of agents) {
+      expect(prompts.get(agent.id).user, agent.id).toBeDefined();
+    }
+    expect(prompts.versions('swarm-evaluator')).toEqual([1, 2]);
+  });
+
+  it('renders system and user messages from variables', () => {
+    expect(renderPrompt(v1, { name: 'Acme' })).toEqual([
+      { role: 'system', content: 'Hello Acme' },
+      { role: 'user', content: 'Rate Acme' },
+    ]);
+    expect(renderPrompt(v2, { name: 'Acme' })).toEqual([{ role: 'system', content: 'Hi Acme, from {place}' }]);
+
+    const [, user] = renderPrompt(prompts.get('financial-analyst'), { fundingAsk: 500000 });
+    expect(user.content).toContain('- Funding Ask: $500000');
+    expect(user.content).not.toContain('{fundingAsk}');
+  });
+});
+
+describe('collectPromptUsage', () => {
+  it('collects the uses made inside the callback, including nested collections', async () => {
+    const usage = { promptId: 'greeter', version: 1, arm: null, cached: false, durationMs: 5 };
+
+    recordPromptUsage(usage); // outside any collection: dropped
+    const { result, usages } = await collectPromptUsage(async () => {
+      recordPromptUsage(usage);
+      await collectPromptUsage(async () => recordPromptUsage({ ...usage, version: 2 }));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(usages.map(u => u.version)).toEqual([1, 2]);
+  });
+});
+
+describe('experiment reports', () => {
+  const control = [60, 62, 58, 61, 59, 60].map(score => ({ score, durationMs: 1000 }));
+  const variant = [70, 72, 68, 71, 69, 95].map(score => ({ score, durationMs: 1500 }));
+
+  it('summarizes score distribution and latency per arm', () => {
+    const summary = summarizeArm(2, [...variant, { score: 100, durationMs: null }]);
+
+    expect(summary.samples).toBe(7);
+    expect(summary.score.median).toBe(71);
+    expect(summary.score.max).toBe(100);
+    expect(summary.score.histogram[6]).toBe(2);
+    expect(summary.score.histogram[7]).toBe(3);
+    expect(summary.score.histogram[9]).toBe(2);
+    expect(summary.latencyMs).toEqual({ mean: 1500, p50: 1500, p95: 1500 });
+  });
+
+  it('reports deltas and holds back significance on small samples', () => {
+    const comparison = compareArms(summarizeArm(1, control), summarizeArm(2, variant), { control, variant });
+
+    expect(comparison.scoreDelta).toBeCloseTo(14.17, 2);
+    expect(comparison.latencyDeltaMs).toBe(500);
+    expect(comparison.scoreTStatistic).toBeGreaterThan(1.96);
+    expect(comparison.significant).toBe(false);
+
+    const many = (arm: typeof control) => Array.from({ length: 5 }, () => arm).flat();
+    const large = compareArms(summarizeArm(1, many(control)), summarizeArm(2, many(variant)), {
+      control: many(control),
+      variant: many(variant),
+    });
+    expect(large.significant).toBe(true);
+  });
+});
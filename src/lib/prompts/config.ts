@@ -0,0 +1,59 @@
+/**
+ * Environment configuration for the prompt registry
+ *
+ * - `PROMPT_VERSIONS="financial-analyst=2,swarm-evaluator=1"` pins the
+ *   active version of each listed prompt
+ * - `PROMPT_EXPERIMENTS="financial-analyst=1:2@0.2"` runs an experiment with
+ *   version 1 as control and version 2 as variant on 20% of traffic (the
+ *   share defaults to 0.5)
+ *
+ * Invalid entries are logged and skipped.
+ */
+
+import { logger } from '@/lib/logger';
+import type { PromptRegistry } from './registry';
+import type { PromptExperiment } from './types';
+
+function entries(value: string | undefined): Array<[string, string]> {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf('=');
+      return separator === -1 ? [entry, ''] : [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+    });
+}
+
+export function parseExperiment(promptId: string, spec: string): PromptExperiment | null {
+  const match = spec.match(/^(\d+):(\d+)(?:@(\d*\.?\d+))?$/);
+  if (!match) return null;
+
+  return {
+    promptId,
+    control: Number(match[1]),
+    variant: Number(match[2]),
+    variantShare: match[3] === undefined ? 0.5 : Number(match[3]),
+  };
+}
+
+export function configurePrompts(registry: PromptRegistry, env: NodeJS.ProcessEnv = process.env): void {
+  for (const [promptId, version] of entries(env.PROMPT_VERSIONS)) {
+    try {
+      if (!/^\d+$/.test(version)) throw new Error(`expected ${promptId}=<version>`);
+      registry.pin(promptId, Number(version));
+    } catch (error) {
+      logger.warn(`Ignoring PROMPT_VERSIONS entry "${promptId}":`, error);
+    }
+  }
+
+  for (const [promptId, spec] of entries(env.PROMPT_EXPERIMENTS)) {
+    try {
+      const experiment = parseExperiment(promptId, spec);
+      if (!experiment) throw new Error(`expected ${promptId}=<control>:<variant>[@share]`);
+      registry.startExperiment(experiment);
+    } catch (error) {
+      logger.warn(`Ignoring PROMPT_EXPERIMENTS entry "${promptId}":`, error);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Prompt Experiment Reports
+ *
+ * Compares two versions of an agent prompt using the AgentResult rows they
+ * produced: score distribution and latency per version, and the difference
+ * between them. Results served from a checkpoint or the agent result cache
+ * are left out, since they measure an earlier call.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+/** Results needed per arm before a difference is called significant */
+export const MIN_SAMPLES_FOR_SIGNIFICANCE = 30;
+
+const HISTOGRAM_BUCKET = 10;
+
+export interface ArmSample {
+  score: number;
+  durationMs: number | null;
+}
+
+export interface ArmSummary {
+  version: number;
+  samples: number;
+  score: {
+    mean: number;
+    stdDev: number;
+    min: number;
+    p25: number;
+    median: number;
+    p75: number;
+    max: number;
+    /** Result counts for scores 0-9, 10-19, ... 90-100 */
+    histogram: number[];
+  };
+  latencyMs: {
+    mean: number;
+    p50: number;
+    p95: number;
+  };
+}
+
+export interface ArmComparison {
+  /** variant - control */
+  scoreDelta: number;
+  latencyDeltaMs: number;
+  /** Welch's t statistic for the score difference */
+  scoreTStatistic: number | null;
+  significant: boolean;
+}
+
+export interface PromptExperimentReport {
+  promptId: string;
+  control: ArmSummary;
+  variant: ArmSummary;
+  comparison: ArmComparison;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+export function summarizeArm(version: number, samples: ArmSample[]): ArmSummary {
+  const scores = samples.map(sample => sample.score).sort((a, b) => a - b);
+  const latencies = samples
+    .map(sample => sample.durationMs)
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+
+  const histogram = new Array(100 / HISTOGRAM_BUCKET).fill(0);
+  for (const score of scores) {
+    const bucket = Math.min(histogram.length - 1, Math.max(0, Math.floor(score / HISTOGRAM_BUCKET)));
+    histogram[bucket]++;
+  }
+
+  return {
+    version,
+    samples: samples.length,
+    score: {
+      mean: round(mean(scores)),
+      stdDev: round(Math.sqrt(variance(scores))),
+      min: scores[0] ?? 0,
+      p25: round(percentile(scores, 0.25)),
+      median: round(percentile(scores, 0.5)),
+      p75: round(percentile(scores, 0.75)),
+      max: scores[scores.length - 1] ?? 0,
+      histogram,
+    },
+    latencyMs: {
+      mean: Math.round(mean(latencies)),
+      p50: Math.round(percentile(latencies, 0.5)),
+      p95: Math.round(percentile(latencies, 0.95)),
+    },
+  };
+}
+
+export function compareArms(
+  control: ArmSummary,
+  variant: ArmSummary,
+  samples: { control: ArmSample[]; variant: ArmSample[] }
+): ArmComparison {
+  const controlScores = samples.control.map(sample => sample.score);
+  const variantScores = samples.variant.map(sample => sample.score);
+
+  const standardError = Math.sqrt(
+    variance(controlScores) / Math.max(1, controlScores.length) +
+    variance(variantScores) / Math.max(1, variantScores.length)
+  );
+  const scoreDelta = mean(variantScores) - mean(controlScores);
+  const enoughSamples = Math.min(controlScores.length, variantScores.length) >= 2;
+  const scoreTStatistic = enoughSamples && standardError > 0 ? scoreDelta / standardError : null;
+
+  return {
+    scoreDelta: round(scoreDelta),
+    latencyDeltaMs: variant.latencyMs.mean - control.latencyMs.mean,
+    scoreTStatistic: scoreTStatistic === null ? null : round(scoreTStatistic),
+    // Normal approximation at the 5% level
+    significant:
+      scoreTStatistic !== null &&
+      Math.abs(scoreTStatistic) >= 1.96 &&
+      Math.min(controlScores.length, variantScores.length) >= MIN_SAMPLES_FOR_SIGNIFICANCE,
+  };
+}
+
+async function loadSamples(promptId: string, version: number, since?: Date): Promise<ArmSample[]> {
+  return prisma.agentResult.findMany({
+    where: {
+      promptId,
+      promptVersion: version,
+      fromCheckpoint: false,
+      cacheHit: false,
+      ...(since && { createdAt: { gte: since } }),
+    },
+    select: { score: true, durationMs: true },
+  });
+}
+
+/**
+ * Score and latency comparison of two prompt versions. Works for any pair
+ * of versions with recorded results, not only a running experiment.
+ */
+export async function getPromptExperimentReport(
+  promptId: string,
+  control: number,
+  variant: number,
+  options: { since?: Date } = {}
+): Promise<PromptExperimentReport> {
+  const [controlSamples, variantSamples] = await Promise.all([
+    loadSamples(promptId, control, options.since),
+    loadSamples(promptId, variant, options.since),
+  ]);
+
+  const controlSummary = summarizeArm(control, controlSamples);
+  const variantSummary = summarizeArm(variant, variantSamples);
+
+  return {
+    promptId,
+    control: controlSummary,
+    variant: variantSummary,
+    comparison: compareArms(controlSummary, variantSummary, {
+      control: controlSamples,
+      variant: variantSamples,
+    }),
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Prompts
+ *
+ * Versioned prompt templates for the analysis agents, the evaluation swarm
+ * and the sharks. Add a new version by appending a definition with the next
+ * version number to the prompt's library file; it becomes active unless
+ * `PROMPT_VERSIONS` pins an older one. See `config.ts` for running A/B
+ * experiments and `experiments.ts` for their reports.
+ */
+
+import { configurePrompts } from './config';
+import { CORE_AGENT_PROMPTS } from './library/core';
+import { INDUSTRY_AGENT_PROMPTS } from './library/industry';
+import { SHARK_PROMPTS } from './library/sharks';
+import { SPECIALIST_AGENT_PROMPTS } from './library/specialists';
+import { SWARM_PROMPTS } from './library/swarm';
+import { PromptRegistry } from './registry';
+
+export const prompts = new PromptRegistry().register(
+  ...CORE_AGENT_PROMPTS,
+  ...INDUSTRY_AGENT_PROMPTS,
+  ...SPECIALIST_AGENT_PROMPTS,
+  ...SWARM_PROMPTS,
+  ...SHARK_PROMPTS
+);
+
+configurePrompts(prompts);
+
+export { PromptRegistry, PromptNotFoundError, experimentBucket } from './registry';
+export { configurePrompts, parseExperiment } from './config';
+export { renderPrompt, renderTemplate, type PromptVariables } from './render';
+export { collectPromptUsage, recordPromptUsage } from './usage';
+export * from './types';
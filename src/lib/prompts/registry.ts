@@ -0,0 +1,121 @@
+/**
+ * Prompt Registry
+ *
+ * Holds every version of every prompt. Callers ask for a prompt by id and
+ * get the active version (the newest unless pinned), or, while an
+ * experiment runs, the control or variant version for their unit.
+ *
+ * Assignment is deterministic per unit key (a startup id for analyses), so
+ * reruns of the same pitch stay in the same arm.
+ */
+
+import { createHash } from 'crypto';
+import type { PromptArm, PromptDefinition, PromptExperiment, PromptSelection } from './types';
+
+export class PromptNotFoundError extends Error {
+  constructor(id: string, version?: number) {
+    super(version === undefined ? `Unknown prompt "${id}"` : `Unknown prompt "${id}" version ${version}`);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+/**
+ * Stable bucket in [0, 1) for a unit within a prompt's experiment
+ */
+export function experimentBucket(promptId: string, unitKey: string): number {
+  const hash = createHash('sha256').update(`${promptId}:${unitKey}`).digest();
+  return hash.readUInt32BE(0) / 0x1_0000_0000;
+}
+
+export class PromptRegistry {
+  private prompts = new Map<string, Map<number, PromptDefinition>>();
+  private pinned = new Map<string, number>();
+  private experiments = new Map<string, PromptExperiment>();
+
+  register(...definitions: PromptDefinition[]): this {
+    for (const definition of definitions) {
+      if (!this.prompts.has(definition.id)) {
+        this.prompts.set(definition.id, new Map());
+      }
+      const versions = this.prompts.get(definition.id)!;
+      if (versions.has(definition.version)) {
+        throw new Error(`Prompt "${definition.id}" version ${definition.version} is already registered`);
+      }
+      versions.set(definition.version, definition);
+    }
+    return this;
+  }
+
+  ids(): string[] {
+    return [...this.prompts.keys()].sort();
+  }
+
+  versions(id: string): number[] {
+    return [...(this.prompts.get(id)?.keys() ?? [])].sort((a, b) => a - b);
+  }
+
+  /**
+   * A specific version, or the active one
+   */
+  get(id: string, version?: number): PromptDefinition {
+    const versions = this.prompts.get(id);
+    if (!versions) throw new PromptNotFoundError(id);
+
+    const resolved = version ?? this.activeVersion(id);
+    const prompt = versions.get(resolved);
+    if (!prompt) throw new PromptNotFoundError(id, resolved);
+    return prompt;
+  }
+
+  /**
+   * Pinned version, else the newest
+   */
+  activeVersion(id: string): number {
+    const versions = this.versions(id);
+    if (versions.length === 0) throw new PromptNotFoundError(id);
+    return this.pinned.get(id) ?? versions[versions.length - 1];
+  }
+
+  pin(id: string, version: number): void {
+    this.get(id, version);
+    this.pinned.set(id, version);
+  }
+
+  startExperiment(experiment: PromptExperiment): void {
+    this.get(experiment.promptId, experiment.control);
+    this.get(experiment.promptId, experiment.variant);
+    if (experiment.control === experiment.variant) {
+      throw new Error('An experiment needs two different versions');
+    }
+    if (!(experiment.variantShare >= 0 && experiment.variantShare <= 1)) {
+      throw new Error('variantShare must be between 0 and 1');
+    }
+    this.experiments.set(experiment.promptId, experiment);
+  }
+
+  stopExperiment(promptId: string): void {
+    this.experiments.delete(promptId);
+  }
+
+  getExperiment(promptId: string): PromptExperiment | undefined {
+    return this.experiments.get(promptId);
+  }
+
+  listExperiments(): PromptExperiment[] {
+    return [...this.experiments.values()];
+  }
+
+  /**
+   * The version to use for a call. Without a unit key, experiment arms are
+   * assigned at random.
+   */
+  select(id: string, unitKey?: string): PromptSelection {
+    const experiment = this.experiments.get(id);
+    if (!experiment) return { prompt: this.get(id), arm: null };
+
+    const bucket = unitKey === undefined ? Math.random() : experimentBucket(id, unitKey);
+    const arm: PromptArm = bucket < experiment.variantShare ? 'variant' : 'control';
+
+    return { prompt: this.get(id, experiment[arm]), arm };
+  }
+}
@@ -0,0 +1,26 @@
+import type { LLMMessage } from '@/lib/llm';
+import type { PromptDefinition } from './types';
+
+export type PromptVariables = Record<string, string | number | null | undefined>;
+
+/**
+ * Substitute `{name}` placeholders; unknown placeholders are left as-is
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in variables)) return match;
+    const value = variables[key];
+    return value === null || value === undefined ? 'N/A' : String(value);
+  });
+}
+
+/**
+ * System (and, when the prompt defines one, user) messages for a prompt
+ */
+export function renderPrompt(prompt: PromptDefinition, variables: PromptVariables): LLMMessage[] {
+  const messages: LLMMessage[] = [{ role: 'system', content: renderTemplate(prompt.system, variables) }];
+  if (prompt.user !== undefined) {
+    messages.push({ role: 'user', content: renderTemplate(prompt.user, variables) });
+  }
+  return messages;
+}
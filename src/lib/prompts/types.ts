@@ -0,0 +1,47 @@
+/**
+ * Shared types for the prompt registry
+ */
+
+/**
+ * A versioned prompt. Templates use `{name}` placeholders filled from the
+ * caller's variables (see `renderTemplate`).
+ */
+export interface PromptDefinition {
+  id: string;
+  version: number;
+  description?: string;
+  system: string;
+  /** Omitted for prompts whose user message is built per call */
+  user?: string;
+}
+
+/**
+ * Split traffic between two versions of a prompt
+ */
+export interface PromptExperiment {
+  promptId: string;
+  control: number;
+  variant: number;
+  /** Fraction of traffic (0-1) served the variant */
+  variantShare: number;
+}
+
+export type PromptArm = 'control' | 'variant';
+
+export interface PromptSelection {
+  prompt: PromptDefinition;
+  /** Experiment arm, or null when no experiment is running for the prompt */
+  arm: PromptArm | null;
+}
+
+/**
+ * One use of a prompt, as recorded for the analysis that made it
+ */
+export interface PromptUsage {
+  promptId: string;
+  version: number;
+  arm: PromptArm | null;
+  /** Served from the agent result cache (no model call) */
+  cached: boolean;
+  durationMs: number;
+}
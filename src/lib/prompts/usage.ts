@@ -0,0 +1,26 @@
+/**
+ * Prompt usage tracing
+ *
+ * Callers wrap a unit of work (one agent run) in `collectPromptUsage` to
+ * learn which prompt versions it used; prompt consumers report each use
+ * with `recordPromptUsage`. Uses outside a collection are dropped.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { PromptUsage } from './types';
+
+const storage = new AsyncLocalStorage<PromptUsage[]>();
+
+export async function collectPromptUsage<T>(fn: () => Promise<T>): Promise<{ result: T; usages: PromptUsage[] }> {
+  const usages: PromptUsage[] = [];
+  const result = await storage.run(usages, fn);
+
+  // Nested collections also count toward the enclosing one
+  storage.getStore()?.push(...usages);
+
+  return { result, usages };
+}
+
+export function recordPromptUsage(usage: PromptUsage): void {
+  storage.getStore()?.push(usage);
+}
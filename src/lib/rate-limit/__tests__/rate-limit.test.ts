@@ -0,0 +1,157 @@
+/**
+ * Tests for rate limiting algorithms, the limiter, response headers and
+ * caller identity
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { slidingWindow, tokenBucket, type SlidingWindowState, type TokenBucketState } from '../algorithms';
+import { RateLimiter } from '../limiter';
+import { MemoryRateLimitStore } from '../stores/memory-store';
+import { rateLimitHeaders } from '../headers';
+import { clientIdentifier } from '..';
+import type { RateLimitPolicy, RateLimitStore } from '../types';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { warn: vi.fn(), info: vi.fn(), error: vi.fn() },
+}));
+
+const MINUTE = 60_000;
+const window: RateLimitPolicy = { name: 'test', algorithm: 'sliding-window', limit: 5, windowMs: MINUTE };
+const bucket: RateLimitPolicy = { name: 'test', algorithm: 'token-bucket', limit: 5, windowMs: MINUTE };
+
+function run<S>(
+  algorithm: (state: S | null, policy: RateLimitPolicy, now: number) => { state: S; decision: { allowed: boolean } },
+  policy: RateLimitPolicy,
+  times: number[],
+  initial: S | null = null
+) {
+  let state = initial;
+  return times.map(now => {
+    const step = algorithm(state, policy, now);
+    state = step.state;
+    return step;
+  });
+}
+
+describe('slidingWindow', () => {
+  it('allows up to the limit within a window', () => {
+    const steps = run<SlidingWindowState>(slidingWindow, window, [0, 1, 2, 3, 4, 5]);
+
+    expect(steps.map(s => s.decision.allowed)).toEqual([true, true, true, true, true, false]);
+    expect(steps[4].decision.remaining).toBe(0);
+  });
+
+  it('weights the previous window instead of resetting at the boundary', () => {
+    const full = run<SlidingWindowState>(slidingWindow, window, [0, 1, 2, 3, 4]).at(-1)!.state;
+
+    // Just after the boundary the previous window still counts almost fully
+    expect(slidingWindow(full, window, MINUTE + 1).decision.allowed).toBe(false);
+    // Halfway through, 2.5 of the 5 still count
+    const halfway = slidingWindow(full, window, MINUTE * 1.5);
+    expect(halfway.decision.allowed).toBe(true);
+    expect(halfway.decision.remaining).toBe(1);
+  });
+
+  it('reports when the next request will be allowed', () => {
+    const full = run<SlidingWindowState>(slidingWindow, window, [0, 1, 2, 3, 4]).at(-1)!.state;
+    const denied = slidingWindow(full, window, MINUTE + 1);
+
+    const retryAt = MINUTE + 1 + denied.decision.retryAfterMs;
+    expect(slidingWindow(full, window, retryAt).decision.allowed).toBe(true);
+    expect(slidingWindow(full, window, retryAt - 1000).decision.allowed).toBe(false);
+  });
+
+  it('forgets windows older than the previous one', () => {
+    const full = run<SlidingWindowState>(slidingWindow, window, [0, 1, 2, 3, 4]).at(-1)!.state;
+
+    expect(slidingWindow(full, window, MINUTE * 2 + 1).decision.remaining).toBe(4);
+  });
+});
+
+describe('tokenBucket', () => {
+  it('allows a burst up to capacity, then refills continuously', () => {
+    const steps = run<TokenBucketState>(tokenBucket, bucket, [0, 0, 0, 0, 0, 0]);
+    expect(steps.map(s => s.decision.allowed)).toEqual([true, true, true, true, true, false]);
+
+    const empty = steps.at(-1)!;
+    // One token every 12 seconds
+    expect(empty.decision.retryAfterMs).toBe(12_000);
+    expect(tokenBucket(empty.state, bucket, 11_000).decision.allowed).toBe(false);
+    expect(tokenBucket(empty.state, bucket, 12_000).decision.allowed).toBe(true);
+  });
+
+  it('never refills beyond capacity', () => {
+    const step = tokenBucket({ tokens: 0, updatedAt: 0 }, bucket, MINUTE * 10);
+
+    expect(step.decision.remaining).toBe(4);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('keeps separate state per policy and identifier', async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+    const tight: RateLimitPolicy = { ...window, name: 'tight', limit: 1 };
+
+    expect((await limiter.check('a', tight)).allowed).toBe(true);
+    expect((await limiter.check('a', tight)).allowed).toBe(false);
+    expect((await limiter.check('b', tight)).allowed).toBe(true);
+    expect((await limiter.check('a', { ...tight, name: 'other' })).allowed).toBe(true);
+
+    await limiter.reset('a', tight);
+    expect((await limiter.check('a', tight)).allowed).toBe(true);
+  });
+
+  it('peeks without counting the request', async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+    const tight: RateLimitPolicy = { ...window, name: 'tight', limit: 1 };
+
+    expect((await limiter.peek('a', tight)).allowed).toBe(true);
+    expect((await limiter.peek('a', tight)).allowed).toBe(true);
+    expect((await limiter.check('a', tight)).allowed).toBe(true);
+    expect((await limiter.peek('a', tight)).allowed).toBe(false);
+  });
+
+  it('fails open when the store is unavailable', async () => {
+    const broken: RateLimitStore = {
+      name: 'broken',
+      update: () => Promise.reject(new Error('connection refused')),
+      reset: () => Promise.resolve(),
+    };
+    const limiter = new RateLimiter(broken);
+
+    const decision = await limiter.check('a', window);
+    expect(decision.allowed).toBe(true);
+    expect(decision.remaining).toBe(5);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('emits the standard RateLimit fields, with Retry-After when denied', () => {
+    const now = Date.now();
+    const headers = rateLimitHeaders({
+      allowed: false,
+      policy: window,
+      limit: 5,
+      remaining: 0,
+      resetAt: now + 30_000,
+      retryAfterMs: 12_500,
+    });
+
+    expect(headers['RateLimit-Limit']).toBe('5');
+    expect(headers['RateLimit-Remaining']).toBe('0');
+    expect(headers['RateLimit-Policy']).toBe('5;w=60');
+    expect(Number(headers['RateLimit-Reset'])).toBeGreaterThanOrEqual(29);
+    expect(headers['Retry-After']).toBe('13');
+  });
+});
+
+describe('clientIdentifier', () => {
+  it('identifies callers by IP, never by an unverified API key', () => {
+    const request = new Request('http://localhost/api/pitches', {
+      headers: { 'x-api-key': 'sk_made_up', 'x-forwarded-for': '203.0.113.7' },
+    });
+
+    expect(clientIdentifier(request)).toBe('203.0.113.7');
+    expect(clientIdentifier(new Request('http://localhost/api/pitches', { headers: { 'x-api-key': 'sk_made_up' } }))).toBe('unknown');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Rate limiting algorithms
+ *
+ * Pure functions from (stored state, policy, now) to (new state, decision),
+ * so every store shares the same semantics.
+ */
+
+import type { RateLimitPolicy, RateLimitStep } from './types';
+
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by
+ * how much of it still overlaps the sliding window. With `consume` false the
+ * request is only checked, not counted.
+ */
+export function slidingWindow(
+  stored: SlidingWindowState | null,
+  policy: RateLimitPolicy,
+  now: number,
+  consume = true
+): RateLimitStep<SlidingWindowState> {
+  const { limit, windowMs } = policy;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let current = 0;
+  let previous = 0;
+  if (stored?.windowStart === windowStart) {
+    current = stored.current;
+    previous = stored.previous;
+  } else if (stored?.windowStart === windowStart - windowMs) {
+    previous = stored.current;
+  }
+
+  const weight = 1 - (now - windowStart) / windowMs;
+  const allowed = previous * weight + current + 1 <= limit;
+  if (allowed && consume) current++;
+
+  const used = previous * weight + current;
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // When the weighted estimate next drops to limit - 1
+    retryAfterMs = current + 1 > limit
+      ? windowStart + windowMs + windowMs * (1 - (limit - 1) / current) - now
+      : windowStart + windowMs * (1 - (limit - 1 - current) / previous) - now;
+  }
+
+  return {
+    state: { windowStart, current, previous },
+    decision: {
+      allowed,
+      policy,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - used)),
+      resetAt: windowStart + windowMs * (current > 0 ? 2 : 1),
+      retryAfterMs: Math.max(0, Math.ceil(retryAfterMs)),
+    },
+  };
+}
+
+/**
+ * Token bucket: `limit` tokens capacity, refilled continuously at
+ * `limit / windowMs` tokens per ms. With `consume` false no token is taken.
+ */
+export function tokenBucket(
+  stored: TokenBucketState | null,
+  policy: RateLimitPolicy,
+  now: number,
+  consume = true
+): RateLimitStep<TokenBucketState> {
+  const { limit, windowMs } = policy;
+  const refillPerMs = limit / windowMs;
+
+  const elapsed = stored ? Math.max(0, now - stored.updatedAt) : 0;
+  let tokens = stored ? Math.min(limit, stored.tokens + elapsed * refillPerMs) : limit;
+
+  const allowed = tokens >= 1;
+  if (allowed && consume) tokens -= 1;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      policy,
+      limit,
+      remaining: Math.floor(tokens),
+      resetAt: now + Math.ceil((limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * How long a key's state must be kept for the algorithm to stay correct
+ */
+export function stateTtlMs(policy: RateLimitPolicy): number {
+  return policy.algorithm === 'sliding-window' ? policy.windowMs * 2 : policy.windowMs;
+}
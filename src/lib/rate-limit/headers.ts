@@ -0,0 +1,44 @@
+/**
+ * Standard rate limit response headers (IETF RateLimit header fields)
+ */
+
+import { NextResponse } from 'next/server';
+import type { RateLimitDecision } from './types';
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': decision.limit.toString(),
+    'RateLimit-Remaining': decision.remaining.toString(),
+    'RateLimit-Reset': Math.max(0, Math.ceil((decision.resetAt - Date.now()) / 1000)).toString(),
+    'RateLimit-Policy': `${decision.limit};w=${Math.ceil(decision.policy.windowMs / 1000)}`,
+  };
+
+  if (!decision.allowed) {
+    headers['Retry-After'] = Math.ceil(decision.retryAfterMs / 1000).toString();
+  }
+
+  return headers;
+}
+
+export function applyRateLimitHeaders(response: Response, decision: RateLimitDecision): void {
+  for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+    response.headers.set(name, value);
+  }
+}
+
+/**
+ * 429 response for a denied decision
+ */
+export function rateLimitExceeded(decision: RateLimitDecision, extra: Record<string, unknown> = {}): NextResponse {
+  const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+
+  return NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      message: `Too many requests. Please try again in ${retryAfter} seconds.`,
+      retryAfter,
+      ...extra,
+    },
+    { status: 429, headers: rateLimitHeaders(decision) }
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Rate limiting
+ *
+ * Exposes a shared `rateLimiter` backed by the store named in
+ * `RATE_LIMIT_STORE`:
+ *
+ * - `memory` (default outside production): per-process
+ * - `sql` (default in production): the `RateLimitBucket` table, shared by
+ *   every instance and kept across deploys
+ * - `redis`: register a client at startup with
+ *   `rateLimiter.setStore(new RedisRateLimitStore(client))`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { RateLimiter } from './limiter';
+import { MemoryRateLimitStore } from './stores/memory-store';
+import { SqlRateLimitStore } from './stores/sql-store';
+import { rateLimitExceeded } from './headers';
+import type { RateLimitPolicyName } from './policies';
+import type { RateLimitPolicy, RateLimitStore } from './types';
+
+function createDefaultStore(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE
+    ?? (process.env.NODE_ENV === 'production' ? 'sql' : 'memory');
+
+  if (configured === 'sql') return new SqlRateLimitStore();
+  if (configured === 'redis') {
+    logger.warn('RATE_LIMIT_STORE=redis needs a client registered with rateLimiter.setStore(); using memory until then');
+  }
+  return new MemoryRateLimitStore();
+}
+
+export const rateLimiter = new RateLimiter(createDefaultStore());
+
+/**
+ * Caller identity for unauthenticated routes: the client IP. An unverified
+ * `x-api-key` header isn't used, since any made-up value would get a fresh
+ * bucket and the SQL store would keep the raw key
+ */
+export function clientIdentifier(request: Request): string {
+  return request.headers.get('x-forwarded-for')
+    || request.headers.get('x-real-ip')
+    || 'unknown';
+}
+
+/**
+ * Check a route policy for a request.
+ * Returns null if allowed, NextResponse with 429 if rate limited.
+ */
+export async function rateLimit(
+  request: NextRequest,
+  policy: RateLimitPolicy | RateLimitPolicyName
+): Promise<NextResponse | null> {
+  const decision = await rateLimiter.check(clientIdentifier(request), policy);
+  return decision.allowed ? null : rateLimitExceeded(decision);
+}
+
+export { RateLimiter } from './limiter';
+export { MemoryRateLimitStore } from './stores/memory-store';
+export { SqlRateLimitStore } from './stores/sql-store';
+export { RedisRateLimitStore } from './stores/redis-store';
+export type { RedisLikeClient } from './stores/redis-store';
+export { RATE_LIMIT_POLICIES, getRateLimitPolicy } from './policies';
+export type { RateLimitPolicyName } from './policies';
+export { slidingWindow, tokenBucket } from './algorithms';
+export { applyRateLimitHeaders, rateLimitExceeded, rateLimitHeaders } from './headers';
+export * from './types';
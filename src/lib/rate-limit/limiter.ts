@@ -0,0 +1,73 @@
+/**
+ * Rate limiter
+ *
+ * Applies a policy's algorithm to a key's state in the configured store.
+ */
+
+import { logger } from '@/lib/logger';
+import { slidingWindow, stateTtlMs, tokenBucket, type SlidingWindowState, type TokenBucketState } from './algorithms';
+import { getRateLimitPolicy, type RateLimitPolicyName } from './policies';
+import type { RateLimitDecision, RateLimitPolicy, RateLimitStore } from './types';
+
+export class RateLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  /**
+   * Swap the backing store (e.g. to a Redis store at startup, or in tests)
+   */
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  getStore(): RateLimitStore {
+    return this.store;
+  }
+
+  /**
+   * Count one request from `identifier` against `policy`
+   */
+  check(identifier: string, policyOrName: RateLimitPolicy | RateLimitPolicyName): Promise<RateLimitDecision> {
+    return this.apply(identifier, policyOrName, true);
+  }
+
+  /**
+   * Whether `identifier` could make a request now, without counting one
+   * (for quotas only charged once the action succeeds)
+   */
+  peek(identifier: string, policyOrName: RateLimitPolicy | RateLimitPolicyName): Promise<RateLimitDecision> {
+    return this.apply(identifier, policyOrName, false);
+  }
+
+  async reset(identifier: string, policyOrName: RateLimitPolicy | RateLimitPolicyName): Promise<void> {
+    await this.store.reset(`${getRateLimitPolicy(policyOrName).name}:${identifier}`);
+  }
+
+  private async apply(
+    identifier: string,
+    policyOrName: RateLimitPolicy | RateLimitPolicyName,
+    consume: boolean
+  ): Promise<RateLimitDecision> {
+    const policy = getRateLimitPolicy(policyOrName);
+    const now = Date.now();
+
+    try {
+      return await this.store.update(`${policy.name}:${identifier}`, stateTtlMs(policy), state => {
+        const step = policy.algorithm === 'token-bucket'
+          ? tokenBucket(state as TokenBucketState | null, policy, now, consume)
+          : slidingWindow(state as SlidingWindowState | null, policy, now, consume);
+        return { state: step.state as unknown, result: step.decision };
+      });
+    } catch (error) {
+      // Fail open: a store outage shouldn't take the API down with it
+      logger.warn(`Rate limit store "${this.store.name}" failed; allowing request`, error);
+      return {
+        allowed: true,
+        policy,
+        limit: policy.limit,
+        remaining: policy.limit,
+        resetAt: now + policy.windowMs,
+        retryAfterMs: 0,
+      };
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Named rate limit policies
+ *
+ * Routes refer to policies by name; keys are namespaced by policy, so the
+ * same caller has independent quotas per policy.
+ */
+
+import type { RateLimitPolicy } from './types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const RATE_LIMIT_POLICIES = {
+  // Agent pricing tiers (see middleware/agent-detector)
+  'tier-free': { name: 'tier-free', algorithm: 'sliding-window', limit: 10, windowMs: 30 * DAY },
+  'tier-agent': { name: 'tier-agent', algorithm: 'token-bucket', limit: 100_000, windowMs: MINUTE },
+  'tier-enterprise': { name: 'tier-enterprise', algorithm: 'token-bucket', limit: 1_000_000, windowMs: MINUTE },
+  human: { name: 'human', algorithm: 'sliding-window', limit: 100, windowMs: HOUR },
+
+  // Per-route
+  'pitch-submit': { name: 'pitch-submit', algorithm: 'sliding-window', limit: 5, windowMs: MINUTE },
+  'funding-accept': { name: 'funding-accept', algorithm: 'sliding-window', limit: 10, windowMs: HOUR },
+
+  // Per-founder submission quotas (anti-sybil)
+  'founder-daily': { name: 'founder-daily', algorithm: 'sliding-window', limit: 3, windowMs: DAY },
+  'founder-weekly': { name: 'founder-weekly', algorithm: 'sliding-window', limit: 10, windowMs: 7 * DAY },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export function getRateLimitPolicy(policy: RateLimitPolicy | RateLimitPolicyName): RateLimitPolicy {
+  return typeof policy === 'string' ? RATE_LIMIT_POLICIES[policy] : policy;
+}
@@ -0,0 +1,48 @@
+/**
+ * In-memory rate limit store
+ *
+ * Per-process only: counts reset on restart and are not shared between
+ * instances. Fine for development and single-instance deployments.
+ */
+
+import type { RateLimitStore } from '../types';
+
+interface Entry {
+  state: unknown;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private entries = new Map<string, Entry>();
+  private lastSweep = Date.now();
+
+  async update<S, R>(key: string, ttlMs: number, fn: (state: S | null) => { state: S; result: R }): Promise<R> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? (entry.state as S) : null;
+
+    // Synchronous read-modify-write, so updates can't interleave
+    const { state, result } = fn(current);
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+
+    return result;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Redis-compatible rate limit store
+ *
+ * Works with any client exposing the ioredis-style commands below (ioredis,
+ * Valkey, Dragonfly, Upstash's ioredis-compatible client). No Redis client
+ * ships with the app; construct one and register it with
+ * `rateLimiter.setStore(new RedisRateLimitStore(client))`.
+ *
+ * Uses WATCH/MULTI so concurrent updates to a key retry instead of
+ * overwriting each other.
+ */
+
+import type { RateLimitStore } from '../types';
+
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<unknown>;
+  watch(key: string): Promise<unknown>;
+  unwatch(): Promise<unknown>;
+  multi(): {
+    set(key: string, value: string, mode: 'PX', ttlMs: number): unknown;
+    /** Resolves to null when a watched key changed (transaction aborted) */
+    exec(): Promise<unknown[] | null>;
+  };
+}
+
+const MAX_ATTEMPTS = 5;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly keyPrefix = 'ratelimit:'
+  ) {}
+
+  async update<S, R>(key: string, ttlMs: number, fn: (state: S | null) => { state: S; result: R }): Promise<R> {
+    const redisKey = this.keyPrefix + key;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      await this.client.watch(redisKey);
+      const raw = await this.client.get(redisKey);
+
+      const { state, result } = fn(raw ? (JSON.parse(raw) as S) : null);
+
+      const transaction = this.client.multi();
+      transaction.set(redisKey, JSON.stringify(state), 'PX', ttlMs);
+      if (await transaction.exec()) return result;
+    }
+
+    await this.client.unwatch();
+    throw new Error(`Rate limit state for "${key}" is too contended`);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+}
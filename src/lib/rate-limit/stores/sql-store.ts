@@ -0,0 +1,74 @@
+/**
+ * SQL-backed rate limit store (Prisma `RateLimitBucket`)
+ *
+ * Shared by every instance and survives deploys. Updates use optimistic
+ * concurrency on `version`, so two requests racing on the same key never
+ * both spend the same quota.
+ */
+
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { RateLimitStore } from '../types';
+
+const MAX_ATTEMPTS = 5;
+const PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export class SqlRateLimitStore implements RateLimitStore {
+  readonly name = 'sql';
+  private lastPurge = Date.now();
+
+  constructor(private readonly db: PrismaClient = prisma) {}
+
+  async update<S, R>(key: string, ttlMs: number, fn: (state: S | null) => { state: S; result: R }): Promise<R> {
+    await this.purgeExpired();
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const now = new Date();
+      const row = await this.db.rateLimitBucket.findUnique({ where: { key } });
+      const current = row && row.expiresAt > now ? (row.state as S) : null;
+
+      const { state, result } = fn(current);
+      const data = {
+        state: state as Prisma.InputJsonValue,
+        expiresAt: new Date(now.getTime() + ttlMs),
+      };
+
+      if (!row) {
+        try {
+          await this.db.rateLimitBucket.create({ data: { key, ...data } });
+          return result;
+        } catch (error) {
+          if (isUniqueViolation(error)) continue; // Another request created it first
+          throw error;
+        }
+      }
+
+      const { count } = await this.db.rateLimitBucket.updateMany({
+        where: { key, version: row.version },
+        data: { ...data, version: { increment: 1 } },
+      });
+      if (count === 1) return result;
+    }
+
+    throw new Error(`Rate limit state for "${key}" is too contended`);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.db.rateLimitBucket.deleteMany({ where: { key } });
+  }
+
+  /**
+   * Drop expired buckets (runs at most every few minutes)
+   */
+  private async purgeExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPurge < PURGE_INTERVAL_MS) return;
+    this.lastPurge = now;
+
+    await this.db.rateLimitBucket.deleteMany({ where: { expiresAt: { lt: new Date(now) } } });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Shared types for the rate limiter
+ */
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * How many requests a key may make.
+ *
+ * - `sliding-window`: at most `limit` requests in any `windowMs` span
+ *   (weighted two-window counter, so memory per key is constant)
+ * - `token-bucket`: bursts up to `limit`, refilled at `limit` per `windowMs`
+ */
+export interface RateLimitPolicy {
+  name: string;
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the full quota is available again */
+  resetAt: number;
+  /** Ms until the next request would be allowed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+/**
+ * Outcome of applying an algorithm to a key's stored state
+ */
+export interface RateLimitStep<S> {
+  state: S;
+  decision: RateLimitDecision;
+}
+
+/**
+ * Pluggable persistence for limiter state. `update` must apply `fn`
+ * atomically per key (no lost updates between concurrent requests).
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  update<S, R>(key: string, ttlMs: number, fn: (state: S | null) => { state: S; result: R }): Promise<R>;
+  reset(key: string): Promise<void>;
+}
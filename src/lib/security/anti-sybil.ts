@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/prisma";
+import { rateLimiter } from "@/lib/rate-limit";
 import crypto from "crypto";
 
 /**
@@ -82,62 +83,45 @@ export async function checkDuplicateStartup(startup: {
   return { isDuplicate: false };
 }
 
-// Rate limiting per email
+const founderKey = (email: string) => email.trim().toLowerCase();
+
+// Rate limiting per email (3 submissions per day, 10 per week). Only checks
+// the quota; recordSubmission() uses it up once the startup is stored.
 export async function checkRateLimit(email: string): Promise<{
   allowed: boolean;
   reason?: string;
   waitTime?: number;
 }> {
-  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-  const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  
-  // Count submissions in last 24 hours
-  const recentCount = await prisma.startup.count({
-    where: {
-      founderEmail: {
-        equals: email,
-        
-      },
-      createdAt: {
-        gte: oneDayAgo,
-      },
-    },
-  });
+  const founder = founderKey(email);
   
-  // Limit: 3 submissions per day
-  if (recentCount >= 3) {
+  const daily = await rateLimiter.peek(founder, 'founder-daily');
+  if (!daily.allowed) {
     return {
       allowed: false,
       reason: "Maximum 3 submissions per day reached",
-      waitTime: 24 * 60 * 60, // seconds
+      waitTime: Math.ceil(daily.retryAfterMs / 1000), // seconds
     };
   }
   
-  // Count submissions in last week
-  const weeklyCount = await prisma.startup.count({
-    where: {
-      founderEmail: {
-        equals: email,
-        
-      },
-      createdAt: {
-        gte: oneWeekAgo,
-      },
-    },
-  });
-  
-  // Limit: 10 submissions per week
-  if (weeklyCount >= 10) {
+  const weekly = await rateLimiter.peek(founder, 'founder-weekly');
+  if (!weekly.allowed) {
     return {
       allowed: false,
       reason: "Maximum 10 submissions per week reached",
-      waitTime: 7 * 24 * 60 * 60, // seconds
+      waitTime: Math.ceil(weekly.retryAfterMs / 1000), // seconds
     };
   }
   
   return { allowed: true };
 }
 
+// Count an accepted submission against the founder's quotas
+export async function recordSubmission(email: string): Promise<void> {
+  const founder = founderKey(email);
+  await rateLimiter.check(founder, 'founder-daily');
+  await rateLimiter.check(founder, 'founder-weekly');
+}
+
 // Content quality check (detect spam/gibberish)
 export function checkContentQuality(content: {
   name: string;
@@ -0,0 +1,273 @@
+/**
+ * Analysis Diff Service
+ *
+ * Compares two analysis runs of a startup: overall and per-agent score
+ * deltas, strengths/concerns added or removed, valuation change, and the
+ * pitch edits that most likely moved the verdict.
+ *
+ * Attribution is heuristic: each pitch field is mapped to the agents that
+ * read it, and an edit is ranked by how much those agents' scores moved.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { PitchInput } from '@/lib/agents/checkpoints';
+
+type StoredRun = Prisma.AnalysisGetPayload<{ include: { results: true } }>;
+
+interface AgentSnapshot {
+  agentId: string;
+  agentType: string;
+  agentName: string;
+  role: string;
+  score: number;
+  strengths: string[];
+  concerns: string[];
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface AgentDelta {
+  agentId: string;
+  agentType: string;
+  agentName: string;
+  role: string;
+  /** `added`/`removed`: the agent only ran in one of the two runs */
+  status: 'changed' | 'unchanged' | 'added' | 'removed';
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  strengths: ListDiff;
+  concerns: ListDiff;
+}
+
+export interface InputChange {
+  field: keyof PitchInput;
+  before: unknown;
+  after: unknown;
+  /** Names of agents that read this field and whose result changed */
+  likelyAffected: string[];
+  /** Sum of absolute score movement of those agents (ranking key) */
+  impact: number;
+}
+
+export interface AnalysisDiff {
+  from: RunSummary;
+  to: RunSummary;
+  overall: { before: number; after: number; delta: number };
+  recommendation: { before: string; after: string; changed: boolean };
+  valuation: { before: number; after: number; delta: number; percentChange: number | null };
+  agents: AgentDelta[];
+  strengths: ListDiff;
+  concerns: ListDiff;
+  /** Pitch edits between the runs, most likely cause first (null if a run predates snapshots) */
+  inputChanges: InputChange[] | null;
+}
+
+export interface RunSummary {
+  id: string;
+  runNumber: number;
+  createdAt: Date;
+  partial: boolean;
+}
+
+// Which agents read which pitch fields
+const FIELD_READERS: Record<keyof PitchInput, (agent: Pick<AgentSnapshot, 'agentId' | 'role'>) => boolean> = {
+  name: () => false,
+  tagline: a => ['market-research', 'gtm-strategist', 'competitive-intel'].includes(a.agentId),
+  description: () => true,
+  stage: a =>
+    ['financial-analyst', 'market-research', 'gtm-strategist', 'team-psychologist', 'fundraising-strategist'].includes(a.agentId),
+  industry: a => a.role === 'industry' || ['market-research', 'legal-compliance'].includes(a.agentId),
+  fundingAsk: a =>
+    ['financial-analyst', 'fundraising-strategist', 'competitive-intel', 'security-auditor'].includes(a.agentId),
+  teamSize: a => ['financial-analyst', 'technical-dd', 'team-psychologist'].includes(a.agentId),
+  website: a => ['technical-dd', 'security-auditor', 'competitive-intel'].includes(a.agentId),
+  deckUrl: a => ['financial-analyst', 'market-research'].includes(a.agentId),
+};
+
+// Runs stored before per-agent results existed only have the core columns
+const LEGACY_CORE = [
+  { agentId: 'financial-analyst', agentType: 'FINANCIAL_ANALYST', agentName: 'Financial Analyst', score: 'financialScore', feedback: 'financialFeedback' },
+  { agentId: 'technical-dd', agentType: 'TECHNICAL_DD', agentName: 'Technical Due Diligence', score: 'technicalScore', feedback: 'technicalFeedback' },
+  { agentId: 'market-research', agentType: 'MARKET_RESEARCH', agentName: 'Market Research', score: 'marketScore', feedback: 'marketFeedback' },
+  { agentId: 'legal-compliance', agentType: 'LEGAL_COMPLIANCE', agentName: 'Legal & Compliance', score: 'legalScore', feedback: 'legalFeedback' },
+] as const;
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function agentSnapshots(run: StoredRun): Map<string, AgentSnapshot> {
+  const snapshots = new Map<string, AgentSnapshot>();
+
+  for (const result of run.results) {
+    const output = (result.output ?? {}) as Record<string, unknown>;
+    snapshots.set(result.agentType, {
+      agentId: result.agentId,
+      agentType: result.agentType,
+      agentName: result.agentName,
+      role: result.role,
+      score: result.score,
+      strengths: stringList(output.strengths),
+      concerns: stringList(output.concerns),
+    });
+  }
+
+  if (run.results.length === 0) {
+    for (const core of LEGACY_CORE) {
+      const feedback = (run[core.feedback] ?? {}) as Record<string, unknown>;
+      snapshots.set(core.agentType, {
+        agentId: core.agentId,
+        agentType: core.agentType,
+        agentName: core.agentName,
+        role: 'core',
+        score: run[core.score],
+        strengths: stringList(feedback.strengths),
+        concerns: stringList(feedback.concerns),
+      });
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Items in `after` but not `before` and vice versa (case/whitespace-insensitive)
+ */
+export function diffLists(before: string[], after: string[]): ListDiff {
+  const normalize = (item: string) => item.trim().toLowerCase();
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+
+  return {
+    added: after.filter(item => !beforeKeys.has(normalize(item))),
+    removed: before.filter(item => !afterKeys.has(normalize(item))),
+  };
+}
+
+function summarize(run: StoredRun): RunSummary {
+  return { id: run.id, runNumber: run.runNumber, createdAt: run.createdAt, partial: run.partial };
+}
+
+function diffInputs(from: StoredRun, to: StoredRun, agents: AgentDelta[]): InputChange[] | null {
+  if (!from.inputSnapshot || !to.inputSnapshot) return null;
+
+  const before = from.inputSnapshot as Partial<PitchInput>;
+  const after = to.inputSnapshot as Partial<PitchInput>;
+  const changes: InputChange[] = [];
+
+  for (const field of Object.keys(FIELD_READERS) as Array<keyof PitchInput>) {
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+
+    const affected = agents.filter(agent => agent.status !== 'unchanged' && FIELD_READERS[field](agent));
+    changes.push({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+      likelyAffected: affected.map(agent => agent.agentName),
+      impact: affected.reduce((sum, agent) => sum + Math.abs(agent.delta ?? agent.after ?? agent.before ?? 0), 0),
+    });
+  }
+
+  return changes.sort((a, b) => b.impact - a.impact);
+}
+
+/**
+ * Diff two stored runs (`from` is the older one)
+ */
+export function diffAnalysisRuns(from: StoredRun, to: StoredRun): AnalysisDiff {
+  const beforeAgents = agentSnapshots(from);
+  const afterAgents = agentSnapshots(to);
+  const agentTypes = [...new Set([...beforeAgents.keys(), ...afterAgents.keys()])];
+
+  const agents: AgentDelta[] = agentTypes.map(agentType => {
+    const before = beforeAgents.get(agentType);
+    const after = afterAgents.get(agentType);
+    const agent = (after ?? before)!;
+    const strengths = diffLists(before?.strengths ?? [], after?.strengths ?? []);
+    const concerns = diffLists(before?.concerns ?? [], after?.concerns ?? []);
+    const delta = before && after ? after.score - before.score : null;
+    const textChanged = [strengths, concerns].some(list => list.added.length + list.removed.length > 0);
+
+    return {
+      agentId: agent.agentId,
+      agentType: agent.agentType,
+      agentName: agent.agentName,
+      role: agent.role,
+      status: !before ? 'added' : !after ? 'removed' : delta !== 0 || textChanged ? 'changed' : 'unchanged',
+      before: before?.score ?? null,
+      after: after?.score ?? null,
+      delta,
+      strengths,
+      concerns,
+    };
+  });
+
+  // Biggest movers first
+  agents.sort((a, b) => Math.abs(b.delta ?? 100) - Math.abs(a.delta ?? 100));
+
+  const valuationDelta = to.valuation - from.valuation;
+
+  return {
+    from: summarize(from),
+    to: summarize(to),
+    overall: {
+      before: from.overallScore,
+      after: to.overallScore,
+      delta: to.overallScore - from.overallScore,
+    },
+    recommendation: {
+      before: from.recommendation,
+      after: to.recommendation,
+      changed: from.recommendation !== to.recommendation,
+    },
+    valuation: {
+      before: from.valuation,
+      after: to.valuation,
+      delta: valuationDelta,
+      percentChange: from.valuation > 0 ? Math.round((valuationDelta / from.valuation) * 1000) / 10 : null,
+    },
+    agents,
+    strengths: {
+      added: agents.flatMap(agent => agent.strengths.added),
+      removed: agents.flatMap(agent => agent.strengths.removed),
+    },
+    concerns: {
+      added: agents.flatMap(agent => agent.concerns.added),
+      removed: agents.flatMap(agent => agent.concerns.removed),
+    },
+    inputChanges: diffInputs(from, to, agents),
+  };
+}
+
+/**
+ * Diff two runs of a startup. `to` defaults to the newest run and `from` to
+ * the run before it. Returns null when either run can't be found.
+ */
+export async function getAnalysisDiff(
+  startupId: string,
+  options: { from?: string; to?: string } = {}
+): Promise<AnalysisDiff | null> {
+  const include = { results: true } as const;
+
+  const to = options.to
+    ? await prisma.analysis.findFirst({ where: { id: options.to, startupId }, include })
+    : await prisma.analysis.findFirst({ where: { startupId }, orderBy: { runNumber: 'desc' }, include });
+  if (!to) return null;
+
+  const from = options.from
+    ? await prisma.analysis.findFirst({ where: { id: options.from, startupId }, include })
+    : await prisma.analysis.findFirst({
+        where: { startupId, runNumber: { lt: to.runNumber } },
+        orderBy: { runNumber: 'desc' },
+        include,
+      });
+  if (!from) return null;
+
+  // Always diff older → newer
+  return from.runNumber <= to.runNumber ? diffAnalysisRuns(from, to) : diffAnalysisRuns(to, from);
+}
@@ -0,0 +1,59 @@
+/**
+ * Analysis History Service
+ *
+ * Every analysis run is kept (one Analysis row per run, one AgentResult per
+ * agent). `Startup.analysis` points at the current run; these helpers read
+ * the full history for comparison.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * Runs for a startup, newest first, with per-agent scores (without raw output)
+ */
+export async function listAnalysisRuns(startupId: string, limit = DEFAULT_HISTORY_LIMIT) {
+  return prisma.analysis.findMany({
+    where: { startupId },
+    orderBy: { runNumber: 'desc' },
+    take: Math.min(Math.max(limit, 1), MAX_HISTORY_LIMIT),
+    select: {
+      id: true,
+      runNumber: true,
+      inputHash: true,
+      overallScore: true,
+      recommendation: true,
+      valuation: true,
+      partial: true,
+      analysisDuration: true,
+      createdAt: true,
+      results: {
+        select: {
+          agentId: true,
+          agentType: true,
+          agentName: true,
+          role: true,
+          schemaVersion: true,
+          score: true,
+          confidence: true,
+        },
+        orderBy: { agentId: 'asc' },
+      },
+    },
+  });
+}
+
+/**
+ * A single run with every agent's raw output, or null if it doesn't belong
+ * to the startup
+ */
+export async function getAnalysisRun(startupId: string, analysisId: string) {
+  return prisma.analysis.findFirst({
+    where: { id: analysisId, startupId },
+    include: {
+      results: { orderBy: { agentId: 'asc' } },
+    },
+  });
+}
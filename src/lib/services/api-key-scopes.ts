@@ -0,0 +1,11 @@
+/**
+ * API key scopes (kept free of server imports so the dashboard can use them)
+ */
+
+export const API_KEY_SCOPES = ['status:read', 'pitch:submit', 'funding:accept', 'keys:manage'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,270 @@
+/**
+ * API Key Service
+ *
+ * Users hold several named keys, each with its own scopes, optional expiry
+ * and usage counters. Only a SHA-256 hash of the secret is stored; the raw
+ * key is returned once, at creation or rotation.
+ *
+ * Keys issued before this table existed live in the plaintext
+ * `User.apiKey` column and are moved here the first time they are used.
+ */
+
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { API_KEY_SCOPES, isApiKeyScope, type ApiKeyScope } from './api-key-scopes';
+
+export { API_KEY_SCOPES, isApiKeyScope, type ApiKeyScope };
+
+/** Random characters of the raw key kept in clear so users can tell keys apart */
+const PREFIX_RANDOM_LENGTH = 8;
+
+export const MAX_ACTIVE_KEYS = 10;
+
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 403 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60),
+  /** Omitted: every scope the caller holds */
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required').optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+
+export interface VerifiedApiKey {
+  id: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  user: { id: string; email: string; tier: string };
+}
+
+// Never select the hash back out
+const publicFields = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  revokedAt: true,
+  rotatedFromId: true,
+  lastUsedAt: true,
+  usageCount: true,
+  createdAt: true,
+} as const;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function hasScope(key: Pick<VerifiedApiKey, 'scopes'>, scope: ApiKeyScope): boolean {
+  return key.scopes.includes(scope);
+}
+
+function parseScopes(value: unknown): ApiKeyScope[] {
+  return Array.isArray(value) ? value.filter(isApiKeyScope) : [];
+}
+
+function generateKey(tier: string): string {
+  return `sk_${tier}_${nanoid(32)}`;
+}
+
+// `sk_<tier>_` plus the start of the random part (the tier alone would
+// leave enterprise keys almost nothing to tell them apart)
+function keyFields(key: string) {
+  const head = key.match(/^sk_[a-z]+_/)?.[0].length ?? 0;
+  return { prefix: key.slice(0, head + PREFIX_RANDOM_LENGTH), keyHash: hashApiKey(key) };
+}
+
+async function insertKey(
+  userId: string,
+  tier: string,
+  data: { name: string; scopes: ApiKeyScope[]; expiresAt: Date | null },
+  key = generateKey(tier)
+) {
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: data.name,
+      ...keyFields(key),
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+    },
+    select: publicFields,
+  });
+
+  return { apiKey, key };
+}
+
+async function findOwnedKey(userId: string, id: string) {
+  const apiKey = await prisma.apiKey.findFirst({ where: { id, userId } });
+  if (!apiKey) throw new ApiKeyError('API key not found', 404);
+  return apiKey;
+}
+
+/**
+ * Data for creating a key inline with a new user (returns the raw key too)
+ */
+export function newUserApiKey(tier: string) {
+  const key = generateKey(tier);
+  return {
+    key,
+    data: {
+      name: 'Default',
+      ...keyFields(key),
+      scopes: [...API_KEY_SCOPES],
+    },
+  };
+}
+
+/**
+ * Issue a new key with exactly the given scopes. The raw key is only ever
+ * returned here.
+ */
+export async function createApiKey(
+  userId: string,
+  input: Omit<CreateApiKeyInput, 'scopes'> & { scopes: ApiKeyScope[] }
+) {
+  if (input.scopes.length === 0) throw new ApiKeyError('At least one scope is required');
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { tier: true } });
+  if (!user) throw new ApiKeyError('User not found', 404);
+
+  const active = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+  if (active >= MAX_ACTIVE_KEYS) {
+    throw new ApiKeyError(`At most ${MAX_ACTIVE_KEYS} active API keys per account; revoke one first`, 409);
+  }
+
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return insertKey(userId, user.tier, {
+    name: input.name,
+    scopes: input.scopes,
+    expiresAt,
+  });
+}
+
+/**
+ * Keys for a user, newest first (hashes are never returned)
+ */
+export async function listApiKeys(userId: string) {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    select: publicFields,
+  });
+}
+
+export async function revokeApiKey(userId: string, id: string) {
+  const apiKey = await findOwnedKey(userId, id);
+
+  return prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: apiKey.revokedAt ?? new Date() },
+    select: publicFields,
+  });
+}
+
+/**
+ * Replace a key with a fresh secret carrying the same name, scopes and
+ * lifetime. The old key stops working immediately. With `grantedScopes`
+ * (a key rotating another), the target may not have any scope beyond them.
+ */
+export async function rotateApiKey(userId: string, id: string, grantedScopes?: ApiKeyScope[]) {
+  const old = await findOwnedKey(userId, id);
+  if (old.revokedAt) throw new ApiKeyError('Cannot rotate a revoked API key', 409);
+
+  const escalated = grantedScopes ? parseScopes(old.scopes).filter(scope => !grantedScopes.includes(scope)) : [];
+  if (escalated.length > 0) {
+    throw new ApiKeyError(`Cannot rotate a key with scopes this key does not have: ${escalated.join(', ')}`, 403);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { tier: true } });
+  const lifetimeMs = old.expiresAt ? old.expiresAt.getTime() - old.createdAt.getTime() : null;
+
+  const key = generateKey(user?.tier ?? 'free');
+
+  return prisma.$transaction(async tx => {
+    const apiKey = await tx.apiKey.create({
+      data: {
+        userId,
+        name: old.name,
+        ...keyFields(key),
+        scopes: parseScopes(old.scopes),
+        expiresAt: lifetimeMs !== null ? new Date(Date.now() + lifetimeMs) : null,
+        rotatedFromId: old.id,
+      },
+      select: publicFields,
+    });
+    await tx.apiKey.update({ where: { id: old.id }, data: { revokedAt: new Date() } });
+    return { apiKey, key };
+  });
+}
+
+/**
+ * Move a legacy plaintext `User.apiKey` into the ApiKey table (same secret)
+ */
+async function migrateLegacyKey(key: string) {
+  const user = await prisma.user.findUnique({
+    where: { apiKey: key },
+    select: { id: true, tier: true },
+  });
+  if (!user) return null;
+
+  await insertKey(user.id, user.tier, { name: 'Default', scopes: [...API_KEY_SCOPES], expiresAt: null }, key);
+  await prisma.user.update({ where: { id: user.id }, data: { apiKey: null } });
+  logger.info('Migrated legacy API key', { userId: user.id });
+
+  return prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) }, include: { user: true } });
+}
+
+/**
+ * Resolve a raw key to its owner and scopes, recording usage. Returns null
+ * for unknown, revoked or expired keys.
+ */
+export async function verifyApiKey(key: string): Promise<VerifiedApiKey | null> {
+  if (!key) return null;
+
+  const apiKey =
+    (await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) }, include: { user: true } })) ??
+    (await migrateLegacyKey(key));
+
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return null;
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date(), usageCount: { increment: 1 } },
+  });
+
+  return {
+    id: apiKey.id,
+    prefix: apiKey.prefix,
+    scopes: parseScopes(apiKey.scopes),
+    user: { id: apiKey.user.id, email: apiKey.user.email, tier: apiKey.user.tier },
+  };
+}
+
+/**
+ * Read the key from `Authorization: Bearer` (or `X-API-Key`) and verify it
+ */
+export async function authenticateApiKey(request: Request): Promise<VerifiedApiKey | null> {
+  const authHeader = request.headers.get('authorization');
+  const key = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : request.headers.get('x-api-key');
+
+  return key ? verifyApiKey(key) : null;
+}
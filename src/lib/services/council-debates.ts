@@ -0,0 +1,340 @@
+/**
+ * Council Debate Service
+ *
+ * Runs the Live AI Council (`DebateOrchestrator`) over a stored startup and
+ * keeps the result: one CouncilDebate with the decision, transcript and
+ * offers, one CouncilVote per council member and one CouncilDebateEvent per
+ * broadcast (the log debates are replayed and exported from). The debate is
+ * created as RUNNING before it starts, so a crashed debate is still visible.
+ *
+ * In an interactive debate the council pauses on each question until the
+ * founder who started it answers (`answerFounderQuestion`) or time runs out.
+ */
+
+import { z } from 'zod';
+import type { CouncilDebate, CouncilDebateEvent, CouncilVote, Prisma, Startup } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withLLMContext } from '@/lib/llm';
+import { planBudget } from '@/lib/billing/budget';
+import {
+  DEFAULT_FOUNDER_ANSWER_TIMEOUT_MS,
+  MAX_FOUNDER_ANSWER_TIMEOUT_MS,
+  MIN_FOUNDER_ANSWER_TIMEOUT_MS,
+  awaitFounderAnswer,
+  cancelFounderQuestions,
+  submitFounderAnswer,
+} from '@/lib/council/founder-answers';
+import {
+  DebateOrchestrator,
+  estimateDebateCost,
+  type DebateDecision,
+  type DebateEvent,
+  type DebateMessage,
+  type DebateOffer,
+  type DebatePitch,
+  type DebatePosition,
+  type DebateResult,
+} from '@/lib/council/debate-orchestrator';
+import type { DebateLogEntry } from '@/lib/council/debate-log';
+import type { ConsensusResult } from '@/lib/consensus';
+import type { CouncilDebateDetail, CouncilVoteDetail } from '@/types/dashboard';
+
+export const DEFAULT_COUNCIL_DEBATE_LIMIT = 10;
+export const MAX_COUNCIL_DEBATE_LIMIT = 50;
+
+export const FounderAnswerSchema = z.object({
+  questionId: z.string().min(1),
+  answer: z.string().trim().min(1).max(4000),
+});
+
+export class CouncilDebateError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 403 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = 'CouncilDebateError';
+  }
+}
+
+/**
+ * Council pitch for a stored startup
+ */
+export function debatePitchFromStartup(startup: Startup): DebatePitch {
+  return {
+    companyName: startup.name,
+    industry: startup.industry,
+    shortDescription: startup.tagline,
+    problemStatement: startup.description,
+    teamSize: startup.teamSize,
+  };
+}
+
+function logRows(debateId: string, log: DebateLogEntry[]): Prisma.CouncilDebateEventCreateManyInput[] {
+  return log.map(entry => ({
+    debateId,
+    seq: entry.seq,
+    type: entry.event.type,
+    elapsedMs: entry.elapsedMs,
+    payload: entry.event as unknown as Prisma.InputJsonValue,
+  }));
+}
+
+export async function completeCouncilDebate(
+  debateId: string,
+  result: DebateResult,
+  log: DebateLogEntry[] = []
+): Promise<void> {
+  const votes: Prisma.CouncilVoteCreateManyInput[] = result.agents.map((agent, seat) => ({
+    debateId,
+    agentId: agent.id,
+    seat,
+    agentName: agent.name,
+    role: agent.role,
+    avatar: agent.avatar,
+    position: agent.position,
+    sentiment: agent.sentiment,
+  }));
+
+  await prisma.$transaction([
+    prisma.councilVote.createMany({ data: votes }),
+    prisma.councilDebateEvent.createMany({ data: logRows(debateId, log) }),
+    prisma.councilDebate.update({
+      where: { id: debateId },
+      data: {
+        status: 'COMPLETED',
+        decision: result.decision,
+        confidence: result.confidence,
+        transcript: result.transcript as unknown as Prisma.InputJsonValue,
+        offers: result.offers as unknown as Prisma.InputJsonValue,
+        consensus: result.consensus as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    }),
+  ]);
+}
+
+/**
+ * Mark a debate FAILED, keeping the events broadcast before it failed
+ */
+export async function failCouncilDebate(
+  debateId: string,
+  error: unknown,
+  log: DebateLogEntry[] = []
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.councilDebateEvent.createMany({ data: logRows(debateId, log) }),
+    prisma.councilDebate.update({
+      where: { id: debateId },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      },
+    }),
+  ]);
+}
+
+/**
+ * Debate one of the user's startups and persist the transcript and votes.
+ * Throws CouncilDebateError for an unknown or someone else's startup and
+ * BudgetExceededError when the caller can't afford the debate.
+ */
+export async function runCouncilDebate(options: {
+  startupId: string;
+  /** The caller, charged for the debate; must own the startup */
+  userId: string;
+  /** Wait for the founder's answer to each question */
+  interactive?: boolean;
+  /** Per question; clamped to 10s–10min (default 2min) */
+  answerTimeoutMs?: number;
+  /** Called with the stored debate's id before the council convenes */
+  onStart?: (debateId: string) => void;
+  onEvent?: (event: DebateEvent) => void;
+  /** Abort to stop the debate (it is stored as FAILED) and close its questions */
+  signal?: AbortSignal;
+}): Promise<{ debateId: string; result: DebateResult }> {
+  const { startupId, userId, interactive = false, onStart, onEvent, signal } = options;
+
+  const startup = await prisma.startup.findUnique({ where: { id: startupId } });
+  if (!startup) throw new CouncilDebateError('Startup not found', 404);
+  // Answers are stored as the founder's, so only the founder may convene it
+  if (startup.userId !== userId) {
+    throw new CouncilDebateError('Only the startup\'s founder can convene the council', 403);
+  }
+  const pitch = debatePitchFromStartup(startup);
+
+  const plan = await planBudget({ userId, baseCostUsd: estimateDebateCost() });
+
+  // Record the debate before it starts so failures are kept too
+  const debate = await prisma.councilDebate.create({
+    data: {
+      startupId,
+      userId,
+      interactive,
+      input: { ...pitch },
+    },
+  });
+  onStart?.(debate.id);
+
+  // Log every broadcast with its offset, then pass it on to the viewer
+  const log: DebateLogEntry[] = [];
+  const startedAt = Date.now();
+  const orchestrator = new DebateOrchestrator(
+    event => {
+      log.push({ seq: log.length, elapsedMs: Date.now() - startedAt, event });
+      onEvent?.(event);
+    },
+    interactive
+      ? {
+          answerQuestion: question =>
+            signal?.aborted ? Promise.resolve(null) : awaitFounderAnswer(debate.id, question.questionId, question.timeoutMs),
+          answerTimeoutMs: Math.min(
+            Math.max(options.answerTimeoutMs ?? DEFAULT_FOUNDER_ANSWER_TIMEOUT_MS, MIN_FOUNDER_ANSWER_TIMEOUT_MS),
+            MAX_FOUNDER_ANSWER_TIMEOUT_MS
+          ),
+          signal,
+        }
+      : { signal }
+  );
+
+  // Don't keep the council waiting on a founder who has left
+  const closeQuestions = () => cancelFounderQuestions(debate.id);
+  signal?.addEventListener('abort', closeQuestions);
+
+  let result: DebateResult;
+  try {
+    result = await withLLMContext(
+      { userId, startupId, downgrade: plan.downgraded },
+      () => orchestrator.conductDebate(pitch)
+    );
+    // Inside the try: a debate that can't be stored must not stay RUNNING
+    await completeCouncilDebate(debate.id, result, log);
+  } catch (error) {
+    await failCouncilDebate(debate.id, error, log);
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', closeQuestions);
+    closeQuestions();
+  }
+
+  return { debateId: debate.id, result };
+}
+
+/**
+ * Answer an open question in an interactive debate. Only the founder who
+ * started the debate may answer; a question that was already answered or
+ * timed out is a 409.
+ */
+export async function answerFounderQuestion(options: {
+  startupId: string;
+  debateId: string;
+  userId: string;
+  questionId: string;
+  answer: string;
+}): Promise<void> {
+  const { startupId, debateId, userId, questionId, answer } = options;
+
+  const debate = await prisma.councilDebate.findFirst({
+    where: { id: debateId, startupId },
+    select: { userId: true, status: true, interactive: true },
+  });
+  if (!debate) throw new CouncilDebateError('Council debate not found', 404);
+  if (debate.userId !== userId) {
+    throw new CouncilDebateError('Only the founder who started the debate can answer', 403);
+  }
+  if (!debate.interactive || debate.status !== 'RUNNING') {
+    throw new CouncilDebateError('The council isn\'t taking answers in this debate', 409);
+  }
+
+  if (!submitFounderAnswer(debateId, questionId, answer)) {
+    throw new CouncilDebateError('Question is no longer open', 409);
+  }
+}
+
+/**
+ * Debates for a startup, newest first, without transcripts
+ */
+export async function listCouncilDebates(startupId: string, limit = DEFAULT_COUNCIL_DEBATE_LIMIT) {
+  return prisma.councilDebate.findMany({
+    where: { startupId },
+    orderBy: { startedAt: 'desc' },
+    take: Math.min(Math.max(limit, 1), MAX_COUNCIL_DEBATE_LIMIT),
+    select: {
+      id: true,
+      status: true,
+      interactive: true,
+      decision: true,
+      confidence: true,
+      error: true,
+      startedAt: true,
+      completedAt: true,
+      _count: { select: { events: true } },
+    },
+  });
+}
+
+function toVote(vote: CouncilVote): CouncilVoteDetail {
+  return {
+    agentId: vote.agentId,
+    agentName: vote.agentName,
+    role: vote.role,
+    avatar: vote.avatar,
+    position: vote.position as DebatePosition | null,
+    sentiment: vote.sentiment,
+  };
+}
+
+function toDebateDetail(debate: CouncilDebate & { votes: CouncilVote[] }): CouncilDebateDetail {
+  return {
+    id: debate.id,
+    companyName: (debate.input as Partial<DebatePitch> | null)?.companyName ?? '',
+    status: debate.status,
+    interactive: debate.interactive,
+    startedAt: debate.startedAt.toISOString(),
+    completedAt: debate.completedAt?.toISOString() ?? null,
+    decision: debate.decision as DebateDecision | null,
+    confidence: debate.confidence,
+    transcript: Array.isArray(debate.transcript) ? (debate.transcript as unknown as DebateMessage[]) : [],
+    votes: debate.votes.map(toVote),
+    offers: Array.isArray(debate.offers) ? (debate.offers as unknown as DebateOffer[]) : [],
+    consensus: (debate.consensus as unknown as ConsensusResult | null) ?? null,
+    error: debate.error,
+  };
+}
+
+/**
+ * A debate with its transcript and votes, or null if it doesn't belong to
+ * the startup. `debateId` may be "latest".
+ */
+export async function getCouncilDebate(startupId: string, debateId: string): Promise<CouncilDebateDetail | null> {
+  const debate = await prisma.councilDebate.findFirst({
+    where: debateId === 'latest' ? { startupId } : { id: debateId, startupId },
+    orderBy: { startedAt: 'desc' },
+    include: { votes: { orderBy: { seat: 'asc' } } },
+  });
+
+  return debate ? toDebateDetail(debate) : null;
+}
+
+function toLogEntry(row: CouncilDebateEvent): DebateLogEntry {
+  return { seq: row.seq, elapsedMs: row.elapsedMs, event: row.payload as unknown as DebateEvent };
+}
+
+/**
+ * A debate with its event log in broadcast order, or null if it doesn't
+ * belong to the startup. `debateId` may be "latest".
+ */
+export async function getCouncilDebateLog(
+  startupId: string,
+  debateId: string
+): Promise<{ debate: CouncilDebateDetail; entries: DebateLogEntry[] } | null> {
+  const debate = await prisma.councilDebate.findFirst({
+    where: debateId === 'latest' ? { startupId } : { id: debateId, startupId },
+    orderBy: { startedAt: 'desc' },
+    include: { votes: { orderBy: { seat: 'asc' } }, events: { orderBy: { seq: 'asc' } } },
+  });
+  if (!debate) return null;
+
+  return { debate: toDebateDetail(debate), entries: debate.events.map(toLogEntry) };
+}
@@ -0,0 +1,198 @@
+/**
+ * Exit Analysis Service
+ *
+ * Runs the M&A agents (`orchestrateExitAnalysis`) for a company, charged to
+ * the caller's LLM budget, and keeps each report in ExitAnalysis: the row is
+ * created as ANALYZING, then completed with the valuation band, readiness
+ * score and full report, or marked FAILED with the error.
+ */
+
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withLLMContext } from '@/lib/llm';
+import { planBudget } from '@/lib/billing/budget';
+import { decodeStringArray, encodeStringArray } from '@/lib/utils/json-arrays';
+import {
+  estimateExitAnalysisCost,
+  orchestrateExitAnalysis,
+  type ExitAnalysisInput,
+  type ExitAnalysisReport,
+} from '@/lib/agents/ma/ma-orchestrator';
+
+export const DEFAULT_EXIT_HISTORY_LIMIT = 20;
+export const MAX_EXIT_HISTORY_LIMIT = 100;
+
+const money = z.number().finite();
+const nonNegative = money.min(0);
+const percent = z.number().min(0).max(100);
+
+/**
+ * Request body for an exit analysis. The exit form only collects the
+ * essentials; everything else has a neutral default (derived fields are
+ * computed from the ones given).
+ */
+export const ExitAnalysisInputSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Company name is required').max(200),
+    industry: z.string().trim().min(1, 'Industry is required').max(100),
+    stage: z.string().trim().min(1).max(50).default('growth'),
+    founded: z.string().trim().max(20).default(''),
+
+    revenue: nonNegative,
+    revenueGrowth: money,
+    ebitda: money.default(0),
+    ebitdaMargin: money.optional(),
+    arr: nonNegative.optional(),
+    burnRate: nonNegative.default(0),
+    cashPosition: nonNegative.default(0),
+    runway: nonNegative.default(0),
+
+    customerCount: z.number().int().min(0),
+    ltv: nonNegative.default(0),
+    cac: nonNegative.default(0),
+    churnRate: percent.default(0),
+
+    employeeCount: z.number().int().min(1),
+    foundersStaying: z.boolean().default(true),
+
+    technology: z.string().max(2000).default(''),
+    hasIP: z.boolean().default(false),
+    moat: z.string().max(2000).default(''),
+
+    founderOwnership: percent,
+    investorOwnership: percent.optional(),
+    totalRaised: nonNegative.default(0),
+    lastValuation: nonNegative.default(0),
+    liquidationPreference: nonNegative.default(1),
+
+    hasLitigation: z.boolean().default(false),
+    hasDebt: z.boolean().default(false),
+    hasPreferredStock: z.boolean().default(false),
+
+    geography: z.array(z.string().trim().min(1)).max(50).default([]),
+    hasForeignSubsidiaries: z.boolean().default(false),
+
+    targetExitValue: money.positive(),
+    timelinePressure: z.enum(['urgent', 'moderate', 'patient']).default('moderate'),
+    preferredAcquirerType: z.enum(['strategic', 'pe', 'public', 'any']).optional(),
+  })
+  .transform((data): ExitAnalysisInput => ({
+    ...data,
+    ebitdaMargin: data.ebitdaMargin ?? (data.revenue > 0 ? (data.ebitda / data.revenue) * 100 : 0),
+    arr: data.arr ?? data.revenue,
+    investorOwnership: data.investorOwnership ?? Math.max(0, 100 - data.founderOwnership),
+  }));
+
+// Everything except the report itself
+const summaryFields = {
+  id: true,
+  companyName: true,
+  industry: true,
+  stage: true,
+  revenue: true,
+  status: true,
+  error: true,
+  valuationLow: true,
+  valuationBase: true,
+  valuationHigh: true,
+  readinessScore: true,
+  recommendation: true,
+  topAcquirers: true,
+  createdAt: true,
+  completedAt: true,
+} as const;
+
+/**
+ * Analyze and store. Throws BudgetExceededError when the user can't afford
+ * the agents; rethrows agent failures after marking the row FAILED.
+ */
+export async function runExitAnalysis(
+  input: ExitAnalysisInput,
+  userId: string
+): Promise<{ id: string; report: ExitAnalysisReport }> {
+  const plan = await planBudget({ userId, baseCostUsd: estimateExitAnalysisCost() });
+
+  const { id } = await prisma.exitAnalysis.create({
+    data: {
+      userId,
+      companyName: input.name,
+      industry: input.industry,
+      stage: input.stage,
+      revenue: input.revenue,
+      input: input as unknown as Prisma.InputJsonValue,
+      topAcquirers: encodeStringArray([]),
+    },
+    select: { id: true },
+  });
+
+  let report: ExitAnalysisReport;
+  try {
+    report = await withLLMContext(
+      { userId, downgrade: plan.downgraded },
+      () => orchestrateExitAnalysis(input)
+    );
+  } catch (error) {
+    await prisma.exitAnalysis.update({
+      where: { id },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+
+  const { estimatedValue, readinessScore, recommendation } = report.executiveSummary;
+  await prisma.exitAnalysis.update({
+    where: { id },
+    data: {
+      status: 'COMPLETE',
+      valuationLow: estimatedValue.low,
+      valuationBase: estimatedValue.base,
+      valuationHigh: estimatedValue.high,
+      readinessScore: Math.round(readinessScore),
+      recommendation,
+      topAcquirers: encodeStringArray(report.acquirers.topAcquirers.slice(0, 10).map(acquirer => acquirer.name)),
+      fullReport: report as unknown as Prisma.InputJsonValue,
+      completedAt: new Date(),
+    },
+  });
+
+  return { id, report };
+}
+
+/**
+ * A user's reports, newest first, without the full report
+ */
+export async function listExitAnalyses(userId: string, limit = DEFAULT_EXIT_HISTORY_LIMIT) {
+  const rows = await prisma.exitAnalysis.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(Math.max(limit, 1), MAX_EXIT_HISTORY_LIMIT),
+    select: summaryFields,
+  });
+
+  return rows.map(row => ({ ...row, topAcquirers: decodeStringArray(row.topAcquirers) }));
+}
+
+/**
+ * One report with its input and full report. Reports with an owner are
+ * only returned to that owner; anonymous ones (from before reports needed
+ * a session) to anyone with the id.
+ */
+export async function getExitAnalysis(id: string, userId?: string | null) {
+  const row = await prisma.exitAnalysis.findUnique({
+    where: { id },
+    select: { ...summaryFields, userId: true, input: true, fullReport: true },
+  });
+  if (!row || (row.userId && row.userId !== userId)) return null;
+
+  const { fullReport, ...rest } = row;
+  return {
+    ...rest,
+    topAcquirers: decodeStringArray(row.topAcquirers),
+    report: fullReport as unknown as ExitAnalysisReport | null,
+  };
+}
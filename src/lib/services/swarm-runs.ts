@@ -0,0 +1,357 @@
+/**
+ * Evaluation Swarm Run Service
+ *
+ * Stores each evaluation-swarm run against its startup: one SwarmRun with
+ * the consensus and timing, one SwarmAgent per spawned agent (sub-agents
+ * point at their parent, so the spawn tree can be rebuilt) and one
+ * SwarmOffer per offer. The run is created as RUNNING before the swarm
+ * starts, so a crashed run is still visible.
+ */
+
+import type { Prisma, Startup, SwarmAgent, SwarmOffer, SwarmRun } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  EvaluationOrchestrator,
+  estimateSwarmCost,
+  type AgentAnalysis,
+  type Pitch,
+  type SwarmEvaluation,
+  type SwarmEventListener,
+} from '@/lib/agents/evaluation-swarm/orchestrator';
+import {
+  resolveSpawnPolicy,
+  type SkippedSpawn,
+  type SpawnPolicy,
+  type SpawnPolicyInput,
+} from '@/lib/agents/evaluation-swarm/spawn-policy';
+import { planBudget } from '@/lib/billing/budget';
+import { withLLMContext } from '@/lib/llm';
+import type { SwarmAgentNode, SwarmRunDetail, SwarmRunOffer } from '@/types/dashboard';
+
+export const DEFAULT_SWARM_RUN_LIMIT = 10;
+export const MAX_SWARM_RUN_LIMIT = 50;
+
+export class SwarmRunError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 403 | 404 = 400
+  ) {
+    super(message);
+    this.name = 'SwarmRunError';
+  }
+}
+
+/**
+ * Swarm pitch for a stored startup. Fields the Startup doesn't hold
+ * (valuation, traction, founder background...) come from `overrides`;
+ * valuation falls back to the current analysis.
+ */
+export function pitchFromStartup(
+  startup: Startup & { analysis?: { valuation: number | null } | null },
+  overrides: Partial<Pitch> = {}
+): Pitch {
+  const valuation = overrides.valuation ?? startup.analysis?.valuation ?? null;
+  if (!valuation) {
+    throw new SwarmRunError('pitch.valuation is required until the startup has been analyzed');
+  }
+
+  return {
+    founderBackground: 'N/A',
+    ...overrides,
+    id: startup.id,
+    name: startup.name,
+    tagline: startup.tagline,
+    description: startup.description,
+    industry: startup.industry,
+    stage: startup.stage,
+    fundingAsk: startup.fundingAsk,
+    teamSize: startup.teamSize,
+    founderName: startup.founderName,
+    valuation,
+  };
+}
+
+export async function startSwarmRun(data: {
+  startupId: string;
+  userId?: string | null;
+  pitch: Pitch;
+  allowSubAgents: boolean;
+  policy: SpawnPolicy;
+}): Promise<SwarmRun> {
+  return prisma.swarmRun.create({
+    data: {
+      startupId: data.startupId,
+      userId: data.userId ?? null,
+      input: data.pitch as unknown as Prisma.InputJsonValue,
+      allowSubAgents: data.allowSubAgents,
+      policy: { ...data.policy },
+    },
+  });
+}
+
+/**
+ * Every analysis in the tree, parents first
+ */
+function flattenAnalyses(analyses: AgentAnalysis[]): AgentAnalysis[] {
+  return analyses.flatMap(analysis => [analysis, ...flattenAnalyses(analysis.subAgentAnalyses ?? [])]);
+}
+
+export async function completeSwarmRun(runId: string, evaluation: SwarmEvaluation): Promise<void> {
+  const analyses = new Map(flattenAnalyses(evaluation.agentAnalyses).map(analysis => [analysis.agentId, analysis]));
+  const { overallVerdict, confidenceScore, ...consensus } = evaluation.consensus;
+
+  const agents: Prisma.SwarmAgentCreateManyInput[] = evaluation.orchestratorDecision.spawnedAgents.map(agent => {
+    const analysis = analyses.get(agent.id);
+    return {
+      runId,
+      agentId: agent.id,
+      parentAgentId: agent.parentAgentId ?? null,
+      agentType: agent.type,
+      domain: agent.domain,
+      spawnedAt: new Date(agent.spawnedAt),
+      verdict: analysis?.verdict ?? null,
+      confidence: analysis ? Math.round(analysis.confidence) : null,
+      analysis: analysis
+        ? {
+            strengths: analysis.strengths,
+            weaknesses: analysis.weaknesses,
+            criticalQuestions: analysis.criticalQuestions,
+            recommendations: analysis.recommendations,
+            reasoning: analysis.reasoning,
+          }
+        : undefined,
+      analysisDepth: analysis?.metadata.analysisDepth ?? null,
+      timeSpentMs: analysis?.metadata.timeSpentMs ?? null,
+      promptId: analysis?.metadata.prompt?.id ?? null,
+      promptVersion: analysis?.metadata.prompt?.version ?? null,
+    };
+  });
+
+  const offers: Prisma.SwarmOfferCreateManyInput[] = evaluation.offers.map(offer => ({
+    runId,
+    agentId: offer.agentId,
+    agentType: offer.agentType,
+    interested: Boolean(offer.interested),
+    amount: offer.amount ?? null,
+    equity: offer.equity ?? null,
+    dealStructure: offer.dealStructure,
+    confidence: typeof offer.confidence === 'number' ? Math.round(offer.confidence) : null,
+    details: {
+      terms: offer.terms,
+      conditions: offer.conditions,
+      expectedReturn: offer.expectedReturn,
+      timeHorizon: offer.timeHorizon,
+      reasoning: offer.reasoning,
+    },
+  }));
+
+  await prisma.$transaction([
+    prisma.swarmAgent.createMany({ data: agents }),
+    prisma.swarmOffer.createMany({ data: offers }),
+    prisma.swarmRun.update({
+      where: { id: runId },
+      data: {
+        status: 'COMPLETED',
+        strategy: evaluation.orchestratorDecision.evaluationStrategy,
+        skippedSpawns: evaluation.orchestratorDecision.skippedSpawns as unknown as Prisma.InputJsonValue,
+        overallVerdict,
+        confidenceScore: Math.round(confidenceScore),
+        consensus: consensus as unknown as Prisma.InputJsonValue,
+        executionTimeMs: evaluation.executionTimeMs,
+        completedAt: new Date(),
+      },
+    }),
+  ]);
+}
+
+export async function failSwarmRun(runId: string, error: unknown): Promise<void> {
+  await prisma.swarmRun.update({
+    where: { id: runId },
+    data: {
+      status: 'FAILED',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Evaluate one of the user's startups with the swarm and persist the run.
+ * Throws SwarmRunError for an unknown or someone else's startup or an
+ * incomplete pitch and
+ * BudgetExceededError when the caller can't afford the top-level agents
+ * (sub-agents are dropped first).
+ */
+export async function runSwarmEvaluation(options: {
+  startupId: string;
+  /** The caller, charged for the run; must own the startup */
+  userId: string;
+  /** Pitch fields the startup doesn't hold */
+  overrides?: Partial<Pitch>;
+  /** Spawn limits; unset fields use the defaults */
+  policy?: SpawnPolicyInput;
+  onEvent?: SwarmEventListener;
+  /** Abort to stop spawning and running agents (the run is stored as FAILED) */
+  signal?: AbortSignal;
+}): Promise<{ runId: string; evaluation: SwarmEvaluation }> {
+  const { startupId, userId, onEvent, signal } = options;
+
+  const startup = await prisma.startup.findUnique({
+    where: { id: startupId },
+    include: { analysis: { select: { valuation: true } } },
+  });
+  if (!startup) throw new SwarmRunError('Startup not found', 404);
+  if (startup.userId !== userId) throw new SwarmRunError('You can only evaluate your own startups', 403);
+  const pitch = pitchFromStartup(startup, options.overrides);
+  const policy = resolveSpawnPolicy(options.policy);
+
+  const { baseCostUsd, subAgentCostUsd } = estimateSwarmCost(pitch, policy);
+  const plan = await planBudget({
+    userId,
+    baseCostUsd,
+    optional: [{ id: 'sub-agents', costUsd: subAgentCostUsd, priority: 0 }],
+  });
+
+  // Record the run before it starts so failures are kept too
+  const allowSubAgents = plan.included.includes('sub-agents');
+  const run = await startSwarmRun({ startupId, userId, pitch, allowSubAgents, policy });
+
+  const orchestrator = new EvaluationOrchestrator(pitch, { allowSubAgents, policy, signal });
+  if (onEvent) orchestrator.on(onEvent);
+
+  let evaluation: SwarmEvaluation;
+  try {
+    evaluation = await withLLMContext(
+      { userId, startupId, downgrade: plan.downgraded },
+      () => orchestrator.evaluate()
+    );
+    // Inside the try: a run that can't be stored must not stay RUNNING
+    await completeSwarmRun(run.id, evaluation);
+  } catch (error) {
+    await failSwarmRun(run.id, error);
+    throw error;
+  }
+
+  return { runId: run.id, evaluation };
+}
+
+/**
+ * Runs for a startup, newest first, without agents or offers
+ */
+export async function listSwarmRuns(startupId: string, limit = DEFAULT_SWARM_RUN_LIMIT) {
+  return prisma.swarmRun.findMany({
+    where: { startupId },
+    orderBy: { startedAt: 'desc' },
+    take: Math.min(Math.max(limit, 1), MAX_SWARM_RUN_LIMIT),
+    select: {
+      id: true,
+      status: true,
+      overallVerdict: true,
+      confidenceScore: true,
+      allowSubAgents: true,
+      executionTimeMs: true,
+      error: true,
+      startedAt: true,
+      completedAt: true,
+      _count: { select: { agents: true, offers: true } },
+    },
+  });
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Nest stored agents under their parents, in spawn order
+ */
+export function buildAgentTree(agents: SwarmAgent[]): SwarmAgentNode[] {
+  const nodes = new Map<string, SwarmAgentNode>();
+  const sorted = [...agents].sort((a, b) => a.spawnedAt.getTime() - b.spawnedAt.getTime());
+
+  for (const agent of sorted) {
+    const analysis = (agent.analysis ?? {}) as Record<string, unknown>;
+    nodes.set(agent.agentId, {
+      agentId: agent.agentId,
+      agentType: agent.agentType,
+      domain: agent.domain,
+      spawnedAt: agent.spawnedAt.toISOString(),
+      verdict: agent.verdict as SwarmAgentNode['verdict'],
+      confidence: agent.confidence,
+      strengths: stringArray(analysis.strengths),
+      weaknesses: stringArray(analysis.weaknesses),
+      criticalQuestions: stringArray(analysis.criticalQuestions),
+      recommendations: stringArray(analysis.recommendations),
+      reasoning: typeof analysis.reasoning === 'string' ? analysis.reasoning : null,
+      timeSpentMs: agent.timeSpentMs,
+      prompt: agent.promptId && agent.promptVersion !== null ? { id: agent.promptId, version: agent.promptVersion } : null,
+      subAgents: [],
+    });
+  }
+
+  const roots: SwarmAgentNode[] = [];
+  for (const agent of sorted) {
+    const node = nodes.get(agent.agentId)!;
+    const parent = agent.parentAgentId ? nodes.get(agent.parentAgentId) : undefined;
+    (parent ? parent.subAgents : roots).push(node);
+  }
+  return roots;
+}
+
+function toOffer(offer: SwarmOffer): SwarmRunOffer {
+  const details = (offer.details ?? {}) as Record<string, unknown>;
+  return {
+    agentId: offer.agentId,
+    agentType: offer.agentType,
+    interested: offer.interested,
+    amount: offer.amount,
+    equity: offer.equity,
+    dealStructure: offer.dealStructure,
+    confidence: offer.confidence,
+    terms: typeof details.terms === 'string' ? details.terms : undefined,
+    conditions: stringArray(details.conditions),
+    expectedReturn: typeof details.expectedReturn === 'string' ? details.expectedReturn : undefined,
+    timeHorizon: typeof details.timeHorizon === 'string' ? details.timeHorizon : undefined,
+    reasoning: typeof details.reasoning === 'string' ? details.reasoning : undefined,
+  };
+}
+
+/**
+ * A run with its agent tree and offers, or null if it doesn't belong to the
+ * startup. `runId` may be "latest".
+ */
+export async function getSwarmRun(startupId: string, runId: string): Promise<SwarmRunDetail | null> {
+  const run = await prisma.swarmRun.findFirst({
+    where: runId === 'latest' ? { startupId } : { id: runId, startupId },
+    orderBy: { startedAt: 'desc' },
+    include: { agents: true, offers: true },
+  });
+  if (!run) return null;
+
+  const consensus = run.consensus as SwarmRunDetail['consensus'];
+
+  return {
+    id: run.id,
+    status: run.status,
+    startedAt: run.startedAt.toISOString(),
+    completedAt: run.completedAt?.toISOString() ?? null,
+    executionTimeMs: run.executionTimeMs,
+    allowSubAgents: run.allowSubAgents,
+    policy: (run.policy as SpawnPolicy | null) ?? null,
+    skippedSpawns: Array.isArray(run.skippedSpawns) ? (run.skippedSpawns as unknown as SkippedSpawn[]) : [],
+    strategy: run.strategy,
+    overallVerdict: run.overallVerdict as SwarmRunDetail['overallVerdict'],
+    confidenceScore: run.confidenceScore,
+    consensus: consensus && {
+      topStrengths: stringArray(consensus.topStrengths),
+      topWeaknesses: stringArray(consensus.topWeaknesses),
+      criticalIssues: stringArray(consensus.criticalIssues),
+      vetoes: Array.isArray(consensus.vetoes) ? consensus.vetoes : [],
+      dissent: consensus.dissent ?? null,
+    },
+    error: run.error,
+    totalAgents: run.agents.length,
+    agents: buildAgentTree(run.agents),
+    offers: run.offers.map(toOffer),
+  };
+}
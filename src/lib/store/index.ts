@@ -26,6 +26,7 @@ export interface AgentAnalysis {
     technical: AgentScore;
     market: AgentScore;
     legal: AgentScore;
+    specialists?: AgentScore[]; // Industry & specialist agents that ran
     vcAgents: VCAgentScore[];
     overallScore: number;
     valuation: number;
@@ -95,6 +96,30 @@ interface AppState {
 // Generate unique ID
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
+// Poll the queued analysis job until the stored analysis is available
+const pollAnalysis = async (startupId: string, intervalMs = 3000, timeoutMs = 10 * 60 * 1000) => {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+        const response = await fetch(`/api/pitches/${startupId}/analyze`);
+        const result = await response.json();
+
+        if (!result.success) {
+            throw new Error(result.error || 'Analysis failed');
+        }
+        if (result.job?.status === 'DEAD') {
+            throw new Error(result.job.lastError || 'Analysis failed');
+        }
+        if (result.analysis) {
+            return result.analysis;
+        }
+    }
+
+    throw new Error('Analysis timed out');
+};
+
 // Create Store
 export const useStore = create<AppState>()(
     persist(
@@ -176,7 +201,7 @@ export const useStore = create<AppState>()(
                 get().updateStartup(startupId, { status: 'analyzing' });
 
                 try {
-                    // Trigger real AI analysis
+                    // Queue real AI analysis (runs on the background worker)
                     const response = await fetch(`/api/pitches/${startupId}/analyze`, {
                         method: 'POST',
                     });
@@ -187,9 +212,23 @@ export const useStore = create<AppState>()(
                         throw new Error(result.error || 'Analysis failed');
                     }
                     
-                    // Extract analysis data
-                    const analysisData = result.data;
-                    const synthesis = analysisData.synthesis;
+                    const stored = await pollAnalysis(startupId);
+                    
+                    // Extract analysis data (agent feedback is stored as JSON per agent)
+                    const analysisData = {
+                        financial: stored.financialFeedback,
+                        technical: stored.technicalFeedback,
+                        market: stored.marketFeedback,
+                        legal: stored.legalFeedback,
+                    };
+                    const specialistResults: Array<{ agentName: string; role: string; output: Omit<AgentScore, 'agentName'> }> =
+                        (stored.results || []).filter((result: { role: string }) => result.role !== 'core');
+                    const synthesis = {
+                        overallScore: stored.overallScore,
+                        valuation: stored.valuation,
+                        recommendation: stored.recommendation,
+                        summary: stored.summary,
+                    };
 
                     // Build analysis object from API response
                     const analysis: AgentAnalysis = {
@@ -225,6 +264,14 @@ export const useStore = create<AppState>()(
                             strengths: analysisData.legal.strengths,
                             concerns: analysisData.legal.concerns,
                         },
+                        specialists: specialistResults.map(({ agentName, output }) => ({
+                            agentName,
+                            score: output.score,
+                            confidence: output.confidence,
+                            feedback: output.feedback,
+                            strengths: output.strengths,
+                            concerns: output.concerns,
+                        })),
                         vcAgents: [], // Will be populated by VC matching later
                         overallScore: synthesis.overallScore,
                         valuation: synthesis.valuation,
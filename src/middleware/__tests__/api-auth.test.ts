@@ -0,0 +1,133 @@
+/**
+ * Tests for the shared /api/v1 authentication wrapper
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '../api-auth';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    apiKey: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/auth', () => ({
+  getSession: vi.fn(),
+}));
+
+function storedKey(id: string, tier: string, scopes = ['status:read']) {
+  return {
+    id,
+    prefix: `sk_${tier}_abcdefgh`,
+    scopes,
+    revokedAt: null,
+    expiresAt: null,
+    user: { id: `user-${id}`, email: 'founder@example.com', tier },
+  };
+}
+
+function request(headers: Record<string, string> = {}) {
+  return new Request('http://localhost:3000/api/v1/status', { headers });
+}
+
+const handler = vi.fn(async (_request: Request, auth: { user: { id: string }; agent: { tier: string } }) =>
+  NextResponse.json({ userId: auth.user.id, tier: auth.agent.tier })
+);
+
+describe('withApiAuth', () => {
+  const GET = withApiAuth({ scope: 'status:read' }, handler);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSession).mockResolvedValue(null);
+  });
+
+  it('resolves the tier from the database, not the key prefix', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(storedKey('k1', 'enterprise') as never);
+
+    const response = await GET(request({ authorization: 'Bearer sk_free_looks_cheap' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ userId: 'user-k1', tier: 'enterprise' });
+    expect(response.headers.get('RateLimit-Limit')).toBe('1000000');
+    expect(response.headers.get('RateLimit-Policy')).toBe('1000000;w=60');
+  });
+
+  it('falls back to the session when no key is sent', async () => {
+    vi.mocked(getSession).mockResolvedValue({ user: { id: 'user-s', email: 'founder@example.com' } });
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-s', email: 'founder@example.com', tier: 'growth' } as never);
+
+    const response = await GET(request());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ userId: 'user-s', tier: 'agent' });
+  });
+
+  it('keeps the human limit for dashboard sessions, whatever the tier', async () => {
+    vi.mocked(getSession).mockResolvedValue({ user: { id: 'user-d', email: 'founder@example.com' } });
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-d', email: 'founder@example.com', tier: 'free' } as never);
+
+    // More status polls than the free tier's 10 requests
+    for (let i = 0; i < 11; i++) {
+      expect((await GET(request())).status).toBe(200);
+    }
+    const response = await GET(request());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('RateLimit-Limit')).toBe('100');
+  });
+
+  it('returns 401 for an unknown key without consulting the session', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+
+    const response = await GET(request({ 'x-api-key': 'sk_free_unknown' }));
+
+    expect(response.status).toBe(401);
+    expect(getSession).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 when the key lacks the route scope', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(storedKey('k2', 'free', ['funding:accept']) as never);
+
+    const response = await GET(request({ authorization: 'Bearer sk_free_key' }));
+
+    expect(response.status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 once the tier limit is used up', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(storedKey('k3', 'free') as never);
+
+    // Free tier: 10 requests per window
+    for (let i = 0; i < 10; i++) {
+      expect((await GET(request({ authorization: 'Bearer sk_free_key' }))).status).toBe(200);
+    }
+    const response = await GET(request({ authorization: 'Bearer sk_free_key' }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBeTruthy();
+    expect(handler).toHaveBeenCalledTimes(10);
+  });
+
+  it('shares the tier limit between a user\'s keys', async () => {
+    const first = storedKey('k4', 'free');
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue(first as never);
+    for (let i = 0; i < 10; i++) {
+      expect((await GET(request({ authorization: 'Bearer sk_free_key' }))).status).toBe(200);
+    }
+
+    // A new key (e.g. after revoking the old one) doesn't get a fresh quota
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({ ...storedKey('k5', 'free'), user: first.user } as never);
+    const response = await GET(request({ authorization: 'Bearer sk_free_other' }));
+
+    expect(response.status).toBe(429);
+  });
+});
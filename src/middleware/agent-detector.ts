@@ -3,20 +3,25 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
+import {
+  RATE_LIMIT_POLICIES,
+  applyRateLimitHeaders,
+  rateLimitExceeded,
+  rateLimiter,
+  type RateLimitDecision,
+  type RateLimitPolicy,
+} from '@/lib/rate-limit';
 
 export interface AgentContext {
   isAgent: boolean;
   agentType?: string; // 'openclaw' | 'claude-code' | 'cursor' | 'copilot' | 'custom'
   apiKey?: string;
   tier: 'free' | 'agent' | 'enterprise';
-  rateLimit: {
-    max: number; // requests per window
-    window: number; // milliseconds
-  };
+  rateLimit: RateLimitPolicy;
 }
 
 // Detect if request is from AI agent
-export function detectAgent(request: NextRequest): AgentContext {
+export function detectAgent(request: Request): AgentContext {
   const headers = request.headers;
   
   // Check for agent mode header (set by CLI)
@@ -24,16 +29,15 @@ export function detectAgent(request: NextRequest): AgentContext {
   const apiKey = headers.get('x-api-key') || headers.get('authorization')?.replace('Bearer ', '');
   const userAgent = headers.get('user-agent') || '';
   
-  // Explicit agent mode (CLI, SDK)
+  // Explicit agent mode (CLI, SDK). Unverified keys get the free tier;
+  // withApiAuth resolves the real tier from the database.
   if (agentMode === 'true' || apiKey) {
-    const tier = getTierFromApiKey(apiKey || '');
-    
     return {
       isAgent: true,
       agentType: detectAgentType(userAgent),
       apiKey,
-      tier,
-      rateLimit: getRateLimitForTier(tier),
+      tier: 'free',
+      rateLimit: getRateLimitForTier('free'),
     };
   }
   
@@ -52,10 +56,7 @@ export function detectAgent(request: NextRequest): AgentContext {
   return {
     isAgent: false,
     tier: 'free',
-    rateLimit: {
-      max: 100, // 100 requests per hour for humans
-      window: 60 * 60 * 1000,
-    },
+    rateLimit: RATE_LIMIT_POLICIES.human, // 100 requests per hour for humans
   };
 }
 
@@ -80,83 +81,45 @@ function detectAgentType(userAgent: string): string | undefined {
   return undefined;
 }
 
-// Get tier from API key (simplified - in production, query database)
-function getTierFromApiKey(apiKey: string): 'free' | 'agent' | 'enterprise' {
-  // In production: validate against database
-  // For now: simple prefix detection
-  
-  if (apiKey.startsWith('sk_enterprise_')) return 'enterprise';
-  if (apiKey.startsWith('sk_agent_')) return 'agent';
-  if (apiKey.startsWith('sk_free_')) return 'free';
-  
-  // Default
+// Map a subscription tier (User.tier) to an agent pricing tier
+export function getAgentTier(subscriptionTier: string | null | undefined): AgentContext['tier'] {
+  if (subscriptionTier === 'enterprise') return 'enterprise';
+  if (subscriptionTier === 'starter' || subscriptionTier === 'growth' || subscriptionTier === 'agent') return 'agent';
   return 'free';
 }
 
-// Get rate limits for tier
-function getRateLimitForTier(tier: 'free' | 'agent' | 'enterprise'): {
-  max: number;
-  window: number;
-} {
-  const limits = {
-    free: {
-      max: 10, // 10 requests per month
-      window: 30 * 24 * 60 * 60 * 1000, // 30 days
-    },
-    agent: {
-      max: 100_000, // Effectively unlimited (100K/minute)
-      window: 60 * 1000, // 1 minute
-    },
-    enterprise: {
-      max: 1_000_000, // 1M requests/minute
-      window: 60 * 1000,
-    },
-  };
-  
-  return limits[tier];
+// Get rate limit policy for tier
+export function getRateLimitForTier(tier: AgentContext['tier']): RateLimitPolicy {
+  return RATE_LIMIT_POLICIES[`tier-${tier}`];
 }
 
-// Rate limiting (in-memory, production should use Redis)
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
-
+// Count a request against the context's policy
 export function checkRateLimit(
   identifier: string, // API key or IP
-  limit: { max: number; window: number }
-): { allowed: boolean; remaining: number; resetAt: number } {
-  const now = Date.now();
-  const record = rateLimitStore.get(identifier);
-  
-  // No record or window expired
-  if (!record || now > record.resetAt) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetAt: now + limit.window,
-    });
-    
-    return {
-      allowed: true,
-      remaining: limit.max - 1,
-      resetAt: now + limit.window,
-    };
-  }
+  policy: RateLimitPolicy
+): Promise<RateLimitDecision> {
+  return rateLimiter.check(identifier, policy);
+}
+
+// 429 response for an exhausted rate limit
+export function rateLimitExceededResponse(context: AgentContext, decision: RateLimitDecision): NextResponse {
+  return rateLimitExceeded(decision, {
+    tier: context.tier,
+    resetAt: new Date(decision.resetAt).toISOString(),
+    upgrade: context.tier === 'free' 
+      ? 'Upgrade to Agent tier ($99/mo) for unlimited access: https://swarm.accelerator.ai/pricing'
+      : undefined,
+  });
+}
+
+// Rate limit and agent headers on a successful response
+export function setAgentHeaders(response: Response, context: AgentContext, decision: RateLimitDecision): void {
+  applyRateLimitHeaders(response, decision);
+  response.headers.set('X-Agent-Mode', context.isAgent ? 'true' : 'false');
   
-  // Within window
-  if (record.count < limit.max) {
-    record.count++;
-    
-    return {
-      allowed: true,
-      remaining: limit.max - record.count,
-      resetAt: record.resetAt,
-    };
+  if (context.agentType) {
+    response.headers.set('X-Agent-Type', context.agentType);
   }
-  
-  // Rate limit exceeded
-  return {
-    allowed: false,
-    remaining: 0,
-    resetAt: record.resetAt,
-  };
 }
 
 // Middleware wrapper
@@ -169,41 +132,15 @@ export function withAgentDetection(
     // Check rate limit
     const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'anonymous';
     const identifier = agentContext.apiKey || ip;
-    const rateLimitResult = checkRateLimit(identifier, agentContext.rateLimit);
+    const rateLimitResult = await checkRateLimit(identifier, agentContext.rateLimit);
     
     if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        {
-          error: 'Rate limit exceeded',
-          tier: agentContext.tier,
-          resetAt: new Date(rateLimitResult.resetAt).toISOString(),
-          upgrade: agentContext.tier === 'free' 
-            ? 'Upgrade to Agent tier ($99/mo) for unlimited access: https://swarm.accelerator.ai/pricing'
-            : undefined,
-        },
-        {
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': agentContext.rateLimit.max.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': rateLimitResult.resetAt.toString(),
-            'Retry-After': Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000).toString(),
-          },
-        }
-      );
+      return rateLimitExceededResponse(agentContext, rateLimitResult);
     }
     
     // Add rate limit headers
     const response = await handler(req, agentContext);
-    
-    response.headers.set('X-RateLimit-Limit', agentContext.rateLimit.max.toString());
-    response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
-    response.headers.set('X-RateLimit-Reset', rateLimitResult.resetAt.toString());
-    response.headers.set('X-Agent-Mode', agentContext.isAgent ? 'true' : 'false');
-    
-    if (agentContext.agentType) {
-      response.headers.set('X-Agent-Type', agentContext.agentType);
-    }
+    setAgentHeaders(response, agentContext, rateLimitResult);
     
     return response;
   };
@@ -0,0 +1,135 @@
+// API Authentication Middleware
+// One wrapper for /api/v1 routes: authenticates (API key or session), resolves
+// the tier from the database, applies tier and route rate limits and records usage
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getSession } from '@/lib/auth';
+import { withPerformanceMonitoring } from '@/lib/monitoring/performance';
+import { rateLimiter, type RateLimitPolicy, type RateLimitPolicyName } from '@/lib/rate-limit';
+import { authenticateApiKey, hasScope, type ApiKeyScope, type VerifiedApiKey } from '@/lib/services/api-keys';
+import {
+  type AgentContext,
+  checkRateLimit,
+  detectAgent,
+  getAgentTier,
+  getRateLimitForTier,
+  rateLimitExceededResponse,
+  setAgentHeaders,
+  trackAgentUsage,
+} from './agent-detector';
+
+export interface ApiAuthOptions {
+  /** Scope an API key must carry (session users have every scope) */
+  scope?: ApiKeyScope;
+  /** Route policy enforced per caller on top of the tier limit */
+  rateLimit?: RateLimitPolicy | RateLimitPolicyName;
+}
+
+export interface ApiAuthContext {
+  user: { id: string; email: string; tier: string };
+  /** The verified key, or null when authenticated by session */
+  apiKey: VerifiedApiKey | null;
+  agent: AgentContext;
+}
+
+export interface RouteContext<P> {
+  params: Promise<P>;
+}
+
+type ApiHandler<P> = (
+  request: Request,
+  auth: ApiAuthContext,
+  context: RouteContext<P>
+) => Promise<Response>;
+
+function hasApiKeyHeader(request: Request): boolean {
+  return Boolean(request.headers.get('authorization') || request.headers.get('x-api-key'));
+}
+
+async function sessionUser() {
+  const session = await getSession();
+  if (!session?.user?.id) return null;
+
+  return prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, email: true, tier: true },
+  });
+}
+
+export function withApiAuth<P = Record<string, never>>(options: ApiAuthOptions, handler: ApiHandler<P>) {
+  return async (request: Request, context?: RouteContext<P>): Promise<Response> => {
+    const endpoint = new URL(request.url).pathname;
+
+    try {
+      // An API key, when sent, must be valid; otherwise fall back to the session
+      let apiKey: VerifiedApiKey | null = null;
+      let user: ApiAuthContext['user'] | null;
+
+      if (hasApiKeyHeader(request)) {
+        apiKey = await authenticateApiKey(request);
+        user = apiKey?.user ?? null;
+      } else {
+        user = await sessionUser();
+      }
+
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Invalid or missing API key' },
+          { status: 401 }
+        );
+      }
+
+      if (apiKey && options.scope && !hasScope(apiKey, options.scope)) {
+        return NextResponse.json(
+          { error: `API key is missing the ${options.scope} scope` },
+          { status: 403 }
+        );
+      }
+
+      // Tier quotas meter API-key and agent traffic; people using the
+      // dashboard keep the human limit, so polling an analysis is cheap
+      const tier = getAgentTier(user.tier);
+      const detected = detectAgent(request);
+      const agent: AgentContext = {
+        ...detected,
+        apiKey: apiKey?.prefix,
+        tier,
+        rateLimit: apiKey || detected.isAgent ? getRateLimitForTier(tier) : detected.rateLimit,
+      };
+
+      // The tier quota belongs to the user, so new keys don't reset it; route
+      // (burst) limits are per key
+      let rateLimitResult = await checkRateLimit(`user:${user.id}`, agent.rateLimit);
+      if (!rateLimitResult.allowed) {
+        return rateLimitExceededResponse(agent, rateLimitResult);
+      }
+
+      if (options.rateLimit) {
+        // Report whichever limit is closer to running out
+        const caller = apiKey ? `key:${apiKey.id}` : `user:${user.id}`;
+        const routeResult = await rateLimiter.check(caller, options.rateLimit);
+        if (!routeResult.allowed) {
+          return rateLimitExceededResponse(agent, routeResult);
+        }
+        if (routeResult.remaining < rateLimitResult.remaining) rateLimitResult = routeResult;
+      }
+
+      trackAgentUsage(agent, endpoint);
+
+      const response = await withPerformanceMonitoring(endpoint, request.method, () =>
+        handler(request, { user, apiKey, agent }, context ?? { params: Promise.resolve({} as P) })
+      );
+      setAgentHeaders(response, agent, rateLimitResult);
+
+      return response;
+    } catch (error) {
+      logger.error(`API auth error (${endpoint}):`, error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  };
+}
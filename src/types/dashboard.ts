@@ -2,6 +2,15 @@
  * Type definitions for Dashboard
  */
 
+import type { SkippedSpawn, SpawnPolicy } from '@/lib/agents/evaluation-swarm/spawn-policy';
+import type { ConsensusResult, ConsensusVeto, DissentReport } from '@/lib/consensus';
+import type {
+  DebateDecision,
+  DebateMessage,
+  DebateOffer,
+  DebatePosition,
+} from '@/lib/council/debate-orchestrator';
+
 /**
  * User type for dashboard
  */
@@ -68,6 +77,20 @@ export interface AgentFeedback {
   recommendations?: string[];
 }
 
+/**
+ * One agent's stored result within an analysis run
+ */
+export interface AgentResultSummary {
+  agentId: string;
+  agentType: string;
+  agentName: string;
+  role: 'core' | 'industry' | 'specialist';
+  schemaVersion: number;
+  score: number;
+  confidence: number | null;
+  output: Pick<AgentFeedback, 'strengths' | 'concerns'>;
+}
+
 /**
  * Complete pitch analysis
  */
@@ -82,3 +105,104 @@ export interface PitchAnalysis {
   legalFeedback: AgentFeedback;
   completedAt: Date;
 }
+
+/**
+ * A spawned evaluation-swarm agent with its analysis and sub-agents
+ */
+export interface SwarmAgentNode {
+  agentId: string;
+  agentType: string;
+  domain: string;
+  spawnedAt: string;
+  verdict: 'strong_yes' | 'yes' | 'maybe' | 'no' | 'strong_no' | null;
+  confidence: number | null;
+  strengths: string[];
+  weaknesses: string[];
+  criticalQuestions: string[];
+  recommendations: string[];
+  reasoning: string | null;
+  timeSpentMs: number | null;
+  prompt: { id: string; version: number } | null;
+  subAgents: SwarmAgentNode[];
+}
+
+/**
+ * An investment offer from a swarm agent
+ */
+export interface SwarmRunOffer {
+  agentId: string;
+  agentType: string;
+  interested: boolean;
+  amount: number | null;
+  equity: number | null;
+  dealStructure: string;
+  confidence: number | null;
+  terms?: string;
+  conditions?: string[];
+  expectedReturn?: string;
+  timeHorizon?: string;
+  reasoning?: string;
+}
+
+/**
+ * A stored evaluation-swarm run
+ */
+export interface SwarmRunDetail {
+  id: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  startedAt: string;
+  completedAt: string | null;
+  executionTimeMs: number | null;
+  allowSubAgents: boolean;
+  /** Null for runs stored before spawn policies */
+  policy: SpawnPolicy | null;
+  skippedSpawns: SkippedSpawn[];
+  strategy: string | null;
+  overallVerdict: 'accept' | 'reject' | 'needs_revision' | null;
+  confidenceScore: number | null;
+  consensus: {
+    topStrengths: string[];
+    topWeaknesses: string[];
+    criticalIssues: string[];
+    /** Empty / null for runs stored before weighted consensus */
+    vetoes: ConsensusVeto[];
+    dissent: DissentReport | null;
+  } | null;
+  error: string | null;
+  totalAgents: number;
+  agents: SwarmAgentNode[];
+  offers: SwarmRunOffer[];
+}
+
+/**
+ * A council member's final vote in a stored debate
+ */
+export interface CouncilVoteDetail {
+  agentId: string;
+  agentName: string;
+  role: string;
+  avatar: string;
+  position: DebatePosition | null;
+  sentiment: number;
+}
+
+/**
+ * A stored Live AI Council debate
+ */
+export interface CouncilDebateDetail {
+  id: string;
+  companyName: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  /** The founder answered the council's questions */
+  interactive: boolean;
+  startedAt: string;
+  completedAt: string | null;
+  decision: DebateDecision | null;
+  confidence: number | null;
+  transcript: DebateMessage[];
+  votes: CouncilVoteDetail[];
+  offers: DebateOffer[];
+  /** Null for debates stored before weighted consensus */
+  consensus: ConsensusResult | null;
+  error: string | null;
+}